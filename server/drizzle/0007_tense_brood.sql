@@ -0,0 +1,2 @@
+ALTER TABLE `orders` ADD `raw_hash` text;--> statement-breakpoint
+ALTER TABLE `orders` ADD `changed_after_print` integer DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `orders` ADD `source` text DEFAULT 'default' NOT NULL;
\ No newline at end of file
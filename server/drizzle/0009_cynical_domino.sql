@@ -0,0 +1,19 @@
+CREATE TABLE `sync_runs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`trigger` text DEFAULT 'manual' NOT NULL,
+	`sources` text NOT NULL,
+	`status` text DEFAULT 'running' NOT NULL,
+	`added` integer DEFAULT 0 NOT NULL,
+	`duplicates` integer DEFAULT 0 NOT NULL,
+	`updated` integer DEFAULT 0 NOT NULL,
+	`archived` integer DEFAULT 0 NOT NULL,
+	`restored` integer DEFAULT 0 NOT NULL,
+	`deleted` integer DEFAULT 0 NOT NULL,
+	`skipped` integer DEFAULT 0 NOT NULL,
+	`total_parsed` integer DEFAULT 0 NOT NULL,
+	`error_message` text,
+	`source_results` text,
+	`skipped_records` text,
+	`started_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`finished_at` text
+);
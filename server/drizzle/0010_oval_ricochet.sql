@@ -0,0 +1,11 @@
+CREATE TABLE `mapping_profiles` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`record_path` text,
+	`fields` text NOT NULL,
+	`is_default` integer DEFAULT false NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `mapping_profiles_name_unique` ON `mapping_profiles` (`name`);
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TABLE `order_items` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`order_id` text NOT NULL,
+	`item_key` text NOT NULL,
+	`position` integer DEFAULT 1 NOT NULL,
+	`sku` text,
+	`quantity` integer DEFAULT 1 NOT NULL,
+	`custom_field` text,
+	`raw` text NOT NULL,
+	`raw_hash` text,
+	`fronte_status` text DEFAULT 'pending' NOT NULL,
+	`fronte_error_message` text,
+	`fronte_attempt_count` integer DEFAULT 0 NOT NULL,
+	`fronte_processed_at` text,
+	`retro_status` text DEFAULT 'not_required' NOT NULL,
+	`retro_error_message` text,
+	`retro_attempt_count` integer DEFAULT 0 NOT NULL,
+	`retro_processed_at` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`order_id`) REFERENCES `orders`(`order_id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `order_items_order_id_item_key_unique` ON `order_items` (`order_id`,`item_key`);--> statement-breakpoint
+INSERT INTO `order_items` (`order_id`, `item_key`, `position`, `sku`, `quantity`, `custom_field`, `raw`, `raw_hash`, `fronte_status`, `fronte_error_message`, `fronte_attempt_count`, `fronte_processed_at`, `retro_status`, `retro_error_message`, `retro_attempt_count`, `retro_processed_at`)
+SELECT `order_id`, '1', 1, `sku`, 1, `custom_field`, `raw`, `raw_hash`, `fronte_status`, `fronte_error_message`, `fronte_attempt_count`, `fronte_processed_at`, `retro_status`, `retro_error_message`, `retro_attempt_count`, `retro_processed_at` FROM `orders`;
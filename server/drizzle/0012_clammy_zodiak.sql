@@ -0,0 +1 @@
+ALTER TABLE `order_items` ADD `personalization` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `sync_runs` ADD `adapters` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `orders` ADD `edited_at` text;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE `feed_states` (
+	`source_id` text PRIMARY KEY NOT NULL,
+	`fingerprint` text NOT NULL,
+	`etag` text,
+	`last_modified` text,
+	`file_mtime_ms` real,
+	`file_size` integer,
+	`content_hash` text NOT NULL,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
@@ -0,0 +1 @@
+ALTER TABLE `sync_runs` ADD `warnings` text;
\ No newline at end of file
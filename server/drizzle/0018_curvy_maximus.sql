@@ -0,0 +1,7 @@
+CREATE TABLE `extraction_rules` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`sku_pattern` text DEFAULT '' NOT NULL,
+	`kind` text NOT NULL,
+	`pattern` text NOT NULL,
+	`priority` integer DEFAULT 0 NOT NULL
+);
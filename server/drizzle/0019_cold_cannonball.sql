@@ -0,0 +1,2 @@
+ALTER TABLE `order_items` ADD `fronte_changed_after_print` integer DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `order_items` ADD `retro_changed_after_print` integer DEFAULT false NOT NULL;
\ No newline at end of file
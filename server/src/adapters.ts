@@ -0,0 +1,135 @@
+import type { FeedFormat } from "./config.js";
+import { FieldRules, normalizeHeader, normalizeRecord, NormalizedRecord, readRecordValue } from "./parser.js";
+
+export const FEED_ADAPTERS = ["amazon", "etsy", "shopify"] as const;
+
+export type FeedAdapterId = (typeof FEED_ADAPTERS)[number];
+
+/**
+ * Built-in mapping for a marketplace's own order export, recognised by its header row.
+ * - `headers`: normalized headers that must all be present.
+ * - `fields`: rules used instead of the default mapping profile.
+ * - `customField`: builds the personalization text when it is spread over several columns.
+ */
+type FeedAdapter = {
+  id: FeedAdapterId;
+  headers: string[];
+  fields: FieldRules;
+  customField?: (record: Record<string, unknown>) => string | undefined;
+};
+
+/**
+ * Columns of the Amazon Seller Central order reports (unshipped/all orders flat files).
+ */
+export const AMAZON_FIELD_RULES: FieldRules = {
+  orderId: { paths: ["order-id"] },
+  orderItemId: { paths: ["order-item-id"] },
+  purchaseDate: { paths: ["purchase-date"] },
+  status: { paths: ["order-status"] },
+  sku: { paths: ["sku"] },
+  quantity: { paths: ["quantity-purchased"] },
+  buyerName: { paths: ["buyer-name", "recipient-name"] },
+  customField: { paths: ["customized-text", "customized-page", "customized-url"] },
+  customization: { paths: ["customization-info", "customization-json"] }
+};
+
+/**
+ * Columns of the Etsy "Sold Order Items" CSV (one row per transaction), also
+ * matching the order-level "Sold Orders" CSV.
+ */
+export const ETSY_FIELD_RULES: FieldRules = {
+  orderId: { paths: ["Order ID"] },
+  orderItemId: { paths: ["Transaction ID"] },
+  purchaseDate: { paths: ["Sale Date"] },
+  status: { paths: ["Order Type"] },
+  sku: { paths: ["SKU"] },
+  quantity: { paths: ["Quantity", "Number of Items"] },
+  buyerName: { paths: ["Ship Name", "Full Name", "Buyer"] },
+  customField: { paths: ["Personalization", "Variations"] }
+};
+
+/**
+ * Columns of the Shopify orders export (one row per line item; order-level
+ * columns are only filled on the first row of each order).
+ */
+export const SHOPIFY_FIELD_RULES: FieldRules = {
+  orderId: { paths: ["Name"] },
+  orderItemId: { paths: ["Lineitem id", "Line: ID"] },
+  purchaseDate: { paths: ["Created at"] },
+  status: { paths: ["Financial Status"] },
+  sku: { paths: ["Lineitem sku"] },
+  quantity: { paths: ["Lineitem quantity"] },
+  buyerName: { paths: ["Billing Name", "Shipping Name"] },
+  customField: { paths: ["Lineitem properties", "Line: Properties"] }
+};
+
+const joinValues = (values: string[]) => {
+  const unique = Array.from(new Set(values.filter(Boolean)));
+  return unique.length > 0 ? unique.join(", ") : undefined;
+};
+
+/**
+ * Etsy puts free-text personalization in "Personalization" and the buyer's
+ * choices ("Color:Silver,Personalization:Marco") in "Variations"; keep both.
+ */
+function etsyCustomField(record: Record<string, unknown>) {
+  return joinValues([
+    readRecordValue(record, "Personalization"),
+    readRecordValue(record, "Variations")
+  ]);
+}
+
+/**
+ * Shopify line-item properties come one per line ("Name: Marco"); properties
+ * starting with "_" are hidden app data and are dropped.
+ */
+function shopifyCustomField(record: Record<string, unknown>) {
+  const properties = readRecordValue(record, "Lineitem properties") || readRecordValue(record, "Line: Properties");
+
+  return joinValues(
+    properties
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => !line.startsWith("_"))
+  );
+}
+
+const ADAPTERS: FeedAdapter[] = [
+  { id: "amazon", headers: ["orderid", "orderitemid", "quantitypurchased"], fields: AMAZON_FIELD_RULES },
+  { id: "etsy", headers: ["orderid", "saledate", "transactionid"], fields: ETSY_FIELD_RULES, customField: etsyCustomField },
+  { id: "etsy", headers: ["orderid", "saledate", "buyeruserid"], fields: ETSY_FIELD_RULES, customField: etsyCustomField },
+  { id: "shopify", headers: ["name", "lineitemname", "lineitemquantity"], fields: SHOPIFY_FIELD_RULES, customField: shopifyCustomField }
+];
+
+/**
+ * Find the adapter for a feed: Amazon order reports always use the Amazon
+ * columns, CSV feeds the adapter whose header set the records have.
+ * @param records - Parsed rows (the first row's headers are checked)
+ * @param format - The feed's resolved format
+ * @returns The adapter, or undefined for a feed with its own layout
+ */
+export function detectFeedAdapter(
+  records: Record<string, unknown>[],
+  format: Exclude<FeedFormat, "auto">
+): FeedAdapter | undefined {
+  if (format === "amazon") {
+    return ADAPTERS[0];
+  }
+  if (format !== "csv" || records.length === 0) {
+    return undefined;
+  }
+
+  const headers = new Set(Object.keys(records[0]).map(normalizeHeader));
+  return ADAPTERS.find((adapter) => adapter.headers.every((header) => headers.has(header)));
+}
+
+/**
+ * Normalize a record with an adapter's rules and personalization extractor.
+ * The extractor's result replaces the mapped column even when empty (e.g. only
+ * hidden Shopify properties).
+ */
+export function normalizeWithAdapter(record: Record<string, unknown>, adapter: FeedAdapter): NormalizedRecord {
+  const normalized = normalizeRecord(record, adapter.fields);
+
+  return adapter.customField ? { ...normalized, customField: adapter.customField(record) } : normalized;
+}
@@ -1,6 +1,7 @@
 import path from 'node:path';
 import os from 'node:os';
 import { execSync } from 'node:child_process';
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
 import { fileURLToPath } from 'node:url';
 import fs from 'fs-extra';
 import Conf from 'conf';
@@ -212,6 +213,12 @@ export const paths = {
    */
   assets: path.join(documentsPath, 'assets'),
   
+  /**
+   * Key encrypting the secrets kept in config.json (in AppData, never synced or exported)
+   * Example: C:\Users\Name\AppData\Roaming\VictoriaLaserApp\secret.key
+   */
+  secretKey: path.join(userDataPath, 'secret.key'),
+
   /**
    * Temporary files directory (in system temp)
    * Example: C:\Users\Name\AppData\Local\Temp\VictoriaLaserApp
@@ -223,24 +230,182 @@ export const paths = {
 // Configuration Store Initialization
 // ─────────────────────────────────────────────────────────────────────────────
 
+/**
+ * Feed formats. 'auto' detects from content type, file extension, the zip
+ * signature of Excel workbooks and, for Amazon Seller Central order reports
+ * (tab-separated), the header row.
+ */
+export type FeedFormat = 'auto' | 'csv' | 'json' | 'xml' | 'amazon' | 'xlsx';
+
+/** CSV column separator; 'auto' sniffs it from the first lines */
+export type FeedDelimiter = 'auto' | ',' | ';' | '\t' | '|';
+
+/** Feed charset; 'auto' uses the BOM or HTTP charset, else UTF-8 if the bytes are valid UTF-8, else Windows-1252 */
+export type FeedEncoding = 'auto' | 'utf-8' | 'windows-1252';
+
+/**
+ * @deprecated Per-feed field mapping, replaced by mapping profiles.
+ * Maps NormalizedRecord fields to a column header (CSV) or dotted path (JSON/XML).
+ */
+export interface FeedFieldMapping {
+  orderId?: string;
+  purchaseDate?: string;
+  customField?: string;
+  sku?: string;
+  buyerName?: string;
+}
+
+/**
+ * How HTTP requests to a feed authenticate.
+ * - `basic`: `username` + `secret` as the password
+ * - `bearer`: `secret` as the token (`Authorization: Bearer ...`)
+ * - `header`: `secret` sent in the `headerName` header (API keys)
+ */
+export type FeedAuthMode = 'none' | 'basic' | 'bearer' | 'header';
+
+export interface FeedAuth {
+  mode: FeedAuthMode;
+  username?: string;
+  headerName?: string;
+  /** Password, token or API key. Encrypted in config.json, never returned by GET /config */
+  secret?: string;
+}
+
+/**
+ * Extra request header sent with every HTTP fetch of a feed
+ */
+export interface FeedHeader {
+  name: string;
+  value: string;
+}
+
+/**
+ * A named order feed (one per sales channel).
+ * The id is stamped on every imported order as its `source`.
+ */
+export interface FeedSource {
+  id: string;
+  name: string;
+  url: string;
+  format: FeedFormat;
+  /** Column separator of CSV feeds; missing means 'auto' */
+  delimiter?: FeedDelimiter;
+  /** Charset of the feed; missing means 'auto' */
+  encoding?: FeedEncoding;
+  /** Worksheet of an Excel feed: its name, or its 1-based position; missing means the first sheet */
+  sheet?: string | number;
+  /** 1-based row of an Excel feed's worksheet holding the column headers; missing means 1 */
+  headerRow?: number;
+  /** Mapping profile (mapping_profiles.id); null uses the default profile */
+  mappingProfileId?: number | null;
+  /** Folder with extracted Amazon Custom files (<order-item-id>.json or <order-id>.json) */
+  customizationPath?: string | null;
+  /** Authentication for HTTP feeds; missing means none */
+  auth?: FeedAuth;
+  /** Extra request headers for HTTP feeds */
+  headers?: FeedHeader[];
+  /** @deprecated Moved into a mapping profile on startup; only read for migration */
+  recordPath?: string;
+  /** @deprecated Moved into a mapping profile on startup; only read for migration */
+  fieldMapping?: FeedFieldMapping;
+  enabled: boolean;
+}
+
+/**
+ * Source id given to the feed migrated from the old single `feedUrl` setting.
+ * Matches the `orders.source` column default so existing orders stay attached to it.
+ */
+export const DEFAULT_FEED_SOURCE_ID = 'default';
+
+/**
+ * Source stamped on orders received through the order webhook.
+ * Reserved: a feed with this id would archive them on sync.
+ */
+export const WEBHOOK_SOURCE_ID = 'webhook';
+
+/**
+ * Source stamped on orders entered by hand (phone, in-store, replacements).
+ * Reserved for the same reason.
+ */
+export const MANUAL_SOURCE_ID = 'manual';
+
+/**
+ * Source stamped on orders imported from an uploaded file without choosing a feed.
+ * Reserved for the same reason.
+ */
+export const UPLOAD_SOURCE_ID = 'upload';
+
+/**
+ * Source stamped on orders imported from the hot folder (`watchFolder`).
+ * Reserved for the same reason.
+ */
+export const HOT_FOLDER_SOURCE_ID = 'hotfolder';
+
+const RESERVED_SOURCE_IDS = [WEBHOOK_SOURCE_ID, MANUAL_SOURCE_ID, UPLOAD_SOURCE_ID, HOT_FOLDER_SOURCE_ID];
+
+/**
+ * Daily window (local time, "HH:MM") during which scheduled syncs are skipped.
+ * `start` may be later than `end` to span midnight (e.g. 22:00 → 07:00).
+ */
+export interface QuietHours {
+  start: string;
+  end: string;
+}
+
+/**
+ * Personalization keys (name, color, image, ...) with the labels that introduce
+ * them in free-text personalization ("Nome: Marco"), matched case-insensitively.
+ * Keys are lowercase identifiers; a label belongs to one key only.
+ */
+export type PersonalizationKeys = Record<string, string[]>;
+
+export const DEFAULT_PERSONALIZATION_KEYS: PersonalizationKeys = {
+  name: ['Name', 'Nome', 'Engrave', 'Engraving', 'Incisione', 'Personalization', 'Personalizzazione'],
+  color: ['Color', 'Colour', 'Colore'],
+  image: ['Image', 'Immagine', 'Design', 'Disegno'],
+  font: ['Font', 'Carattere'],
+  phone: ['Phone', 'Telefono', 'Tel', 'Cellulare']
+};
+
 /**
  * Type-safe configuration schema
  */
 interface ConfigSchema {
+  /** @deprecated Replaced by feedSources; only read for migration */
   feedUrl: string;
+  feedSources: FeedSource[];
   templatesPath: string | null;
+  archiveRetentionDays: number;
+  syncIntervalMinutes: number;
+  quietHours: QuietHours | null;
+  /** Shared secret for the order webhook signature; null disables the webhook */
+  webhookSecret: string | null;
+  /** Hot folder whose dropped order files are imported automatically; null disables it */
+  watchFolder: string | null;
+  /** Labels recognised when personalization text is parsed into keys at sync time */
+  personalizationKeys: PersonalizationKeys;
 }
 
 /**
  * Persistent configuration store using the `conf` library.
- * Stores settings like feedUrl in a JSON file in the user data directory.
+ * Stores settings like feedSources in a JSON file in the user data directory.
  * 
  * Initialized AFTER paths are resolved to ensure proper cross-environment support.
  */
 const store = new Conf<ConfigSchema>({
   cwd: paths.userData,
   configName: 'config',
-  defaults: { feedUrl: '', templatesPath: null }
+  defaults: {
+    feedUrl: '',
+    feedSources: [],
+    templatesPath: null,
+    archiveRetentionDays: 90,
+    syncIntervalMinutes: 15,
+    quietHours: null,
+    webhookSecret: null,
+    watchFolder: null,
+    personalizationKeys: DEFAULT_PERSONALIZATION_KEYS
+  }
 });
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -463,24 +628,237 @@ function migrateFromEnv(): void {
 // Run migration on module load
 migrateFromEnv();
 
+/**
+ * Converts the legacy single `feedUrl` into the first entry of `feedSources`.
+ * XML paths from the XML_RECORD_PATH / XML_FIELD_* env vars are carried over
+ * into the source's mapping. Runs once: only when no sources exist yet.
+ */
+function migrateFeedUrlToSources(): void {
+  const legacyFeedUrl = store.get('feedUrl');
+  const feedSources = store.get('feedSources');
+
+  if (!legacyFeedUrl || feedSources.length > 0) {
+    return;
+  }
+
+  const fieldMapping: FeedFieldMapping = {};
+  if (process.env.XML_FIELD_ORDER_ID) fieldMapping.orderId = process.env.XML_FIELD_ORDER_ID;
+  if (process.env.XML_FIELD_SKU) fieldMapping.sku = process.env.XML_FIELD_SKU;
+  if (process.env.XML_FIELD_CUSTOM_FIELD) fieldMapping.customField = process.env.XML_FIELD_CUSTOM_FIELD;
+  if (process.env.XML_FIELD_BUYER_NAME) fieldMapping.buyerName = process.env.XML_FIELD_BUYER_NAME;
+
+  store.set('feedSources', [
+    {
+      id: DEFAULT_FEED_SOURCE_ID,
+      name: 'Default',
+      url: legacyFeedUrl,
+      format: 'auto',
+      recordPath: process.env.XML_RECORD_PATH || undefined,
+      fieldMapping,
+      enabled: true
+    }
+  ]);
+  console.log('[config] Migrated feedUrl to feed source "default"');
+}
+
+migrateFeedUrlToSources();
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Secrets at Rest
+// ─────────────────────────────────────────────────────────────────────────────
+
+// RFC 7230 token: what an HTTP header name may contain
+const HEADER_NAME_PATTERN = /^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/;
+const ENCRYPTED_PREFIX = 'enc:v1:';
+
+let secretKey: Buffer | null = null;
+
+/**
+ * Loads the AES-256 key for config secrets, creating it (readable by the
+ * current user only) on first use.
+ */
+function getSecretKey(): Buffer {
+  if (!secretKey) {
+    if (!fs.existsSync(paths.secretKey)) {
+      fs.writeFileSync(paths.secretKey, randomBytes(32).toString('base64'), { mode: 0o600 });
+      console.log(`[config] Created secrets key: ${paths.secretKey}`);
+    }
+    secretKey = Buffer.from(fs.readFileSync(paths.secretKey, 'utf8').trim(), 'base64');
+  }
+  return secretKey;
+}
+
+/**
+ * Encrypts a secret for config.json (AES-256-GCM, "enc:v1:<iv>:<tag>:<data>")
+ */
+function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getSecretKey(), iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return `${ENCRYPTED_PREFIX}${[iv, cipher.getAuthTag(), data].map((part) => part.toString('base64')).join(':')}`;
+}
+
+/**
+ * Decrypts a secret from config.json. A secret that can't be decrypted (key
+ * file replaced or lost) is dropped, so the feed fails with an auth error
+ * until it is entered again.
+ */
+function decryptSecret(stored: string, sourceId: string): string | undefined {
+  if (!stored.startsWith(ENCRYPTED_PREFIX)) {
+    // Hand-edited config.json: used as is, encrypted on the next save
+    return stored;
+  }
+
+  try {
+    const [iv, tag, data] = stored.slice(ENCRYPTED_PREFIX.length).split(':').map((part) => Buffer.from(part, 'base64'));
+    const decipher = createDecipheriv('aes-256-gcm', getSecretKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8');
+  } catch {
+    console.warn(`[config] Warning: Could not decrypt the credentials of feed "${sourceId}". Enter them again in Settings.`);
+    return undefined;
+  }
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Configuration API
 // ─────────────────────────────────────────────────────────────────────────────
 
 /**
- * Gets the stored feed URL.
- * @returns The feed URL from persistent storage
+ * Gets the configured feed sources.
+ * @returns All feed sources, including disabled ones
+ */
+export function getFeedSources(): FeedSource[] {
+  return store.get('feedSources').map((source) =>
+    source.auth?.secret ? { ...source, auth: { ...source.auth, secret: decryptSecret(source.auth.secret, source.id) } } : source
+  );
+}
+
+/**
+ * Whether two feed URLs point at the same server (scheme, host and port), so a
+ * secret stored for one may be sent to the other. URLs without a server (file
+ * paths, other schemes) never match.
+ */
+export function sameFeedOrigin(url: string, storedUrl: string): boolean {
+  try {
+    const { origin } = new URL(url.trim());
+    return origin !== 'null' && origin === new URL(storedUrl.trim()).origin;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Saves the feed sources to persistent storage, with auth secrets encrypted.
+ * A source whose auth has no `secret` keeps the one already stored for its id,
+ * as long as its URL still points at the same server.
+ * @param sources The complete list of feed sources
+ * @throws Error if a source id is not a slug or appears more than once,
+ *   or its auth or headers are incomplete
+ */
+export function setFeedSources(sources: FeedSource[]): void {
+  const seenIds = new Set<string>();
+
+  for (const source of sources) {
+    if (!/^[a-z0-9][a-z0-9_-]*$/.test(source.id)) {
+      throw new Error(`Invalid feed source id "${source.id}". Use lowercase letters, digits, "-" or "_".`);
+    }
+    if (RESERVED_SOURCE_IDS.includes(source.id)) {
+      throw new Error(`Feed source id "${source.id}" is reserved for orders that don't come from a feed.`);
+    }
+    if (seenIds.has(source.id)) {
+      throw new Error(`Duplicate feed source id "${source.id}".`);
+    }
+    seenIds.add(source.id);
+  }
+
+  const storedSources = new Map(store.get('feedSources').map((source) => [source.id, source]));
+  const sourcesToStore = sources.map((source) => {
+    const auth = source.auth?.mode && source.auth.mode !== 'none' ? source.auth : undefined;
+    const headers = source.headers
+      ?.map((header) => ({ name: header.name.trim(), value: header.value.trim() }))
+      .filter((header) => header.name !== '');
+    const { auth: _auth, headers: _headers, ...rest } = source;
+
+    const headerNames = (headers ?? []).map((header) => header.name);
+    if (auth?.mode === 'header') {
+      headerNames.push(auth.headerName?.trim() ?? '');
+    }
+    const invalidName = headerNames.find((name) => !HEADER_NAME_PATTERN.test(name));
+    if (invalidName !== undefined) {
+      throw new Error(`Feed "${source.name}": invalid header name "${invalidName}".`);
+    }
+
+    if (!auth) {
+      return { ...rest, ...(headers?.length ? { headers } : {}) };
+    }
+
+    // Kept encrypted as stored when the UI sends the source back without its secret,
+    // unless its URL now points at another server
+    const storedSource = storedSources.get(source.id);
+    const storedSecret = storedSource && sameFeedOrigin(source.url, storedSource.url) ? storedSource.auth?.secret : undefined;
+    const secret = auth.secret ? encryptSecret(auth.secret) : storedSecret;
+    if (!secret) {
+      throw new Error(`Feed "${source.name}": ${auth.mode === 'basic' ? 'password' : auth.mode === 'bearer' ? 'token' : 'header value'} is required.`);
+    }
+    if (auth.mode === 'basic' && !auth.username?.trim()) {
+      throw new Error(`Feed "${source.name}": username is required for basic authentication.`);
+    }
+
+    return {
+      ...rest,
+      auth: {
+        mode: auth.mode,
+        ...(auth.mode === 'basic' ? { username: auth.username?.trim() } : {}),
+        ...(auth.mode === 'header' ? { headerName: auth.headerName?.trim() } : {}),
+        secret
+      },
+      ...(headers?.length ? { headers } : {})
+    };
+  });
+
+  store.set('feedSources', sourcesToStore);
+  console.log(`[config] Feed sources saved: ${sources.map((source) => source.id).join(', ') || '(none)'}`);
+}
+
+/**
+ * A feed source as returned by GET /config: the auth secret is replaced by
+ * whether one is stored.
+ */
+export type MaskedFeedSource = Omit<FeedSource, 'auth'> & {
+  auth?: Omit<FeedAuth, 'secret'> & { secretSet: boolean };
+};
+
+/**
+ * Hides a feed source's auth secret for API responses.
+ * @param source A feed source from getFeedSources()
+ * @returns The source without its secret
  */
-export function getFeedUrl(): string {
-  return store.get('feedUrl');
+export function maskFeedSource(source: FeedSource): MaskedFeedSource {
+  if (!source.auth) {
+    return source as MaskedFeedSource;
+  }
+
+  const { secret, ...auth } = source.auth;
+  return { ...source, auth: { ...auth, secretSet: Boolean(secret) } };
 }
 
 /**
- * Saves the feed URL to persistent storage.
- * @param url The feed URL to save
+ * Fills in the stored secret of a feed sent back by the UI without one
+ * (previews and connection tests of a saved feed). The secret is only reused
+ * for the saved feed's own server: a different URL must come with its secret.
+ * @param source The feed as sent by the client
+ * @returns The feed with its stored secret, if it has none of its own
  */
-export function setFeedUrl(url: string): void {
-  store.set('feedUrl', url);
+export function withStoredSecret<T extends Pick<FeedSource, 'id' | 'url' | 'auth'>>(source: T): T {
+  if (!source.auth || source.auth.mode === 'none' || source.auth.secret) {
+    return source;
+  }
+
+  const stored = getFeedSources().find((candidate) => candidate.id === source.id);
+  const storedSecret = stored && sameFeedOrigin(source.url, stored.url) ? stored.auth?.secret : undefined;
+  return storedSecret ? { ...source, auth: { ...source.auth, secret: storedSecret } } : source;
 }
 
 /**
@@ -504,6 +882,26 @@ export function getTemplatesPath(): string {
  * @throws Error if path doesn't exist or is not a directory
  */
 export function setTemplatesPath(inputPath: string | null | undefined): void {
+  const finalPath = resolveDirectoryInput(inputPath);
+
+  if (finalPath === null) {
+    store.set('templatesPath', null);
+    console.log('[config] Templates path reset to default');
+    return;
+  }
+
+  store.set('templatesPath', finalPath);
+  console.log(`[config] Templates path set to: ${finalPath}`);
+}
+
+/**
+ * Pre-processes and validates a directory typed in Settings.
+ * Handles Windows-to-WSL path conversion and quote stripping.
+ * @param inputPath The directory as entered
+ * @returns The directory to store, or null if the input is empty
+ * @throws Error if path doesn't exist or is not a directory
+ */
+function resolveDirectoryInput(inputPath: string | null | undefined): string | null {
   // ==================== PHASE 1: PRE-PROCESSING ====================
   
   // Normalize input: treat null/undefined as empty string
@@ -515,11 +913,9 @@ export function setTemplatesPath(inputPath: string | null | undefined): void {
   // Strip surrounding quotes (both single and double)
   processedPath = processedPath.replace(/^["']|["']$/g, '');
   
-  // Empty check: if empty string, reset to default (null)
+  // Empty check: nothing to validate
   if (processedPath === '') {
-    store.set('templatesPath', null);
-    console.log('[config] Templates path reset to default');
-    return;
+    return null;
   }
   
   // ==================== PHASE 2: WSL PATH CONVERSION (Linux Only) ====================
@@ -559,10 +955,158 @@ export function setTemplatesPath(inputPath: string | null | undefined): void {
     throw new Error(`Directory not found or invalid: ${finalPath}. Please check the path.`);
   }
   
-  // ==================== PHASE 4: SAVE & LOG ====================
-  
-  store.set('templatesPath', finalPath);
-  console.log(`[config] Templates path set to: ${finalPath}`);
+  return finalPath;
+}
+
+/**
+ * Gets the archive retention period.
+ * Archived orders older than this are purged during sync. 0 keeps them forever.
+ * @returns Retention period in days
+ */
+export function getArchiveRetentionDays(): number {
+  return store.get('archiveRetentionDays');
+}
+
+/**
+ * Sets the archive retention period.
+ * @param days Retention period in days (0 = never purge)
+ * @throws Error if days is negative or not an integer
+ */
+export function setArchiveRetentionDays(days: number): void {
+  if (!Number.isInteger(days) || days < 0) {
+    throw new Error(`Invalid archive retention: ${days}. Must be a whole number of days (0 = keep forever).`);
+  }
+  store.set('archiveRetentionDays', days);
+  console.log(`[config] Archive retention set to: ${days} day(s)`);
+}
+
+/**
+ * Gets the background sync interval.
+ * @returns Interval in minutes (0 = scheduled sync disabled)
+ */
+export function getSyncIntervalMinutes(): number {
+  return store.get('syncIntervalMinutes');
+}
+
+/**
+ * Sets the background sync interval.
+ * @param minutes Interval in minutes (0 = disabled)
+ * @throws Error if minutes is negative or not an integer
+ */
+export function setSyncIntervalMinutes(minutes: number): void {
+  if (!Number.isInteger(minutes) || minutes < 0) {
+    throw new Error(`Invalid sync interval: ${minutes}. Must be a whole number of minutes (0 = disabled).`);
+  }
+  store.set('syncIntervalMinutes', minutes);
+  console.log(`[config] Sync interval set to: ${minutes} minute(s)`);
+}
+
+/**
+ * Gets the quiet hours window for scheduled syncs.
+ * @returns Quiet hours, or null if scheduled syncs run around the clock
+ */
+export function getQuietHours(): QuietHours | null {
+  return store.get('quietHours');
+}
+
+/**
+ * Sets the quiet hours window for scheduled syncs.
+ * @param quietHours Window in local "HH:MM" time, or null to disable
+ * @throws Error if a time is not a valid HH:MM value
+ */
+export function setQuietHours(quietHours: QuietHours | null): void {
+  if (quietHours) {
+    for (const time of [quietHours.start, quietHours.end]) {
+      if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(time)) {
+        throw new Error(`Invalid quiet hours time: "${time}". Use 24-hour HH:MM format.`);
+      }
+    }
+  }
+  store.set('quietHours', quietHours);
+  console.log(`[config] Quiet hours set to: ${quietHours ? `${quietHours.start}-${quietHours.end}` : 'none'}`);
+}
+
+/**
+ * Gets the order webhook secret.
+ * @returns The shared secret, or null if the webhook is disabled
+ */
+export function getWebhookSecret(): string | null {
+  return store.get('webhookSecret');
+}
+
+/**
+ * Sets the order webhook secret.
+ * @param secret Shared secret (at least 16 characters), or null to disable the webhook
+ * @throws Error if the secret is too short
+ */
+export function setWebhookSecret(secret: string | null): void {
+  if (secret !== null && secret.length < 16) {
+    throw new Error('Webhook secret must be at least 16 characters.');
+  }
+  store.set('webhookSecret', secret);
+  console.log(`[config] Webhook secret ${secret ? 'updated' : 'cleared (webhook disabled)'}`);
+}
+
+/**
+ * Gets the hot folder watched for dropped order files.
+ * @returns The directory, or null if the hot folder is disabled
+ */
+export function getWatchFolder(): string | null {
+  return store.get('watchFolder');
+}
+
+/**
+ * Sets the hot folder watched for dropped order files.
+ * Same path handling and validation as the templates path.
+ * @param inputPath The directory to watch (null/empty to disable)
+ * @throws Error if path doesn't exist or is not a directory
+ */
+export function setWatchFolder(inputPath: string | null | undefined): void {
+  const finalPath = resolveDirectoryInput(inputPath);
+  store.set('watchFolder', finalPath);
+  console.log(`[config] Watch folder ${finalPath ? `set to: ${finalPath}` : 'cleared (hot folder disabled)'}`);
+}
+
+/**
+ * Gets the personalization keys and their labels.
+ * @returns Labels by key (defaults: name, color, image, font, phone)
+ */
+export function getPersonalizationKeys(): PersonalizationKeys {
+  return store.get('personalizationKeys');
+}
+
+/**
+ * Sets the personalization keys and their labels. Labels are trimmed and
+ * de-duplicated; keys without labels are dropped.
+ * @param keys Labels by key
+ * @throws Error if a key is not a lowercase identifier or a label is used by two keys
+ */
+export function setPersonalizationKeys(keys: PersonalizationKeys): void {
+  const normalized: PersonalizationKeys = {};
+  const owners = new Map<string, string>();
+
+  for (const [rawKey, rawLabels] of Object.entries(keys)) {
+    const key = rawKey.trim();
+    if (!/^[a-z][a-z0-9_]*$/.test(key)) {
+      throw new Error(`Personalization key "${rawKey}" must be lowercase letters, digits or "_" (e.g. name, color).`);
+    }
+
+    const labels = Array.from(new Set(rawLabels.map((label) => label.trim()).filter(Boolean)));
+    for (const label of labels) {
+      const owner = owners.get(label.toLowerCase());
+      if (owner && owner !== key) {
+        throw new Error(`Label "${label}" is used by both "${owner}" and "${key}".`);
+      }
+      owners.set(label.toLowerCase(), key);
+    }
+
+    if (labels.length > 0) {
+      normalized[key] = labels;
+    }
+  }
+
+  store.set('personalizationKeys', normalized);
+  console.log(`[config] Personalization keys set: ${Object.keys(normalized).join(', ') || '(none)'}`);
 }
 
 /**
@@ -583,10 +1127,25 @@ export function getConfig(): ConfigSchema {
  */
 export const config = {
   paths,
-  getFeedUrl,
-  setFeedUrl,
+  getFeedSources,
+  setFeedSources,
+  maskFeedSource,
+  sameFeedOrigin,
+  withStoredSecret,
   getTemplatesPath,
   setTemplatesPath,
+  getArchiveRetentionDays,
+  setArchiveRetentionDays,
+  getSyncIntervalMinutes,
+  setSyncIntervalMinutes,
+  getQuietHours,
+  setQuietHours,
+  getWebhookSecret,
+  setWebhookSecret,
+  getWatchFolder,
+  setWatchFolder,
+  getPersonalizationKeys,
+  setPersonalizationKeys,
   getConfig,
 };
 
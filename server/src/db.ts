@@ -6,5 +6,7 @@ import { config } from "./config.js";
 const dbPath = config.paths.db;
 
 const sqlite = new Database(dbPath);
+// Order items are deleted together with their order (ON DELETE CASCADE)
+sqlite.pragma("foreign_keys = ON");
 
 export const db = drizzle(sqlite);
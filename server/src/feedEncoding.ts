@@ -0,0 +1,161 @@
+import type { FeedDelimiter, FeedEncoding } from "./config.js";
+
+// Separators tried when a CSV feed's delimiter is 'auto'; the first wins a tie
+export const CSV_DELIMITERS = [",", ";", "\t", "|"] as const;
+
+export type CsvDelimiter = (typeof CSV_DELIMITERS)[number];
+
+export type ResolvedEncoding = "utf-8" | "utf-16le" | "utf-16be" | "windows-1252";
+
+// Lines of the sample compared when sniffing the delimiter
+const SNIFF_LINES = 10;
+
+// Shown in text decoded with the wrong charset, or already broken by the exporting system
+const REPLACEMENT_CHAR = "\uFFFD";
+
+/**
+ * Charset named by a Content-Type header, if it is one feeds are decoded with
+ */
+function charsetFromContentType(contentType: string | null): ResolvedEncoding | null {
+  const charset = contentType?.match(/charset=["']?([\w-]+)/i)?.[1].toLowerCase();
+  if (charset === "utf-8" || charset === "utf8") {
+    return "utf-8";
+  }
+  if (charset === "windows-1252" || charset === "cp1252" || charset === "iso-8859-1" || charset === "latin1") {
+    return "windows-1252";
+  }
+  return null;
+}
+
+function encodingFromBom(bytes: Uint8Array): ResolvedEncoding | null {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return "utf-8";
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return "utf-16le";
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return "utf-16be";
+  }
+  return null;
+}
+
+/**
+ * Whether the bytes are valid UTF-8. A sequence cut off at the end of a sample is allowed.
+ */
+function isValidUtf8(bytes: Uint8Array, complete: boolean): boolean {
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes, { stream: !complete });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Charset of a feed: the configured one, else its byte order mark, else the
+ * HTTP charset, else UTF-8 when the bytes are valid UTF-8 and Windows-1252
+ * (what Excel writes on Italian Windows) when they aren't.
+ * @param bytes - The whole feed, or its first bytes
+ * @param complete - Whether `bytes` is the whole feed
+ * @param configured - The feed's `encoding` setting
+ * @param contentType - Content-Type of an HTTP feed
+ * @returns The charset, and whether it was guessed from the content (only then
+ *   may a later invalid byte switch it to Windows-1252)
+ */
+export function detectEncoding(
+  bytes: Uint8Array,
+  complete: boolean,
+  configured: FeedEncoding | undefined,
+  contentType: string | null = null
+): { encoding: ResolvedEncoding; guessed: boolean } {
+  if (configured && configured !== "auto") {
+    return { encoding: configured, guessed: false };
+  }
+
+  const declared = encodingFromBom(bytes) ?? charsetFromContentType(contentType);
+  if (declared) {
+    return { encoding: declared, guessed: false };
+  }
+
+  return { encoding: isValidUtf8(bytes, complete) ? "utf-8" : "windows-1252", guessed: true };
+}
+
+/**
+ * Decoder for a feed charset. The byte order mark is stripped. A fatal decoder
+ * throws on bytes that aren't valid in the charset instead of writing "�".
+ */
+export function createFeedDecoder(encoding: ResolvedEncoding, fatal = false): TextDecoder {
+  return new TextDecoder(encoding, { fatal });
+}
+
+/**
+ * Whether a decode error comes from bytes invalid in the decoder's charset
+ */
+export const isDecodeError = (error: unknown) =>
+  error instanceof TypeError && (error as NodeJS.ErrnoException).code === "ERR_ENCODING_INVALID_ENCODED_DATA";
+
+/**
+ * Count a delimiter in one line, ignoring separators inside double quotes
+ */
+function countOutsideQuotes(line: string, delimiter: string): number {
+  let count = 0;
+  let quoted = false;
+
+  for (const char of line) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (char === delimiter && !quoted) {
+      count += 1;
+    }
+  }
+
+  return count;
+}
+
+/**
+ * Delimiter of a CSV feed: the configured one, else the candidate that splits
+ * the header row and keeps the same column count on the most of the following
+ * lines (then the one giving the most columns).
+ * @param sample - The start of the feed, decoded
+ * @param configured - The feed's `delimiter` setting
+ */
+export function resolveDelimiter(sample: string, configured: FeedDelimiter | undefined): CsvDelimiter {
+  if (configured && configured !== "auto") {
+    return configured;
+  }
+
+  // The last line of a sample may be cut off
+  const lines = sample
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .slice(0, SNIFF_LINES + 1)
+    .filter((line) => line.trim() !== "");
+  const sampledLines = lines.length > 1 ? lines.slice(0, -1) : lines;
+  let best: { delimiter: CsvDelimiter; consistent: number; columns: number } = {
+    delimiter: ",",
+    consistent: 0,
+    columns: 0
+  };
+
+  for (const delimiter of CSV_DELIMITERS) {
+    const counts = sampledLines.map((line) => countOutsideQuotes(line, delimiter));
+    const columns = counts[0] ?? 0;
+    if (columns === 0) {
+      continue;
+    }
+
+    const consistent = counts.filter((count) => count === columns).length;
+    if (consistent > best.consistent || (consistent === best.consistent && columns > best.columns)) {
+      best = { delimiter, consistent, columns };
+    }
+  }
+
+  return best.delimiter;
+}
+
+/**
+ * Whether a decoded value contains the Unicode replacement character
+ */
+export const hasReplacementChar = (value: string | undefined | null) =>
+  Boolean(value && value.includes(REPLACEMENT_CHAR));
@@ -0,0 +1,283 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { config } from "./config.js";
+import { logger, logError } from "./logger.js";
+
+// Font files looked for (anywhere under the assets folder); collections (.ttc) aren't read
+const FONT_EXTENSIONS = new Set([".ttf", ".otf"]);
+
+// Qt font weight from which LightBurn's Font attribute means bold
+const BOLD_WEIGHT = 63;
+
+/**
+ * Horizontal metrics of one font face, in font units
+ */
+export type FontMetrics = {
+  family: string;
+  // e.g. "Regular", "Bold Italic"
+  subfamily: string;
+  unitsPerEm: number;
+  // Height of capital letters; LightBurn's text height (H) is this height
+  capHeight: number;
+  ascender: number;
+  descender: number;
+  lineGap: number;
+  // Advance width of a character; characters the font lacks get the missing-glyph width
+  advance: (codePoint: number) => number;
+};
+
+type CachedFont = { mtimeMs: number; metrics: FontMetrics | null };
+
+// Parsed faces by file path, re-read when the file changes
+const fontCache = new Map<string, CachedFont>();
+
+type Tables = Map<string, { offset: number; length: number }>;
+
+function readTables(view: DataView): Tables {
+  const tables: Tables = new Map();
+  const numTables = view.getUint16(4);
+  for (let index = 0; index < numTables; index++) {
+    const record = 12 + index * 16;
+    const tag = String.fromCharCode(
+      view.getUint8(record),
+      view.getUint8(record + 1),
+      view.getUint8(record + 2),
+      view.getUint8(record + 3)
+    );
+    tables.set(tag, { offset: view.getUint32(record + 8), length: view.getUint32(record + 12) });
+  }
+  return tables;
+}
+
+/**
+ * Family (name ID 1) and subfamily (name ID 2), preferring the Windows Unicode records
+ */
+function readNames(view: DataView, offset: number): { family: string; subfamily: string } {
+  const count = view.getUint16(offset + 2);
+  const storage = offset + view.getUint16(offset + 4);
+  const names: Record<number, { text: string; windows: boolean }> = {};
+
+  for (let index = 0; index < count; index++) {
+    const record = offset + 6 + index * 12;
+    const platformId = view.getUint16(record);
+    const nameId = view.getUint16(record + 6);
+    const length = view.getUint16(record + 8);
+    const start = storage + view.getUint16(record + 10);
+    if ((nameId !== 1 && nameId !== 2) || (platformId !== 3 && platformId !== 1 && platformId !== 0)) {
+      continue;
+    }
+
+    const windows = platformId !== 1;
+    if (names[nameId]?.windows && !windows) {
+      continue;
+    }
+
+    let text = "";
+    if (windows) {
+      for (let char = 0; char + 1 < length; char += 2) {
+        text += String.fromCharCode(view.getUint16(start + char));
+      }
+    } else {
+      for (let char = 0; char < length; char++) {
+        text += String.fromCharCode(view.getUint8(start + char));
+      }
+    }
+    names[nameId] = { text, windows };
+  }
+
+  return { family: names[1]?.text ?? "", subfamily: names[2]?.text ?? "Regular" };
+}
+
+/**
+ * Character → glyph lookup from the cmap table (format 12 for full Unicode, else format 4)
+ */
+function readCharacterMap(view: DataView, offset: number): (codePoint: number) => number {
+  const numTables = view.getUint16(offset + 2);
+  let format4: number | null = null;
+  let format12: number | null = null;
+
+  for (let index = 0; index < numTables; index++) {
+    const record = offset + 4 + index * 8;
+    const platformId = view.getUint16(record);
+    const subtable = offset + view.getUint32(record + 4);
+    if (platformId !== 0 && platformId !== 3) {
+      continue;
+    }
+    const format = view.getUint16(subtable);
+    if (format === 12 && format12 === null) {
+      format12 = subtable;
+    } else if (format === 4 && format4 === null) {
+      format4 = subtable;
+    }
+  }
+
+  if (format12 !== null) {
+    const groups = view.getUint32(format12 + 12);
+    return (codePoint) => {
+      for (let index = 0; index < groups; index++) {
+        const group = format12! + 16 + index * 12;
+        const start = view.getUint32(group);
+        if (codePoint >= start && codePoint <= view.getUint32(group + 4)) {
+          return view.getUint32(group + 8) + codePoint - start;
+        }
+      }
+      return 0;
+    };
+  }
+
+  if (format4 !== null) {
+    const segCount = view.getUint16(format4 + 6) / 2;
+    const endCodes = format4 + 14;
+    const startCodes = endCodes + segCount * 2 + 2;
+    const idDeltas = startCodes + segCount * 2;
+    const idRangeOffsets = idDeltas + segCount * 2;
+    return (codePoint) => {
+      for (let segment = 0; segment < segCount; segment++) {
+        if (codePoint > view.getUint16(endCodes + segment * 2)) {
+          continue;
+        }
+        const start = view.getUint16(startCodes + segment * 2);
+        if (codePoint < start) {
+          return 0;
+        }
+        const delta = view.getInt16(idDeltas + segment * 2);
+        const rangeOffsetAt = idRangeOffsets + segment * 2;
+        const rangeOffset = view.getUint16(rangeOffsetAt);
+        if (rangeOffset === 0) {
+          return (codePoint + delta) & 0xffff;
+        }
+        const glyph = view.getUint16(rangeOffsetAt + rangeOffset + (codePoint - start) * 2);
+        return glyph === 0 ? 0 : (glyph + delta) & 0xffff;
+      }
+      return 0;
+    };
+  }
+
+  return () => 0;
+}
+
+/**
+ * Read the metrics of a TrueType/OpenType font file
+ * @returns The metrics, or null when the file isn't a font this can read
+ */
+export function parseFontMetrics(bytes: Uint8Array): FontMetrics | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.byteLength < 12) {
+    return null;
+  }
+  const version = view.getUint32(0);
+  // TrueType (0x00010000 or "true") or CFF-based OpenType ("OTTO")
+  if (version !== 0x00010000 && version !== 0x74727565 && version !== 0x4f54544f) {
+    return null;
+  }
+
+  const tables = readTables(view);
+  const head = tables.get("head");
+  const hhea = tables.get("hhea");
+  const hmtx = tables.get("hmtx");
+  const cmap = tables.get("cmap");
+  const name = tables.get("name");
+  if (!head || !hhea || !hmtx || !cmap || !name) {
+    return null;
+  }
+
+  const unitsPerEm = view.getUint16(head.offset + 18);
+  const ascender = view.getInt16(hhea.offset + 4);
+  const descender = view.getInt16(hhea.offset + 6);
+  const lineGap = view.getInt16(hhea.offset + 8);
+  const numberOfHMetrics = view.getUint16(hhea.offset + 34);
+
+  // sCapHeight is in OS/2 version 2 and later; older fonts get the usual 70% of the em
+  const os2 = tables.get("OS/2");
+  const capHeight = os2 && view.getUint16(os2.offset) >= 2 && view.getInt16(os2.offset + 88) > 0
+    ? view.getInt16(os2.offset + 88)
+    : Math.round(unitsPerEm * 0.7);
+
+  const glyphFor = readCharacterMap(view, cmap.offset);
+  const advanceOfGlyph = (glyph: number) =>
+    view.getUint16(hmtx.offset + Math.min(glyph, numberOfHMetrics - 1) * 4);
+
+  return {
+    ...readNames(view, name.offset),
+    unitsPerEm,
+    capHeight,
+    ascender,
+    descender,
+    lineGap,
+    advance: (codePoint) => advanceOfGlyph(glyphFor(codePoint))
+  };
+}
+
+async function listFontFiles(dir: string): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(dir, { recursive: true });
+    return entries
+      .filter((entry) => FONT_EXTENSIONS.has(path.extname(entry).toLowerCase()))
+      .map((entry) => path.join(dir, entry));
+  } catch (error) {
+    logError(error, { dir, operation: "list_fonts" });
+    return [];
+  }
+}
+
+async function loadFontFile(filePath: string): Promise<FontMetrics | null> {
+  try {
+    const { mtimeMs } = await fs.stat(filePath);
+    const cached = fontCache.get(filePath);
+    if (cached && cached.mtimeMs === mtimeMs) {
+      return cached.metrics;
+    }
+
+    const metrics = parseFontMetrics(await fs.readFile(filePath));
+    fontCache.set(filePath, { mtimeMs, metrics });
+    return metrics;
+  } catch (error) {
+    logError(error, { filePath, operation: "read_font" });
+    return null;
+  }
+}
+
+const normalizeFontName = (name: string) => name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "");
+
+/**
+ * Metrics of the font a LightBurn text shape uses, from the font files in the
+ * assets folder. The face is picked by family name (or file name) and by the
+ * bold/italic flags of the Font attribute ("Arial,-1,100,5,75,1,...").
+ * @param fontAttribute - The shape's Font attribute (a Qt font description)
+ * @returns The metrics, or null when no font file matches
+ */
+export async function findFontMetrics(fontAttribute: string): Promise<FontMetrics | null> {
+  const [family = "", , , , weight = "50", italic = "0"] = fontAttribute.split(",");
+  const wanted = normalizeFontName(family);
+  if (!wanted) {
+    return null;
+  }
+
+  const faces: { metrics: FontMetrics; fileName: string }[] = [];
+  for (const filePath of await listFontFiles(config.paths.assets)) {
+    const metrics = await loadFontFile(filePath);
+    const fileName = normalizeFontName(path.parse(filePath).name);
+    if (metrics && (normalizeFontName(metrics.family) === wanted || fileName === wanted)) {
+      faces.push({ metrics, fileName });
+    }
+  }
+
+  if (faces.length === 0) {
+    logger.warn({ family, assets: config.paths.assets }, "Font file not found in assets");
+    return null;
+  }
+
+  const bold = Number(weight) >= BOLD_WEIGHT;
+  const isItalic = italic.trim() === "1";
+  const score = ({ metrics, fileName }: { metrics: FontMetrics; fileName: string }) => {
+    const style = metrics.subfamily.toLowerCase();
+    return (
+      (/bold/.test(style) === bold ? 2 : 0) +
+      (/italic|oblique/.test(style) === isItalic ? 2 : 0) +
+      // An exact file name match is the face the asset rule named
+      (fileName === wanted ? 1 : 0)
+    );
+  };
+
+  return faces.reduce((best, face) => (score(face) > score(best) ? face : best)).metrics;
+}
@@ -0,0 +1,205 @@
+import fs from "fs-extra";
+import path from "node:path";
+import { config, FeedSource, HOT_FOLDER_SOURCE_ID } from "./config.js";
+import { runUploadImport } from "./scheduler.js";
+import { logger, logError } from "./logger.js";
+
+// Order files picked up from the hot folder; anything else is left alone
+const WATCHED_EXTENSIONS = new Set([".csv", ".xml", ".json", ".txt", ".xlsx"]);
+// Subfolders (inside the hot folder) files are moved to once imported
+const PROCESSED_DIR = "processed";
+const FAILED_DIR = "failed";
+// A file is imported once it hasn't changed for this long, so half-copied files are skipped
+const SETTLE_MS = 2_000;
+// Change events are unreliable on network shares, so the folder is also rescanned periodically
+const RESCAN_INTERVAL_MS = 30_000;
+
+let watchedFolder: string | null = null;
+let watcher: fs.FSWatcher | null = null;
+let rescanTimer: NodeJS.Timeout | null = null;
+let settleTimer: NodeJS.Timeout | null = null;
+let scanning = false;
+let rescanRequested = false;
+
+/**
+ * Destination for a file moved into `dir`, keeping its name unless that is taken
+ */
+async function uniqueDestination(dir: string, filename: string): Promise<string> {
+  const destination = path.join(dir, filename);
+  if (!(await fs.pathExists(destination))) {
+    return destination;
+  }
+
+  const { name, ext } = path.parse(filename);
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  return path.join(dir, `${name}-${stamp}${ext}`);
+}
+
+/**
+ * Import one order file through the sync pipeline (import-only, recorded as a
+ * "hotfolder" run), then move it to processed/, or to failed/ with a
+ * `<file>.error.txt` sidecar explaining why. Orders a feed already has are
+ * updated and stay that feed's; new ones are taken over by the first feed listing them.
+ */
+async function importFile(folder: string, filename: string): Promise<void> {
+  const filePath = path.join(folder, filename);
+  const source: FeedSource = {
+    id: HOT_FOLDER_SOURCE_ID,
+    name: "Hot folder",
+    url: filePath,
+    format: "auto",
+    mappingProfileId: null,
+    enabled: true
+  };
+
+  try {
+    const content = await fs.readFile(filePath);
+    const result = await runUploadImport({ filename, content }, source, "hotfolder");
+    const destination = await uniqueDestination(path.join(folder, PROCESSED_DIR), filename);
+    await fs.move(filePath, destination);
+
+    logger.info(
+      {
+        filename,
+        runId: result.runId,
+        added: result.added,
+        updated: result.updated,
+        skipped: result.skipped,
+        totalParsed: result.totalParsed
+      },
+      "Hot folder file imported"
+    );
+  } catch (error) {
+    logError(error, { filename, folder, operation: "hot_folder_import" });
+
+    const message = error instanceof Error ? error.message : String(error);
+    try {
+      const destination = await uniqueDestination(path.join(folder, FAILED_DIR), filename);
+      await fs.move(filePath, destination);
+      await fs.writeFile(
+        `${destination}.error.txt`,
+        `${new Date().toISOString()}\n${filename}\n\n${message}\n`
+      );
+    } catch (moveError) {
+      // Left in place: it would be retried (and fail) on every scan
+      logError(moveError, { filename, folder, operation: "hot_folder_move_failed" });
+    }
+  }
+}
+
+/**
+ * Import every settled order file in the hot folder, one at a time.
+ * Overlapping calls are folded into one follow-up scan.
+ */
+async function scanFolder(): Promise<void> {
+  if (scanning) {
+    rescanRequested = true;
+    return;
+  }
+
+  scanning = true;
+  try {
+    do {
+      rescanRequested = false;
+      const folder = watchedFolder;
+      if (!folder) {
+        return;
+      }
+
+      const entries = await fs.readdir(folder, { withFileTypes: true });
+      let unsettled = false;
+
+      for (const entry of entries) {
+        if (!entry.isFile() || !WATCHED_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+          continue;
+        }
+
+        const stats = await fs.stat(path.join(folder, entry.name)).catch(() => null);
+        if (!stats) {
+          continue;
+        }
+        if (Date.now() - stats.mtimeMs < SETTLE_MS) {
+          unsettled = true;
+          continue;
+        }
+
+        await importFile(folder, entry.name);
+      }
+
+      if (unsettled) {
+        scheduleScan(SETTLE_MS);
+      }
+    } while (rescanRequested && watchedFolder);
+  } catch (error) {
+    logError(error, { folder: watchedFolder, operation: "hot_folder_scan" });
+  } finally {
+    scanning = false;
+  }
+}
+
+function scheduleScan(delayMs: number): void {
+  if (settleTimer) {
+    clearTimeout(settleTimer);
+  }
+  settleTimer = setTimeout(() => {
+    settleTimer = null;
+    void scanFolder();
+  }, delayMs);
+  settleTimer.unref();
+}
+
+/**
+ * Starts watching the configured hot folder (`watchFolder`), importing files
+ * already waiting in it. Does nothing when no folder is configured.
+ */
+export function startHotFolder(): void {
+  const folder = config.getWatchFolder();
+  if (!folder) {
+    return;
+  }
+
+  try {
+    fs.ensureDirSync(path.join(folder, PROCESSED_DIR));
+    fs.ensureDirSync(path.join(folder, FAILED_DIR));
+
+    watchedFolder = folder;
+    // Events for processed/ and failed/ (moves, sidecars) aren't reported: the watch isn't recursive
+    watcher = fs.watch(folder, () => scheduleScan(SETTLE_MS));
+    watcher.on("error", (error) => logError(error, { folder, operation: "hot_folder_watch" }));
+    rescanTimer = setInterval(() => void scanFolder(), RESCAN_INTERVAL_MS);
+    // Never keep the process (or Electron shutdown) waiting on the watcher
+    watcher.unref();
+    rescanTimer.unref();
+
+    logger.info({ folder }, "Hot folder watch started");
+    void scanFolder();
+  } catch (error) {
+    logError(error, { folder, operation: "hot_folder_start" });
+    stopHotFolder();
+  }
+}
+
+/**
+ * Stops watching the hot folder. An import in progress finishes normally.
+ */
+export function stopHotFolder(): void {
+  watcher?.close();
+  watcher = null;
+  if (rescanTimer) {
+    clearInterval(rescanTimer);
+    rescanTimer = null;
+  }
+  if (settleTimer) {
+    clearTimeout(settleTimer);
+    settleTimer = null;
+  }
+  watchedFolder = null;
+}
+
+/**
+ * Re-reads `watchFolder` after a configuration change.
+ */
+export function restartHotFolder(): void {
+  stopHotFolder();
+  startHotFolder();
+}
@@ -8,14 +8,37 @@ import path from "node:path";
 import { fileURLToPath } from 'node:url';
 import { dirname, join } from 'node:path';
 import process from 'node:process';
-import { and, eq, like, ne, sql } from "drizzle-orm";
+import { and, desc, eq, getTableColumns, isNotNull, isNull, like, ne, sql } from "drizzle-orm";
 import { runMigrations } from "./migrate.js";
 import { db } from "./db.js";
-import { orders, templateRules, assetRules, Order } from "./schema.js";
-import { syncOrders } from "./sync.js";
+import { orders, orderItems, templateRules, assetRules, extractionRules, syncRuns, mappingProfiles, Order } from "./schema.js";
+import { createManualOrder, FeedUpload, feedRequestHeaders, importWebhookOrders, previewMapping, previewSource } from "./sync.js";
+import { FIELD_TRANSFORMS, MAPPABLE_FIELDS } from "./parser.js";
+import { ensureDefaultMappingProfile, migrateInlineFieldMappings } from "./mappingProfiles.js";
+import { getItemsByOrder, getOrderItems, refreshPersonalizations, resolveChangedSide, rollupOrderStatus } from "./orderItems.js";
+import {
+  assetRuleTarget,
+  compileExtractionPattern,
+  extractEngravingText,
+  parsePersonalizationText,
+  Personalization
+} from "./personalization.js";
+import { getSyncStatus, rescheduleSync, runSync, runUploadImport, startSyncScheduler, stopSyncScheduler } from "./scheduler.js";
+import { restartHotFolder, startHotFolder, stopHotFolder } from "./hotFolder.js";
+import { inspectTemplate } from "./templateInspection.js";
 import { generateLightBurnProject, hasRetroTemplate } from "./lightburn.js";
 import { logger, logError } from "./logger.js";
-import { config } from "./config.js";
+import { config, FeedSource, UPLOAD_SOURCE_ID } from "./config.js";
+import {
+  claimDelivery,
+  completeDelivery,
+  getIdempotencyKey,
+  IDEMPOTENCY_KEY_HEADER,
+  releaseDelivery,
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+  webhookPayloadSchema
+} from "./webhook.js";
 
 // ESM shim for __filename and __dirname
 const __filename = fileURLToPath(import.meta.url);
@@ -60,143 +83,151 @@ await app.register(fastifyStatic, {
   prefix: "/",
 });
 
-// ==================== HELPER FUNCTIONS ====================
+app.get("/health", async () => ({ ok: true }));
 
-/**
- * Calculate overall order status based on front and retro statuses
- */
-function calculateOverallStatus(
-  fronteStatus: string,
-  retroStatus: string
-): 'pending' | 'processing' | 'printed' | 'error' {
-  // If either side has an error, overall is error
-  if (fronteStatus === 'error' || retroStatus === 'error') {
-    return 'error';
-  }
-  
-  // If either side is processing, overall is processing
-  if (fronteStatus === 'processing' || retroStatus === 'processing') {
-    return 'processing';
-  }
-  
-  // Both sides must be printed (or retro is not_required) for overall to be printed
-  if (fronteStatus === 'printed' && (retroStatus === 'printed' || retroStatus === 'not_required')) {
-    return 'printed';
-  }
-  
-  // Otherwise, overall is pending
-  return 'pending';
-}
+// ==================== CONFIGURATION ENDPOINTS ====================
 
 /**
- * Update overall order status based on side statuses
+ * Validate a feed location: must be either a valid HTTP/HTTPS URL or an absolute file path
+ * @returns The kind of location, or null if invalid
  */
-async function updateOverallStatus(orderId: string): Promise<void> {
-  const order = await db.select().from(orders).where(eq(orders.orderId, orderId)).limit(1);
-  
-  if (order.length === 0) {
-    return;
+function validateFeedLocation(feedUrl: string): 'HTTP URL' | 'Absolute file path' | null {
+  // Check if it's an HTTP/HTTPS URL
+  if (feedUrl.startsWith('http://') || feedUrl.startsWith('https://')) {
+    try {
+      new URL(feedUrl);
+      return 'HTTP URL';
+    } catch {
+      // Not a valid URL
+    }
   }
   
-  const currentOrder = order[0];
-  const newStatus = calculateOverallStatus(
-    currentOrder.fronteStatus,
-    currentOrder.retroStatus
-  );
-  
-  // Only update if status changed
-  if (currentOrder.status !== newStatus) {
-    await db
-      .update(orders)
-      .set({
-        status: newStatus,
-        updatedAt: sql`CURRENT_TIMESTAMP`
-      })
-      .where(eq(orders.orderId, orderId))
-      .run();
-    
-    logger.info(
-      { orderId, oldStatus: currentOrder.status, newStatus },
-      "Overall order status updated"
-    );
-  }
+  // If not a valid HTTP URL, check if it's an absolute file path (both Windows and Unix style)
+  const isAbsolute = path.isAbsolute(feedUrl) || /^[a-zA-Z]:[\\\/]/.test(feedUrl);
+  return isAbsolute ? 'Absolute file path' : null;
 }
 
-app.get("/health", async () => ({ ok: true }));
+// `secret` is omitted when the UI sends back a saved feed: the stored one is kept
+const feedAuthSchema = z.object({
+  mode: z.enum(['none', 'basic', 'bearer', 'header']).default('none'),
+  username: z.string().trim().optional(),
+  headerName: z.string().trim().optional(),
+  secret: z.string().optional().transform((value) => value || undefined)
+});
 
-// ==================== CONFIGURATION ENDPOINTS ====================
+const feedHeaderSchema = z.object({
+  name: z.string(),
+  value: z.string()
+});
+
+const feedSourceSchema = z.object({
+  id: z.string().trim().min(1),
+  name: z.string().trim().min(1),
+  url: z.string().trim().min(1),
+  format: z.enum(['auto', 'csv', 'json', 'xml', 'amazon', 'xlsx']).default('auto'),
+  delimiter: z.enum(['auto', ',', ';', '\t', '|']).optional(),
+  encoding: z.enum(['auto', 'utf-8', 'windows-1252']).optional(),
+  // A name, or a 1-based position
+  sheet: z.union([z.string().trim().min(1), z.number().int().min(1)]).optional(),
+  headerRow: z.number().int().min(1).optional(),
+  mappingProfileId: z.number().int().nullable().default(null),
+  customizationPath: z.string().trim().nullable().default(null).transform((value) => value || null),
+  auth: feedAuthSchema.optional(),
+  headers: z.array(feedHeaderSchema).optional(),
+  enabled: z.boolean().default(true)
+});
+
+const fieldRuleSchema = z.object({
+  paths: z.array(z.string().trim().min(1)).default([]),
+  constant: z.string().optional(),
+  transform: z.enum(FIELD_TRANSFORMS).optional()
+});
+
+const mappingProfileSchema = z.object({
+  name: z.string().trim().min(1),
+  recordPath: z.string().trim().nullable().default(null).transform((value) => value || null),
+  fields: z.record(z.enum(MAPPABLE_FIELDS), fieldRuleSchema)
+});
 
 /**
- * GET /config - Returns current feed URL and templates path configuration
+ * GET /config - Returns current feed sources, templates path, hot folder, archive retention, sync schedule and personalization keys
  */
 app.get("/config", async () => {
-  const feedUrl = config.getFeedUrl();
+  // Auth secrets are never returned, only whether one is stored
+  const feedSources = config.getFeedSources().map(config.maskFeedSource);
   const templatesPath = config.getTemplatesPath();
-  logger.info({ feedUrl, templatesPath }, "Configuration retrieved");
-  return { feedUrl, templatesPath };
+  const watchFolder = config.getWatchFolder();
+  const archiveRetentionDays = config.getArchiveRetentionDays();
+  const syncIntervalMinutes = config.getSyncIntervalMinutes();
+  const quietHours = config.getQuietHours();
+  // Never returned; the UI only needs to know whether the webhook is enabled
+  const webhookSecretSet = Boolean(config.getWebhookSecret());
+  const personalizationKeys = config.getPersonalizationKeys();
+  logger.info(
+    { feedSources: feedSources.map((source) => source.id), templatesPath, watchFolder, archiveRetentionDays, syncIntervalMinutes, quietHours, webhookSecretSet },
+    "Configuration retrieved"
+  );
+  return { feedSources, templatesPath, watchFolder, archiveRetentionDays, syncIntervalMinutes, quietHours, webhookSecretSet, personalizationKeys };
 });
 
 /**
- * POST /config - Updates feed URL and/or templates path configuration
+ * POST /config - Updates feed sources, templates path, hot folder, archive retention and/or sync schedule configuration
  */
 app.post("/config", async (request, reply) => {
   const bodySchema = z.object({
-    feedUrl: z.string().min(1).optional(),
-    templatesPath: z.string().optional()
+    feedSources: z.array(feedSourceSchema).optional(),
+    templatesPath: z.string().optional(),
+    watchFolder: z.string().nullable().optional(),
+    archiveRetentionDays: z.number().int().min(0).optional(),
+    syncIntervalMinutes: z.number().int().min(0).max(1440).optional(),
+    quietHours: z.object({ start: z.string(), end: z.string() }).nullable().optional(),
+    webhookSecret: z.string().trim().nullable().optional(),
+    // Labels by key; replaces the whole set
+    personalizationKeys: z.record(z.string(), z.array(z.string())).optional()
   });
 
   try {
     const body = bodySchema.parse(request.body);
     
-    // Handle feedUrl if provided
-    if (body.feedUrl !== undefined) {
-      const rawFeedUrl = body.feedUrl;
-      
-      // Trim whitespace
-      const feedUrl = rawFeedUrl.trim();
-      
-      // Validate: must be either a valid HTTP/HTTPS URL or an absolute file path
-      let isValid = false;
-      let validationType = '';
-      
-      // Check if it's an HTTP/HTTPS URL
-      if (feedUrl.startsWith('http://') || feedUrl.startsWith('https://')) {
-        try {
-          new URL(feedUrl);
-          isValid = true;
-          validationType = 'HTTP URL';
-        } catch {
-          // Not a valid URL
+    // Handle feedSources if provided (replaces the whole list)
+    if (body.feedSources !== undefined) {
+      for (const source of body.feedSources) {
+        if (!validateFeedLocation(source.url)) {
+          logger.warn({ source: source.id, feedUrl: source.url }, "Invalid feed URL provided");
+          reply.code(400);
+          return {
+            success: false,
+            message: `Feed "${source.name}" must be a valid HTTP URL or an absolute file path.`
+          };
         }
-      }
-      
-      // If not a valid HTTP URL, check if it's an absolute file path
-      if (!isValid) {
-        // Check for absolute paths (both Windows and Unix style)
-        const isAbsolute = path.isAbsolute(feedUrl) || /^[a-zA-Z]:[\\\/]/.test(feedUrl);
-        if (isAbsolute) {
-          isValid = true;
-          validationType = 'Absolute file path';
+        if (
+          source.mappingProfileId !== null &&
+          !db.select({ id: mappingProfiles.id }).from(mappingProfiles).where(eq(mappingProfiles.id, source.mappingProfileId)).get()
+        ) {
+          reply.code(400);
+          return {
+            success: false,
+            message: `Feed "${source.name}" uses a mapping profile that no longer exists.`
+          };
         }
       }
       
-      if (!isValid) {
-        logger.warn({ feedUrl }, "Invalid feed URL provided");
+      try {
+        const oldSourceIds = config.getFeedSources().map((source) => source.id);
+        config.setFeedSources(body.feedSources);
+        logger.info(
+          { oldSourceIds, newSourceIds: body.feedSources.map((source) => source.id) },
+          "Feed sources configuration updated"
+        );
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.error({ error: errorMessage }, "Failed to set feed sources");
         reply.code(400);
         return {
-          error: "Feed must be a valid HTTP URL or an absolute file path."
+          success: false,
+          message: errorMessage
         };
       }
-      
-      // Log the change
-      const oldFeedUrl = config.getFeedUrl();
-      logger.info(
-        { oldFeedUrl, newFeedUrl: feedUrl, validationType },
-        "Feed URL configuration updated"
-      );
-      
-      // Update config
-      config.setFeedUrl(feedUrl);
     }
     
     // Handle templatesPath if provided (even if empty string)
@@ -215,10 +246,95 @@ app.post("/config", async (request, reply) => {
       }
     }
     
+    // Handle watchFolder if provided (null or empty disables the hot folder)
+    if (body.watchFolder !== undefined) {
+      try {
+        config.setWatchFolder(body.watchFolder);
+        restartHotFolder();
+        logger.info({ watchFolder: config.getWatchFolder() }, "Watch folder updated");
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.error({ error: errorMessage }, "Failed to set watch folder");
+        reply.code(400);
+        return {
+          success: false,
+          message: errorMessage
+        };
+      }
+    }
+    
+    // Handle archiveRetentionDays if provided
+    if (body.archiveRetentionDays !== undefined) {
+      config.setArchiveRetentionDays(body.archiveRetentionDays);
+      logger.info({ archiveRetentionDays: body.archiveRetentionDays }, "Archive retention updated");
+    }
+    
+    // Handle sync schedule if provided
+    if (body.syncIntervalMinutes !== undefined || body.quietHours !== undefined) {
+      try {
+        if (body.syncIntervalMinutes !== undefined) {
+          config.setSyncIntervalMinutes(body.syncIntervalMinutes);
+        }
+        if (body.quietHours !== undefined) {
+          config.setQuietHours(body.quietHours);
+        }
+        rescheduleSync();
+        logger.info(
+          { syncIntervalMinutes: config.getSyncIntervalMinutes(), quietHours: config.getQuietHours() },
+          "Sync schedule updated"
+        );
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.error({ error: errorMessage }, "Failed to set sync schedule");
+        reply.code(400);
+        return {
+          success: false,
+          message: errorMessage
+        };
+      }
+    }
+    
+    // Handle webhookSecret if provided (null or empty disables the webhook)
+    if (body.webhookSecret !== undefined) {
+      try {
+        config.setWebhookSecret(body.webhookSecret || null);
+        logger.info({ webhookEnabled: Boolean(body.webhookSecret) }, "Webhook secret updated");
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        reply.code(400);
+        return {
+          success: false,
+          message: errorMessage
+        };
+      }
+    }
+    
+    // Stored items are parsed again so they match the new labels
+    if (body.personalizationKeys !== undefined) {
+      try {
+        config.setPersonalizationKeys(body.personalizationKeys);
+        const itemCount = refreshPersonalizations();
+        logger.info({ keys: Object.keys(config.getPersonalizationKeys()), itemCount }, "Personalization keys updated");
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        reply.code(400);
+        return {
+          success: false,
+          message: errorMessage
+        };
+      }
+    }
+
     return {
       success: true,
-      feedUrl: config.getFeedUrl(),
-      templatesPath: config.getTemplatesPath()
+      feedSources: config.getFeedSources().map(config.maskFeedSource),
+      templatesPath: config.getTemplatesPath(),
+      watchFolder: config.getWatchFolder(),
+      archiveRetentionDays: config.getArchiveRetentionDays(),
+      syncIntervalMinutes: config.getSyncIntervalMinutes(),
+      quietHours: config.getQuietHours(),
+      webhookSecretSet: Boolean(config.getWebhookSecret()),
+      personalizationKeys: config.getPersonalizationKeys()
     };
   } catch (error) {
     logger.error({ error }, "Failed to update configuration");
@@ -230,15 +346,20 @@ app.post("/config", async (request, reply) => {
 });
 
 /**
- * POST /config/test - Tests feed connection without saving
+ * POST /config/test - Tests feed connection without saving.
+ * HTTP feeds are requested with the given auth and headers; a saved feed
+ * (`sourceId`) sent without its secret uses the stored one.
  */
 app.post("/config/test", async (request, reply) => {
   const bodySchema = z.object({
-    feedUrl: z.string().min(1)
+    feedUrl: z.string().min(1),
+    sourceId: z.string().optional(),
+    auth: feedAuthSchema.optional(),
+    headers: z.array(feedHeaderSchema).optional()
   });
 
   try {
-    const { feedUrl: rawFeedUrl } = bodySchema.parse(request.body);
+    const { feedUrl: rawFeedUrl, sourceId, auth, headers } = bodySchema.parse(request.body);
     
     // Trim whitespace
     const feedUrl = rawFeedUrl.trim();
@@ -258,6 +379,7 @@ app.post("/config/test", async (request, reply) => {
         
         const response = await fetch(feedUrl, {
           method: 'GET',
+          headers: feedRequestHeaders(config.withStoredSecret({ id: sourceId ?? '', url: feedUrl, auth, headers })),
           signal: controller.signal
         });
         
@@ -283,6 +405,17 @@ app.post("/config/test", async (request, reply) => {
             message: "Feed is accessible (HTTP GET successful)"
           };
         } else {
+          if (response.status === 401) {
+            logger.warn({ feedUrl, authMode: auth?.mode ?? 'none' }, "Feed rejected credentials");
+            reply.code(400);
+            return {
+              success: false,
+              message: auth && auth.mode !== 'none'
+                ? "Could not access feed: HTTP 401. The feed rejected the credentials; check the authentication settings."
+                : "Could not access feed: HTTP 401. The feed requires authentication; set it up under the feed's authentication settings."
+            };
+          }
+
           // Special handling for 403/405 errors which may indicate dynamic URLs
           if (response.status === 403 || response.status === 405) {
             logger.warn({ feedUrl, status: response.status }, "Feed rejected connection test");
@@ -373,14 +506,19 @@ app.post("/config/test", async (request, reply) => {
 app.post("/sync", async (request, reply) => {
   try {
     logger.info("Sync request received");
-    const result = await syncOrders();
+    const result = await runSync("manual");
     logger.info(
       { 
         added: result.added, 
         duplicates: result.duplicates, 
+        updated: result.updated, 
+        changedAfterPrint: result.changedAfterPrint.length, 
+        archived: result.archived, 
+        restored: result.restored, 
         deleted: result.deleted, 
         skipped: result.skipped, 
-        totalParsed: result.totalParsed 
+        totalParsed: result.totalParsed,
+        failedSources: result.sources.filter((source) => source.error).map((source) => source.source)
       },
       "Sync completed successfully"
     );
@@ -394,6 +532,258 @@ app.post("/sync", async (request, reply) => {
   }
 });
 
+/**
+ * POST /sync/preview - Dry run of a sync for one feed source (saved or not). Writes nothing.
+ */
+app.post("/sync/preview", async (request, reply) => {
+  try {
+    const source = feedSourceSchema.parse(request.body);
+
+    if (!validateFeedLocation(source.url)) {
+      reply.code(400);
+      return { error: "Feed URL must be a valid HTTP URL or an absolute file path." };
+    }
+
+    const preview = await previewSource(config.withStoredSecret(source));
+    logger.info(
+      {
+        source: source.id,
+        totalParsed: preview.totalParsed,
+        added: preview.added,
+        updated: preview.updated,
+        archived: preview.archived,
+        skipped: preview.skipped
+      },
+      "Sync preview generated"
+    );
+    return preview;
+  } catch (error) {
+    logError(error, { operation: "sync_preview" });
+    reply.code(400);
+    return {
+      error: error instanceof Error ? error.message : "Preview failed"
+    };
+  }
+});
+
+// Largest feed file accepted by POST /sync/upload
+const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+
+/**
+ * POST /sync/upload - Import a downloaded CSV/XML/JSON/TXT report or .xlsx workbook once (multipart, field "file").
+ * Import only: orders are added and updated (other sources' orders keep their source),
+ * none are archived. Optional fields:
+ * "source" (a configured feed whose format, mapping profile and source id to use)
+ * and "format" (overrides the detected format).
+ */
+await app.register(async (uploads) => {
+  // Parsed with the platform's FormData support once the whole body is in
+  uploads.addContentTypeParser(
+    "multipart/form-data",
+    { parseAs: "buffer", bodyLimit: MAX_UPLOAD_BYTES },
+    (_request, body, done) => {
+      done(null, body);
+    }
+  );
+
+  uploads.post("/sync/upload", async (request, reply) => {
+    const fieldsSchema = z.object({
+      source: z.string().trim().optional().transform((value) => value || undefined),
+      format: z.enum(['auto', 'csv', 'json', 'xml', 'amazon', 'xlsx']).optional()
+    });
+
+    let upload: FeedUpload;
+    let fields: z.infer<typeof fieldsSchema>;
+    try {
+      const formData = await new Request("http://localhost/sync/upload", {
+        method: "POST",
+        headers: { "content-type": request.headers["content-type"] ?? "" },
+        body: new Uint8Array(request.body as Buffer)
+      }).formData();
+      const file = formData.get("file");
+
+      if (!file || typeof file === "string") {
+        reply.code(400);
+        return { error: 'Missing file: send it in the "file" field' };
+      }
+
+      upload = { filename: file.name || "upload", content: Buffer.from(await file.arrayBuffer()) };
+      fields = fieldsSchema.parse({
+        source: formData.get("source") ?? undefined,
+        format: formData.get("format") || undefined
+      });
+    } catch (error) {
+      reply.code(400);
+      return {
+        error: error instanceof Error ? `Invalid upload: ${error.message}` : "Invalid upload"
+      };
+    }
+
+    let source: FeedSource;
+    if (fields.source) {
+      const configured = config.getFeedSources().find((feed) => feed.id === fields.source);
+      if (!configured) {
+        reply.code(400);
+        return { error: `Unknown feed source "${fields.source}"` };
+      }
+      source = { ...configured, format: fields.format ?? configured.format };
+    } else {
+      source = {
+        id: UPLOAD_SOURCE_ID,
+        name: "Upload",
+        url: upload.filename,
+        format: fields.format ?? "auto",
+        mappingProfileId: null,
+        enabled: true
+      };
+    }
+
+    try {
+      const result = await runUploadImport(upload, source);
+      logger.info(
+        {
+          filename: upload.filename,
+          source: source.id,
+          added: result.added,
+          updated: result.updated,
+          skipped: result.skipped,
+          totalParsed: result.totalParsed
+        },
+        "Uploaded feed imported"
+      );
+      return result;
+    } catch (error) {
+      logError(error, { filename: upload.filename, source: source.id, operation: "sync_upload" });
+      reply.code(400);
+      return {
+        error: error instanceof Error ? error.message : "Import failed"
+      };
+    }
+  });
+});
+
+/**
+ * GET /sync/status - Scheduler state and outcome of the most recent sync
+ */
+app.get("/sync/status", async () => {
+  return getSyncStatus();
+});
+
+/**
+ * GET /sync/history - Recent sync runs, newest first (without per-record details)
+ */
+app.get("/sync/history", async (request) => {
+  const querySchema = z.object({
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    offset: z.coerce.number().int().min(0).default(0)
+  });
+  const { limit, offset } = querySchema.parse(request.query);
+
+  const { skippedRecords, sourceResults, ...summaryColumns } = getTableColumns(syncRuns);
+  const items = db
+    .select(summaryColumns)
+    .from(syncRuns)
+    .orderBy(desc(syncRuns.id))
+    .limit(limit)
+    .offset(offset)
+    .all();
+
+  return { items, limit, offset };
+});
+
+/**
+ * GET /sync/history/:id - One sync run with per-source results and skipped records
+ */
+app.get("/sync/history/:id", async (request, reply) => {
+  const paramsSchema = z.object({
+    id: z.coerce.number().int()
+  });
+
+  try {
+    const { id } = paramsSchema.parse(request.params);
+    const run = db.select().from(syncRuns).where(eq(syncRuns.id, id)).get();
+
+    if (!run) {
+      reply.code(404);
+      return { error: "Sync run not found" };
+    }
+
+    return run;
+  } catch (error) {
+    reply.code(400);
+    return {
+      error: error instanceof Error ? error.message : "Invalid request"
+    };
+  }
+});
+
+// ==================== WEBHOOK ENDPOINTS ====================
+
+/**
+ * POST /webhooks/orders - Receive pushed orders (one order, an array, or { orders: [...] }).
+ * Signed with HMAC-SHA256 of the raw body in X-Webhook-Signature; retries carrying the
+ * same Idempotency-Key (or the same body) get the first response without re-importing.
+ */
+await app.register(async (webhooks) => {
+  // The signature covers the exact bytes sent, so parse the JSON only after verifying it
+  webhooks.addContentTypeParser("application/json", { parseAs: "buffer" }, (_request, body, done) => {
+    done(null, body);
+  });
+
+  webhooks.post("/webhooks/orders", async (request, reply) => {
+    const secret = config.getWebhookSecret();
+    if (!secret) {
+      reply.code(503);
+      return { error: "Order webhook is disabled. Set a webhook secret in Settings." };
+    }
+
+    const rawBody = request.body as Buffer;
+    const signature = request.headers[WEBHOOK_SIGNATURE_HEADER];
+    if (!verifyWebhookSignature(rawBody, Array.isArray(signature) ? signature[0] : signature, secret)) {
+      logger.warn({ ip: request.ip }, "Webhook delivery rejected: invalid signature");
+      reply.code(401);
+      return { error: "Invalid webhook signature" };
+    }
+
+    let records: Record<string, unknown>[];
+    try {
+      records = webhookPayloadSchema.parse(JSON.parse(rawBody.toString("utf-8")));
+    } catch (error) {
+      reply.code(400);
+      return {
+        error: error instanceof z.ZodError
+          ? `Invalid order payload: ${error.issues.map((issue) => issue.message).join("; ")}`
+          : "Invalid JSON body"
+      };
+    }
+
+    const idempotencyKey = getIdempotencyKey(request.headers[IDEMPOTENCY_KEY_HEADER], rawBody);
+    const claim = claimDelivery(idempotencyKey);
+
+    if (claim.status === "replay") {
+      reply.header("Idempotent-Replayed", "true");
+      return claim.response;
+    }
+    if (claim.status === "in_progress") {
+      reply.code(409);
+      return { error: "This delivery is already being processed" };
+    }
+
+    try {
+      const result = await importWebhookOrders(records);
+      completeDelivery(idempotencyKey, result);
+      return result;
+    } catch (error) {
+      releaseDelivery(idempotencyKey);
+      logError(error, { idempotencyKey, operation: "webhook_orders" });
+      reply.code(500);
+      return {
+        error: error instanceof Error ? error.message : "Webhook import failed"
+      };
+    }
+  });
+});
+
 app.get("/orders", async (request) => {
   const querySchema = z.object({
     limit: z.coerce.number().int().min(1).max(100).default(50),
@@ -401,15 +791,25 @@ app.get("/orders", async (request) => {
     search: z.string().optional(),
     hasCustomField: z.coerce.boolean().optional(),
     status: z.enum(["pending", "processing", "printed", "error"]).optional(),
-    excludeStatus: z.enum(["pending", "processing", "printed", "error"]).optional()
+    excludeStatus: z.enum(["pending", "processing", "printed", "error"]).optional(),
+    archived: z.enum(["exclude", "include", "only"]).default("exclude"),
+    changedAfterPrint: z.coerce.boolean().optional(),
+    source: z.string().optional()
   });
 
-  const { limit, offset, search, hasCustomField, status, excludeStatus } = querySchema.parse(
+  const { limit, offset, search, hasCustomField, status, excludeStatus, archived, changedAfterPrint, source } = querySchema.parse(
     request.query ?? {}
   );
 
   const conditions = [];
 
+  // Archived orders dropped out of the feed; hide them unless explicitly requested
+  if (archived === "exclude") {
+    conditions.push(isNull(orders.archivedAt));
+  } else if (archived === "only") {
+    conditions.push(isNotNull(orders.archivedAt));
+  }
+
   if (search) {
     conditions.push(like(orders.orderId, `%${search}%`));
   }
@@ -430,6 +830,14 @@ app.get("/orders", async (request) => {
     conditions.push(ne(orders.status, excludeStatus));
   }
 
+  if (changedAfterPrint === true) {
+    conditions.push(eq(orders.changedAfterPrint, true));
+  }
+
+  if (source) {
+    conditions.push(eq(orders.source, source));
+  }
+
   const where = conditions.length ? and(...conditions) : undefined;
 
   const items = await db
@@ -447,18 +855,34 @@ app.get("/orders", async (request) => {
     .where(eq(assetRules.assetType, 'color'))
     .all();
 
-  const itemsWithColor = items.map(order => {
-    let detectedColor = null;
-    if (order.customField) {
-      const normalizedField = order.customField.toLowerCase();
-      for (const rule of colorRules) {
-        if (normalizedField.includes(rule.triggerKeyword.toLowerCase())) {
-          detectedColor = rule.value;
-          break;
-        }
+  // Matched against the item's parsed color, or all its values when it has none
+  const detectColor = (personalization: Personalization | null) => {
+    const target = assetRuleTarget(personalization, 'color');
+    if (!target) {
+      return null;
+    }
+    for (const rule of colorRules) {
+      if (target.includes(rule.triggerKeyword.toLowerCase())) {
+        return rule.value;
       }
     }
-    return { ...order, detectedColor };
+    return null;
+  };
+
+  // Line items nested under their order, each with its own color
+  const itemsByOrder = getItemsByOrder(items.map(order => order.orderId));
+
+  const itemsWithColor = items.map(order => {
+    const lineItems = itemsByOrder.get(order.orderId) ?? [];
+    return {
+      ...order,
+      // The order's customField is its first personalized item's
+      detectedColor: detectColor(lineItems.find(item => item.customField)?.personalization ?? null),
+      items: lineItems.map(item => ({
+        ...item,
+        detectedColor: detectColor(item.personalization)
+      }))
+    };
   });
 
   return { items: itemsWithColor, limit, offset };
@@ -468,32 +892,200 @@ const paramsSchema = z.object({
   orderId: z.string().min(1)
 });
 
+const itemParamsSchema = paramsSchema.extend({
+  itemId: z.coerce.number().int().min(1).optional()
+});
+
+const optionalText = z.string().trim().nullable().optional().transform((value) => value || null);
+
+const manualItemSchema = z.object({
+  sku: optionalText,
+  quantity: z.number().int().min(1).max(999).default(1),
+  customField: optionalText
+});
+
 /**
- * Handle side-specific LightBurn processing (front or retro)
+ * POST /orders - Create an order by hand (phone, in-store, replacement).
+ * Stamped with source "manual"; the order ID is generated when omitted.
  */
-const handleSideProcessing = async (
-  request: { params: unknown },
-  reply: any,
-  side: 'front' | 'retro'
-) => {
-  const { orderId } = paramsSchema.parse(request.params);
-  const sideLabel = side === 'retro' ? 'retro' : 'fronte';
-  const endpoint = side === 'retro' ? '/lightburn/retro' : '/lightburn/front';
-  
-  console.log('=== HANDLE SIDE PROCESSING START ===');
-  console.log('Order ID:', orderId);
-  console.log('Side:', side);
-  console.log('Side label:', sideLabel);
-  console.log('Endpoint:', endpoint);
-  
-  // LOG: Endpoint being called
-  logger.info({ orderId, side: sideLabel, endpoint }, `=== SIDE PROCESSING START: ${endpoint} ===`);
-  logger.info({ orderId, side: sideLabel, endpoint }, `Endpoint called: POST /orders/:orderId${endpoint.replace('/lightburn', '/lightburn')}`);
-  
-  // Fetch the order from database
-  console.log('Fetching order from database...');
-  const rows = await db
-    .select()
+app.post("/orders", async (request, reply) => {
+  const bodySchema = z.object({
+    orderId: z.string().trim().max(100).optional(),
+    buyerName: optionalText,
+    purchaseDate: optionalText,
+    items: z.array(manualItemSchema).min(1).max(50)
+  });
+
+  let body: z.infer<typeof bodySchema>;
+  try {
+    body = bodySchema.parse(request.body);
+  } catch (error) {
+    reply.code(400);
+    return {
+      error: error instanceof Error ? error.message : "Invalid request body"
+    };
+  }
+
+  const orderId = body.orderId || `MAN-${Date.now().toString(36).toUpperCase()}`;
+
+  try {
+    const order = await createManualOrder({
+      orderId,
+      buyerName: body.buyerName,
+      purchaseDate: body.purchaseDate ?? new Date().toISOString(),
+      items: body.items
+    });
+    reply.code(201);
+    return { success: true, order: { ...order, items: getOrderItems(orderId) } };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (message.startsWith("ORDER_EXISTS:")) {
+      reply.code(409);
+      return { error: `Order ${orderId} already exists` };
+    }
+    logError(error, { orderId, operation: "create_manual_order" });
+    reply.code(500);
+    return { error: message };
+  }
+});
+
+/**
+ * PATCH /orders/:orderId - Correct the buyer name, or an item's SKU and personalization,
+ * before it is engraved. `raw` is left untouched so the original data stays available.
+ * SKU and customField target `itemId`, which may be omitted for single-item orders.
+ */
+app.patch("/orders/:orderId", async (request, reply) => {
+  const bodySchema = z.object({
+    itemId: z.number().int().min(1).optional(),
+    buyerName: optionalText,
+    sku: optionalText,
+    customField: optionalText
+  });
+
+  let orderId: string;
+  let body: z.infer<typeof bodySchema>;
+  try {
+    ({ orderId } = paramsSchema.parse(request.params));
+    body = bodySchema.parse(request.body);
+  } catch (error) {
+    reply.code(400);
+    return {
+      error: error instanceof z.ZodError ? error.issues.map((issue) => issue.message).join("; ") : "Invalid request body"
+    };
+  }
+
+  // Fields left out of the body are kept; null clears them
+  const sent = request.body as Record<string, unknown>;
+  if (!["buyerName", "sku", "customField"].some((field) => field in sent)) {
+    reply.code(400);
+    return { error: "Nothing to update: send buyerName, sku or customField" };
+  }
+
+  const order = db.select().from(orders).where(eq(orders.orderId, orderId)).get();
+  if (!order) {
+    reply.code(404);
+    return { error: "Order not found" };
+  }
+
+  const editsItem = "sku" in sent || "customField" in sent;
+  const items = getOrderItems(orderId);
+  const item = body.itemId !== undefined
+    ? items.find((candidate) => candidate.id === body.itemId)
+    : items.length === 1 ? items[0] : undefined;
+
+  if (editsItem && !item) {
+    reply.code(body.itemId !== undefined ? 404 : 400);
+    return {
+      error: body.itemId !== undefined
+        ? "Order item not found"
+        : `Order has ${items.length} items. Edit each item separately.`
+    };
+  }
+
+  // Only what hasn't been engraved yet can be corrected; printed orders go through reprint
+  const locked = (editsItem && item ? [item] : items).some(
+    (target) =>
+      ["printed", "processing"].includes(target.fronteStatus) ||
+      ["printed", "processing"].includes(target.retroStatus)
+  );
+  if (locked) {
+    reply.code(409);
+    return { error: "Already printed or being processed. Only orders not yet engraved can be edited." };
+  }
+
+  if (editsItem && item) {
+    const sku = "sku" in sent ? body.sku : item.sku;
+    const customField = "customField" in sent ? body.customField : item.customField;
+    // A new SKU may have a different retro template; errors stay until retried
+    const retroStatus = sku !== item.sku && item.retroStatus !== "error"
+      ? (await hasRetroTemplate(sku) ? "pending" : "not_required")
+      : item.retroStatus;
+
+    db.update(orderItems)
+      .set({
+        sku,
+        customField,
+        // Hand-edited text replaces the imported personalization (Amazon Custom surfaces included)
+        ...(customField !== item.customField
+          ? { personalization: parsePersonalizationText(customField, config.getPersonalizationKeys()) }
+          : {}),
+        retroStatus,
+        updatedAt: sql`CURRENT_TIMESTAMP`
+      })
+      .where(eq(orderItems.id, item.id))
+      .run();
+  }
+
+  // Order-level columns summarize the items, as after a sync
+  const updatedItems = getOrderItems(orderId);
+  db.update(orders)
+    .set({
+      ...("buyerName" in sent ? { buyerName: body.buyerName } : {}),
+      sku: updatedItems[0]?.sku ?? order.sku,
+      customField: updatedItems.find((candidate) => candidate.customField)?.customField ?? null,
+      editedAt: sql`CURRENT_TIMESTAMP`,
+      updatedAt: sql`CURRENT_TIMESTAMP`
+    })
+    .where(eq(orders.orderId, orderId))
+    .run();
+  rollupOrderStatus(orderId);
+
+  logger.info(
+    { orderId, itemId: editsItem ? item?.id : undefined, fields: Object.keys(sent).filter((key) => key !== "itemId") },
+    "Order edited by hand"
+  );
+
+  const updatedOrder = db.select().from(orders).where(eq(orders.orderId, orderId)).get();
+  return { success: true, order: { ...updatedOrder, items: updatedItems } };
+});
+
+/**
+ * Handle side-specific LightBurn processing (front or retro) for one order item.
+ * Without an itemId the order must have exactly one item.
+ */
+const handleSideProcessing = async (
+  request: { params: unknown },
+  reply: any,
+  side: 'front' | 'retro'
+) => {
+  const { orderId, itemId } = itemParamsSchema.parse(request.params);
+  const sideLabel = side === 'retro' ? 'retro' : 'fronte';
+  const endpoint = side === 'retro' ? '/lightburn/retro' : '/lightburn/front';
+  
+  console.log('=== HANDLE SIDE PROCESSING START ===');
+  console.log('Order ID:', orderId);
+  console.log('Side:', side);
+  console.log('Side label:', sideLabel);
+  console.log('Endpoint:', endpoint);
+  
+  // LOG: Endpoint being called
+  logger.info({ orderId, side: sideLabel, endpoint }, `=== SIDE PROCESSING START: ${endpoint} ===`);
+  logger.info({ orderId, side: sideLabel, endpoint }, `Endpoint called: POST /orders/:orderId${endpoint.replace('/lightburn', '/lightburn')}`);
+  
+  // Fetch the order from database
+  console.log('Fetching order from database...');
+  const rows = await db
+    .select()
     .from(orders)
     .where(eq(orders.orderId, orderId))
     .limit(1);
@@ -508,14 +1100,34 @@ const handleSideProcessing = async (
     return { error: "Order not found" };
   }
 
+  // Jobs run per line item; the order-level endpoints address single-item orders
+  const items = getOrderItems(orderId);
+  const item = itemId !== undefined
+    ? items.find((candidate) => candidate.id === itemId)
+    : items.length === 1 ? items[0] : undefined;
+
+  if (!item) {
+    if (itemId !== undefined || items.length === 0) {
+      logger.warn({ orderId, itemId }, "Order item not found in database");
+      reply.code(404);
+      return { error: "Order item not found" };
+    }
+    logger.warn({ orderId, itemCount: items.length }, "Order has multiple items, side processing needs an item");
+    reply.code(400);
+    return {
+      error: `Order has ${items.length} items. Process each item separately.`,
+      itemCount: items.length
+    };
+  }
+
   // Get side-specific status fields
   const statusField = side === 'retro' ? 'retroStatus' : 'fronteStatus';
   const errorField = side === 'retro' ? 'retroErrorMessage' : 'fronteErrorMessage';
   const attemptField = side === 'retro' ? 'retroAttemptCount' : 'fronteAttemptCount';
   const processedField = side === 'retro' ? 'retroProcessedAt' : 'fronteProcessedAt';
   
-  const currentStatus = order[statusField];
-  const currentAttemptCount = order[attemptField];
+  const currentStatus = item[statusField];
+  const currentAttemptCount = item[attemptField];
   
   console.log('Current status:', currentStatus);
   console.log('Current attempt count:', currentAttemptCount);
@@ -524,7 +1136,9 @@ const handleSideProcessing = async (
     {
       id: order.id,
       orderId: order.orderId,
-      sku: order.sku,
+      itemId: item.id,
+      sku: item.sku,
+      quantity: item.quantity,
       side: sideLabel,
       status: currentStatus,
       attemptCount: currentAttemptCount
@@ -564,39 +1178,39 @@ const handleSideProcessing = async (
   // Check if side was already printed (allow retry with warning)
   if (currentStatus === 'printed') {
     logger.warn(
-      { orderId, side: sideLabel, status: currentStatus, processedAt: order[processedField] },
+      { orderId, side: sideLabel, status: currentStatus, processedAt: item[processedField] },
       `${sideLabel} side was already printed, allowing retry`
     );
   }
 
   // Migrate old configuration errors to new format
-  if (currentStatus === 'error' && order[errorField]) {
-    const configErrorPattern = /NO_TEMPLATE_MATCH:|TEMPLATE_FILE_NOT_FOUND:|no template|configuration required|template.*not found/i;
-    const isOldConfigError = configErrorPattern.test(order[errorField]) && 
-                            !order[errorField].startsWith('CONFIG_ERROR:');
+  if (currentStatus === 'error' && item[errorField]) {
+    const configErrorPattern = /NO_TEMPLATE_MATCH:|TEMPLATE_FILE_NOT_FOUND:|TEMPLATE_SETTINGS_INVALID:|EMPTY_ENGRAVING_TEXT:|MISSING_PLACEHOLDER_VALUE:|TEXT_TOO_LONG:|no template|configuration required|template.*not found/i;
+    const isOldConfigError = configErrorPattern.test(item[errorField]) && 
+                            !item[errorField].startsWith('CONFIG_ERROR:');
     
     if (isOldConfigError) {
       logger.info(
-        { orderId, side: sideLabel, oldErrorMessage: order[errorField] },
+        { orderId, side: sideLabel, oldErrorMessage: item[errorField] },
         "Migrating old config error to new format"
       );
       
       const updateData = {
-        [errorField]: `CONFIG_ERROR: ${order[errorField]}`,
+        [errorField]: `CONFIG_ERROR: ${item[errorField]}`,
         [attemptField]: 999,
         updatedAt: sql`CURRENT_TIMESTAMP`
       };
       
-      await db.update(orders)
+      await db.update(orderItems)
         .set(updateData)
-        .where(eq(orders.orderId, orderId))
+        .where(eq(orderItems.id, item.id))
         .run();
       
       logger.info({ orderId, side: sideLabel }, "Migrated old config error to new format");
       
-      // Update local order object
-      order[errorField] = `CONFIG_ERROR: ${order[errorField]}`;
-      order[attemptField] = 999;
+      // Update local item object
+      item[errorField] = `CONFIG_ERROR: ${item[errorField]}`;
+      item[attemptField] = 999;
     }
   }
 
@@ -614,9 +1228,9 @@ const handleSideProcessing = async (
   };
 
   const updateResult = await db
-    .update(orders)
+    .update(orderItems)
     .set(updateData)
-    .where(eq(orders.orderId, orderId))
+    .where(eq(orderItems.id, item.id))
     .run();
 
   if (updateResult.changes === 0) {
@@ -625,6 +1239,9 @@ const handleSideProcessing = async (
     return { error: `Failed to lock ${sideLabel} side for processing` };
   }
 
+  // Reflect the lock on the order so sync leaves it alone while the job runs
+  rollupOrderStatus(orderId);
+
   logger.info(
     { orderId, side: sideLabel, status: 'processing', attemptCount: currentAttemptCount },
     `${sideLabel} side locked for processing`
@@ -642,13 +1259,17 @@ const handleSideProcessing = async (
     
     logger.info({ orderId, side: sideLabel, templatePath: defaultTemplatePath }, "Starting LightBurn project generation");
     
-    const result = await generateLightBurnProject(order, defaultTemplatePath, side);
+    const result = await generateLightBurnProject(order, defaultTemplatePath, side, {
+      item,
+      copies: item.quantity
+    });
     
     logger.info(
       { 
         orderId: result.orderId,
         side: sideLabel,
-        filePath: result.filePath
+        itemId: item.id,
+        filePaths: result.filePaths
       },
       `LightBurn project generated successfully for ${sideLabel} side`
     );
@@ -661,397 +1282,147 @@ const handleSideProcessing = async (
       updatedAt: sql`CURRENT_TIMESTAMP`
     };
     
-    const finalUpdateResult = await db
-      .update(orders)
-      .set(successUpdateData)
-      .where(eq(orders.orderId, orderId))
-      .run();
-
-    if (finalUpdateResult.changes === 0) {
-      logger.error({ orderId, side: sideLabel }, `Failed to update ${sideLabel} status to 'printed'`);
-    } else {
-      logger.info(
-        { orderId, side: sideLabel, status: 'printed', attemptCount: currentAttemptCount },
-        `${sideLabel} status updated to 'printed'`
-      );
-    }
-    
-    // Update overall order status
-    await updateOverallStatus(orderId);
-    
-    logger.info(
-      { 
-        orderId,
-        side: sideLabel,
-        status: 'printed', 
-        attemptCount: currentAttemptCount,
-        errorType: 'none'
-      },
-      `Final ${sideLabel} state after processing (success)`
-    );
-    
-    return {
-      success: true,
-      side: sideLabel,
-      orderId: result.orderId,
-      filePath: result.filePath,
-      message: `LightBurn project generated and launched successfully for ${sideLabel} side`,
-      warning: currentStatus === 'printed' ? `This ${sideLabel} side was already marked as printed. Reprocessed successfully.` : undefined
-    };
-    
-  } catch (error) {
-    // ==================== PHASE 4: ERROR HANDLING WITH SMART RETRY ====================
-    
-    console.log('ERROR CAUGHT:', error instanceof Error ? error.message : String(error));
-    console.log('Error type:', error instanceof Error ? error.constructor.name : typeof error);
-    console.log('Full error object:', error);
-    
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    
-    // LOG: Exact error message caught
-    logger.error({ 
-      orderId,
-      side: sideLabel,
-      endpoint,
-      errorMessage, 
-      errorType: error instanceof Error ? error.constructor.name : typeof error,
-      errorStack: error instanceof Error ? error.stack : undefined 
-    }, `=== ERROR CAUGHT in ${sideLabel} side processing ===`);
-    
-    logger.error({ 
-      orderId,
-      side: sideLabel,
-      endpoint,
-      errorMessage
-    }, "Exact error message caught");
-    
-    // Classify error type
-    const configErrorPattern = /NO_TEMPLATE_MATCH:|TEMPLATE_FILE_NOT_FOUND:|no template|configuration required|template.*not found/i;
-    const isConfigError = configErrorPattern.test(errorMessage);
-    
-    // LOG: Error classification result
-    logger.info({ 
-      orderId, 
-      side: sideLabel, 
-      endpoint,
-      isConfigError, 
-      errorMessage,
-      classificationPattern: configErrorPattern.toString(),
-      reason: isConfigError 
-        ? "Error message matches configuration error pattern" 
-        : "Error message does NOT match configuration error pattern"
-    }, "Error classification result (isConfigError = " + isConfigError + ")");
-    
-    // Build update object based on error type
-    let errorUpdateData: any;
-    
-    if (isConfigError) {
-      // Configuration error - no retry, requires manual fix
-      errorUpdateData = {
-        [statusField]: 'error' as const,
-        [errorField]: errorMessage.startsWith('CONFIG_ERROR:') 
-          ? errorMessage 
-          : 'CONFIG_ERROR: ' + errorMessage,
-        [attemptField]: 999,
-        updatedAt: sql`CURRENT_TIMESTAMP`
-      };
-      
-      logger.warn({ orderId, side: sideLabel, sku: order.sku }, "Configuration error - requires manual intervention");
-    } else {
-      // Transient error - use retry logic
-      const newAttemptCount = (currentAttemptCount || 0) + 1;
-      const shouldRetry = newAttemptCount < 3;
-      
-      errorUpdateData = {
-        [statusField]: shouldRetry ? ('pending' as const) : ('error' as const),
-        [errorField]: errorMessage,
-        [attemptField]: newAttemptCount,
-        updatedAt: sql`CURRENT_TIMESTAMP`
-      };
-      
-      logger.info({ orderId, side: sideLabel, newAttemptCount, shouldRetry }, "Transient error - retry logic applied");
-    }
-    
-    // Execute the database update
-    await db.update(orders)
-      .set(errorUpdateData)
-      .where(eq(orders.orderId, orderId))
-      .run();
-    
-    logger.info({ orderId, side: sideLabel, finalStatus: errorUpdateData[statusField], attemptCount: errorUpdateData[attemptField] }, `${sideLabel} state updated in database`);
-    
-    // Update overall order status
-    await updateOverallStatus(orderId);
-    
-    // Verification logging
-    const verifyOrder = await db.select()
-      .from(orders)
-      .where(eq(orders.orderId, orderId))
-      .limit(1);
-    
-    logger.info({ 
-      orderId,
-      side: sideLabel,
-      dbStatus: verifyOrder[0]?.[statusField], 
-      dbAttemptCount: verifyOrder[0]?.[attemptField],
-      dbErrorMessage: verifyOrder[0]?.[errorField] 
-    }, "Database state verification");
-    
-    // Return appropriate error response
-    if (isConfigError) {
-      reply.code(400);
-    } else {
-      reply.code(500);
-    }
-    
-    return { 
-      error: errorMessage,
-      side: sideLabel,
-      errorType: isConfigError ? 'configuration' : 'transient',
-      status: errorUpdateData[statusField],
-      attemptCount: errorUpdateData[attemptField]
-    };
-  }
-};
-
-const handleLightburn = async (request: { params: unknown }, reply: any) => {
-  const { orderId } = paramsSchema.parse(request.params);
-  logger.info({ orderId }, "LightBurn generation requested");
-  
-  // Fetch the order from database
-  const rows = await db
-    .select()
-    .from(orders)
-    .where(eq(orders.orderId, orderId))
-    .limit(1);
-
-  const order = rows[0];
-  if (!order) {
-    logger.warn({ orderId }, "Order not found in database");
-    reply.code(404);
-    return { error: "Order not found" };
-  }
-
-  logger.info(
-    {
-      id: order.id,
-      orderId: order.orderId,
-      sku: order.sku,
-      buyerName: order.buyerName,
-      status: order.status,
-      attemptCount: order.attemptCount
-    },
-    "Order found, validating status"
-  );
-
-  // ==================== PHASE 1: PRE-FLIGHT VALIDATION ====================
-  
-  // Check if order is already being processed
-  if (order.status === 'processing') {
-    logger.warn(
-      { orderId, status: order.status },
-      "Order is already being processed by another operator"
-    );
-    reply.code(409); // Conflict
-    return {
-      error: "Order is already being processed by another operator. Please wait or refresh to see the latest status.",
-      status: order.status,
-      attemptCount: order.attemptCount
-    };
-  }
-
-  // Check if order was already printed (allow retry with warning)
-  if (order.status === 'printed') {
-    logger.warn(
-      { orderId, status: order.status, processedAt: order.processedAt },
-      "Order was already printed, allowing retry"
-    );
-    // Continue processing but we'll return a warning in the response
-  }
-
-  // Migrate old configuration errors to new format
-  if (order.status === 'error' && order.errorMessage) {
-    const configErrorPattern = /NO_TEMPLATE_MATCH:|TEMPLATE_FILE_NOT_FOUND:|no template|configuration required|template.*not found/i;
-    const isOldConfigError = configErrorPattern.test(order.errorMessage) && 
-                            !order.errorMessage.startsWith('CONFIG_ERROR:');
-    
-    if (isOldConfigError) {
-      logger.info(
-        { orderId, oldErrorMessage: order.errorMessage },
-        "Migrating old config error to new format"
-      );
-      
-      // Update to new format
-      db.update(orders)
-        .set({
-          errorMessage: `CONFIG_ERROR: ${order.errorMessage}`,
-          attemptCount: 999,
-          updatedAt: sql`CURRENT_TIMESTAMP`
-        })
-        .where(eq(orders.orderId, orderId))
-        .run();
-      
-      logger.info({ orderId }, "Migrated old config error to new format");
-      
-      // Update local order object to reflect migration
-      order.errorMessage = `CONFIG_ERROR: ${order.errorMessage}`;
-      order.attemptCount = 999;
-    }
-  }
-
-  // ==================== PHASE 2: SET PROCESSING STATE ====================
-  
-  logger.info(
-    { orderId, previousStatus: order.status, currentAttemptCount: order.attemptCount },
-    "Setting order status to 'processing'"
-  );
-
-  // Update to 'processing' - DO NOT increment attemptCount here (only in catch block for transient errors)
-  const updateResult = await db
-    .update(orders)
-    .set({
-      status: 'processing',
-      errorMessage: null, // Clear previous error message
-      updatedAt: sql`CURRENT_TIMESTAMP`
-    })
-    .where(eq(orders.orderId, orderId))
-    .run();
-
-  if (updateResult.changes === 0) {
-    logger.error({ orderId }, "Failed to update order status to 'processing'");
-    reply.code(500);
-    return { error: "Failed to lock order for processing" };
-  }
-
-  logger.info(
-    { orderId, status: 'processing', attemptCount: order.attemptCount },
-    "Order locked for processing"
-  );
-
-  // Use config path for templates directory (native Windows path)
-  const defaultTemplatePath = path.join(config.paths.templates, "targhetta-osso-fronte.lbrn2");
-
-  // ==================== PHASE 3: PROCESS WITH VERIFICATION ====================
-  
-  try {
-    logger.info({ orderId, templatePath: defaultTemplatePath }, "Starting LightBurn project generation");
-    
-    const result = await generateLightBurnProject(order, defaultTemplatePath);
-    
-    logger.info(
-      { 
-        orderId: result.orderId, 
-        filePath: result.filePath
-      },
-      "LightBurn project generated successfully"
-    );
-    
-    // Update the order status to 'printed' with timestamp
-    const finalUpdateResult = db
-      .update(orders)
-      .set({ 
-        status: 'printed',
-        processedAt: sql`CURRENT_TIMESTAMP`,
-        errorMessage: null,
-        updatedAt: sql`CURRENT_TIMESTAMP`
-      })
-      .where(eq(orders.orderId, orderId))
+    const finalUpdateResult = await db
+      .update(orderItems)
+      .set(successUpdateData)
+      .where(eq(orderItems.id, item.id))
       .run();
 
+    // Re-engraving with the corrected feed data resolves this side's "changed after print" flag
+    resolveChangedSide(orderId, item.id, side);
+
     if (finalUpdateResult.changes === 0) {
-      logger.error({ orderId }, "Failed to update order status to 'printed' after successful generation");
+      logger.error({ orderId, side: sideLabel }, `Failed to update ${sideLabel} status to 'printed'`);
     } else {
       logger.info(
-        { orderId, status: 'printed', attemptCount: order.attemptCount },
-        "Order status updated to 'printed'"
+        { orderId, side: sideLabel, status: 'printed', attemptCount: currentAttemptCount },
+        `${sideLabel} status updated to 'printed'`
       );
     }
     
-    // Step 4: Final state verification logging (success path)
+    // Update overall order status
+    rollupOrderStatus(orderId);
+    
     logger.info(
       { 
-        orderId, 
+        orderId,
+        side: sideLabel,
         status: 'printed', 
-        attemptCount: order.attemptCount,
+        attemptCount: currentAttemptCount,
         errorType: 'none'
       },
-      "Final order state after processing (success)"
+      `Final ${sideLabel} state after processing (success)`
     );
     
     return {
       success: true,
+      side: sideLabel,
       orderId: result.orderId,
+      itemId: item.id,
+      copies: result.copies,
       filePath: result.filePath,
-      message: "LightBurn project generated and launched successfully",
-      warning: order.status === 'printed' ? "This order was already marked as printed. Reprocessed successfully." : undefined
+      filePaths: result.filePaths,
+      message: `LightBurn project generated and launched successfully for ${sideLabel} side`,
+      warning: currentStatus === 'printed' ? `This ${sideLabel} side was already marked as printed. Reprocessed successfully.` : undefined
     };
     
   } catch (error) {
     // ==================== PHASE 4: ERROR HANDLING WITH SMART RETRY ====================
     
+    console.log('ERROR CAUGHT:', error instanceof Error ? error.message : String(error));
+    console.log('Error type:', error instanceof Error ? error.constructor.name : typeof error);
+    console.log('Full error object:', error);
+    
     const errorMessage = error instanceof Error ? error.message : String(error);
     
+    // LOG: Exact error message caught
     logger.error({ 
-      orderId, 
+      orderId,
+      side: sideLabel,
+      endpoint,
       errorMessage, 
+      errorType: error instanceof Error ? error.constructor.name : typeof error,
       errorStack: error instanceof Error ? error.stack : undefined 
-    }, "generateLightBurnProject failed");
+    }, `=== ERROR CAUGHT in ${sideLabel} side processing ===`);
+    
+    logger.error({ 
+      orderId,
+      side: sideLabel,
+      endpoint,
+      errorMessage
+    }, "Exact error message caught");
     
-    // Classify error type FIRST
-    const configErrorPattern = /NO_TEMPLATE_MATCH:|TEMPLATE_FILE_NOT_FOUND:|no template|configuration required|template.*not found/i;
+    // Classify error type
+    const configErrorPattern = /NO_TEMPLATE_MATCH:|TEMPLATE_FILE_NOT_FOUND:|TEMPLATE_SETTINGS_INVALID:|EMPTY_ENGRAVING_TEXT:|MISSING_PLACEHOLDER_VALUE:|TEXT_TOO_LONG:|no template|configuration required|template.*not found/i;
     const isConfigError = configErrorPattern.test(errorMessage);
     
-    logger.info({ orderId, isConfigError, errorMessage }, "Error classification result");
+    // LOG: Error classification result
+    logger.info({ 
+      orderId, 
+      side: sideLabel, 
+      endpoint,
+      isConfigError, 
+      errorMessage,
+      classificationPattern: configErrorPattern.toString(),
+      reason: isConfigError 
+        ? "Error message matches configuration error pattern" 
+        : "Error message does NOT match configuration error pattern"
+    }, "Error classification result (isConfigError = " + isConfigError + ")");
     
     // Build update object based on error type
-    let updateData;
+    let errorUpdateData: any;
     
     if (isConfigError) {
       // Configuration error - no retry, requires manual fix
-      updateData = {
-        status: 'error' as const,
-        errorMessage: errorMessage.startsWith('CONFIG_ERROR:') 
+      errorUpdateData = {
+        [statusField]: 'error' as const,
+        [errorField]: errorMessage.startsWith('CONFIG_ERROR:') 
           ? errorMessage 
           : 'CONFIG_ERROR: ' + errorMessage,
-        attemptCount: 999,
+        [attemptField]: 999,
         updatedAt: sql`CURRENT_TIMESTAMP`
       };
       
-      logger.warn({ orderId, sku: order.sku }, "Configuration error - requires manual intervention");
+      logger.warn({ orderId, side: sideLabel, sku: item.sku }, "Configuration error - requires manual intervention");
     } else {
       // Transient error - use retry logic
-      const newAttemptCount = (order.attemptCount || 0) + 1;
+      const newAttemptCount = (currentAttemptCount || 0) + 1;
       const shouldRetry = newAttemptCount < 3;
       
-      updateData = {
-        status: shouldRetry ? ('pending' as const) : ('error' as const),
-        errorMessage: errorMessage,
-        attemptCount: newAttemptCount,
+      errorUpdateData = {
+        [statusField]: shouldRetry ? ('pending' as const) : ('error' as const),
+        [errorField]: errorMessage,
+        [attemptField]: newAttemptCount,
         updatedAt: sql`CURRENT_TIMESTAMP`
       };
       
-      logger.info({ orderId, newAttemptCount, shouldRetry }, "Transient error - retry logic applied");
+      logger.info({ orderId, side: sideLabel, newAttemptCount, shouldRetry }, "Transient error - retry logic applied");
     }
     
-    // Execute the database update and WAIT for it
-    await db.update(orders)
-      .set(updateData)
-      .where(eq(orders.orderId, orderId))
+    // Execute the database update
+    await db.update(orderItems)
+      .set(errorUpdateData)
+      .where(eq(orderItems.id, item.id))
       .run();
     
-    logger.info({ orderId, finalStatus: updateData.status, attemptCount: updateData.attemptCount }, "Order state updated in database");
+    logger.info({ orderId, side: sideLabel, finalStatus: errorUpdateData[statusField], attemptCount: errorUpdateData[attemptField] }, `${sideLabel} state updated in database`);
+    
+    // Update overall order status
+    rollupOrderStatus(orderId);
     
-    // Part 3: Verification logging - query database to confirm update
-    const verifyOrder = await db.select()
-      .from(orders)
-      .where(eq(orders.orderId, orderId))
+    // Verification logging
+    const verifyItem = await db.select()
+      .from(orderItems)
+      .where(eq(orderItems.id, item.id))
       .limit(1);
     
     logger.info({ 
-      orderId, 
-      dbStatus: verifyOrder[0]?.status, 
-      dbAttemptCount: verifyOrder[0]?.attemptCount,
-      dbErrorMessage: verifyOrder[0]?.errorMessage 
+      orderId,
+      itemId: item.id,
+      side: sideLabel,
+      dbStatus: verifyItem[0]?.[statusField], 
+      dbAttemptCount: verifyItem[0]?.[attemptField],
+      dbErrorMessage: verifyItem[0]?.[errorField] 
     }, "Database state verification");
     
     // Return appropriate error response
@@ -1063,15 +1434,18 @@ const handleLightburn = async (request: { params: unknown }, reply: any) => {
     
     return { 
       error: errorMessage,
+      side: sideLabel,
+      itemId: item.id,
       errorType: isConfigError ? 'configuration' : 'transient',
-      status: updateData.status,
-      attemptCount: updateData.attemptCount
+      status: errorUpdateData[statusField],
+      attemptCount: errorUpdateData[attemptField]
     };
   }
 };
 
+// Legacy whole-order endpoint: the front side of a single-item order, with item statuses rolled up
 app.post("/orders/:orderId/lightburn", async (request, reply) => {
-  return handleLightburn(request, reply);
+  return handleSideProcessing(request, reply, 'front');
 });
 
 // New endpoints for side-specific processing
@@ -1083,6 +1457,15 @@ app.post("/orders/:orderId/lightburn/retro", async (request, reply) => {
   return handleSideProcessing(request, reply, 'retro');
 });
 
+// Per-item side processing for orders with several line items
+app.post("/orders/:orderId/items/:itemId/lightburn/front", async (request, reply) => {
+  return handleSideProcessing(request, reply, 'front');
+});
+
+app.post("/orders/:orderId/items/:itemId/lightburn/retro", async (request, reply) => {
+  return handleSideProcessing(request, reply, 'retro');
+});
+
 // Check if retro template is available for an order
 app.get("/orders/:orderId/retro-available", async (request, reply) => {
   const { orderId } = paramsSchema.parse(request.params);
@@ -1110,8 +1493,8 @@ app.get("/orders/:orderId/retro-available", async (request, reply) => {
 });
 
 app.post("/orders/:orderId/ezcad", async (request, reply) => {
-  const result = await handleLightburn(request, reply);
-  return { ...result, warning: "Deprecated; use /lightburn" };
+  const result = await handleSideProcessing(request, reply, 'front');
+  return { ...result, warning: "Deprecated; use /lightburn/front" };
 });
 
 // Retry failed order endpoint
@@ -1256,19 +1639,19 @@ app.post("/orders/:orderId/discard-reprint", async (request, reply) => {
     };
   }
 
-  // Reset both sides to 'printed' status (or keep 'not_required' for retro)
+  // Reset both sides of every item to 'printed' status (or keep 'not_required' for retro)
   const updateResult = await db
-    .update(orders)
+    .update(orderItems)
     .set({
       fronteStatus: 'printed',
-      retroStatus: order.retroStatus === 'not_required' ? 'not_required' : 'printed',
+      retroStatus: sql`CASE WHEN ${orderItems.retroStatus} = 'not_required' THEN 'not_required' ELSE 'printed' END`,
       fronteErrorMessage: null,
       retroErrorMessage: null,
       fronteAttemptCount: 0,
       retroAttemptCount: 0,
       updatedAt: sql`CURRENT_TIMESTAMP`
     })
-    .where(eq(orders.orderId, orderId))
+    .where(eq(orderItems.orderId, orderId))
     .run();
 
   if (updateResult.changes === 0) {
@@ -1277,8 +1660,8 @@ app.post("/orders/:orderId/discard-reprint", async (request, reply) => {
     return { error: "Failed to discard reprint" };
   }
 
-  // Update overall order status
-  await updateOverallStatus(orderId);
+  // Update order side statuses and overall status from the items
+  rollupOrderStatus(orderId);
 
   // Fetch the updated order
   const updatedRows = await db
@@ -1306,6 +1689,40 @@ app.post("/orders/:orderId/discard-reprint", async (request, reply) => {
   };
 });
 
+// Dismiss a "changed after print" flag without re-engraving
+app.post("/orders/:orderId/acknowledge-change", async (request, reply) => {
+  const { orderId } = paramsSchema.parse(request.params);
+  logger.info({ orderId }, "Acknowledge feed change requested");
+
+  const updateResult = await db
+    .update(orders)
+    .set({
+      changedAfterPrint: false,
+      updatedAt: sql`CURRENT_TIMESTAMP`
+    })
+    .where(eq(orders.orderId, orderId))
+    .run();
+
+  if (updateResult.changes === 0) {
+    logger.warn({ orderId }, "Order not found for acknowledge change");
+    reply.code(404);
+    return { error: "Order not found" };
+  }
+
+  await db
+    .update(orderItems)
+    .set({ fronteChangedAfterPrint: false, retroChangedAfterPrint: false })
+    .where(eq(orderItems.orderId, orderId))
+    .run();
+
+  logger.info({ orderId }, "Feed change acknowledged - order kept as printed");
+
+  return {
+    success: true,
+    message: "Change acknowledged. The order will not be re-engraved."
+  };
+});
+
 // Template Rules Management Endpoints
 
 app.get("/settings/rules", async () => {
@@ -1326,6 +1743,25 @@ app.post("/settings/rules", async (request, reply) => {
 
   try {
     const { skuPattern, templateFilename, priority } = bodySchema.parse(request.body);
+
+    // A broken template is reported now rather than when an order fails with it
+    const inspection = path.basename(templateFilename) === templateFilename
+      ? await inspectTemplate(templateFilename)
+      : null;
+    if (!inspection) {
+      reply.code(400);
+      return { error: `Template file "${templateFilename}" not found in ${config.paths.templates}` };
+    }
+    if (!inspection.valid) {
+      reply.code(400);
+      return {
+        error: `Template "${templateFilename}" can't be used: ${inspection.issues
+          .filter((issue) => issue.level === "error")
+          .map((issue) => issue.message)
+          .join("; ")}`,
+        inspection
+      };
+    }
     
     const result = await db
       .insert(templateRules)
@@ -1336,7 +1772,7 @@ app.post("/settings/rules", async (request, reply) => {
       })
       .returning();
     
-    return { success: true, rule: result[0] };
+    return { success: true, rule: result[0], inspection };
   } catch (error) {
     reply.code(400);
     return {
@@ -1366,6 +1802,40 @@ app.delete("/settings/rules/:id", async (request, reply) => {
   }
 });
 
+/**
+ * GET /templates/:filename/inspect - Placeholders, fonts, images, cut settings,
+ * material size and side of a template in the templates folder, with the
+ * problems that would make orders fail
+ */
+app.get("/templates/:filename/inspect", async (request, reply) => {
+  const paramsSchema = z.object({
+    filename: z.string().min(1).refine((filename) => path.basename(filename) === filename, "Invalid template filename")
+  });
+
+  let filename: string;
+  try {
+    ({ filename } = paramsSchema.parse(request.params));
+  } catch (error) {
+    reply.code(400);
+    return {
+      error: error instanceof z.ZodError ? error.issues.map((issue) => issue.message).join("; ") : "Invalid request"
+    };
+  }
+
+  try {
+    const inspection = await inspectTemplate(filename);
+    if (!inspection) {
+      reply.code(404);
+      return { error: `Template file "${filename}" not found` };
+    }
+    return inspection;
+  } catch (error) {
+    logError(error, { filename, operation: "inspect_template" });
+    reply.code(500);
+    return { error: error instanceof Error ? error.message : "Failed to inspect template" };
+  }
+});
+
 // Asset Rules Management Endpoints
 
 app.get("/settings/asset-rules", async () => {
@@ -1426,6 +1896,240 @@ app.delete("/settings/asset-rules/:id", async (request, reply) => {
   }
 });
 
+// Engraving Text Extraction Rules Endpoints
+
+app.get("/settings/extraction-rules", async () => {
+  const rules = db
+    .select()
+    .from(extractionRules)
+    .orderBy(desc(extractionRules.priority), extractionRules.id)
+    .all();
+  return { rules };
+});
+
+app.post("/settings/extraction-rules", async (request, reply) => {
+  const bodySchema = z.object({
+    skuPattern: z.string().trim().default(""),
+    kind: z.enum(['regex', 'key']),
+    pattern: z.string().trim().min(1),
+    priority: z.number().int().default(0)
+  });
+
+  try {
+    const { skuPattern, kind, pattern, priority } = bodySchema.parse(request.body);
+
+    if (kind === 'regex') {
+      try {
+        compileExtractionPattern(pattern);
+      } catch (error) {
+        reply.code(400);
+        return { error: error instanceof Error ? error.message : "Invalid regular expression" };
+      }
+    }
+
+    const rule = db
+      .insert(extractionRules)
+      .values({ skuPattern, kind, pattern, priority })
+      .returning()
+      .get();
+
+    return { success: true, rule };
+  } catch (error) {
+    reply.code(400);
+    return {
+      error: error instanceof Error ? error.message : "Invalid request body"
+    };
+  }
+});
+
+/**
+ * POST /settings/extraction-rules/test - The engraving text the saved rules
+ * take from a sample custom field for a SKU
+ */
+app.post("/settings/extraction-rules/test", async (request, reply) => {
+  const bodySchema = z.object({
+    sku: z.string().default(""),
+    customField: z.string()
+  });
+
+  try {
+    const { sku, customField } = bodySchema.parse(request.body);
+    const keys = config.getPersonalizationKeys();
+    const personalization = parsePersonalizationText(customField, keys);
+    const { text, rule } = extractEngravingText(
+      db.select().from(extractionRules).all(),
+      sku,
+      customField,
+      personalization,
+      keys
+    );
+
+    return { text, ruleId: rule?.id ?? null, fields: personalization?.fields ?? {} };
+  } catch (error) {
+    reply.code(400);
+    return {
+      error: error instanceof Error ? error.message : "Invalid request body"
+    };
+  }
+});
+
+app.delete("/settings/extraction-rules/:id", async (request, reply) => {
+  try {
+    const { id } = deleteRuleParamsSchema.parse(request.params);
+
+    db.delete(extractionRules).where(eq(extractionRules.id, id)).run();
+
+    return { success: true };
+  } catch (error) {
+    reply.code(400);
+    return {
+      error: error instanceof Error ? error.message : "Invalid request"
+    };
+  }
+});
+
+// Mapping Profiles Management Endpoints
+
+app.get("/settings/mapping-profiles", async () => {
+  const profiles = db
+    .select()
+    .from(mappingProfiles)
+    .orderBy(desc(mappingProfiles.isDefault), mappingProfiles.name)
+    .all();
+  return { profiles };
+});
+
+app.post("/settings/mapping-profiles", async (request, reply) => {
+  try {
+    const { name, recordPath, fields } = mappingProfileSchema.parse(request.body);
+
+    const profile = db
+      .insert(mappingProfiles)
+      .values({ name, recordPath, fields })
+      .returning()
+      .get();
+
+    logger.info({ mappingProfileId: profile.id, name }, "Mapping profile created");
+    return { success: true, profile };
+  } catch (error) {
+    reply.code(400);
+    return {
+      error: error instanceof Error ? error.message : "Invalid request body"
+    };
+  }
+});
+
+const mappingProfileParamsSchema = z.object({
+  id: z.coerce.number().int().min(1)
+});
+
+app.put("/settings/mapping-profiles/:id", async (request, reply) => {
+  try {
+    const { id } = mappingProfileParamsSchema.parse(request.params);
+    const { name, recordPath, fields } = mappingProfileSchema.parse(request.body);
+
+    const profile = db
+      .update(mappingProfiles)
+      .set({ name, recordPath, fields, updatedAt: sql`CURRENT_TIMESTAMP` })
+      .where(eq(mappingProfiles.id, id))
+      .returning()
+      .get();
+
+    if (!profile) {
+      reply.code(404);
+      return { error: "Mapping profile not found" };
+    }
+
+    logger.info({ mappingProfileId: id, name }, "Mapping profile updated");
+    return { success: true, profile };
+  } catch (error) {
+    reply.code(400);
+    return {
+      error: error instanceof Error ? error.message : "Invalid request body"
+    };
+  }
+});
+
+app.delete("/settings/mapping-profiles/:id", async (request, reply) => {
+  try {
+    const { id } = mappingProfileParamsSchema.parse(request.params);
+
+    const profile = db.select().from(mappingProfiles).where(eq(mappingProfiles.id, id)).get();
+    if (!profile) {
+      reply.code(404);
+      return { error: "Mapping profile not found" };
+    }
+    if (profile.isDefault) {
+      reply.code(400);
+      return { error: "The default mapping profile cannot be deleted" };
+    }
+
+    const usedBy = config.getFeedSources().filter((source) => source.mappingProfileId === id);
+    if (usedBy.length > 0) {
+      reply.code(400);
+      return {
+        error: `Mapping profile is used by: ${usedBy.map((source) => source.name).join(", ")}`
+      };
+    }
+
+    db.delete(mappingProfiles).where(eq(mappingProfiles.id, id)).run();
+    
+    return { success: true };
+  } catch (error) {
+    reply.code(400);
+    return {
+      error: error instanceof Error ? error.message : "Invalid request"
+    };
+  }
+});
+
+/**
+ * POST /settings/mapping-profiles/preview - Apply an unsaved profile to the first rows of a feed
+ */
+app.post("/settings/mapping-profiles/preview", async (request, reply) => {
+  const bodySchema = z.object({
+    url: z.string().trim().min(1),
+    format: z.enum(['auto', 'csv', 'json', 'xml', 'amazon', 'xlsx']).default('auto'),
+    // Saved feed whose auth and headers to send
+    sourceId: z.string().optional(),
+    profile: mappingProfileSchema.omit({ name: true }),
+    limit: z.number().int().min(1).max(50).default(10)
+  });
+
+  try {
+    const { url, format, sourceId, profile, limit } = bodySchema.parse(request.body);
+
+    if (!validateFeedLocation(url)) {
+      reply.code(400);
+      return { error: "Feed URL must be a valid HTTP URL or an absolute file path." };
+    }
+
+    const savedSource = sourceId ? config.getFeedSources().find((source) => source.id === sourceId) : undefined;
+    return await previewMapping(
+      {
+        id: "mapping-preview",
+        url,
+        format,
+        delimiter: savedSource?.delimiter,
+        encoding: savedSource?.encoding,
+        sheet: savedSource?.sheet,
+        headerRow: savedSource?.headerRow,
+        // The saved credentials are only sent to the saved feed's own server
+        auth: savedSource && config.sameFeedOrigin(url, savedSource.url) ? savedSource.auth : undefined,
+        headers: savedSource?.headers
+      },
+      profile,
+      limit
+    );
+  } catch (error) {
+    logError(error, { operation: "mapping_preview" });
+    reply.code(400);
+    return {
+      error: error instanceof Error ? error.message : "Preview failed"
+    };
+  }
+});
+
 // Catch-all route for SPA (must be last!)
 // This ensures React Router can handle client-side routing
 app.setNotFoundHandler(async (request, reply) => {
@@ -1438,6 +2142,11 @@ app.setNotFoundHandler(async (request, reply) => {
   return { error: "Not found" };
 });
 
+app.addHook("onClose", async () => {
+  stopSyncScheduler();
+  stopHotFolder();
+});
+
 /**
  * Start the Fastify server
  * @param overridePort - Optional port override (including 0 for random port)
@@ -1449,6 +2158,9 @@ export async function startServer(overridePort?: number) {
   
   // Run migrations
   runMigrations();
+  ensureDefaultMappingProfile();
+  migrateInlineFieldMappings();
+  refreshPersonalizations(true);
   
   logger.info("Victoria Laser App server initializing...");
   logger.info({ paths: config.paths }, "Server started with configuration");
@@ -1458,6 +2170,10 @@ export async function startServer(overridePort?: number) {
   
   logger.info({ port, host: "0.0.0.0", address }, `Server listening on ${address}`);
   
+  // Start background sync and the hot folder once the server is up
+  startSyncScheduler();
+  startHotFolder();
+  
   return {
     app,
     address,
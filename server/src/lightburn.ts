@@ -4,10 +4,27 @@ import path from "node:path";
 import { exec, execFile, execFileSync } from "node:child_process";
 import { promisify } from "node:util";
 import { db } from "./db.js";
-import { templateRules, assetRules } from "./schema.js";
+import { templateRules, assetRules, extractionRules } from "./schema.js";
 import { desc } from "drizzle-orm";
 import { logger, logError } from "./logger.js";
 import { config, IS_WSL } from "./config.js";
+import {
+  assetRuleTarget,
+  extractEngravingText,
+  getSurfaceForSide,
+  parsePersonalizationText,
+  Personalization,
+  PersonalizationSurface
+} from "./personalization.js";
+import { findFontMetrics } from "./fontMetrics.js";
+import { FitBox, fitText, loadTemplateSettings } from "./textFit.js";
+import {
+  DESIGN_IMAGE_KEY,
+  ENGRAVING_TEXT_KEY,
+  parsePlaceholder,
+  placeholderValue,
+  PlaceholderContext
+} from "./placeholders.js";
 
 const execPromise = promisify(exec);
 const execFileAsync = promisify(execFile);
@@ -55,11 +72,34 @@ interface Order {
   buyerName: string | null;
   customField: string | null;
   sku: string | null;
+  purchaseDate?: string | null;
+}
+
+interface OrderItem {
+  itemKey: string;
+  sku: string | null;
+  quantity?: number;
+  customField: string | null;
+  personalization?: Personalization | null;
+}
+
+/**
+ * Which line item to engrave and how many copies of the job to produce
+ */
+export interface LightBurnJobOptions {
+  // Engrave this item's SKU and customization instead of the order-level ones
+  item?: OrderItem;
+  // One project file per copy, e.g. the item quantity
+  copies?: number;
 }
 
 interface LightBurnResult {
+  // First generated file (the only one for a single copy)
   filePath: string;
+  filePaths: string[];
   orderId: string;
+  itemKey?: string;
+  copies: number;
   detectedColor?: string;
 }
 
@@ -237,41 +277,33 @@ async function cleanupTempFiles(files: string[]): Promise<void> {
 }
 
 /**
- * Extract the engraving name from custom field text
- * Looks for "Engrave:" or "Name:" keywords and extracts the following text
- * @param customField - The custom field text to parse
- * @returns The extracted name, or empty string if not found
+ * Write line breaks inside attribute values as character references: XML
+ * readers turn literal ones into spaces, which would put multi-line texts on
+ * one line. Every `"` in serialized output delimits an attribute value.
  */
-function extractEngravingName(customField: string | null): string {
-  if (!customField) {
-    return "";
-  }
-
-  // Look for "Engrave:" or "Name:" (case-insensitive)
-  const regex = /(?:Engrave|Name)\s*:\s*([^,]+)/i;
-  const match = customField.match(regex);
-  
-  if (match && match[1]) {
-    // Extract and trim the captured group
-    return match[1].trim();
-  }
-  
-  // If no match found, return empty string
-  return "";
-}
+const encodeAttributeNewlines = (xml: string) =>
+  xml.replace(/="([^"]*)"/g, (attribute, value: string) =>
+    /[\r\n]/.test(value) ? `="${value.replace(/\r/g, "&#13;").replace(/\n/g, "&#10;")}"` : attribute
+  );
 
 /**
- * Detect assets based on custom field text
- * @param customField - The custom field text to scan
+ * Detect assets from the parsed personalization: each rule's keyword is looked
+ * for in the buyer's choice of its type on the surface, else in the value of
+ * its type's key (image, font, color), or in every value when the item has no such key
+ * @param personalization - The item's parsed personalization
+ * @param surface - The Amazon Custom surface being engraved, if any
  * @returns Detected assets
  */
-async function detectAssets(customField: string | null): Promise<DetectedAssets> {
-  logger.debug({ customField }, "Starting asset detection");
+async function detectAssets(
+  personalization: Personalization | null,
+  surface?: PersonalizationSurface
+): Promise<DetectedAssets> {
+  logger.debug({ fields: personalization?.fields }, "Starting asset detection");
 
   const detected: DetectedAssets = {};
 
-  if (!customField) {
-    logger.debug("No custom field provided, skipping asset detection");
+  if (!personalization || Object.keys(personalization.fields).length === 0) {
+    logger.debug("No personalization fields, skipping asset detection");
     return detected;
   }
 
@@ -279,12 +311,9 @@ async function detectAssets(customField: string | null): Promise<DetectedAssets>
   const rules = await db.select().from(assetRules).all();
   logger.debug({ ruleCount: rules.length }, "Loaded asset rules");
 
-  // Normalize custom field for matching
-  const normalizedField = customField.toLowerCase();
-
   for (const rule of rules) {
     const normalizedKeyword = rule.triggerKeyword.toLowerCase();
-    if (normalizedField.includes(normalizedKeyword)) {
+    if (assetRuleTarget(personalization, rule.assetType, surface).includes(normalizedKeyword)) {
       logger.info(
         { 
           keyword: rule.triggerKeyword, 
@@ -310,13 +339,19 @@ async function detectAssets(customField: string | null): Promise<DetectedAssets>
 
 /**
  * Copy image to temp directory
- * @param imageName - Name of the image file
+ * @param imageName - Name of the image file, relative to the assets folder
  * @returns Path to the copied image
+ * @throws Error when the name points outside the assets folder
  */
 async function copyImageToTemp(imageName: string): Promise<string> {
   // Use config paths for assets and temp (native Windows paths)
-  const sourcePath = path.join(config.paths.assets, imageName);
-  const destPath = path.join(config.paths.temp, imageName);
+  const sourcePath = path.resolve(config.paths.assets, imageName);
+  const relativePath = path.relative(path.resolve(config.paths.assets), sourcePath);
+  if (!relativePath || relativePath.startsWith("..") || path.isAbsolute(relativePath)) {
+    logger.warn({ imageName, assets: config.paths.assets }, "Image name points outside the assets folder");
+    throw new Error(`Invalid image name ${imageName}`);
+  }
+  const destPath = path.join(config.paths.temp, path.basename(sourcePath));
   
   try {
     await fs.copyFile(sourcePath, destPath);
@@ -560,13 +595,20 @@ export async function hasRetroTemplate(sku: string | null): Promise<boolean> {
  * @param order - The order data containing buyer information
  * @param defaultTemplatePath - Path to the default LightBurn template file (legacy, now ignored)
  * @param side - The side to process ('front' or 'retro')
- * @returns Promise with the generated file path
+ * @param options - Line item to engrave and number of copies (one job per copy)
+ * @returns Promise with the generated file paths
  */
 export async function generateLightBurnProject(
   order: Order,
   defaultTemplatePath: string,
-  side: 'front' | 'retro' = 'front'
+  side: 'front' | 'retro' = 'front',
+  options: LightBurnJobOptions = {}
 ): Promise<LightBurnResult> {
+  const { item } = options;
+  const sku = item ? item.sku : order.sku;
+  const customField = item ? item.customField : order.customField;
+  const copies = Math.max(1, Math.floor(options.copies ?? 1));
+
   // Track copied image files for cleanup in case of failure
   // NOTE: We keep these files on SUCCESS because LightBurn needs them while the project is open
   // We only clean up on FAILURE to avoid orphaned files in the temp directory
@@ -576,18 +618,20 @@ export async function generateLightBurnProject(
     logger.info(
       { 
         orderId: order.orderId, 
-        sku: order.sku, 
+        itemKey: item?.itemKey,
+        sku, 
         buyerName: order.buyerName,
-        side
+        side,
+        copies
       },
       "Starting LightBurn project generation"
     );
     
-    const matchedTemplate = await findTemplateForSku(order.sku, side);
+    const matchedTemplate = await findTemplateForSku(sku, side);
     
     if (!matchedTemplate) {
-      const error = new Error(`NO_TEMPLATE_MATCH: No template found for SKU '${order.sku || "(none)"}' (side: ${side})`);
-      logError(error, { orderId: order.orderId, sku: order.sku, side });
+      const error = new Error(`NO_TEMPLATE_MATCH: No template found for SKU '${sku || "(none)"}' (side: ${side})`);
+      logError(error, { orderId: order.orderId, sku, side });
       throw error;
     }
 
@@ -618,20 +662,69 @@ export async function generateLightBurnProject(
     // Parse XML with cheerio in XML mode
     const $ = cheerio.load(templateContent, { xmlMode: true });
 
-    // Find the Shape element with Name="{{CUSTOMER_NAME}}" and update the Str attribute
-    const customerShape = $('Shape[Name="{{CUSTOMER_NAME}}"]');
-    
-    if (customerShape.length === 0) {
-      throw new Error('Template does not contain a Shape with Name="{{CUSTOMER_NAME}}"');
+    // Text shapes named {{KEY}} / {{KEY?}}; the design image shape is swapped below
+    const textShapes = $("Shape").filter((_, element) => {
+      const placeholder = parsePlaceholder($(element).attr("Name"));
+      return placeholder !== null && placeholder.key !== DESIGN_IMAGE_KEY;
+    });
+
+    if (textShapes.length === 0) {
+      throw new Error('Template does not contain a text Shape named like "{{CUSTOMER_NAME}}"');
     }
 
-    // Extract the engraving name from the custom field
-    const engravingName = extractEngravingName(order.customField);
-    logger.info({ engravingName, orderId: order.orderId }, "Extracted engraving name");
-    customerShape.attr("Str", engravingName);
+    const keys = config.getPersonalizationKeys();
+    // Parsed at import; the legacy order-level job (no item) parses the order's text here
+    const personalization = item
+      ? item.personalization ?? null
+      : parsePersonalizationText(customField, keys);
+
+    // Amazon Custom items carry the values for each surface; other items go through the extraction rules
+    const surface = personalization ? getSurfaceForSide(personalization, side) : undefined;
+    const rules = await db.select().from(extractionRules).all();
+    let engravingName: string | undefined;
+    const engravingText = () => {
+      if (engravingName === undefined) {
+        const extracted = surface?.texts[0]?.text
+          ? { text: surface.texts[0].text, rule: null }
+          : extractEngravingText(rules, sku, customField, personalization, keys);
+        engravingName = extracted.text.trim();
+        logger.info(
+          { engravingName, orderId: order.orderId, surface: surface?.name, extractionRuleId: extracted.rule?.id },
+          surface ? "Engraving text taken from personalization surface" : "Engraving text extracted from personalization"
+        );
+      }
+      return engravingName;
+    };
+
+    const context: PlaceholderContext = { order, item, personalization, keys, engravingText };
+    const missing = new Set<string>();
+    textShapes.each((_, element) => {
+      const shape = $(element);
+      const placeholder = parsePlaceholder(shape.attr("Name"))!;
+      const value = placeholderValue(placeholder.key, context).trim();
+      if (!value && !placeholder.optional) {
+        missing.add(placeholder.key);
+      }
+      shape.attr("Str", value);
+    });
+    logger.info({ orderId: order.orderId, placeholders: textShapes.length, missing: [...missing] }, "Template placeholders filled");
+
+    // A blank tag would otherwise be engraved as if the job had succeeded
+    if (missing.has(ENGRAVING_TEXT_KEY)) {
+      throw new Error(
+        `EMPTY_ENGRAVING_TEXT: No engraving text found for SKU '${sku || "(none)"}' (side: ${side}). ` +
+          "Add an extraction rule in Settings or correct the personalization."
+      );
+    }
+    if (missing.size > 0) {
+      throw new Error(
+        `MISSING_PLACEHOLDER_VALUE: No value for ${[...missing].map((key) => `{{${key}}}`).join(", ")} ` +
+          `(SKU '${sku || "(none)"}', side: ${side}). Correct the personalization or mark the placeholder optional ({{KEY?}}).`
+      );
+    }
 
-    // Detect assets from custom field
-    const detectedAssets = await detectAssets(order.customField);
+    // Detect assets from the personalization; the buyer's own choices on the surface are matched first
+    const detectedAssets = await detectAssets(personalization, surface);
 
     // Handle image asset (copy and swap)
     if (detectedAssets.imageAsset) {
@@ -663,60 +756,106 @@ export async function generateLightBurnProject(
       logger.debug({ orderId: order.orderId }, "No image asset detected");
     }
 
-    // Handle font asset
+    // Handle font asset (the engraving text's shapes only)
     if (detectedAssets.fontAsset) {
-      customerShape.attr("Font", detectedAssets.fontAsset);
+      textShapes
+        .filter((_, element) => parsePlaceholder($(element).attr("Name"))?.key === ENGRAVING_TEXT_KEY)
+        .attr("Font", detectedAssets.fontAsset);
       logger.info(
         { font: detectedAssets.fontAsset, orderId: order.orderId },
         "Font applied to text shape"
       );
     }
 
-    // Use config path for temp directory (native Windows path)
-    const sideLabel = side === 'retro' ? 'retro' : 'fronte';
-    const filename = `Order_${order.orderId}_${sideLabel}.lbrn2`;
-    const filePath = path.join(config.paths.temp, filename);
-
-    // Save the modified XML
-    const modifiedContent = $.xml();
-    await fs.writeFile(filePath, modifiedContent, "utf-8");
-    logger.info({ filePath, orderId: order.orderId }, "LightBurn file written");
+    // Shrink texts to their placeholder's box (from the shape name, overridden by the template's settings file)
+    const fitBoxes = (await loadTemplateSettings(templatePath)).placeholders;
+    for (const element of textShapes.toArray()) {
+      const shape = $(element);
+      const placeholder = parsePlaceholder(shape.attr("Name"))!;
+      const box: FitBox = { maxWidth: placeholder.maxWidth, maxHeight: placeholder.maxHeight, ...fitBoxes[placeholder.key] };
+      const text = shape.attr("Str") ?? "";
+      if (!text || (box.maxWidth === undefined && box.maxHeight === undefined)) {
+        continue;
+      }
 
-    // Launch LightBurn with path conversion for WSL compatibility
-    try {
-      // Convert path to Windows format
-      const windowsPath = normalizePathForWindows(filePath);
-      logger.info({ 
-        orderId: order.orderId,
-        originalPath: filePath, 
-        windowsPath 
-      }, 'Path normalized for LightBurn launch');
-      
-      // Launch LightBurn
-      await execFileAsync('cmd.exe', ['/c', 'start', '', windowsPath]);
+      const size = {
+        height: Number(shape.attr("H")) || 10,
+        letterSpacing: Number(shape.attr("LS")) || 0,
+        lineSpacing: Number(shape.attr("LnS")) || 0
+      };
+      const metrics = await findFontMetrics(shape.attr("Font") ?? "");
+      const fit = fitText(text, metrics, box, size);
+      if (!fit) {
+        const limits = [box.maxWidth && `${box.maxWidth} mm wide`, box.maxHeight && `${box.maxHeight} mm high`]
+          .filter(Boolean)
+          .join(", ");
+        throw new Error(
+          `TEXT_TOO_LONG: "${text.replace(/\n/g, " / ")}" does not fit ${placeholder.name} (${limits}) ` +
+            `even at the minimum height (SKU '${sku || "(none)"}', side: ${side}). Shorten the personalization.`
+        );
+      }
 
+      shape.attr("H", String(fit.height));
+      shape.attr("LS", String(fit.letterSpacing));
       logger.info(
-        { orderId: order.orderId, windowsPath },
-        "LightBurn launched successfully"
+        { orderId: order.orderId, placeholder: placeholder.key, ...fit, templateHeight: size.height, fontFound: Boolean(metrics) },
+        "Text fitted to placeholder box"
       );
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      logError(error, {
-        orderId: order.orderId,
-        filePath,
-        operation: "launch_lightburn"
-      });
-      throw new Error(`Failed to launch LightBurn: ${errorMessage}`);
     }
 
-    // Verify the generated file exists and is valid
-    logger.info({ orderId: order.orderId, filePath }, "Verifying generated file");
-    await verifyLightBurnFile(filePath, order.orderId);
+    // Use config path for temp directory (native Windows path)
+    const sideLabel = side === 'retro' ? 'retro' : 'fronte';
+    const itemLabel = item ? `_${item.itemKey.replace(/[^\w-]/g, "_")}` : "";
+    const baseName = `Order_${order.orderId}${itemLabel}_${sideLabel}`;
+    const modifiedContent = encodeAttributeNewlines($.xml());
+    const filePaths: string[] = [];
+
+    // One job per copy: the operator engraves each file once
+    for (let copy = 1; copy <= copies; copy++) {
+      const filename = copies > 1 ? `${baseName}_${copy}di${copies}.lbrn2` : `${baseName}.lbrn2`;
+      const filePath = path.join(config.paths.temp, filename);
+
+      // Save the modified XML
+      await fs.writeFile(filePath, modifiedContent, "utf-8");
+      logger.info({ filePath, orderId: order.orderId, copy, copies }, "LightBurn file written");
+
+      // Launch LightBurn with path conversion for WSL compatibility
+      try {
+        // Convert path to Windows format
+        const windowsPath = normalizePathForWindows(filePath);
+        logger.info({ 
+          orderId: order.orderId,
+          originalPath: filePath, 
+          windowsPath 
+        }, 'Path normalized for LightBurn launch');
+        
+        // Launch LightBurn
+        await execFileAsync('cmd.exe', ['/c', 'start', '', windowsPath]);
+
+        logger.info(
+          { orderId: order.orderId, windowsPath },
+          "LightBurn launched successfully"
+        );
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logError(error, {
+          orderId: order.orderId,
+          filePath,
+          operation: "launch_lightburn"
+        });
+        throw new Error(`Failed to launch LightBurn: ${errorMessage}`);
+      }
+
+      // Verify the generated file exists and is valid
+      logger.info({ orderId: order.orderId, filePath }, "Verifying generated file");
+      await verifyLightBurnFile(filePath, order.orderId);
+      filePaths.push(filePath);
+    }
 
     logger.info(
       { 
         orderId: order.orderId, 
-        filePath,
+        filePaths,
         detectedColor: detectedAssets.colorAsset
       },
       "LightBurn launched and file verified successfully"
@@ -730,8 +869,11 @@ export async function generateLightBurnProject(
     );
 
     return {
-      filePath,
+      filePath: filePaths[0],
+      filePaths,
       orderId: order.orderId,
+      itemKey: item?.itemKey,
+      copies,
       detectedColor: detectedAssets.colorAsset,
     };
   } catch (error) {
@@ -766,7 +908,11 @@ export async function generateLightBurnProject(
         error.message.includes("LIGHTBURN_TIMEOUT") ||
         error.message.includes("LIGHTBURN_FILE_VERIFICATION_FAILED") ||
         error.message.includes("NO_TEMPLATE_MATCH") ||
-        error.message.includes("TEMPLATE_FILE_NOT_FOUND")
+        error.message.includes("TEMPLATE_FILE_NOT_FOUND") ||
+        error.message.includes("EMPTY_ENGRAVING_TEXT") ||
+        error.message.includes("MISSING_PLACEHOLDER_VALUE") ||
+        error.message.includes("TEXT_TOO_LONG") ||
+        error.message.includes("TEMPLATE_SETTINGS_INVALID")
       ) {
         throw error;
       }
@@ -0,0 +1,114 @@
+import { eq, sql } from "drizzle-orm";
+import { db } from "./db.js";
+import { mappingProfiles } from "./schema.js";
+import { DEFAULT_FIELD_RULES, FieldRules, MappableField } from "./parser.js";
+import { logger } from "./logger.js";
+import { config } from "./config.js";
+
+export type ResolvedMapping = {
+  recordPath: string | null;
+  fields: FieldRules;
+};
+
+/**
+ * Seed the "Default" profile (the former built-in header aliases) if none exists,
+ * and add built-in rules for fields introduced after it was seeded.
+ */
+export function ensureDefaultMappingProfile(): void {
+  const existing = db
+    .select()
+    .from(mappingProfiles)
+    .where(eq(mappingProfiles.isDefault, true))
+    .get();
+
+  if (existing) {
+    const missingFields = (Object.keys(DEFAULT_FIELD_RULES) as MappableField[])
+      .filter((field) => !(field in existing.fields));
+    if (missingFields.length > 0) {
+      const fields: FieldRules = { ...existing.fields };
+      for (const field of missingFields) {
+        fields[field] = DEFAULT_FIELD_RULES[field];
+      }
+      db.update(mappingProfiles)
+        .set({ fields, updatedAt: sql`CURRENT_TIMESTAMP` })
+        .where(eq(mappingProfiles.id, existing.id))
+        .run();
+      logger.info({ fields: missingFields }, "Added new built-in fields to default mapping profile");
+    }
+    return;
+  }
+
+  db.insert(mappingProfiles)
+    .values({ name: "Default", fields: DEFAULT_FIELD_RULES, isDefault: true })
+    .onConflictDoNothing()
+    .run();
+  logger.info("Seeded default mapping profile");
+}
+
+/**
+ * Move per-feed field mappings (and the XML_* env vars they were migrated from)
+ * into mapping profiles, one per feed. Mapped paths are tried before the default
+ * aliases, which keeps the old "mapping first, aliases as fallback" behaviour.
+ */
+export function migrateInlineFieldMappings(): void {
+  const sources = config.getFeedSources();
+
+  if (!sources.some((source) => source.recordPath !== undefined || source.fieldMapping !== undefined)) {
+    return;
+  }
+
+  const migratedSources = sources.map((source) => {
+    const { recordPath, fieldMapping, ...rest } = source;
+    const mappedFields = Object.entries(fieldMapping ?? {})
+      .filter(([, fieldPath]) => Boolean(fieldPath)) as [MappableField, string][];
+
+    // Nothing worth keeping: the feed simply uses the default profile
+    if (rest.mappingProfileId != null || (!recordPath && mappedFields.length === 0)) {
+      return rest;
+    }
+
+    const fields: FieldRules = { ...DEFAULT_FIELD_RULES };
+    for (const [field, fieldPath] of mappedFields) {
+      fields[field] = { paths: Array.from(new Set([fieldPath, ...(DEFAULT_FIELD_RULES[field]?.paths ?? [])])) };
+    }
+
+    const profile = db
+      .insert(mappingProfiles)
+      .values({ name: `${source.name} (${source.id})`, recordPath: recordPath || null, fields })
+      .returning({ id: mappingProfiles.id })
+      .get();
+
+    logger.info({ source: source.id, mappingProfileId: profile.id }, "Moved feed field mapping into a mapping profile");
+    return { ...rest, mappingProfileId: profile.id };
+  });
+
+  config.setFeedSources(migratedSources);
+}
+
+/**
+ * Get the mapping for a feed: its selected profile, else the default profile,
+ * else the built-in rules.
+ * @param profileId - The feed's mappingProfileId
+ * @returns Record path and field rules
+ */
+export function resolveMapping(profileId: number | null | undefined): ResolvedMapping {
+  const selected = profileId != null
+    ? db.select().from(mappingProfiles).where(eq(mappingProfiles.id, profileId)).get()
+    : undefined;
+
+  if (profileId != null && !selected) {
+    logger.warn({ mappingProfileId: profileId }, "Mapping profile not found, using default profile");
+  }
+
+  const profile = selected ?? db
+    .select()
+    .from(mappingProfiles)
+    .where(eq(mappingProfiles.isDefault, true))
+    .get();
+
+  if (!profile) {
+    return { recordPath: null, fields: DEFAULT_FIELD_RULES };
+  }
+
+  return { recordPath: profile.recordPath, fields: profile.fields };
+}
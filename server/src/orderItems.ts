@@ -0,0 +1,227 @@
+import { asc, eq, inArray, sql } from "drizzle-orm";
+import { db } from "./db.js";
+import { orderItems, orders, OrderItem } from "./schema.js";
+import { config } from "./config.js";
+import { reparsePersonalization } from "./personalization.js";
+import { logger } from "./logger.js";
+
+type SideStatus = OrderItem["retroStatus"];
+
+/**
+ * Calculate overall order status based on front and retro statuses
+ */
+export function calculateOverallStatus(
+  fronteStatus: string,
+  retroStatus: string
+): 'pending' | 'processing' | 'printed' | 'error' {
+  // If either side has an error, overall is error
+  if (fronteStatus === 'error' || retroStatus === 'error') {
+    return 'error';
+  }
+
+  // If either side is processing, overall is processing
+  if (fronteStatus === 'processing' || retroStatus === 'processing') {
+    return 'processing';
+  }
+
+  // Both sides must be printed (or retro is not_required) for overall to be printed
+  if (fronteStatus === 'printed' && (retroStatus === 'printed' || retroStatus === 'not_required')) {
+    return 'printed';
+  }
+
+  // Otherwise, overall is pending
+  return 'pending';
+}
+
+/**
+ * Combine the status of one side across items: any error wins, then any
+ * processing; the side is printed only when every item is printed.
+ */
+function combineSideStatuses(statuses: SideStatus[]): SideStatus {
+  const required = statuses.filter((status) => status !== 'not_required');
+
+  if (required.length === 0) {
+    return 'not_required';
+  }
+  if (required.includes('error')) {
+    return 'error';
+  }
+  if (required.includes('processing')) {
+    return 'processing';
+  }
+  if (required.every((status) => status === 'printed')) {
+    return 'printed';
+  }
+  return 'pending';
+}
+
+/**
+ * Per-order statements run for every order of a sync, prepared on first use
+ * (the tables only exist once migrations have run)
+ */
+function prepareStatements() {
+  const value = (name: string) => sql`${sql.placeholder(name)}`;
+
+  return {
+    selectItems: db
+      .select()
+      .from(orderItems)
+      .where(eq(orderItems.orderId, sql.placeholder("orderId")))
+      .orderBy(asc(orderItems.position), asc(orderItems.id))
+      .prepare(),
+    updateRollup: db
+      .update(orders)
+      .set({
+        status: value("status"),
+        fronteStatus: value("fronteStatus"),
+        fronteErrorMessage: value("fronteErrorMessage"),
+        fronteAttemptCount: value("fronteAttemptCount"),
+        fronteProcessedAt: value("fronteProcessedAt"),
+        retroStatus: value("retroStatus"),
+        retroErrorMessage: value("retroErrorMessage"),
+        retroAttemptCount: value("retroAttemptCount"),
+        retroProcessedAt: value("retroProcessedAt"),
+        updatedAt: sql`CURRENT_TIMESTAMP`
+      })
+      .where(eq(orders.orderId, sql.placeholder("orderId")))
+      .prepare()
+  };
+}
+
+let statements: ReturnType<typeof prepareStatements> | null = null;
+const prepared = () => (statements ??= prepareStatements());
+
+/**
+ * Get the line items of an order in feed order
+ * @param orderId - The order ID
+ */
+export function getOrderItems(orderId: string): OrderItem[] {
+  return prepared().selectItems.all({ orderId });
+}
+
+/**
+ * Get the line items of several orders, grouped by order ID
+ * @param orderIds - The order IDs
+ */
+export function getItemsByOrder(orderIds: string[]): Map<string, OrderItem[]> {
+  const itemsByOrder = new Map<string, OrderItem[]>();
+
+  if (orderIds.length === 0) {
+    return itemsByOrder;
+  }
+
+  const rows = db
+    .select()
+    .from(orderItems)
+    .where(inArray(orderItems.orderId, orderIds))
+    .orderBy(asc(orderItems.position), asc(orderItems.id))
+    .all();
+
+  for (const item of rows) {
+    const items = itemsByOrder.get(item.orderId) ?? [];
+    items.push(item);
+    itemsByOrder.set(item.orderId, items);
+  }
+
+  return itemsByOrder;
+}
+
+/**
+ * Recompute the order's front/retro columns and overall status from its items.
+ * Orders without items are left untouched.
+ * @param orderId - The order ID
+ */
+export function rollupOrderStatus(orderId: string): void {
+  const items = getOrderItems(orderId);
+
+  if (items.length === 0) {
+    return;
+  }
+
+  const fronteStatus = combineSideStatuses(items.map((item) => item.fronteStatus)) as OrderItem["fronteStatus"];
+  const retroStatus = combineSideStatuses(items.map((item) => item.retroStatus));
+  const latest = (values: (string | null)[]) =>
+    values.filter((value): value is string => Boolean(value)).sort().at(-1) ?? null;
+
+  prepared().updateRollup.run({
+    orderId,
+    status: calculateOverallStatus(fronteStatus, retroStatus),
+    fronteStatus,
+    fronteErrorMessage: items.find((item) => item.fronteStatus === 'error')?.fronteErrorMessage ?? null,
+    fronteAttemptCount: Math.max(...items.map((item) => item.fronteAttemptCount)),
+    fronteProcessedAt: latest(items.map((item) => item.fronteProcessedAt)),
+    retroStatus,
+    retroErrorMessage: items.find((item) => item.retroStatus === 'error')?.retroErrorMessage ?? null,
+    retroAttemptCount: Math.max(...items.map((item) => item.retroAttemptCount)),
+    retroProcessedAt: latest(items.map((item) => item.retroProcessedAt))
+  });
+
+  logger.debug({ orderId, itemCount: items.length, fronteStatus, retroStatus }, "Order status rolled up from items");
+}
+
+/**
+ * Clear the "changed after print" flag of an item's side once it has been
+ * engraved again, and the order's once no item has a changed side left to engrave
+ * @param orderId - The order ID
+ * @param itemId - The engraved item
+ * @param side - The engraved side
+ */
+export function resolveChangedSide(orderId: string, itemId: number, side: "front" | "retro"): void {
+  db.update(orderItems)
+    .set(side === "retro" ? { retroChangedAfterPrint: false } : { fronteChangedAfterPrint: false })
+    .where(eq(orderItems.id, itemId))
+    .run();
+
+  const pending = getOrderItems(orderId).filter((item) => item.fronteChangedAfterPrint || item.retroChangedAfterPrint);
+  if (pending.length > 0) {
+    logger.info({ orderId, pendingItems: pending.map((item) => item.itemKey) }, "Order still has sides changed after print");
+    return;
+  }
+
+  db.update(orders)
+    .set({ changedAfterPrint: false, updatedAt: sql`CURRENT_TIMESTAMP` })
+    .where(eq(orders.orderId, orderId))
+    .run();
+}
+
+
+/**
+ * Parse the stored personalization of items again with the current labels
+ * (`personalizationKeys`): after the labels change, or at startup for items
+ * imported before personalization was parsed into fields.
+ * @param onlyUnparsed - Only items with a custom field but no parsed fields
+ * @returns The number of items updated
+ */
+export function refreshPersonalizations(onlyUnparsed = false): number {
+  const keys = config.getPersonalizationKeys();
+  const items = db
+    .select({ id: orderItems.id, customField: orderItems.customField, personalization: orderItems.personalization })
+    .from(orderItems)
+    .where(
+      onlyUnparsed
+        ? sql`case when ${orderItems.personalization} is null then ${orderItems.customField} != ''
+            else json_extract(${orderItems.personalization}, '$.fields') is null end`
+        : sql`${orderItems.customField} is not null or ${orderItems.personalization} is not null`
+    )
+    .all();
+
+  if (items.length === 0) {
+    return 0;
+  }
+
+  const update = db
+    .update(orderItems)
+    .set({ personalization: sql`${sql.placeholder("personalization")}` })
+    .where(eq(orderItems.id, sql.placeholder("id")))
+    .prepare();
+
+  db.transaction(() => {
+    for (const item of items) {
+      const personalization = reparsePersonalization(item.personalization, item.customField, keys);
+      update.run({ id: item.id, personalization: personalization ? JSON.stringify(personalization) : null });
+    }
+  });
+
+  logger.info({ itemCount: items.length, onlyUnparsed }, "Item personalizations parsed again");
+  return items.length;
+}
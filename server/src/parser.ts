@@ -1,33 +1,60 @@
 import { z } from "zod";
 
-const normalizeHeader = (key: string) =>
+export const normalizeHeader = (key: string) =>
   key.toLowerCase().trim().replace(/[_\-\s]/g, "");
 
-/*
-  HEADER ALIAS MAP (edit me when CSV headers change)
-  --------------------------------------------------
-  The keys in this object are the DB field names we support.
-  The array values are acceptable header aliases after normalization.
-
-  Normalization rules:
-  - lowercase
-  - trim whitespace
-  - remove underscores, hyphens, and spaces
-
-  Example:
-  "Amazon Order ID" -> "amazonorderid"
-  "Purchase_Date"   -> "purchasedate"
-
-  Add new aliases to the arrays below when new CSV headers appear.
-*/
-export const HEADER_ALIASES = {
-  orderId: ["orderid", "amazonorderid", "id"],
-  purchaseDate: ["purchasedate", "orderdate", "date"],
-  status: ["status", "orderstatus"],
-  customField: ["custom", "customfield", "customfieldvalue"],
-  sku: ["sku", "itemsku", "productsku"],
-  buyerName: ["buyername", "buyer", "customername"]
-} as const;
+/**
+ * Fields of a NormalizedRecord that a mapping profile can fill.
+ */
+export const MAPPABLE_FIELDS = [
+  "orderId",
+  "purchaseDate",
+  "status",
+  "customField",
+  "sku",
+  "buyerName",
+  "orderItemId",
+  "quantity",
+  "customization"
+] as const;
+
+export type MappableField = (typeof MAPPABLE_FIELDS)[number];
+
+export const FIELD_TRANSFORMS = ["uppercase", "lowercase", "collapse_whitespace", "iso_date"] as const;
+
+export type FieldTransform = (typeof FIELD_TRANSFORMS)[number];
+
+/**
+ * How one NormalizedRecord field is read from a feed record.
+ * - `paths`: CSV headers or dotted JSON/XML paths, tried in order; the first non-empty value wins.
+ *   Headers are compared after normalization (lowercase, no spaces, "_" or "-"),
+ *   so "Amazon Order ID" matches "amazonorderid".
+ * - `constant`: used when no path yields a value (or as the value when there are no paths).
+ * - `transform`: applied to the resolved value.
+ */
+export type FieldRule = {
+  paths?: string[];
+  constant?: string;
+  transform?: FieldTransform;
+};
+
+export type FieldRules = Partial<Record<MappableField, FieldRule>>;
+
+/**
+ * Built-in rules, used when a feed has no mapping profile and no default
+ * profile exists in the database. Seeded as the "Default" profile.
+ */
+export const DEFAULT_FIELD_RULES: FieldRules = {
+  orderId: { paths: ["orderid", "amazonorderid", "id"] },
+  purchaseDate: { paths: ["purchasedate", "orderdate", "date"] },
+  status: { paths: ["status", "orderstatus"] },
+  customField: { paths: ["custom", "customfield", "customfieldvalue"] },
+  sku: { paths: ["sku", "itemsku", "productsku"] },
+  buyerName: { paths: ["buyername", "buyer", "customername"] },
+  orderItemId: { paths: ["orderitemid", "lineitemid", "itemid"] },
+  quantity: { paths: ["quantity", "quantitypurchased", "qty"] },
+  customization: { paths: ["customizationinfo", "customizationjson"] }
+};
 
 const normalizedRecordSchema = z.object({
   orderId: z.string().optional(),
@@ -36,6 +63,10 @@ const normalizedRecordSchema = z.object({
   customField: z.string().optional(),
   sku: z.string().optional(),
   buyerName: z.string().optional(),
+  orderItemId: z.string().optional(),
+  quantity: z.string().optional(),
+  // Amazon Custom personalization JSON
+  customization: z.string().optional(),
   raw: z.string()
 });
 
@@ -71,47 +102,94 @@ export function getByPath(obj: unknown, path: string | undefined) {
   return current;
 }
 
+const toText = (value: unknown) =>
+  value === null || value === undefined || typeof value === "object"
+    ? ""
+    : String(value).trim();
+
+const applyTransform = (value: string, transform: FieldTransform | undefined) => {
+  switch (transform) {
+    case "uppercase":
+      return value.toUpperCase();
+    case "lowercase":
+      return value.toLowerCase();
+    case "collapse_whitespace":
+      return value.replace(/\s+/g, " ");
+    case "iso_date": {
+      const date = new Date(value);
+      return Number.isNaN(date.getTime()) ? value : date.toISOString();
+    }
+    default:
+      return value;
+  }
+};
+
+/**
+ * Read one value of a raw feed record: the exact header first (CSV headers may
+ * contain dots), then the header compared after normalization, then a dotted path.
+ * @param record - One parsed CSV row, JSON object or XML node
+ * @param fieldPath - Header or dotted path
+ * @returns The trimmed value, or "" if there is none
+ */
+export function readRecordValue(record: Record<string, unknown>, fieldPath: string): string {
+  if (fieldPath in record) {
+    return toText(record[fieldPath]);
+  }
+
+  const header = normalizeHeader(fieldPath);
+  const key = Object.keys(record).find((candidate) => normalizeHeader(candidate) === header);
+
+  return (key !== undefined ? toText(record[key]) : "") || toText(getByPath(record, fieldPath));
+}
+
+/**
+ * Map a raw feed record to a NormalizedRecord.
+ * @param record - One parsed CSV row, JSON object or XML node
+ * @param rules - Field rules from the feed's mapping profile
+ * @returns The normalized record; `raw` is the JSON of the original record
+ */
 export function normalizeRecord(
   record: Record<string, unknown>,
-  overrides: Partial<NormalizedRecord> = {}
+  rules: FieldRules = DEFAULT_FIELD_RULES
 ): NormalizedRecord {
   const normalizedMap = new Map<string, string>();
 
   for (const [key, value] of Object.entries(record)) {
-    const normalizedKey = normalizeHeader(key);
-    const normalizedValue =
-      value === null || value === undefined ? "" : String(value).trim();
-    normalizedMap.set(normalizedKey, normalizedValue);
+    normalizedMap.set(normalizeHeader(key), toText(value));
   }
 
-  const getByAliases = (aliases: readonly string[]) => {
-    for (const alias of aliases) {
-      const value = normalizedMap.get(alias);
+  const resolvePath = (fieldPath: string) => {
+    // Exact header first (CSV headers may contain dots), then normalized header, then dotted path
+    if (fieldPath in record) {
+      return toText(record[fieldPath]);
+    }
+    return normalizedMap.get(normalizeHeader(fieldPath)) || toText(getByPath(record, fieldPath));
+  };
+
+  const resolveField = (rule: FieldRule | undefined) => {
+    if (!rule) {
+      return undefined;
+    }
+
+    let value = "";
+    for (const fieldPath of rule.paths ?? []) {
+      value = resolvePath(fieldPath);
       if (value) {
-        return value;
+        break;
       }
     }
-    return undefined;
+
+    value = applyTransform(value || rule.constant?.trim() || "", rule.transform);
+    return value || undefined;
   };
 
-  const orderId = overrides.orderId ?? getByAliases(HEADER_ALIASES.orderId);
-  const purchaseDate =
-    overrides.purchaseDate ?? getByAliases(HEADER_ALIASES.purchaseDate);
-  const status = overrides.status ?? getByAliases(HEADER_ALIASES.status);
-  const customField =
-    overrides.customField ?? getByAliases(HEADER_ALIASES.customField);
-  const sku = overrides.sku ?? getByAliases(HEADER_ALIASES.sku);
-  const buyerName =
-    overrides.buyerName ?? getByAliases(HEADER_ALIASES.buyerName);
-  const raw = overrides.raw ?? JSON.stringify(record);
+  const normalized: Record<string, string | undefined> = {};
+  for (const field of MAPPABLE_FIELDS) {
+    normalized[field] = resolveField(rules[field]);
+  }
 
   return normalizedRecordSchema.parse({
-    orderId,
-    purchaseDate,
-    status,
-    customField,
-    sku,
-    buyerName,
-    raw
+    ...normalized,
+    raw: JSON.stringify(record)
   });
 }
@@ -0,0 +1,425 @@
+import type { PersonalizationKeys } from "./config.js";
+import type { ExtractionRule } from "./schema.js";
+
+/**
+ * One text area of an Amazon Custom surface (e.g. "Front Text": "Marco")
+ */
+export type PersonalizationText = {
+  label: string;
+  text: string;
+};
+
+/**
+ * One printable surface of the product with the buyer's choices for it
+ */
+export type PersonalizationSurface = {
+  name: string;
+  // Side the surface is engraved on; null when it can't be inferred
+  side: 'front' | 'retro' | null;
+  texts: PersonalizationText[];
+  font: string | null;
+  color: string | null;
+  image: string | null;
+  // Other option choices (e.g. "Size": "Large")
+  options: PersonalizationText[];
+};
+
+/**
+ * Structured personalization of an order item, parsed once when it is imported.
+ * - `fields`: values by personalization key (name, color, image, ...). Unknown
+ *   labels keep their own name ("Size: L" → size); text not introduced by any
+ *   label is kept under `note`.
+ * - `surfaces`: the Amazon Custom surfaces, when the item came with such a payload.
+ */
+export type Personalization = {
+  fields: Record<string, string>;
+  surfaces: PersonalizationSurface[];
+};
+
+// Key of the text that no label introduces (e.g. the whole of "Marco")
+export const NOTE_KEY = "note";
+
+const RETRO_SURFACE = /\b(back|retro|rear|reverse)\b/i;
+const FRONT_SURFACE = /\b(front|fronte)\b/i;
+const FONT_OPTION = /font/i;
+const COLOR_OPTION = /colou?r|colore/i;
+const IMAGE_OPTION = /image|immagine|design|clipart/i;
+
+// Keys asset rules of each type are matched against (before falling back to every value)
+const ASSET_RULE_KEYS: Record<string, string> = { image: "image", font: "font", color: "color" };
+
+// "Label:" at the start of the text or after a separator; values may contain further ":"s
+const LABEL_PATTERN = /(^|[,;|\n])\s*(\p{L}[\p{L}\p{N} '_-]{0,30}?)\s*:/gu;
+
+const normalizeLabel = (label: string) => label.trim().toLowerCase().replace(/\s+/g, " ");
+
+/**
+ * Key for each label (and for each key's own name), lowercase
+ */
+function labelIndex(keys: PersonalizationKeys): Map<string, string> {
+  const index = new Map<string, string>();
+  for (const [key, labels] of Object.entries(keys)) {
+    index.set(normalizeLabel(key), key);
+    for (const label of labels) {
+      index.set(normalizeLabel(label), key);
+    }
+  }
+  return index;
+}
+
+/**
+ * Key a label maps to: its configured key, else the label itself ("Gift Wrap" → gift_wrap)
+ */
+const keyForLabel = (label: string, index: Map<string, string>) =>
+  index.get(normalizeLabel(label)) ?? normalizeLabel(label).replace(/[^\p{L}\p{N}]+/gu, "_");
+
+/**
+ * Store a value under a key unless the key already has one (the first occurrence wins)
+ */
+function setField(fields: Record<string, string>, key: string, value: string | null | undefined) {
+  const text = value?.trim();
+  if (key && text && !(key in fields)) {
+    fields[key] = text;
+  }
+}
+
+const asRecord = (value: unknown) =>
+  value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+
+const asText = (value: unknown) =>
+  typeof value === "string" ? value.trim() : typeof value === "number" ? String(value) : "";
+
+/**
+ * Surfaces named "Back"/"Retro" go on the retro, "Front"/"Fronte" on the front;
+ * unnamed surfaces are taken in order (first front, second retro).
+ */
+function inferSide(name: string, index: number): PersonalizationSurface['side'] {
+  if (RETRO_SURFACE.test(name)) {
+    return 'retro';
+  }
+  if (FRONT_SURFACE.test(name)) {
+    return 'front';
+  }
+  return index === 0 ? 'front' : index === 1 ? 'retro' : null;
+}
+
+function parseSurface(surface: Record<string, unknown>, index: number): PersonalizationSurface {
+  const name = asText(surface.name) || asText(surface.label) || `Surface ${index + 1}`;
+  const parsed: PersonalizationSurface = {
+    name,
+    side: inferSide(name, index),
+    texts: [],
+    font: null,
+    color: null,
+    image: null,
+    options: []
+  };
+
+  const areas = Array.isArray(surface.areas) ? surface.areas : [];
+
+  for (const entry of areas) {
+    const area = asRecord(entry);
+    if (!area) {
+      continue;
+    }
+
+    const label = asText(area.label) || asText(area.name);
+    const type = asText(area.customizationType).toLowerCase();
+
+    if (type === "textprinting" || (!type && "text" in area)) {
+      const text = asText(area.text);
+      if (text) {
+        parsed.texts.push({ label, text });
+      }
+      parsed.font ??= asText(area.fontFamily) || null;
+      parsed.color ??= asText(area.colorName) || asText(area.fill) || null;
+      continue;
+    }
+
+    if (type === "imageprinting") {
+      parsed.image ??= asText(area.imageName) || asText(asRecord(area.image)?.imageName) || asText(area.image) || null;
+      continue;
+    }
+
+    const value = asText(area.optionValue) || asText(area.value);
+    if (!value) {
+      continue;
+    }
+    if (FONT_OPTION.test(label)) {
+      parsed.font ??= value;
+    } else if (COLOR_OPTION.test(label)) {
+      parsed.color ??= value;
+    } else if (IMAGE_OPTION.test(label)) {
+      parsed.image ??= value;
+    } else {
+      parsed.options.push({ label, text: value });
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Fields of an Amazon Custom item: labelled texts and options by their key, and
+ * font, color and image, taken from the front surface first. The first text
+ * is the name unless a text is labelled as one.
+ */
+export function surfaceFields(surfaces: PersonalizationSurface[], keys: PersonalizationKeys): Record<string, string> {
+  const index = labelIndex(keys);
+  const fields: Record<string, string> = {};
+  const ordered = [...surfaces].sort((a, b) => Number(b.side === "front") - Number(a.side === "front"));
+
+  for (const surface of ordered) {
+    for (const { label, text } of [...surface.texts, ...surface.options]) {
+      setField(fields, label ? keyForLabel(label, index) : "name", text);
+    }
+    setField(fields, "font", surface.font);
+    setField(fields, "color", surface.color);
+    setField(fields, "image", surface.image);
+  }
+  setField(fields, "name", ordered[0]?.texts[0]?.text);
+
+  return fields;
+}
+
+/**
+ * Parse free-text personalization ("Nome: Marco, Colore: Argento, Immagine: Cuore")
+ * into fields. A label starts the text or follows a comma, semicolon, pipe or
+ * line break, and its value runs up to the next label.
+ * @param text - The item's custom field
+ * @param keys - Personalization keys and their labels
+ * @returns The fields, or null for empty text
+ */
+export function parsePersonalizationText(
+  text: string | null | undefined,
+  keys: PersonalizationKeys
+): Personalization | null {
+  if (!text || !text.trim()) {
+    return null;
+  }
+
+  const index = labelIndex(keys);
+  const fields: Record<string, string> = {};
+  const labels = [...text.matchAll(LABEL_PATTERN)];
+  const trimValue = (value: string) => value.replace(/^[\s,;|]+|[\s,;|]+$/g, "");
+
+  // Text before the first label (or all of it, without labels)
+  const firstLabelAt = labels[0] ? labels[0].index! + labels[0][1].length : text.length;
+  setField(fields, NOTE_KEY, trimValue(text.slice(0, firstLabelAt)));
+
+  labels.forEach((match, position) => {
+    const valueStart = match.index! + match[0].length;
+    const next = labels[position + 1];
+    const valueEnd = next ? next.index! : text.length;
+    setField(fields, keyForLabel(match[2], index), trimValue(text.slice(valueStart, valueEnd)));
+  });
+
+  return { fields, surfaces: [] };
+}
+
+/**
+ * Parse an item's personalization: an Amazon Custom payload (in its own
+ * column or pasted into the custom field) or free text.
+ * @param customField - The item's custom field
+ * @param keys - Personalization keys and their labels
+ * @param customization - The Amazon Custom payload column, if the feed has one
+ */
+export function parsePersonalization(
+  customField: string | null | undefined,
+  keys: PersonalizationKeys,
+  customization?: string | null
+): Personalization | null {
+  return parseAmazonCustomization(customization ?? customField, keys) ?? parsePersonalizationText(customField, keys);
+}
+
+/**
+ * Parse a stored personalization again, e.g. after the labels changed: Amazon
+ * Custom surfaces are kept (the payload isn't stored) and only their fields
+ * are rebuilt; free text is parsed again.
+ */
+export function reparsePersonalization(
+  stored: Personalization | null,
+  customField: string | null,
+  keys: PersonalizationKeys
+): Personalization | null {
+  return stored?.surfaces.length
+    ? { fields: surfaceFields(stored.surfaces, keys), surfaces: stored.surfaces }
+    : parsePersonalizationText(customField, keys);
+}
+
+/**
+ * Text an asset rule of a type is matched against: the buyer's choice of that
+ * type on the surface being engraved, else the value of its key (color rules
+ * against `color`, ...), or every value when the item has none.
+ * @returns The text, lowercase; empty without personalization
+ */
+export function assetRuleTarget(
+  personalization: Personalization | null | undefined,
+  assetType: string,
+  surface?: PersonalizationSurface
+): string {
+  const fields = personalization?.fields ?? {};
+  const key = ASSET_RULE_KEYS[assetType];
+  const surfaceChoice = surface && key ? surface[key as "image" | "font" | "color"] : null;
+  const value = surfaceChoice ?? (key ? fields[key] : undefined);
+  return (value ?? Object.values(fields).join(" ")).toLowerCase();
+}
+
+/**
+ * Value of a personalization key, looked up by the key itself or any of its
+ * labels ("phone", "Telefono"); other names match the key an unknown label
+ * would get ("Nome animale" → nome_animale)
+ */
+export function personalizationField(
+  personalization: Personalization | null | undefined,
+  keyOrLabel: string,
+  keys: PersonalizationKeys
+): string | undefined {
+  return personalization?.fields[keyForLabel(keyOrLabel, labelIndex(keys))];
+}
+
+/**
+ * Regular expression of a `regex` extraction rule: case-insensitive, with ^/$
+ * matching at each line
+ * @throws SyntaxError when the pattern is invalid
+ */
+export const compileExtractionPattern = (pattern: string) => new RegExp(pattern, "gim");
+
+/**
+ * Text one extraction rule finds: a `key` rule takes the value of a
+ * personalization key or label ("Testo", "nome_animale"); a `regex` rule
+ * takes the groups of every match in the custom field, one per line (the
+ * whole match when it has no groups).
+ */
+function applyExtractionRule(
+  rule: ExtractionRule,
+  customField: string | null,
+  personalization: Personalization | null,
+  keys: PersonalizationKeys
+): string {
+  if (rule.kind === "key") {
+    return personalizationField(personalization, rule.pattern, keys) ?? "";
+  }
+
+  let pattern: RegExp;
+  try {
+    pattern = compileExtractionPattern(rule.pattern);
+  } catch {
+    return "";
+  }
+
+  const lines = [...(customField ?? "").matchAll(pattern)].flatMap((match) =>
+    match.length > 1 ? match.slice(1) : [match[0]]
+  );
+  return lines
+    .map((line) => line?.trim() ?? "")
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Engraving text of an item. The extraction rules whose SKU pattern the SKU
+ * contains are tried by priority, then longest pattern; the first giving text
+ * wins. Without one, the parsed `name` field is used.
+ * @param rules - All extraction rules
+ * @returns The text (empty when nothing was found) and the rule it came from
+ */
+export function extractEngravingText(
+  rules: ExtractionRule[],
+  sku: string | null,
+  customField: string | null,
+  personalization: Personalization | null,
+  keys: PersonalizationKeys
+): { text: string; rule: ExtractionRule | null } {
+  const normalizedSku = (sku ?? "").toLowerCase();
+  const matching = rules
+    .filter((rule) => normalizedSku.includes(rule.skuPattern.toLowerCase()))
+    .sort((a, b) => b.priority - a.priority || b.skuPattern.length - a.skuPattern.length);
+
+  for (const rule of matching) {
+    const text = applyExtractionRule(rule, customField, personalization, keys);
+    if (text) {
+      return { text, rule };
+    }
+  }
+
+  return { text: personalization?.fields.name ?? "", rule: null };
+}
+
+/**
+ * Parse an Amazon Custom customization payload ("version3.0" customizationInfo
+ * with surfaces and areas). Accepts the whole document or just customizationInfo.
+ * @param json - The payload, as found in a feed column or an extracted per-order file
+ * @param keys - Personalization keys, for the fields built from the surfaces
+ * @returns The structured personalization, or null if the text is not such a payload
+ */
+export function parseAmazonCustomization(
+  json: string | null | undefined,
+  keys: PersonalizationKeys
+): Personalization | null {
+  if (!json || !json.trim().startsWith("{")) {
+    return null;
+  }
+
+  let document: unknown;
+  try {
+    document = JSON.parse(json);
+  } catch {
+    return null;
+  }
+
+  const root = asRecord(document);
+  const info =
+    asRecord(asRecord(root?.["version3.0"])?.customizationInfo) ??
+    asRecord(root?.customizationInfo) ??
+    root;
+
+  if (!info || !Array.isArray(info.surfaces)) {
+    return null;
+  }
+
+  const surfaces = info.surfaces
+    .map((surface, index) => parseSurface(asRecord(surface) ?? {}, index))
+    .filter((surface) => surface.texts.length > 0 || surface.font || surface.color || surface.image || surface.options.length > 0);
+
+  return surfaces.length > 0 ? { fields: surfaceFields(surfaces, keys), surfaces } : null;
+}
+
+/**
+ * Readable one-line form ("Front Text: Marco, Font: Arial, Color: Silver"),
+ * stored as the item's customField so the list and asset keyword rules keep working.
+ */
+export function summarizePersonalization(personalization: Personalization): string {
+  const parts: string[] = [];
+
+  for (const surface of personalization.surfaces) {
+    for (const { label, text } of [...surface.texts, ...surface.options]) {
+      parts.push(label ? `${label}: ${text}` : text);
+    }
+    if (surface.font) {
+      parts.push(`Font: ${surface.font}`);
+    }
+    if (surface.color) {
+      parts.push(`Color: ${surface.color}`);
+    }
+    if (surface.image) {
+      parts.push(`Image: ${surface.image}`);
+    }
+  }
+
+  return parts.join(", ");
+}
+
+/**
+ * The surface engraved on a side, if the payload has one
+ * @param personalization - The item's personalization
+ * @param side - The side being generated
+ */
+export function getSurfaceForSide(
+  personalization: Personalization,
+  side: 'front' | 'retro'
+): PersonalizationSurface | undefined {
+  return personalization.surfaces.find((surface) => surface.side === side);
+}
@@ -0,0 +1,99 @@
+import type { PersonalizationKeys } from "./config.js";
+import { personalizationField, Personalization } from "./personalization.js";
+
+// Shape names filled at generation: `{{KEY}}` must get a value, `{{KEY?}}` may stay blank.
+// A size after a pipe is the box the text is shrunk to fit, in mm: `{{KEY|40x12}}` (or just a width, `{{KEY|40}}`)
+const PLACEHOLDER_NAME = /^\{\{\s*([A-Za-z][\w ]*?)\s*(\?)?\s*(?:\|\s*(\d+(?:[.,]\d+)?)\s*(?:[x×]\s*(\d+(?:[.,]\d+)?))?\s*)?\}\}$/;
+
+// The engraving text, taken through the extraction rules
+export const ENGRAVING_TEXT_KEY = "CUSTOMER_NAME";
+// Image shape swapped with the detected design asset; it has no text value
+export const DESIGN_IMAGE_KEY = "DESIGN_IMAGE";
+
+export type Placeholder = {
+  // The shape name as written in the template, e.g. "{{PHONE?}}"
+  name: string;
+  // Uppercase key, e.g. "PHONE"
+  key: string;
+  optional: boolean;
+  // Box declared in the name, in mm
+  maxWidth?: number;
+  maxHeight?: number;
+};
+
+export type PlaceholderContext = {
+  order: { orderId: string; buyerName: string | null; sku: string | null; purchaseDate?: string | null };
+  item?: { sku: string | null; quantity?: number };
+  personalization: Personalization | null;
+  keys: PersonalizationKeys;
+  // Computed only when the template uses it (it may fail with EMPTY_ENGRAVING_TEXT)
+  engravingText: () => string;
+  now?: Date;
+};
+
+/**
+ * The placeholder a shape name stands for, or null for ordinary shapes
+ */
+export function parsePlaceholder(name: string | undefined): Placeholder | null {
+  const match = name?.trim().match(PLACEHOLDER_NAME);
+  if (!match) {
+    return null;
+  }
+
+  const size = (value: string | undefined) => (value ? Number(value.replace(",", ".")) : undefined);
+  return {
+    name: name!.trim(),
+    key: match[1].toUpperCase().replace(/\s+/g, "_"),
+    optional: Boolean(match[2]),
+    maxWidth: size(match[3]),
+    maxHeight: size(match[4])
+  };
+}
+
+/**
+ * Date as written on a tag (dd/mm/yyyy); text that isn't a date is kept as is
+ */
+function formatDate(value: string | Date): string {
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return String(value);
+  }
+  return date.toLocaleDateString("it-IT", { day: "2-digit", month: "2-digit", year: "numeric" });
+}
+
+const initials = (text: string) =>
+  text
+    .split(/\s+/)
+    .map((word) => word.match(/\p{L}/u)?.[0]?.toUpperCase() ?? "")
+    .join("");
+
+// Values that don't come from the buyer's personalization
+const BUILT_IN_VALUES: Record<string, (context: PlaceholderContext) => string | null | undefined> = {
+  ORDER_ID: ({ order }) => order.orderId,
+  BUYER_NAME: ({ order }) => order.buyerName,
+  SKU: ({ order, item }) => (item ? item.sku : order.sku),
+  QUANTITY: ({ item }) => String(item?.quantity ?? 1),
+  PURCHASE_DATE: ({ order }) => order.purchaseDate && formatDate(order.purchaseDate),
+  TODAY: ({ now }) => formatDate(now ?? new Date()),
+  INITIALS: ({ engravingText }) => initials(engravingText())
+};
+
+/**
+ * Value of a placeholder: the engraving text for CUSTOMER_NAME, else the
+ * personalization field of that key or label (PHONE → phone, NOME_ANIMALE →
+ * "Nome animale:"), else a built-in value (ORDER_ID, BUYER_NAME, SKU,
+ * QUANTITY, PURCHASE_DATE, TODAY, INITIALS of the engraving text).
+ * @returns The value, empty when there is none
+ */
+export function placeholderValue(key: string, context: PlaceholderContext): string {
+  if (key === ENGRAVING_TEXT_KEY) {
+    return context.engravingText();
+  }
+
+  const field = personalizationField(context.personalization, key.replace(/_/g, " "), context.keys);
+  if (field) {
+    return field;
+  }
+
+  return BUILT_IN_VALUES[key]?.(context)?.trim() ?? "";
+}
@@ -0,0 +1,268 @@
+import { and, desc, inArray } from "drizzle-orm";
+import { db } from "./db.js";
+import { syncRuns } from "./schema.js";
+import { FeedUpload, importUploadedFeed, syncOrders, SyncResult, SyncTrigger } from "./sync.js";
+import { logger, logError } from "./logger.js";
+import { config, FeedSource, QuietHours } from "./config.js";
+
+export type SyncStatus = {
+  running: boolean;
+  lastRunAt: string | null;
+  lastSuccessAt: string | null;
+  lastTrigger: SyncTrigger | null;
+  nextRunAt: string | null;
+  lastResult: SyncResult | null;
+  lastError: string | null;
+  intervalMinutes: number;
+  quietHours: QuietHours | null;
+};
+
+let running = false;
+let lastRunAt: Date | null = null;
+let lastSuccessAt: Date | null = null;
+let lastTrigger: SyncTrigger | null = null;
+let lastResult: SyncResult | null = null;
+let lastError: string | null = null;
+
+let schedulerStarted = false;
+let timer: NodeJS.Timeout | null = null;
+let nextRunAt: Date | null = null;
+
+// Every sync (manual, scheduled, upload or hot folder) is chained onto this promise so runs never overlap
+let syncQueue: Promise<unknown> = Promise.resolve();
+let queuedRuns = 0;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Checks whether a moment falls inside the quiet hours window (local time).
+ * Windows where start > end wrap around midnight.
+ */
+export function isInQuietHours(date: Date, quietHours: QuietHours | null): boolean {
+  if (!quietHours) {
+    return false;
+  }
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  const now = date.getHours() * 60 + date.getMinutes();
+
+  if (start === end) {
+    return false;
+  }
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+/**
+ * Returns the first moment at or after `date` that is outside quiet hours.
+ */
+export function skipQuietHours(date: Date, quietHours: QuietHours | null): Date {
+  if (!quietHours || !isInQuietHours(date, quietHours)) {
+    return date;
+  }
+  const end = toMinutes(quietHours.end);
+  const resume = new Date(date);
+  resume.setHours(Math.floor(end / 60), end % 60, 0, 0);
+  if (resume <= date) {
+    resume.setDate(resume.getDate() + 1);
+  }
+  return resume;
+}
+
+/**
+ * Runs a sync while holding the sync lock.
+ * If another run is in progress, waits for it to finish first.
+ * @param trigger - What started the run (manual button or scheduler)
+ * @returns The sync result
+ * @throws Re-throws the sync error after recording it in the status
+ */
+export function runSync(trigger: SyncTrigger): Promise<SyncResult> {
+  queuedRuns++;
+  const run = syncQueue.then(async () => {
+    running = true;
+    lastTrigger = trigger;
+    try {
+      const result = await syncOrders(trigger);
+      lastResult = result;
+      lastError = null;
+      lastSuccessAt = new Date();
+      return result;
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      running = false;
+      queuedRuns--;
+      lastRunAt = new Date();
+      // A manual sync counts as a run: push the next scheduled one a full interval out
+      if (schedulerStarted) {
+        scheduleNextRun();
+      }
+    }
+  });
+  syncQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Imports an uploaded feed file while holding the sync lock, so it never
+ * interleaves with a feed sync. Doesn't touch the scheduler status, which
+ * tracks feed syncs only.
+ * @param upload - The file name and content
+ * @param source - Feed whose settings and source id to use
+ * @param trigger - "upload" for files dropped in the UI, "hotfolder" for the watched folder
+ * @returns The sync result of the import
+ */
+export function runUploadImport(
+  upload: FeedUpload,
+  source: FeedSource,
+  trigger: "upload" | "hotfolder" = "upload"
+): Promise<SyncResult> {
+  const run = syncQueue.then(() => importUploadedFeed(upload, source, trigger));
+  syncQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Timer callback for scheduled syncs.
+ * Skips the run when inside quiet hours, when a sync is already running or queued,
+ * or when no feed source is enabled.
+ */
+async function runScheduledSync(): Promise<void> {
+  timer = null;
+
+  if (isInQuietHours(new Date(), config.getQuietHours())) {
+    logger.info("Scheduled sync skipped: inside quiet hours");
+    scheduleNextRun();
+    return;
+  }
+
+  if (queuedRuns > 0) {
+    logger.info("Scheduled sync skipped: another sync is in progress");
+    scheduleNextRun();
+    return;
+  }
+
+  if (!config.getFeedSources().some((source) => source.enabled)) {
+    logger.info("Scheduled sync skipped: no feed sources enabled");
+    scheduleNextRun();
+    return;
+  }
+
+  try {
+    logger.info("Scheduled sync started");
+    const result = await runSync("scheduled");
+    logger.info(
+      {
+        added: result.added,
+        updated: result.updated,
+        archived: result.archived,
+        failedSources: result.sources.filter((source) => source.error).map((source) => source.source)
+      },
+      "Scheduled sync completed"
+    );
+  } catch (error) {
+    logError(error, { operation: "scheduled_sync" });
+  }
+}
+
+/**
+ * (Re)arms the timer from the current interval and quiet hours settings.
+ */
+function scheduleNextRun(): void {
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+
+  const intervalMinutes = config.getSyncIntervalMinutes();
+  if (intervalMinutes === 0) {
+    nextRunAt = null;
+    return;
+  }
+
+  nextRunAt = skipQuietHours(new Date(Date.now() + intervalMinutes * 60_000), config.getQuietHours());
+  timer = setTimeout(runScheduledSync, Math.max(0, nextRunAt.getTime() - Date.now()));
+  // Never keep the process (or Electron shutdown) waiting on the scheduler
+  timer.unref();
+}
+
+/**
+ * Seeds the status from sync history so it survives restarts.
+ */
+function loadLastRunFromHistory(): void {
+  // Upload and hot folder imports are recorded too, but only feed syncs count as the last sync
+  const feedSync = inArray(syncRuns.trigger, ["manual", "scheduled"]);
+  const lastRun = db.select().from(syncRuns).where(feedSync).orderBy(desc(syncRuns.id)).limit(1).get();
+  const lastSuccess = db
+    .select()
+    .from(syncRuns)
+    .where(and(feedSync, inArray(syncRuns.status, ["success", "partial"])))
+    .orderBy(desc(syncRuns.id))
+    .limit(1)
+    .get();
+
+  // SQLite CURRENT_TIMESTAMP is UTC without a zone marker
+  const parseTimestamp = (value: string | null | undefined) => (value ? new Date(`${value.replace(" ", "T")}Z`) : null);
+
+  if (lastRun) {
+    lastRunAt = parseTimestamp(lastRun.finishedAt ?? lastRun.startedAt);
+    lastTrigger = lastRun.trigger;
+    lastError = lastRun.errorMessage;
+  }
+  lastSuccessAt = parseTimestamp(lastSuccess?.finishedAt);
+}
+
+/**
+ * Starts the background sync scheduler.
+ */
+export function startSyncScheduler(): void {
+  schedulerStarted = true;
+  loadLastRunFromHistory();
+  scheduleNextRun();
+  logger.info(
+    { intervalMinutes: config.getSyncIntervalMinutes(), quietHours: config.getQuietHours(), nextRunAt },
+    "Sync scheduler started"
+  );
+}
+
+/**
+ * Stops the background sync scheduler. A run already in progress finishes normally.
+ */
+export function stopSyncScheduler(): void {
+  schedulerStarted = false;
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+  nextRunAt = null;
+}
+
+/**
+ * Re-reads interval and quiet hours after a configuration change.
+ */
+export function rescheduleSync(): void {
+  if (schedulerStarted && !running) {
+    scheduleNextRun();
+  }
+}
+
+/**
+ * Snapshot of the scheduler and the most recent sync.
+ * @returns Current sync status
+ */
+export function getSyncStatus(): SyncStatus {
+  return {
+    running,
+    lastRunAt: lastRunAt?.toISOString() ?? null,
+    lastSuccessAt: lastSuccessAt?.toISOString() ?? null,
+    lastTrigger,
+    nextRunAt: nextRunAt?.toISOString() ?? null,
+    lastResult,
+    lastError,
+    intervalMinutes: config.getSyncIntervalMinutes(),
+    quietHours: config.getQuietHours()
+  };
+}
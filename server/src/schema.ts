@@ -1,15 +1,20 @@
-import { sqliteTable, integer, text } from "drizzle-orm/sqlite-core";
+import { sqliteTable, integer, real, text, uniqueIndex } from "drizzle-orm/sqlite-core";
 import { sql } from "drizzle-orm";
+import type { FieldRules } from "./parser.js";
+import type { Personalization } from "./personalization.js";
 
 export const orders = sqliteTable("orders", {
   id: integer("id").primaryKey({ autoIncrement: true }),
   orderId: text("order_id").notNull().unique(),
+  // Feed source id (sales channel) the order was imported from, or "webhook"/"manual"
+  source: text("source").notNull().default("default"),
   purchaseDate: text("purchase_date"),
   status: text("status", { enum: ["pending", "processing", "printed", "error"] }).notNull().default("pending"),
   customField: text("custom_field"),
   sku: text("sku"),
   buyerName: text("buyer_name"),
   raw: text("raw").notNull(),
+  rawHash: text("raw_hash"),
   errorMessage: text("error_message"),
   processedAt: text("processed_at"),
   attemptCount: integer("attempt_count").notNull().default(0),
@@ -26,10 +31,53 @@ export const orders = sqliteTable("orders", {
   retroAttemptCount: integer("retro_attempt_count").notNull().default(0),
   retroProcessedAt: text("retro_processed_at"),
   
+  // Soft-delete: set when the order drops out of the feed, cleared if it reappears
+  archivedAt: text("archived_at"),
+  
+  // Set when the feed record changed after a side was already engraved
+  changedAfterPrint: integer("changed_after_print", { mode: "boolean" }).notNull().default(false),
+  
+  // Set when SKU, buyer or personalization were edited by hand; `raw` keeps the original data
+  editedAt: text("edited_at"),
+  
   createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
   updatedAt: text("updated_at").notNull().default(sql`CURRENT_TIMESTAMP`)
 });
 
+// One row per line item of an order; the front/retro columns on `orders` are rolled up from these
+export const orderItems = sqliteTable("order_items", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  orderId: text("order_id").notNull().references(() => orders.orderId, { onDelete: "cascade" }),
+  // Stable key of the line within its order: the feed's order item ID, or the row position
+  itemKey: text("item_key").notNull(),
+  position: integer("position").notNull().default(1),
+  sku: text("sku"),
+  quantity: integer("quantity").notNull().default(1),
+  customField: text("custom_field"),
+  // Structured Amazon Custom personalization (surfaces, texts, font, color, image), if the feed provided one
+  personalization: text("personalization", { mode: "json" }).$type<Personalization>(),
+  raw: text("raw").notNull(),
+  rawHash: text("raw_hash"),
+
+  fronteStatus: text("fronte_status", { enum: ["pending", "processing", "printed", "error"] }).notNull().default("pending"),
+  fronteErrorMessage: text("fronte_error_message"),
+  fronteAttemptCount: integer("fronte_attempt_count").notNull().default(0),
+  fronteProcessedAt: text("fronte_processed_at"),
+  // The feed changed this line after its front was engraved; cleared when the front is engraved again
+  fronteChangedAfterPrint: integer("fronte_changed_after_print", { mode: "boolean" }).notNull().default(false),
+
+  retroStatus: text("retro_status", { enum: ["not_required", "pending", "processing", "printed", "error"] }).notNull().default("not_required"),
+  retroErrorMessage: text("retro_error_message"),
+  retroAttemptCount: integer("retro_attempt_count").notNull().default(0),
+  retroProcessedAt: text("retro_processed_at"),
+  retroChangedAfterPrint: integer("retro_changed_after_print", { mode: "boolean" }).notNull().default(false),
+
+  createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text("updated_at").notNull().default(sql`CURRENT_TIMESTAMP`)
+}, (table) => ({
+  orderItemKey: uniqueIndex("order_items_order_id_item_key_unique").on(table.orderId, table.itemKey)
+}));
+
 export const templateRules = sqliteTable("template_rules", {
   id: integer("id").primaryKey({ autoIncrement: true }),
   skuPattern: text("sku_pattern").notNull(),
@@ -44,6 +92,88 @@ export const assetRules = sqliteTable("asset_rules", {
   value: text("value").notNull()
 });
 
+// How the engraving text is taken from an item's personalization, per SKU pattern
+export const extractionRules = sqliteTable("extraction_rules", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  // Matches SKUs containing it (case-insensitive); empty matches every SKU
+  skuPattern: text("sku_pattern").notNull().default(""),
+  kind: text("kind").notNull(), // 'regex', 'key'
+  // A regular expression run on the custom field, or a personalization key/label
+  pattern: text("pattern").notNull(),
+  priority: integer("priority").notNull().default(0)
+});
+
+// How feed records map to order fields; each feed source selects one (or uses the default)
+export const mappingProfiles = sqliteTable("mapping_profiles", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  name: text("name").notNull().unique(),
+  // Dotted path to the record list in JSON/XML feeds (e.g. "Orders.Order")
+  recordPath: text("record_path"),
+  fields: text("fields", { mode: "json" }).$type<FieldRules>().notNull(),
+  // Used by feeds that don't select a profile; exactly one row, cannot be deleted
+  isDefault: integer("is_default", { mode: "boolean" }).notNull().default(false),
+  createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text("updated_at").notNull().default(sql`CURRENT_TIMESTAMP`)
+});
+
+// One row per sync run, kept for diagnostics
+export const syncRuns = sqliteTable("sync_runs", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  trigger: text("trigger", { enum: ["manual", "scheduled", "upload", "hotfolder"] }).notNull().default("manual"),
+  // Feed source ids included in the run
+  sources: text("sources", { mode: "json" }).$type<string[]>().notNull(),
+  status: text("status", { enum: ["running", "success", "partial", "error"] }).notNull().default("running"),
+  added: integer("added").notNull().default(0),
+  duplicates: integer("duplicates").notNull().default(0),
+  updated: integer("updated").notNull().default(0),
+  archived: integer("archived").notNull().default(0),
+  restored: integer("restored").notNull().default(0),
+  deleted: integer("deleted").notNull().default(0),
+  skipped: integer("skipped").notNull().default(0),
+  totalParsed: integer("total_parsed").notNull().default(0),
+  errorMessage: text("error_message"),
+  // Built-in marketplace adapter used per source id (e.g. { etsy: "etsy" })
+  adapters: text("adapters", { mode: "json" }).$type<Record<string, string>>(),
+  // Per-source counts and errors (SourceSyncResult[])
+  sourceResults: text("source_results", { mode: "json" }).$type<unknown[]>(),
+  // Records that were skipped, with the reason (SkippedRecord[])
+  skippedRecords: text("skipped_records", { mode: "json" }).$type<unknown[]>(),
+  // Problems that didn't stop the run, e.g. text garbled by a wrong feed charset ("<source name>: <warning>")
+  warnings: text("warnings", { mode: "json" }).$type<string[]>(),
+  startedAt: text("started_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+  finishedAt: text("finished_at")
+});
+
+// Order webhook deliveries by idempotency key, so a retried delivery gets the first response
+export const webhookDeliveries = sqliteTable("webhook_deliveries", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  idempotencyKey: text("idempotency_key").notNull().unique(),
+  // Import result returned to the sender; null while the delivery is being processed
+  response: text("response", { mode: "json" }).$type<unknown>(),
+  createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`)
+});
+
+// What each feed looked like at its last successful sync, to skip feeds that haven't changed
+export const feedStates = sqliteTable("feed_states", {
+  sourceId: text("source_id").primaryKey(),
+  // Hash of the source settings and mapping the state was recorded with; a change invalidates it
+  fingerprint: text("fingerprint").notNull(),
+  // HTTP validators, sent back as If-None-Match / If-Modified-Since
+  etag: text("etag"),
+  lastModified: text("last_modified"),
+  // File feeds: unchanged mtime and size skip reading the file
+  fileMtimeMs: real("file_mtime_ms"),
+  fileSize: integer("file_size"),
+  // SHA-256 of the feed content
+  contentHash: text("content_hash").notNull(),
+  updatedAt: text("updated_at").notNull().default(sql`CURRENT_TIMESTAMP`)
+});
+
 export type Order = typeof orders.$inferSelect;
+export type OrderItem = typeof orderItems.$inferSelect;
 export type TemplateRule = typeof templateRules.$inferSelect;
-export type AssetRule = typeof assetRules.$inferSelect;
\ No newline at end of file
+export type AssetRule = typeof assetRules.$inferSelect;
+export type ExtractionRule = typeof extractionRules.$inferSelect;
+export type SyncRun = typeof syncRuns.$inferSelect;
+export type MappingProfile = typeof mappingProfiles.$inferSelect;
+export type FeedState = typeof feedStates.$inferSelect;
\ No newline at end of file
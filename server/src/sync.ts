@@ -1,45 +1,248 @@
 import fs from "node:fs";
+import { createHash } from "node:crypto";
 import { fileURLToPath } from "node:url";
 import path from "node:path";
 import { parse } from "csv-parse/sync";
+import { parse as parseCsvStream, Options as CsvParseOptions } from "csv-parse";
+import { Transform } from "node:stream";
+import { pipeline } from "node:stream/promises";
 import { XMLParser } from "fast-xml-parser";
-import { notInArray, eq, sql } from "drizzle-orm";
+import { and, eq, inArray, isNotNull, isNull, ne, sql } from "drizzle-orm";
 import { db } from "./db.js";
-import { orders } from "./schema.js";
-import { getByPath, normalizeRecord } from "./parser.js";
+import { feedStates, FeedState, orderItems, OrderItem, orders, Order, syncRuns } from "./schema.js";
+import { getByPath, normalizeRecord, NormalizedRecord } from "./parser.js";
+import { detectFeedAdapter, FeedAdapterId, normalizeWithAdapter } from "./adapters.js";
+import { resolveMapping, ResolvedMapping } from "./mappingProfiles.js";
+import { getOrderItems, rollupOrderStatus } from "./orderItems.js";
+import { parsePersonalization, Personalization, summarizePersonalization } from "./personalization.js";
 import { logger, logError } from "./logger.js";
 import { hasRetroTemplate } from "./lightburn.js";
-import { config } from "./config.js";
+import {
+  config,
+  FeedFormat,
+  FeedSource,
+  HOT_FOLDER_SOURCE_ID,
+  MANUAL_SOURCE_ID,
+  UPLOAD_SOURCE_ID,
+  WEBHOOK_SOURCE_ID
+} from "./config.js";
+import {
+  createFeedDecoder,
+  CsvDelimiter,
+  detectEncoding,
+  hasReplacementChar,
+  isDecodeError,
+  resolveDelimiter,
+  ResolvedEncoding
+} from "./feedEncoding.js";
+import { isZipArchive, readWorkbookRecords } from "./workbook.js";
 
-type SyncResult = {
+export type SyncTrigger = "manual" | "scheduled" | "upload" | "hotfolder";
+
+// Cap on skipped records stored per run, so one broken feed can't bloat the history
+const MAX_SKIPPED_RECORDS_PER_RUN = 1000;
+// Number of sync runs kept in sync_runs
+const SYNC_HISTORY_LIMIT = 500;
+
+export type SkippedRecord = {
+  source: string;
+  // 1-based position of the record in the feed
+  row: number;
+  orderId?: string;
+  reason: string;
+};
+
+// Max orders listed per category in a sync preview (counts are always complete)
+const PREVIEW_LIST_LIMIT = 100;
+const PREVIEW_SAMPLE_SIZE = 5;
+
+type PreviewOrder = {
+  orderId: string;
+  sku: string | null;
+  buyerName: string | null;
+  customField: string | null;
+};
+
+export type SyncPreview = {
+  source: string;
+  // Built-in marketplace adapter used to map the feed, if any
+  adapter: FeedAdapterId | null;
+  totalParsed: number;
+  added: number;
+  updated: number;
+  archived: number;
+  restored: number;
+  duplicates: number;
+  toAdd: PreviewOrder[];
+  toUpdate: (PreviewOrder & { changedAfterPrint: boolean })[];
+  toArchive: PreviewOrder[];
+  toRestore: string[];
+  skipped: number;
+  skippedRecords: SkippedRecord[];
+  samples: NormalizedRecord[];
+  warnings: string[];
+};
+
+type SourceSyncResult = {
+  source: string;
+  name: string;
   added: number;
   duplicates: number;
+  updated: number;
+  changedAfterPrint: string[];
+  archived: number;
+  restored: number;
+  skipped: number;
+  totalParsed: number;
+  // Built-in marketplace adapter used to map the feed, if any
+  adapter?: FeedAdapterId | null;
+  // Feed identical to the last successful sync; nothing was parsed or imported
+  unchanged?: boolean;
+  // Problems that didn't stop the import (see feedWarnings)
+  warnings?: string[];
+  error?: string;
+};
+
+export type SyncResult = {
+  added: number;
+  duplicates: number;
+  updated: number;
+  changedAfterPrint: string[];
+  archived: number;
+  restored: number;
   deleted: number;
   skipped: number;
   totalParsed: number;
+  sources: SourceSyncResult[];
+  // Every feed was unchanged: nothing was parsed or imported (expired archived orders are still purged)
+  unchanged?: boolean;
+  // Warnings of every source, as "<source name>: <warning>"; also stored on the sync run
+  warnings: string[];
+  runId: number;
 };
 
 const isJsonByContentType = (contentType: string | null) =>
   Boolean(contentType && contentType.includes("application/json"));
 
+// Checked before the generic xml one: the .xlsx content type ends in "spreadsheetml.sheet"
+const isXlsxByContentType = (contentType: string | null) =>
+  Boolean(contentType && contentType.includes("spreadsheetml"));
+
 const isXmlByContentType = (contentType: string | null) =>
   Boolean(contentType && contentType.includes("xml"));
 
-const normalizeValue = (value: unknown) => {
-  if (value === null || value === undefined) {
-    return undefined;
+type ResolvedFeedFormat = Exclude<FeedFormat, "auto">;
+
+/**
+ * A feed file uploaded for a one-off import; the filename's extension drives 'auto' detection
+ */
+export type FeedUpload = {
+  filename: string;
+  // File bytes, decoded like a feed (charset detection or the feed's `encoding`)
+  content: Buffer;
+};
+
+// Feed bytes with what format detection needs to know about where they came from,
+// or the records of a CSV file already parsed while it was streamed from disk
+type FeedContent =
+  | { bytes: Buffer; contentType: string | null; sourcePath: string }
+  | { records: Record<string, unknown>[]; format: CsvFeedFormat; sourcePath: string };
+
+// Feed settings that shape how its bytes are decoded and split
+type FeedDialect = Pick<FeedSource, "format" | "delimiter" | "encoding" | "sheet" | "headerRow">;
+
+type CsvFeedFormat = Extract<ResolvedFeedFormat, "csv" | "amazon">;
+
+// Bytes read from a feed file to resolve its format before streaming it
+const FORMAT_SNIFF_BYTES = 64 * 1024;
+
+// Validators and hash of a fetched feed, stored in feed_states once it has been imported
+type FeedValidators = Pick<FeedState, "etag" | "lastModified" | "fileMtimeMs" | "fileSize" | "contentHash">;
+
+// Header columns that identify an Amazon Seller Central order report
+const AMAZON_REPORT_HEADERS = ["order-id", "order-item-id"];
+
+/**
+ * Checks whether the text is a tab-separated Amazon order report by its header row
+ */
+const isAmazonOrderReport = (text: string) => {
+  const headerLine = text.replace(/^\uFEFF/, "").split(/\r?\n/, 1)[0] ?? "";
+  const headers = headerLine.split("\t").map((header) => header.trim().toLowerCase());
+  return headers.length > 1 && AMAZON_REPORT_HEADERS.every((header) => headers.includes(header));
+};
+
+/**
+ * Read the start of a file, enough to resolve its charset, format and delimiter
+ */
+async function readFileHead(filePath: string): Promise<Buffer> {
+  const handle = await fs.promises.open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(FORMAT_SNIFF_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, FORMAT_SNIFF_BYTES, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
   }
-  const normalized = String(value).trim();
-  return normalized.length > 0 ? normalized : undefined;
+}
+
+type CsvFileDialect = {
+  format: CsvFeedFormat;
+  delimiter: CsvDelimiter;
+  encoding: ResolvedEncoding;
+  // Charset guessed from the file's start: a later byte invalid in UTF-8 means Windows-1252
+  guessed: boolean;
 };
 
-const readStreamToString = async (stream: fs.ReadStream) =>
-  new Promise<string>((resolve, reject) => {
-    const chunks: Buffer[] = [];
-    stream.on("data", (chunk) => chunks.push(Buffer.from(chunk)));
-    stream.on("error", reject);
-    stream.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
-  });
+/**
+ * Parse a CSV or Amazon report file as it streams from disk, decoding and
+ * hashing it on the way so it is read only once
+ * @returns The records and the SHA-256 of the file
+ */
+async function streamCsvFile(
+  filePath: string,
+  dialect: CsvFileDialect
+): Promise<{ records: Record<string, unknown>[]; contentHash: string }> {
+  const hash = createHash("sha256");
+  const decoder = createFeedDecoder(dialect.encoding, dialect.guessed);
+  const records: Record<string, unknown>[] = [];
+
+  try {
+    await pipeline(
+      fs.createReadStream(filePath),
+      new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          hash.update(chunk);
+          try {
+            callback(null, decoder.decode(chunk, { stream: true }));
+          } catch (error) {
+            callback(error as Error);
+          }
+        },
+        flush(callback) {
+          try {
+            callback(null, decoder.decode());
+          } catch (error) {
+            callback(error as Error);
+          }
+        }
+      }),
+      parseCsvStream(csvParseOptions(dialect.format, dialect.delimiter)),
+      async (parsed: AsyncIterable<Record<string, unknown>>) => {
+        for await (const record of parsed) {
+          records.push(record);
+        }
+      }
+    );
+  } catch (error) {
+    if (dialect.guessed && dialect.encoding === "utf-8" && isDecodeError(error)) {
+      logger.info({ filePath }, "Feed file is not valid UTF-8 past its start, reading it as Windows-1252");
+      return streamCsvFile(filePath, { ...dialect, encoding: "windows-1252", guessed: false });
+    }
+    throw error;
+  }
+
+  return { records, contentHash: hash.digest("hex") };
+}
 
 const resolveFeedPath = (feedUrl: string) => {
   if (feedUrl.startsWith("file://")) {
@@ -62,33 +265,230 @@ const resolveFeedPath = (feedUrl: string) => {
   return feedUrl;
 };
 
-async function readFeedContent(feedUrl: string) {
+/**
+ * Request headers for an HTTP feed: its custom headers, then its authentication
+ * (which wins over a custom header of the same name).
+ * @param source - The feed's auth and headers, with the secret decrypted
+ */
+export function feedRequestHeaders(source: Pick<FeedSource, "auth" | "headers">): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const header of source.headers ?? []) {
+    headers[header.name] = header.value;
+  }
+
+  const { auth } = source;
+  const secret = auth?.secret ?? "";
+  if (auth?.mode === "basic") {
+    headers.Authorization = `Basic ${Buffer.from(`${auth.username ?? ""}:${secret}`).toString("base64")}`;
+  } else if (auth?.mode === "bearer") {
+    headers.Authorization = `Bearer ${secret}`;
+  } else if (auth?.mode === "header" && auth.headerName) {
+    headers[auth.headerName] = secret;
+  }
+
+  return headers;
+}
+
+/**
+ * Read a feed from its URL or file path.
+ * @param source - The feed (url, auth and headers)
+ * @param previous - State recorded at the feed's last successful sync, if still valid.
+ *   HTTP feeds are then requested with If-None-Match / If-Modified-Since, and files
+ *   whose mtime and size haven't changed aren't read at all.
+ * @returns The content (null when the feed is unchanged since `previous`, by
+ *   validators or by content hash) and the validators to record
+ */
+async function readFeedContent(
+  source: Pick<FeedSource, "url" | "auth" | "headers"> & FeedDialect,
+  previous?: FeedState | null
+): Promise<{ content: FeedContent | null; validators: FeedValidators }> {
+  const feedUrl = source.url;
   if (feedUrl.startsWith("http://") || feedUrl.startsWith("https://")) {
-    const response = await fetch(feedUrl);
+    const headers = feedRequestHeaders(source);
+    if (previous?.etag) {
+      headers["If-None-Match"] = previous.etag;
+    }
+    if (previous?.lastModified) {
+      headers["If-Modified-Since"] = previous.lastModified;
+    }
+
+    const response = await fetch(feedUrl, { headers });
+    if (response.status === 304 && previous) {
+      return { content: null, validators: previous };
+    }
     if (!response.ok) {
       throw new Error(`Feed fetch failed: ${response.status} ${response.statusText}`);
     }
     const contentType = response.headers.get("content-type");
-    const text = await response.text();
-    return { text, contentType, sourcePath: feedUrl };
+    const bytes = Buffer.from(await response.arrayBuffer());
+    const validators: FeedValidators = {
+      etag: response.headers.get("etag"),
+      lastModified: response.headers.get("last-modified"),
+      fileMtimeMs: null,
+      fileSize: null,
+      contentHash: hashRaw(bytes)
+    };
+
+    // Many feeds (Apps Script among them) send no validators: compare the content instead
+    return {
+      content: validators.contentHash === previous?.contentHash ? null : { bytes, contentType, sourcePath: feedUrl },
+      validators
+    };
   }
 
   const filePath = resolveFeedPath(feedUrl);
-  const stream = fs.createReadStream(filePath);
-  const text = await readStreamToString(stream);
+  const stats = await fs.promises.stat(filePath);
+  if (previous && previous.fileMtimeMs === stats.mtimeMs && previous.fileSize === stats.size) {
+    return { content: null, validators: previous };
+  }
+
   const extension = path.extname(filePath).toLowerCase();
   const contentType = extension === ".json" ? "application/json" : null;
+  const head = await readFileHead(filePath);
+  const { encoding, guessed } = detectEncoding(head, head.length === stats.size, source.encoding);
+  const headText = createFeedDecoder(encoding).decode(head, { stream: true });
+  const format = resolveFeedFormat(source.format, contentType, filePath, head, headText);
+  const fileValidators = { etag: null, lastModified: null, fileMtimeMs: stats.mtimeMs, fileSize: stats.size };
+  let content: FeedContent;
+  let contentHash: string;
+
+  // Large CSV exports are parsed as they stream instead of being held as one string first
+  if (format === "csv" || format === "amazon") {
+    const delimiter = resolveDelimiter(headText, source.delimiter);
+    const streamed = await streamCsvFile(filePath, { format, delimiter, encoding, guessed });
+    logger.info({ filePath, encoding, delimiter }, "Feed file dialect resolved");
+    content = { records: streamed.records, format, sourcePath: filePath };
+    contentHash = streamed.contentHash;
+  } else {
+    const bytes = await fs.promises.readFile(filePath);
+    content = { bytes, contentType, sourcePath: filePath };
+    contentHash = hashRaw(bytes);
+  }
+
+  // Re-saved but identical files (same content, new mtime) are unchanged too
+  return {
+    content: contentHash === previous?.contentHash ? null : content,
+    validators: { ...fileValidators, contentHash }
+  };
+}
+
+/**
+ * Hash of everything besides the feed content that shapes the imported orders:
+ * a feed state recorded under other settings or another mapping is ignored.
+ */
+function feedFingerprint(source: FeedSource): string {
+  const mapping = resolveMapping(source.mappingProfileId);
+  return hashRaw(
+    JSON.stringify({
+      url: source.url,
+      format: source.format,
+      // Left out while unset, so feeds saved before these settings keep their state
+      delimiter: source.delimiter,
+      encoding: source.encoding,
+      sheet: source.sheet,
+      headerRow: source.headerRow,
+      mappingProfileId: source.mappingProfileId ?? null,
+      mapping
+    })
+  );
+}
 
-  return { text, contentType, sourcePath: filePath };
+function loadFeedState(sourceId: string, fingerprint: string): FeedState | null {
+  const state = db.select().from(feedStates).where(eq(feedStates.sourceId, sourceId)).get();
+  return state?.fingerprint === fingerprint ? state : null;
 }
 
-function parseFeed(text: string, contentType: string | null, sourcePath: string) {
+function saveFeedState(sourceId: string, fingerprint: string, validators: FeedValidators): void {
+  const values = {
+    fingerprint,
+    etag: validators.etag,
+    lastModified: validators.lastModified,
+    fileMtimeMs: validators.fileMtimeMs,
+    fileSize: validators.fileSize,
+    contentHash: validators.contentHash,
+    updatedAt: sql`CURRENT_TIMESTAMP`
+  };
+
+  db.insert(feedStates)
+    .values({ sourceId, ...values })
+    .onConflictDoUpdate({ target: feedStates.sourceId, set: values })
+    .run();
+}
+
+/**
+ * Resolve the concrete format of a feed from its configured format, falling
+ * back to content type, file extension, zip signature and header row for 'auto'.
+ * @param head - The first bytes of the feed
+ * @param text - The same bytes, decoded
+ */
+function resolveFeedFormat(
+  format: FeedFormat,
+  contentType: string | null,
+  sourcePath: string,
+  head: Uint8Array,
+  text: string
+): ResolvedFeedFormat {
+  if (format !== "auto") {
+    return format;
+  }
+
   const cleanedPath = sourcePath.split("?")[0].split("#")[0];
   const extension = path.extname(cleanedPath).toLowerCase();
-  const shouldParseJson = isJsonByContentType(contentType) || extension === ".json";
 
-  if (shouldParseJson) {
+  // Workbooks are also sent as application/octet-stream, or uploaded without their extension
+  if (isXlsxByContentType(contentType) || extension === ".xlsx" || isZipArchive(head)) {
+    return "xlsx";
+  }
+  if (isXmlByContentType(contentType) || extension === ".xml") {
+    return "xml";
+  }
+  if (isJsonByContentType(contentType) || extension === ".json") {
+    return "json";
+  }
+  if (isAmazonOrderReport(text)) {
+    return "amazon";
+  }
+  return "csv";
+}
+
+/**
+ * csv-parse options for CSV feeds and Amazon reports, shared by the in-memory and streaming parsers
+ */
+function csvParseOptions(format: CsvFeedFormat, delimiter: CsvDelimiter): CsvParseOptions {
+  if (format === "amazon") {
+    // Amazon flat files are tab-separated and never quoted; free text may contain stray quotes
+    return {
+      columns: true,
+      delimiter: "\t",
+      quote: false,
+      bom: true,
+      relax_column_count: true,
+      skip_empty_lines: true,
+      trim: true
+    };
+  }
+
+  return {
+    columns: true,
+    delimiter,
+    bom: true,
+    skip_empty_lines: true,
+    trim: true
+  };
+}
+
+function parseFeed(
+  text: string,
+  format: Exclude<ResolvedFeedFormat, "xml" | "xlsx">,
+  delimiter: FeedSource["delimiter"],
+  recordPath?: string
+) {
+  if (format === "json") {
     const json = JSON.parse(text);
+    if (recordPath) {
+      const records = getByPath(json, recordPath);
+      return Array.isArray(records) ? records : records ? [records] : [];
+    }
     if (Array.isArray(json)) {
       return json;
     }
@@ -101,216 +501,1422 @@ function parseFeed(text: string, contentType: string | null, sourcePath: string)
     return [json];
   }
 
-  return parse(text, {
-    columns: true,
-    skip_empty_lines: true,
-    trim: true
-  });
+  return parse(text, csvParseOptions(format, resolveDelimiter(text.slice(0, FORMAT_SNIFF_BYTES), delimiter)));
 }
 
-export async function syncOrders(): Promise<SyncResult> {
-  const feedUrl = config.getFeedUrl();
-  
-  logger.info({ feedUrl }, "Starting order synchronization");
+/**
+ * Fetch a feed and return its raw records, before any field mapping.
+ * @param source - The feed to read (url and format)
+ * @param recordPath - Dotted path to the record list (required for XML, optional for JSON)
+ * @param content - Content already read (an upload, or a feed fetched conditionally);
+ *   read from the feed's url when omitted
+ * @returns The records and the detected format
+ */
+async function loadRawRecords(
+  source: Pick<FeedSource, "id" | "url" | "auth" | "headers"> & FeedDialect,
+  recordPath: string | null,
+  content?: FeedContent
+): Promise<{ records: Record<string, unknown>[]; format: ResolvedFeedFormat }> {
+  const feedContent = content ?? (await readFeedContent(source)).content;
+  if (!feedContent) {
+    throw new Error("Feed returned no content");
+  }
+  if ("records" in feedContent) {
+    const { records, format, sourcePath } = feedContent;
+    logger.info({ source: source.id, sourcePath, format, recordCount: records.length }, "Feed file parsed while streaming");
+    return { records, format };
+  }
 
-  const { text, contentType, sourcePath } = await readFeedContent(feedUrl);
-  logger.info({ sourcePath, contentType }, "Feed content loaded successfully");
-  const cleanedPath = sourcePath.split("?")[0].split("#")[0];
-  const extension = path.extname(cleanedPath).toLowerCase();
-  const isXmlSource =
-    isXmlByContentType(contentType) || extension === ".xml" || cleanedPath.endsWith(".xml");
-  let normalizedRecords = [] as ReturnType<typeof normalizeRecord>[];
+  const { bytes, contentType, sourcePath } = feedContent;
+  const { encoding } = detectEncoding(bytes, true, source.encoding, contentType);
+  const head = bytes.subarray(0, FORMAT_SNIFF_BYTES);
+  const format = resolveFeedFormat(
+    source.format,
+    contentType,
+    sourcePath,
+    head,
+    createFeedDecoder(encoding).decode(head, { stream: true })
+  );
+
+  // Rows of a worksheet are records like those of a CSV, mapped the same way
+  if (format === "xlsx") {
+    const records = readWorkbookRecords(bytes, { sheet: source.sheet, headerRow: source.headerRow });
+    logger.info(
+      { source: source.id, sourcePath, format, sheet: source.sheet ?? 1, headerRow: source.headerRow ?? 1, recordCount: records.length },
+      "Feed workbook parsed"
+    );
+    return { records, format };
+  }
+
+  const text = createFeedDecoder(encoding).decode(bytes);
+  logger.info({ source: source.id, sourcePath, contentType, format, encoding }, "Feed content loaded successfully");
 
-  if (isXmlSource) {
+  if (format === "xml") {
     const parser = new XMLParser({
       ignoreAttributes: true,
       removeNSPrefix: true,
       trimValues: true
     });
     const xmlObject = parser.parse(text);
-    const recordPath = process.env.XML_RECORD_PATH;
-    const xmlRecords = getByPath(xmlObject, recordPath) as
+    const xmlRecords = getByPath(xmlObject, recordPath ?? undefined) as
       | Record<string, unknown>
       | Record<string, unknown>[]
       | undefined;
-    const recordArray = Array.isArray(xmlRecords)
+    const records = Array.isArray(xmlRecords)
       ? xmlRecords
       : xmlRecords
       ? [xmlRecords]
       : [];
+    return { records, format };
+  }
 
-    const orderIdPath = process.env.XML_FIELD_ORDER_ID;
-    const skuPath = process.env.XML_FIELD_SKU;
-    const customFieldPath = process.env.XML_FIELD_CUSTOM_FIELD;
-    const buyerNamePath = process.env.XML_FIELD_BUYER_NAME;
-
-    normalizedRecords = recordArray.map((record) => {
-      const orderId = normalizeValue(getByPath(record, orderIdPath));
-      const sku = normalizeValue(getByPath(record, skuPath));
-      const customField = normalizeValue(getByPath(record, customFieldPath));
-      const buyerName = normalizeValue(getByPath(record, buyerNamePath));
-
-      return normalizeRecord(record, {
-        orderId,
-        sku,
-        customField,
-        buyerName,
-        raw: JSON.stringify(record)
-      });
-    });
-  } else {
-    const records = parseFeed(text, contentType, sourcePath) as Record<
-      string,
-      unknown
-    >[];
-    normalizedRecords = records.map((record) => normalizeRecord(record));
+  return {
+    records: parseFeed(text, format, source.delimiter, recordPath ?? undefined) as Record<string, unknown>[],
+    format
+  };
+}
+
+// Column added to a record when its Amazon Custom payload comes from an extracted file
+const CUSTOMIZATION_FILE_COLUMN = "customization-json";
+
+/**
+ * Read the extracted Amazon Custom file of a record, named after its order item ID or order ID
+ * @returns The file content, or null if there is none
+ */
+async function readCustomizationFile(customizationPath: string, normalized: NormalizedRecord) {
+  const candidates = [normalized.orderItemId, normalized.orderId].filter((name): name is string => Boolean(name));
+
+  for (const name of candidates) {
+    try {
+      return await fs.promises.readFile(path.join(customizationPath, `${path.basename(name)}.json`), "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        logError(error, { customizationPath, name, operation: "read_customization_file" });
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Fetch a feed source and normalize its records with the source's mapping profile.
+ * Marketplace exports (Amazon, Etsy, Shopify) without a selected profile use the
+ * built-in adapter recognised from their header row. Records without an embedded Amazon Custom payload pick one up from the source's
+ * customization folder, stored in the record as "customization-json" so changes to it
+ * are detected like any other feed change.
+ */
+async function loadFeedRecords(
+  source: FeedSource,
+  content?: FeedContent
+): Promise<{ normalizedRecords: NormalizedRecord[]; adapter: FeedAdapterId | null }> {
+  const mapping = resolveMapping(source.mappingProfileId);
+  const { records, format } = await loadRawRecords(source, mapping.recordPath, content);
+  const adapter = source.mappingProfileId == null ? detectFeedAdapter(records, format) : undefined;
+  const normalizedRecords = records.map((record) =>
+    adapter ? normalizeWithAdapter(record, adapter) : normalizeRecord(record, mapping.fields)
+  );
+  const { customizationPath } = source;
+
+  if (adapter) {
+    logger.info({ source: source.id, adapter: adapter.id }, "Feed recognised as a marketplace export");
+  }
+
+  if (!customizationPath) {
+    return { normalizedRecords, adapter: adapter?.id ?? null };
+  }
+
+  const withCustomizations = await Promise.all(
+    normalizedRecords.map(async (normalized, index) => {
+      if (normalized.customization) {
+        return normalized;
+      }
+      const customization = await readCustomizationFile(customizationPath, normalized);
+      if (!customization) {
+        return normalized;
+      }
+      return {
+        ...normalized,
+        customization,
+        raw: JSON.stringify({ ...records[index], [CUSTOMIZATION_FILE_COLUMN]: customization })
+      };
+    })
+  );
+
+  return { normalizedRecords: withCustomizations, adapter: adapter?.id ?? null };
+}
+
+/**
+ * Apply a (possibly unsaved) mapping to the first records of a feed, for the
+ * live preview in the mapping profile editor. Writes nothing.
+ * @param source - Feed url and format
+ * @param mapping - Record path and field rules to try
+ * @param limit - Number of records to return
+ * @returns Raw records side by side with their normalized form, plus the record count
+ */
+export async function previewMapping(
+  source: Pick<FeedSource, "id" | "url" | "auth" | "headers"> & FeedDialect,
+  mapping: ResolvedMapping,
+  limit = 10
+) {
+  const { records } = await loadRawRecords(source, mapping.recordPath);
+  return {
+    totalRecords: records.length,
+    rows: records.slice(0, limit).map((record) => ({
+      raw: record,
+      normalized: normalizeRecord(record, mapping.fields)
+    }))
+  };
+}
+
+const hashRaw = (raw: string | Buffer) => createHash("sha256").update(raw).digest("hex");
+
+// Normalized fields that end up on an engraving or in front of the operator
+const TEXT_FIELDS = ["customField", "buyerName", "sku"] as const;
+// Rows listed in a warning
+const WARNING_ROW_LIMIT = 5;
+
+/**
+ * Problems in normalized records that don't stop an import: text fields with
+ * replacement characters ("\uFFFD"), usually a feed decoded with the wrong charset
+ */
+function feedWarnings(normalizedRecords: NormalizedRecord[]): string[] {
+  const rows = normalizedRecords.flatMap((record, index) =>
+    TEXT_FIELDS.some((field) => hasReplacementChar(record[field])) ? [index + 1] : []
+  );
+
+  if (rows.length === 0) {
+    return [];
   }
 
-  let added = 0;
+  const listed = rows.slice(0, WARNING_ROW_LIMIT).join(", ");
+  return [
+    `${rows.length} record(s) contain replacement characters (\uFFFD) in text fields (row ${listed}${rows.length > WARNING_ROW_LIMIT ? ", ..." : ""}). The feed's encoding is probably wrong: set it in the feed's settings.`
+  ];
+}
+
+const isOrderProcessing = (order: Order) =>
+  order.status === "processing" ||
+  order.fronteStatus === "processing" ||
+  order.retroStatus === "processing";
+
+const isOrderPrinted = (order: Order) =>
+  Boolean(order.processedAt || order.fronteProcessedAt || order.retroProcessedAt);
+
+/**
+ * One line item of an order as read from the feed
+ */
+type FeedItem = {
+  itemKey: string;
+  position: number;
+  sku: string | null;
+  quantity: number;
+  customField: string | null;
+  personalization: Personalization | null;
+  raw: string;
+};
+
+/**
+ * Feed rows sharing an order ID, grouped into one order with its line items
+ */
+type FeedOrder = {
+  orderId: string;
+  purchaseDate: string | null;
+  buyerName: string | null;
+  items: FeedItem[];
+};
+
+const parseQuantity = (value: string | undefined) => {
+  const quantity = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(quantity) && quantity > 0 ? quantity : 1;
+};
+
+/**
+ * The order's raw data: the feed row itself for single-item orders (so their
+ * hash matches orders imported before items existed), else the list of rows.
+ */
+const feedOrderRaw = (feedOrder: FeedOrder) =>
+  feedOrder.items.length === 1
+    ? feedOrder.items[0].raw
+    : JSON.stringify(feedOrder.items.map((item) => JSON.parse(item.raw)));
+
+/**
+ * Order-level columns derived from the items: the first SKU, and the first
+ * customization so "has custom field" filters still see multi-item orders.
+ */
+const feedOrderSummary = (feedOrder: FeedOrder) => ({
+  purchaseDate: feedOrder.purchaseDate,
+  buyerName: feedOrder.buyerName,
+  sku: feedOrder.items[0].sku,
+  customField: feedOrder.items.find((item) => item.customField)?.customField ?? null
+});
+
+// Orders imported from a file without a feed belong to the first feed (or the
+// webhook) that lists them, so that feed updates, archives and restores them
+const FILE_IMPORT_SOURCE_IDS = [UPLOAD_SOURCE_ID, HOT_FOLDER_SOURCE_ID];
+
+/**
+ * Group normalized feed rows by order ID. Rows without an order ID, or whose
+ * order belongs to another source, are skipped; a row repeating a line item
+ * already seen for the same order (same order item ID or identical row) is a duplicate.
+ * An import-only file may list any source's orders, and a feed the orders of a
+ * file import (see FILE_IMPORT_SOURCE_IDS).
+ * @param source - The feed source being read
+ * @param normalizedRecords - The feed rows
+ * @param existingOrders - Known orders by orderId, used to detect other sources' orders
+ * @param importOnly - Rows come from an uploaded or hot folder file
+ * @returns Orders in feed order, skipped rows and the number of duplicate rows
+ */
+function groupFeedRecords(
+  source: Pick<FeedSource, "id">,
+  normalizedRecords: NormalizedRecord[],
+  existingOrders: Map<string, Order>,
+  importOnly = false
+) {
+  const feedOrders = new Map<string, FeedOrder>();
+  const skipped: SkippedRecord[] = [];
+  const personalizationKeys = config.getPersonalizationKeys();
   let duplicates = 0;
-  let deleted = 0;
-  let skipped = 0;
-  const totalParsed = normalizedRecords.length;
-  const incomingOrderIds = new Set<string>();
 
-  for (const normalized of normalizedRecords) {
+  for (const [index, normalized] of normalizedRecords.entries()) {
+    const row = index + 1;
+
     if (!normalized.orderId) {
-      skipped += 1;
+      const fields = Object.keys(JSON.parse(normalized.raw)).join(", ");
+      skipped.push({ source: source.id, row, reason: `Missing order ID (fields: ${fields || "none"})` });
       continue;
     }
 
-    incomingOrderIds.add(normalized.orderId);
+    const existing = existingOrders.get(normalized.orderId);
 
-    const result = db
-      .insert(orders)
-      .values({
+    if (existing && existing.source !== source.id && !importOnly && !FILE_IMPORT_SOURCE_IDS.includes(existing.source)) {
+      logger.warn(
+        { orderId: normalized.orderId, source: source.id, ownerSource: existing.source },
+        "Order ID already belongs to another source, skipping record"
+      );
+      skipped.push({
+        source: source.id,
+        row,
+        orderId: normalized.orderId,
+        reason: `Order ID already belongs to source "${existing.source}"`
+      });
+      continue;
+    }
+
+    let feedOrder = feedOrders.get(normalized.orderId);
+    if (!feedOrder) {
+      feedOrder = {
         orderId: normalized.orderId,
         purchaseDate: normalized.purchaseDate ?? null,
-        status: "pending",
-        customField: normalized.customField ?? null,
-        sku: normalized.sku ?? null,
         buyerName: normalized.buyerName ?? null,
-        raw: normalized.raw
+        items: []
+      };
+      feedOrders.set(normalized.orderId, feedOrder);
+    }
+
+    const position = feedOrder.items.length + 1;
+    const itemKey = normalized.orderItemId ?? String(position);
+
+    if (feedOrder.items.some((item) => item.itemKey === itemKey || item.raw === normalized.raw)) {
+      duplicates += 1;
+      continue;
+    }
+
+    // Parsed once here; generation, asset rules and the order list read the fields
+    const personalization = parsePersonalization(normalized.customField, personalizationKeys, normalized.customization);
+
+    feedOrder.items.push({
+      itemKey,
+      position,
+      sku: normalized.sku ?? null,
+      quantity: parseQuantity(normalized.quantity),
+      // Amazon Custom payloads are replaced by a readable summary
+      customField: personalization?.surfaces.length
+        ? summarizePersonalization(personalization)
+        : normalized.customField ?? null,
+      personalization,
+      raw: normalized.raw
+    });
+  }
+
+  return { feedOrders, skipped, duplicates };
+}
+
+// IDs bound per IN (...) list; keeps statements under SQLite's bound-parameter limit
+const ID_BATCH_SIZE = 500;
+
+const inBatches = <T>(values: T[], size = ID_BATCH_SIZE) =>
+  Array.from({ length: Math.ceil(values.length / size) }, (_, index) =>
+    values.slice(index * size, (index + 1) * size)
+  );
+
+/**
+ * Inserts run once per new order and line item, prepared on first use
+ * (the tables only exist once migrations have run)
+ */
+function prepareInsertStatements() {
+  return {
+    order: db
+      .insert(orders)
+      .values({
+        orderId: sql.placeholder("orderId"),
+        source: sql.placeholder("source"),
+        status: "pending",
+        purchaseDate: sql.placeholder("purchaseDate"),
+        buyerName: sql.placeholder("buyerName"),
+        sku: sql.placeholder("sku"),
+        customField: sql.placeholder("customField"),
+        raw: sql.placeholder("raw"),
+        rawHash: sql.placeholder("rawHash")
       })
       .onConflictDoNothing()
+      .returning()
+      .prepare(),
+    item: db
+      .insert(orderItems)
+      .values({
+        orderId: sql.placeholder("orderId"),
+        itemKey: sql.placeholder("itemKey"),
+        position: sql.placeholder("position"),
+        sku: sql.placeholder("sku"),
+        quantity: sql.placeholder("quantity"),
+        customField: sql.placeholder("customField"),
+        personalization: sql.placeholder("personalization"),
+        raw: sql.placeholder("raw"),
+        rawHash: sql.placeholder("rawHash")
+      })
+      .prepare()
+  };
+}
+
+let insertStatements: ReturnType<typeof prepareInsertStatements> | null = null;
+const preparedInserts = () => (insertStatements ??= prepareInsertStatements());
+
+/**
+ * Insert the line items of a newly imported order
+ */
+function insertOrderItems(orderId: string, items: FeedItem[]) {
+  for (const item of items) {
+    preparedInserts().item.run({ orderId, ...item, rawHash: hashRaw(item.raw) });
+  }
+}
+
+/**
+ * An item with a side engraved or being engraved: it keeps its print history
+ * even when its line leaves the feed
+ */
+const isItemStarted = (item: OrderItem) =>
+  Boolean(item.fronteProcessedAt || item.retroProcessedAt) ||
+  [item.fronteStatus, item.retroStatus].some((status) => status === "printed" || status === "processing");
+
+/**
+ * Bring an order's stored items in line with the feed: new lines are added,
+ * changed lines take the new values (keeping their print status, with their
+ * engraved sides flagged for re-engraving) and lines no longer in the feed are
+ * removed, unless already engraved or being engraved.
+ * @returns Number of such lines kept although the feed dropped them
+ */
+function applyItemChanges(orderId: string, items: FeedItem[]): number {
+  const storedItems = new Map(getOrderItems(orderId).map((item) => [item.itemKey, item]));
+
+  for (const item of items) {
+    const stored = storedItems.get(item.itemKey);
+    storedItems.delete(item.itemKey);
+
+    if (!stored) {
+      insertOrderItems(orderId, [item]);
+      continue;
+    }
+
+    const incomingHash = hashRaw(item.raw);
+    const changed = incomingHash !== (stored.rawHash ?? hashRaw(stored.raw));
+    if (!changed && item.position === stored.position) {
+      continue;
+    }
+
+    const skuChanged = item.sku !== stored.sku;
+    db.update(orderItems)
+      .set({
+        ...item,
+        rawHash: incomingHash,
+        // A new SKU may map to a different retro template; let the retro check re-evaluate it
+        ...(skuChanged && stored.retroStatus === "pending" ? { retroStatus: "not_required" as const } : {}),
+        ...(changed && stored.fronteProcessedAt ? { fronteChangedAfterPrint: true } : {}),
+        ...(changed && stored.retroProcessedAt ? { retroChangedAfterPrint: true } : {}),
+        updatedAt: sql`CURRENT_TIMESTAMP`
+      })
+      .where(eq(orderItems.id, stored.id))
       .run();
+  }
+
+  let kept = 0;
+  for (const removed of storedItems.values()) {
+    if (isItemStarted(removed)) {
+      kept += 1;
+      logger.warn({ orderId, itemKey: removed.itemKey, sku: removed.sku }, "Engraved order item no longer in feed, kept");
+      continue;
+    }
+    db.delete(orderItems).where(eq(orderItems.id, removed.id)).run();
+    logger.info({ orderId, itemKey: removed.itemKey, sku: removed.sku }, "Order item no longer in feed, removed");
+  }
+  return kept;
+}
+
+type FeedChangeOutcome = "unchanged" | "updated" | "changed_after_print" | "locked";
+
+/**
+ * Compare an incoming feed order with the stored order and apply any changes.
+ * Orders not yet engraved take the new values silently; orders with a printed
+ * side are updated too but flagged so an operator can decide whether to re-engrave.
+ * Orders mid-job are left alone and picked up again by the next sync.
+ * @param existing - The stored order row
+ * @param feedOrder - The incoming feed order with its items
+ * @returns What happened to the stored order
+ */
+function applyFeedChanges(existing: Order, feedOrder: FeedOrder): FeedChangeOutcome {
+  const raw = feedOrderRaw(feedOrder);
+  const incomingHash = hashRaw(raw);
+  const storedHash = existing.rawHash ?? hashRaw(existing.raw);
+
+  if (incomingHash === storedHash) {
+    return "unchanged";
+  }
+
+  if (isOrderProcessing(existing)) {
+    logger.warn(
+      { orderId: existing.orderId },
+      "Feed record changed while order is processing, deferring update to next sync"
+    );
+    return "locked";
+  }
+
+  const summary = feedOrderSummary(feedOrder);
+  // Engraved lines the feed dropped are kept, and flag the order like any change after print
+  const keptItems = applyItemChanges(existing.orderId, feedOrder.items);
+  const wasPrinted = isOrderPrinted(existing) || keptItems > 0;
+
+  db.update(orders)
+    .set({
+      ...summary,
+      raw,
+      rawHash: incomingHash,
+      ...(wasPrinted ? { changedAfterPrint: true } : {}),
+      updatedAt: sql`CURRENT_TIMESTAMP`
+    })
+    .where(eq(orders.orderId, existing.orderId))
+    .run();
+
+  rollupOrderStatus(existing.orderId);
 
-    if (result.changes > 0) {
-      added += 1;
+  logger.info(
+    {
+      orderId: existing.orderId,
+      wasPrinted,
+      itemCount: feedOrder.items.length,
+      keptItems,
+      skuChanged: summary.sku !== existing.sku,
+      customFieldChanged: summary.customField !== existing.customField,
+      buyerNameChanged: summary.buyerName !== existing.buyerName
+    },
+    wasPrinted ? "Feed record changed after print, order flagged" : "Feed record changed, order updated"
+  );
+
+  return wasPrinted ? "changed_after_print" : "updated";
+}
+
+/**
+ * Orders with a side currently being engraved must never be archived or purged
+ */
+const isNotProcessing = () =>
+  and(
+    ne(orders.status, "processing"),
+    ne(orders.fronteStatus, "processing"),
+    ne(orders.retroStatus, "processing")
+  );
+
+/**
+ * Soft-delete orders that are no longer listed in their source's feed and
+ * restore archived orders that have reappeared. Scoped to one source so an
+ * empty or failing feed never touches another channel's orders.
+ * @param sourceId - The feed source being synced
+ * @param feedOrderIds - Order IDs present in the current feed
+ * @param existingOrders - Known orders by orderId, to find this source's candidates
+ *   without binding every feed order ID into one statement
+ * @returns Number of orders archived and restored
+ */
+function archiveMissingOrders(sourceId: string, feedOrderIds: Set<string>, existingOrders: Map<string, Order>) {
+  const toRestore: string[] = [];
+  const toArchive: string[] = [];
+
+  for (const order of existingOrders.values()) {
+    if (order.source !== sourceId) {
+      continue;
+    }
+    if (feedOrderIds.has(order.orderId)) {
+      if (order.archivedAt) {
+        toRestore.push(order.orderId);
+      }
+    } else if (!order.archivedAt) {
+      toArchive.push(order.orderId);
+    }
+  }
+
+  let restored = 0;
+  for (const batch of inBatches(toRestore)) {
+    restored += db
+      .update(orders)
+      .set({ archivedAt: null, updatedAt: sql`CURRENT_TIMESTAMP` })
+      .where(and(eq(orders.source, sourceId), inArray(orders.orderId, batch), isNotNull(orders.archivedAt)))
+      .run().changes;
+  }
+
+  if (restored > 0) {
+    logger.info({ source: sourceId, restored }, "Restored archived orders that reappeared in feed");
+  }
+
+  let archived = 0;
+  for (const batch of inBatches(toArchive)) {
+    archived += db
+      .update(orders)
+      .set({ archivedAt: sql`CURRENT_TIMESTAMP`, updatedAt: sql`CURRENT_TIMESTAMP` })
+      .where(
+        and(
+          eq(orders.source, sourceId),
+          inArray(orders.orderId, batch),
+          isNull(orders.archivedAt),
+          isNotProcessing()
+        )
+      )
+      .run().changes;
+  }
+
+  if (archived > 0) {
+    logger.info({ source: sourceId, archived }, "Archived orders no longer in feed");
+  }
+
+  return { archived, restored };
+}
+
+/**
+ * Permanently delete archived orders older than the retention period.
+ * @param retentionDays - Days to keep archived orders (0 = keep forever)
+ * @returns Number of orders purged
+ */
+function purgeArchivedOrders(retentionDays: number) {
+  if (retentionDays <= 0) {
+    return 0;
+  }
+
+  const purgeResult = db
+    .delete(orders)
+    .where(
+      and(
+        isNotNull(orders.archivedAt),
+        sql`${orders.archivedAt} < datetime('now', ${`-${retentionDays} days`})`,
+        isNotProcessing()
+      )
+    )
+    .run();
+
+  if (purgeResult.changes > 0) {
+    logger.info(
+      { purged: purgeResult.changes, retentionDays },
+      "Purged archived orders past retention period"
+    );
+  }
+
+  return purgeResult.changes;
+}
+
+type ImportCounts = {
+  added: number;
+  duplicates: number;
+  updated: number;
+  changedAfterPrint: string[];
+  // Changed orders left alone because they were being engraved
+  deferred: string[];
+};
+
+/**
+ * Insert new orders and update changed ones. Shared by feed syncs and the order webhook.
+ * New orders and their items go through prepared inserts; callers run it inside
+ * a transaction.
+ * @param sourceId - Source stamped on new orders
+ * @param feedOrders - Grouped orders (see groupFeedRecords)
+ * @param existingOrders - Known orders by orderId, updated with new inserts
+ * @param importOnly - An import-only file updates other sources' orders without
+ *   taking them over; otherwise a file import's orders move to `sourceId`
+ * @returns Counts of added, unchanged and updated orders
+ */
+function importFeedOrders(
+  sourceId: string,
+  feedOrders: Iterable<FeedOrder>,
+  existingOrders: Map<string, Order>,
+  importOnly = false
+): ImportCounts {
+  const counts: ImportCounts = { added: 0, duplicates: 0, updated: 0, changedAfterPrint: [], deferred: [] };
+
+  for (const feedOrder of feedOrders) {
+    let existing = existingOrders.get(feedOrder.orderId);
+
+    if (existing && existing.source !== sourceId && !importOnly) {
+      db.update(orders).set({ source: sourceId }).where(eq(orders.orderId, existing.orderId)).run();
+      logger.info({ orderId: existing.orderId, from: existing.source, source: sourceId }, "Order taken over from a file import");
+      existing = { ...existing, source: sourceId };
+      existingOrders.set(existing.orderId, existing);
+    }
+
+    if (existing) {
+      const outcome = applyFeedChanges(existing, feedOrder);
+      if (outcome === "updated") {
+        counts.updated += 1;
+      } else if (outcome === "changed_after_print") {
+        counts.updated += 1;
+        counts.changedAfterPrint.push(existing.orderId);
+      } else {
+        if (outcome === "locked") {
+          counts.deferred.push(existing.orderId);
+        }
+        counts.duplicates += 1;
+      }
+      continue;
+    }
+
+    const raw = feedOrderRaw(feedOrder);
+    const inserted = preparedInserts().order.get({
+      orderId: feedOrder.orderId,
+      source: sourceId,
+      ...feedOrderSummary(feedOrder),
+      raw,
+      rawHash: hashRaw(raw)
+    });
+
+    if (inserted) {
+      insertOrderItems(inserted.orderId, feedOrder.items);
+      existingOrders.set(inserted.orderId, inserted);
+      counts.added += 1;
     } else {
-      duplicates += 1;
+      counts.duplicates += 1;
     }
   }
 
-  if (incomingOrderIds.size > 0) {
-    const ids = Array.from(incomingOrderIds);
-    const deleteResult = db
-      .delete(orders)
-      .where(notInArray(orders.orderId, ids))
-      .run();
+  return counts;
+}
+
+/**
+ * A feed source read and normalized, ready to be imported
+ */
+type LoadedFeed = {
+  source: FeedSource;
+  // Uploaded file: orders missing from it are left alone
+  importOnly: boolean;
+  // Recorded once the feed is imported (not for uploads)
+  feedState?: { fingerprint: string; validators: FeedValidators };
+  // null when the feed is unchanged since its last successful sync
+  records: { normalizedRecords: NormalizedRecord[]; adapter: FeedAdapterId | null } | null;
+};
+
+const loadExistingOrders = () =>
+  new Map(db.select().from(orders).all().map((order) => [order.orderId, order]));
 
-    deleted = deleteResult.changes;
-    
-    if (deleted > 0) {
-      logger.info({ deleted }, "Removed orders no longer in feed");
+/**
+ * Fetch and normalize one feed source. Everything async in a sync happens
+ * here, before the sync's transaction is opened.
+ * @param source - The feed source to read
+ * @param upload - Uploaded file to import instead of the feed's url. Import only:
+ *   orders missing from the file are left alone.
+ * @returns The normalized records, or none for a feed unchanged since its last successful sync
+ */
+async function loadSource(source: FeedSource, upload?: FeedUpload): Promise<LoadedFeed> {
+  logger.info({ source: source.id, url: upload?.filename ?? source.url, importOnly: Boolean(upload) }, "Syncing feed source");
+
+  if (upload) {
+    const content: FeedContent = { bytes: upload.content, contentType: null, sourcePath: upload.filename };
+    return { source, importOnly: true, records: await loadFeedRecords(source, content) };
+  }
+
+  const fingerprint = feedFingerprint(source);
+  // Amazon Custom files can change while the report doesn't, so those feeds are always read
+  const previous = source.customizationPath ? null : loadFeedState(source.id, fingerprint);
+  const fetched = await readFeedContent(source, previous);
+  const feedState = { fingerprint, validators: fetched.validators };
+
+  if (!fetched.content) {
+    logger.info({ source: source.id }, "Feed unchanged since last sync");
+    return { source, importOnly: false, feedState, records: null };
+  }
+
+  return { source, importOnly: false, feedState, records: await loadFeedRecords(source, fetched.content) };
+}
+
+/**
+ * Import one loaded feed source: insert new orders, update changed ones and
+ * archive this source's orders that are no longer listed. Synchronous, so it
+ * runs inside the sync's transaction.
+ * @param loaded - The source with its normalized records (see loadSource)
+ * @param existingOrders - Known orders by orderId, updated with new inserts
+ * @param skippedRecords - Collects skipped records with the reason, even if the source fails
+ * @returns Per-source counts and the order IDs seen in the feed. A feed unchanged
+ *   since its last successful sync is not imported (`unchanged: true`).
+ */
+function importSource(
+  loaded: LoadedFeed,
+  existingOrders: Map<string, Order>,
+  skippedRecords: SkippedRecord[]
+): { result: SourceSyncResult; incomingOrderIds: Set<string> } {
+  const { source, feedState } = loaded;
+
+  if (!loaded.records) {
+    if (feedState) {
+      saveFeedState(source.id, feedState.fingerprint, feedState.validators);
     }
+    return {
+      result: {
+        source: source.id,
+        name: source.name,
+        added: 0,
+        duplicates: 0,
+        updated: 0,
+        changedAfterPrint: [],
+        archived: 0,
+        restored: 0,
+        skipped: 0,
+        totalParsed: 0,
+        unchanged: true
+      },
+      incomingOrderIds: new Set()
+    };
   }
 
-  if (totalParsed > 0 && added + skipped + duplicates === 0) {
+  const { normalizedRecords, adapter } = loaded.records;
+
+  const grouped = groupFeedRecords(source, normalizedRecords, existingOrders, loaded.importOnly);
+  skippedRecords.push(...grouped.skipped);
+
+  // Rows were read but none had an order ID: the field mapping doesn't fit this feed
+  const withOrderId = normalizedRecords.filter((record) => record.orderId).length;
+  if (normalizedRecords.length > 0 && withOrderId === 0) {
     const error = new Error(
-      "Sync completed with zero added/skipped records. Mapping likely failed."
+      `Sync read ${normalizedRecords.length} record(s) but none had an order ID. Mapping likely failed.`
     );
-    logError(error, { 
-      totalParsed, 
-      added, 
-      skipped, 
-      duplicates,
-      operation: "sync_orders" 
+    logError(error, {
+      source: source.id,
+      totalParsed: normalizedRecords.length,
+      skipped: grouped.skipped.length,
+      operation: "sync_orders"
     });
     throw error;
   }
 
-  // Update retroStatus for orders based on retro template availability
-  if (incomingOrderIds.size > 0) {
-    logger.info({ orderCount: incomingOrderIds.size }, "Checking retro template availability for synced orders");
-    
-    // Get all orders that have retroStatus='not_required'
-    const allOrders = await db
-      .select()
-      .from(orders)
-      .where(eq(orders.retroStatus, 'not_required'))
-      .all();
-    
-    // Filter to only check orders from this sync
-    const ordersToCheck = allOrders.filter(order => 
-      incomingOrderIds.has(order.orderId)
-    );
-    
-    // Group orders by SKU to avoid checking the same SKU multiple times
-    const ordersBySku = new Map<string, typeof ordersToCheck>();
-    for (const order of ordersToCheck) {
-      if (order.sku) {
-        if (!ordersBySku.has(order.sku)) {
-          ordersBySku.set(order.sku, []);
-        }
-        ordersBySku.get(order.sku)!.push(order);
-      }
+  const imported = importFeedOrders(source.id, grouped.feedOrders.values(), existingOrders, loaded.importOnly);
+  const { added, updated, changedAfterPrint } = imported;
+  // Repeated rows for the same line item within one feed are duplicates
+  const duplicates = grouped.duplicates + imported.duplicates;
+  let archived = 0;
+  let restored = 0;
+  const skipped = grouped.skipped.length;
+  const totalParsed = normalizedRecords.length;
+  const incomingOrderIds = new Set(grouped.feedOrders.keys());
+  const warnings = feedWarnings(normalizedRecords);
+
+  if (incomingOrderIds.size > 0 && !loaded.importOnly) {
+    ({ archived, restored } = archiveMissingOrders(source.id, incomingOrderIds, existingOrders));
+  }
+
+  const result: SourceSyncResult = {
+    source: source.id,
+    name: source.name,
+    added,
+    duplicates,
+    updated,
+    changedAfterPrint,
+    archived,
+    restored,
+    skipped,
+    totalParsed,
+    adapter,
+    ...(warnings.length > 0 ? { warnings } : {})
+  };
+
+  if (warnings.length > 0) {
+    logger.warn({ source: source.id, warnings }, "Feed imported with warnings");
+  }
+
+  // Only recorded once imported, so a failed sync is retried in full next time. Nor
+  // when updates were deferred: the next sync must read this content again to apply them
+  if (feedState && imported.deferred.length === 0) {
+    saveFeedState(source.id, feedState.fingerprint, feedState.validators);
+  } else if (feedState) {
+    logger.info({ source: source.id, deferred: imported.deferred }, "Feed state not recorded: updates deferred to next sync");
+  }
+
+  logger.info(result, "Feed source synchronized");
+
+  return { result, incomingOrderIds };
+}
+
+const toPreviewOrder = (order: Pick<Order, "orderId" | "sku" | "buyerName" | "customField">): PreviewOrder => ({
+  orderId: order.orderId,
+  sku: order.sku,
+  buyerName: order.buyerName,
+  customField: order.customField
+});
+
+/**
+ * Dry run of a sync for one feed source: loads and normalizes the feed exactly
+ * like syncOrders() does, then reports what would change. Writes nothing.
+ * @param source - The feed source to preview (does not need to be saved yet)
+ * @returns Orders that would be added, updated, archived and restored, plus skipped rows and samples
+ */
+export async function previewSource(source: FeedSource): Promise<SyncPreview> {
+  logger.info({ source: source.id, url: source.url }, "Previewing feed source");
+
+  const { normalizedRecords, adapter } = await loadFeedRecords(source);
+  const existingOrders = loadExistingOrders();
+
+  const { feedOrders, skipped, duplicates: duplicateRows } = groupFeedRecords(source, normalizedRecords, existingOrders);
+  const incomingOrderIds = new Set(feedOrders.keys());
+  const toAdd: PreviewOrder[] = [];
+  const toUpdate: SyncPreview["toUpdate"] = [];
+  const toRestore: string[] = [];
+  let duplicates = duplicateRows;
+
+  for (const feedOrder of feedOrders.values()) {
+    const existing = existingOrders.get(feedOrder.orderId);
+    const incoming = toPreviewOrder({ orderId: feedOrder.orderId, ...feedOrderSummary(feedOrder) });
+
+    if (!existing) {
+      toAdd.push(incoming);
+      continue;
     }
-    
-    let retroUpdated = 0;
-    const skusWithRetro: string[] = [];
-    
-    // Check each unique SKU once
-    for (const [sku, ordersForSku] of ordersBySku.entries()) {
-      const hasRetro = await hasRetroTemplate(sku);
-      
-      if (hasRetro) {
-        skusWithRetro.push(sku);
-        
-        // Update all orders with this SKU
-        for (const order of ordersForSku) {
-          await db
-            .update(orders)
-            .set({
-              retroStatus: 'pending',
-              updatedAt: sql`CURRENT_TIMESTAMP`
-            })
-            .where(eq(orders.orderId, order.orderId))
-            .run();
-          
-          retroUpdated++;
-          logger.info(
-            { sku, orderId: order.orderId },
-            `Retro template found for SKU: ${sku}, setting retroStatus='pending'`
-          );
-        }
-      }
+
+    if (existing.archivedAt) {
+      toRestore.push(existing.orderId);
     }
-    
-    if (retroUpdated > 0) {
-      logger.info(
-        { 
-          retroUpdated, 
-          skusWithRetro: skusWithRetro.join(', '),
-          skuCount: skusWithRetro.length
-        }, 
-        `Updated retroStatus for ${retroUpdated} order(s) across ${skusWithRetro.length} SKU(s) with retro templates`
-      );
-    } else if (ordersToCheck.length > 0) {
-      logger.info("No retro templates found for any synced orders");
+
+    const changed = hashRaw(feedOrderRaw(feedOrder)) !== (existing.rawHash ?? hashRaw(existing.raw));
+    if (changed && !isOrderProcessing(existing)) {
+      toUpdate.push({ ...incoming, changedAfterPrint: isOrderPrinted(existing) });
+    } else {
+      duplicates += 1;
     }
   }
 
+  // Same rule as archiveMissingOrders(): an empty feed archives nothing
+  const toArchive = incomingOrderIds.size === 0
+    ? []
+    : Array.from(existingOrders.values())
+        .filter(
+          (order) =>
+            order.source === source.id &&
+            !order.archivedAt &&
+            !incomingOrderIds.has(order.orderId) &&
+            !isOrderProcessing(order)
+        )
+        .map(toPreviewOrder);
+
+  return {
+    source: source.id,
+    adapter,
+    totalParsed: normalizedRecords.length,
+    added: toAdd.length,
+    updated: toUpdate.length,
+    archived: toArchive.length,
+    restored: toRestore.length,
+    duplicates,
+    skipped: skipped.length,
+    toAdd: toAdd.slice(0, PREVIEW_LIST_LIMIT),
+    toUpdate: toUpdate.slice(0, PREVIEW_LIST_LIMIT),
+    toArchive: toArchive.slice(0, PREVIEW_LIST_LIMIT),
+    toRestore: toRestore.slice(0, PREVIEW_LIST_LIMIT),
+    skippedRecords: skipped.slice(0, PREVIEW_LIST_LIMIT),
+    samples: normalizedRecords.slice(0, PREVIEW_SAMPLE_SIZE),
+    warnings: feedWarnings(normalizedRecords)
+  };
+}
+
+/**
+ * SKUs that have a retro template. Template matching is async, so the SKUs of
+ * a sync are looked up before its transaction is opened.
+ * @param skus - SKUs of the records being imported
+ */
+async function findRetroSkus(skus: Iterable<string | null | undefined>): Promise<Set<string>> {
+  const retroSkus = new Set<string>();
+
+  for (const sku of new Set(skus)) {
+    if (sku && (await hasRetroTemplate(sku))) {
+      retroSkus.add(sku);
+    }
+  }
+
+  return retroSkus;
+}
+
+const feedSkus = (loaded: LoadedFeed) =>
+  loaded.records?.normalizedRecords.map((record) => record.sku) ?? [];
+
+/**
+ * Set retroStatus='pending' for items of synced orders whose SKU has a retro template
+ * @param syncedOrderIds - Order IDs seen in this sync
+ * @param retroSkus - SKUs with a retro template (see findRetroSkus)
+ */
+function updateRetroStatus(syncedOrderIds: Set<string>, retroSkus: Set<string>) {
+  logger.info({ orderCount: syncedOrderIds.size }, "Checking retro template availability for synced orders");
+
+  // Items of orders from this sync whose SKU has a retro template but still have retroStatus='not_required'
+  const itemsToUpdate = inBatches(Array.from(retroSkus))
+    .flatMap((skus) =>
+      db
+        .select({ id: orderItems.id, orderId: orderItems.orderId, sku: orderItems.sku })
+        .from(orderItems)
+        .where(and(eq(orderItems.retroStatus, "not_required"), inArray(orderItems.sku, skus)))
+        .all()
+    )
+    .filter((item) => syncedOrderIds.has(item.orderId));
+
+  for (const batch of inBatches(itemsToUpdate)) {
+    db.update(orderItems)
+      .set({
+        retroStatus: "pending",
+        updatedAt: sql`CURRENT_TIMESTAMP`
+      })
+      .where(inArray(orderItems.id, batch.map((item) => item.id)))
+      .run();
+  }
+
+  new Set(itemsToUpdate.map((item) => item.orderId)).forEach((orderId) => rollupOrderStatus(orderId));
+
+  const skusWithRetro = Array.from(new Set(itemsToUpdate.map((item) => item.sku)));
+  if (itemsToUpdate.length > 0) {
+    logger.info(
+      {
+        retroUpdated: itemsToUpdate.length,
+        skusWithRetro: skusWithRetro.join(", "),
+        skuCount: skusWithRetro.length
+      },
+      `Updated retroStatus for ${itemsToUpdate.length} item(s) across ${skusWithRetro.length} SKU(s) with retro templates`
+    );
+  } else if (retroSkus.size === 0) {
+    logger.info("No retro templates found for any synced orders");
+  }
+}
+
+export type WebhookImportResult = {
+  added: number;
+  duplicates: number;
+  updated: number;
+  changedAfterPrint: string[];
+  skipped: number;
+  skippedRecords: SkippedRecord[];
+  totalParsed: number;
+};
+
+/**
+ * Split an order with nested line items ({ orderId, items: [{ sku, ... }] }) into
+ * one record per item, each carrying the order-level fields.
+ */
+function flattenOrderItems(record: Record<string, unknown>): Record<string, unknown>[] {
+  const { items, ...orderFields } = record;
+
+  if (!Array.isArray(items) || items.length === 0) {
+    return [record];
+  }
+
+  return items.map((item) =>
+    item && typeof item === "object" && !Array.isArray(item)
+      ? { ...orderFields, ...(item as Record<string, unknown>) }
+      : { ...orderFields, item }
+  );
+}
+
+/**
+ * Import orders pushed to the order webhook. Records go through the default
+ * mapping profile and the same insert/update steps as a feed sync, under the
+ * "webhook" source; no feed sync ever archives them, since no feed has that id.
+ * @param records - Orders as received (nested `items` are split into line items)
+ * @returns Counts and skipped records
+ */
+export async function importWebhookOrders(records: Record<string, unknown>[]): Promise<WebhookImportResult> {
+  const mapping = resolveMapping(null);
+  const normalizedRecords = records
+    .flatMap(flattenOrderItems)
+    .map((record) => normalizeRecord(record, mapping.fields));
+  const retroSkus = await findRetroSkus(normalizedRecords.map((record) => record.sku));
+
+  const { grouped, imported } = db.transaction(() => {
+    const existingOrders = loadExistingOrders();
+    const grouped = groupFeedRecords({ id: WEBHOOK_SOURCE_ID }, normalizedRecords, existingOrders);
+    const imported = importFeedOrders(WEBHOOK_SOURCE_ID, grouped.feedOrders.values(), existingOrders);
+
+    if (grouped.feedOrders.size > 0) {
+      updateRetroStatus(new Set(grouped.feedOrders.keys()), retroSkus);
+    }
+    return { grouped, imported };
+  });
+
+  const result: WebhookImportResult = {
+    ...imported,
+    duplicates: grouped.duplicates + imported.duplicates,
+    skipped: grouped.skipped.length,
+    skippedRecords: grouped.skipped,
+    totalParsed: normalizedRecords.length
+  };
+
   logger.info(
-    { 
-      added, 
-      duplicates, 
-      deleted, 
-      skipped, 
-      totalParsed 
+    {
+      added: result.added,
+      duplicates: result.duplicates,
+      updated: result.updated,
+      skipped: result.skipped,
+      totalParsed: result.totalParsed
     },
-    "Order synchronization completed"
+    "Webhook orders imported"
   );
 
-  return { added, duplicates, deleted, skipped, totalParsed };
+  return result;
+}
+
+export type ManualOrderInput = {
+  orderId: string;
+  buyerName: string | null;
+  purchaseDate: string | null;
+  items: { sku: string | null; quantity: number; customField: string | null }[];
+};
+
+/**
+ * Create an order entered by hand. It goes through the same grouping and insert
+ * steps as feed orders, under the "manual" source, so no feed sync archives it.
+ * The submitted fields are kept as the items' `raw`.
+ * @param input - Order fields and at least one line item
+ * @returns The new order
+ * @throws Error if an order with that ID already exists
+ */
+export async function createManualOrder(input: ManualOrderInput): Promise<Order> {
+  // The line number keeps two identical lines from being taken for a repeated row
+  const records: NormalizedRecord[] = input.items.map((item, index) => ({
+    orderId: input.orderId,
+    purchaseDate: input.purchaseDate ?? undefined,
+    buyerName: input.buyerName ?? undefined,
+    sku: item.sku ?? undefined,
+    quantity: String(item.quantity),
+    customField: item.customField ?? undefined,
+    raw: JSON.stringify({
+      orderId: input.orderId,
+      purchaseDate: input.purchaseDate,
+      buyerName: input.buyerName,
+      line: index + 1,
+      ...item
+    })
+  }));
+
+  const retroSkus = await findRetroSkus(input.items.map((item) => item.sku));
+
+  const created = db.transaction(() => {
+    const existingOrders = new Map(
+      db.select().from(orders).where(eq(orders.orderId, input.orderId)).all().map((order) => [order.orderId, order])
+    );
+
+    if (existingOrders.size > 0) {
+      throw new Error(`ORDER_EXISTS: Order ${input.orderId} already exists`);
+    }
+
+    const grouped = groupFeedRecords({ id: MANUAL_SOURCE_ID }, records, existingOrders);
+    importFeedOrders(MANUAL_SOURCE_ID, grouped.feedOrders.values(), existingOrders);
+
+    const created = existingOrders.get(input.orderId);
+    if (!created) {
+      throw new Error(`ORDER_EXISTS: Order ${input.orderId} already exists`);
+    }
+
+    updateRetroStatus(new Set([input.orderId]), retroSkus);
+    return created;
+  });
+
+  logger.info({ orderId: input.orderId, itemCount: input.items.length }, "Manual order created");
+
+  return created;
+}
+
+/**
+ * Delete all but the most recent SYNC_HISTORY_LIMIT sync runs
+ */
+function pruneSyncHistory() {
+  db.delete(syncRuns)
+    .where(
+      sql`${syncRuns.id} <= (SELECT ${syncRuns.id} FROM ${syncRuns} ORDER BY ${syncRuns.id} DESC LIMIT 1 OFFSET ${SYNC_HISTORY_LIMIT})`
+    )
+    .run();
+}
+
+/**
+ * Adapter used per source id, for the sync run record
+ */
+const usedAdapters = (sourceResults: SourceSyncResult[]) =>
+  Object.fromEntries(
+    sourceResults.flatMap((result) => (result.adapter ? [[result.source, result.adapter]] : []))
+  ) as Record<string, FeedAdapterId>;
+
+/**
+ * Warnings of every source, prefixed with the source name, for the sync run record
+ */
+const collectWarnings = (sourceResults: SourceSyncResult[]) =>
+  sourceResults.flatMap((result) => (result.warnings ?? []).map((warning) => `${result.name}: ${warning}`));
+
+/**
+ * Run a sync task and record it in sync_runs, whether it succeeds or fails.
+ * @param trigger - What started the run
+ * @param sourceIds - Feed source ids included in the run
+ * @param task - The sync itself; fills sourceResults and skippedRecords as it goes
+ * @returns The task's result with the sync_runs id
+ */
+async function recordSyncRun(
+  trigger: SyncTrigger,
+  sourceIds: string[],
+  task: (sourceResults: SourceSyncResult[], skippedRecords: SkippedRecord[]) => Promise<Omit<SyncResult, "runId" | "warnings">>
+): Promise<SyncResult> {
+  const run = db
+    .insert(syncRuns)
+    .values({ trigger, sources: sourceIds })
+    .returning({ id: syncRuns.id })
+    .get();
+  const sourceResults: SourceSyncResult[] = [];
+  const skippedRecords: SkippedRecord[] = [];
+
+  try {
+    const result = await task(sourceResults, skippedRecords);
+    const warnings = collectWarnings(sourceResults);
+
+    db.update(syncRuns)
+      .set({
+        status: sourceResults.some((sourceResult) => sourceResult.error) ? "partial" : "success",
+        added: result.added,
+        duplicates: result.duplicates,
+        updated: result.updated,
+        archived: result.archived,
+        restored: result.restored,
+        deleted: result.deleted,
+        skipped: result.skipped,
+        totalParsed: result.totalParsed,
+        adapters: usedAdapters(sourceResults),
+        sourceResults,
+        skippedRecords: skippedRecords.slice(0, MAX_SKIPPED_RECORDS_PER_RUN),
+        warnings,
+        finishedAt: sql`CURRENT_TIMESTAMP`
+      })
+      .where(eq(syncRuns.id, run.id))
+      .run();
+
+    return { ...result, warnings, runId: run.id };
+  } catch (error) {
+    db.update(syncRuns)
+      .set({
+        status: "error",
+        errorMessage: error instanceof Error ? error.message : String(error),
+        skipped: skippedRecords.length,
+        adapters: usedAdapters(sourceResults),
+        sourceResults,
+        skippedRecords: skippedRecords.slice(0, MAX_SKIPPED_RECORDS_PER_RUN),
+        warnings: collectWarnings(sourceResults),
+        finishedAt: sql`CURRENT_TIMESTAMP`
+      })
+      .where(eq(syncRuns.id, run.id))
+      .run();
+    throw error;
+  } finally {
+    pruneSyncHistory();
+  }
+}
+
+/**
+ * Sync all enabled feed sources and record the run in sync_runs.
+ * @param trigger - What started the run
+ * @returns Combined counts, per-source results and the sync_runs id
+ * @throws Error if no source is configured or every source failed (the run is still recorded)
+ */
+export async function syncOrders(trigger: SyncTrigger = "manual"): Promise<SyncResult> {
+  const feedSources = config.getFeedSources().filter((source) => source.enabled);
+  
+  logger.info(
+    { sources: feedSources.map((source) => source.id), trigger },
+    "Starting order synchronization"
+  );
+
+  return recordSyncRun(trigger, feedSources.map((source) => source.id), (sourceResults, skippedRecords) =>
+    syncFeedSources(feedSources, sourceResults, skippedRecords)
+  );
+}
+
+/**
+ * Import an uploaded feed file once, through the same parse/normalize/insert
+ * steps as a sync, in import-only mode: orders are added and updated, but
+ * nothing missing from the file is archived or purged. Orders another source
+ * already has are updated and stay that source's.
+ * @param upload - The file name and content
+ * @param source - Feed whose format, mapping profile and source id to use
+ *   (a configured feed, or the reserved "upload"/"hotfolder" source)
+ * @param trigger - Recorded on the run: "upload" (dropped in the UI) or "hotfolder"
+ * @returns The sync result
+ */
+export async function importUploadedFeed(
+  upload: FeedUpload,
+  source: FeedSource,
+  trigger: Extract<SyncTrigger, "upload" | "hotfolder"> = "upload"
+): Promise<SyncResult> {
+  logger.info({ source: source.id, filename: upload.filename, trigger }, "Importing uploaded feed file");
+
+  return recordSyncRun(trigger, [source.id], async (sourceResults, skippedRecords) => {
+    const loaded = await loadSource(source, upload);
+    const retroSkus = await findRetroSkus(feedSkus(loaded));
+
+    // All or nothing: a file that fails halfway leaves no orders behind
+    return db.transaction(() => {
+      const { result, incomingOrderIds } = importSource(loaded, loadExistingOrders(), skippedRecords);
+      sourceResults.push(result);
+
+      if (incomingOrderIds.size > 0) {
+        updateRetroStatus(incomingOrderIds, retroSkus);
+      }
+
+      return { ...result, deleted: 0, sources: sourceResults };
+    });
+  });
+}
+
+/**
+ * Sync each feed source in turn; a failing source doesn't stop the others.
+ * Feeds are fetched and parsed first, then imported in one transaction with a
+ * savepoint per source: a failing source is rolled back on its own, and an
+ * error past the sources (purge, retro check) rolls back the whole sync.
+ */
+async function syncFeedSources(
+  feedSources: FeedSource[],
+  sourceResults: SourceSyncResult[],
+  skippedRecords: SkippedRecord[]
+): Promise<Omit<SyncResult, "runId" | "warnings">> {
+  if (feedSources.length === 0) {
+    throw new Error("No feed sources configured. Add a feed in Settings.");
+  }
+
+  const sourceErrors: { source: string; error: unknown }[] = [];
+  const failSource = (source: FeedSource, error: unknown) => {
+    logError(error, { source: source.id, operation: "sync_source" });
+    sourceErrors.push({ source: source.id, error });
+    sourceResults.push({
+      source: source.id,
+      name: source.name,
+      added: 0,
+      duplicates: 0,
+      updated: 0,
+      changedAfterPrint: [],
+      archived: 0,
+      restored: 0,
+      skipped: skippedRecords.filter((record) => record.source === source.id).length,
+      totalParsed: 0,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  };
+
+  const loadedFeeds: LoadedFeed[] = [];
+  for (const source of feedSources) {
+    try {
+      loadedFeeds.push(await loadSource(source));
+    } catch (error) {
+      failSource(source, error);
+    }
+  }
+  const retroSkus = await findRetroSkus(loadedFeeds.flatMap(feedSkus));
+
+  return db.transaction((tx) => {
+    let existingOrders = loadExistingOrders();
+    const syncedOrderIds = new Set<string>();
+
+    for (const loaded of loadedFeeds) {
+      try {
+        const { result, incomingOrderIds } = tx.transaction(() =>
+          importSource(loaded, existingOrders, skippedRecords)
+        );
+        sourceResults.push(result);
+        incomingOrderIds.forEach((orderId) => syncedOrderIds.add(orderId));
+      } catch (error) {
+        failSource(loaded.source, error);
+        // Orders the source inserted were rolled back with it
+        existingOrders = loadExistingOrders();
+      }
+    }
+
+    // Results in configured order, whichever step a source failed at
+    const sourceOrder = feedSources.map((source) => source.id);
+    sourceResults.sort((a, b) => sourceOrder.indexOf(a.source) - sourceOrder.indexOf(b.source));
+
+    // Nothing was synced: surface the failure instead of reporting an empty success
+    if (sourceErrors.length === feedSources.length) {
+      if (sourceErrors.length === 1) {
+        throw sourceErrors[0].error;
+      }
+      throw new Error(
+        `Sync failed for all feed sources: ${sourceResults
+          .map((result) => `${result.name}: ${result.error}`)
+          .join("; ")}`
+      );
+    }
+
+    // Retention still applies when nothing changed, or a stable feed would keep archived orders forever
+    const deleted = purgeArchivedOrders(config.getArchiveRetentionDays());
+
+    if (sourceResults.every((result) => result.unchanged)) {
+      logger.info({ sources: feedSources.map((source) => source.id), deleted }, "All feeds unchanged, nothing to sync");
+      return {
+        added: 0,
+        duplicates: 0,
+        updated: 0,
+        changedAfterPrint: [],
+        archived: 0,
+        restored: 0,
+        deleted,
+        skipped: 0,
+        totalParsed: 0,
+        sources: sourceResults,
+        unchanged: true
+      };
+    }
+
+    // Update retroStatus for orders based on retro template availability
+    if (syncedOrderIds.size > 0) {
+      updateRetroStatus(syncedOrderIds, retroSkus);
+    }
+
+    const sum = (key: "added" | "duplicates" | "updated" | "archived" | "restored" | "skipped" | "totalParsed") =>
+      sourceResults.reduce((total, result) => total + result[key], 0);
+
+    const syncResult: Omit<SyncResult, "runId" | "warnings"> = {
+      added: sum("added"),
+      duplicates: sum("duplicates"),
+      updated: sum("updated"),
+      changedAfterPrint: sourceResults.flatMap((result) => result.changedAfterPrint),
+      archived: sum("archived"),
+      restored: sum("restored"),
+      deleted,
+      skipped: sum("skipped"),
+      totalParsed: sum("totalParsed"),
+      sources: sourceResults
+    };
+
+    logger.info(
+      { 
+        added: syncResult.added, 
+        duplicates: syncResult.duplicates, 
+        updated: syncResult.updated, 
+        changedAfterPrint: syncResult.changedAfterPrint, 
+        archived: syncResult.archived, 
+        restored: syncResult.restored, 
+        deleted: syncResult.deleted, 
+        skipped: syncResult.skipped, 
+        totalParsed: syncResult.totalParsed,
+        failedSources: sourceErrors.map((failure) => failure.source)
+      },
+      "Order synchronization completed"
+    );
+
+    return syncResult;
+  });
 }
@@ -0,0 +1,287 @@
+import * as cheerio from "cheerio";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { config } from "./config.js";
+import { findFontMetrics } from "./fontMetrics.js";
+import { DESIGN_IMAGE_KEY, ENGRAVING_TEXT_KEY, parsePlaceholder } from "./placeholders.js";
+import { loadTemplateSettings, TemplateSettings } from "./textFit.js";
+
+export type TemplateSide = "front" | "retro" | "generic";
+
+export type TemplateIssue = {
+  // Errors make generation fail; warnings may give a wrong result
+  level: "error" | "warning";
+  message: string;
+};
+
+export type TemplatePlaceholder = {
+  name: string;
+  key: string;
+  optional: boolean;
+  type: "text" | "image";
+  maxWidth?: number;
+  maxHeight?: number;
+  font?: string;
+  height?: number;
+};
+
+export type TemplateImage = {
+  name: string | null;
+  file: string | null;
+  // The image data is saved in the project, so LightBurn doesn't need the file
+  embedded: boolean;
+  found: boolean;
+  // Replaced with the detected design asset at generation
+  placeholder: boolean;
+};
+
+export type TemplateCutSetting = {
+  index: number;
+  name: string | null;
+  // LightBurn's mode: Cut, Scan, Offset Fill, Image, ...
+  type: string | null;
+  speed: number | null;
+  maxPower: number | null;
+  minPower: number | null;
+  passes: number | null;
+  // Shapes on this layer
+  shapes: number;
+};
+
+export type TemplateInspection = {
+  filename: string;
+  side: TemplateSide;
+  placeholders: TemplatePlaceholder[];
+  fonts: { family: string; found: boolean }[];
+  images: TemplateImage[];
+  cutSettings: TemplateCutSetting[];
+  material: {
+    // MaterialHeight of the project (thickness, for focus), in mm
+    thickness: number | null;
+    // Size of the largest rectangle, usually the outline of the piece, in mm
+    width: number | null;
+    height: number | null;
+  };
+  // Placeholder keys the template must have (its settings file's `required`)
+  required: string[];
+  issues: TemplateIssue[];
+  valid: boolean;
+};
+
+/**
+ * Side a template is picked for, from its name (as in the template matching)
+ */
+export function templateSide(filename: string): TemplateSide {
+  const name = filename.toLowerCase();
+  if (name.endsWith("-retro.lbrn2")) {
+    return "retro";
+  }
+  return name.endsWith("-fronte.lbrn2") ? "front" : "generic";
+}
+
+const toNumber = (value: string | undefined) => {
+  if (value === undefined || value.trim() === "") {
+    return null;
+  }
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+const fileExists = (filePath: string) =>
+  fs.access(filePath).then(
+    () => true,
+    () => false
+  );
+
+/**
+ * Whether an image a template links to can be found: at its own path, or by
+ * name in the assets or templates folder (paths saved on another PC)
+ */
+async function imageFileExists(file: string): Promise<boolean> {
+  const name = path.win32.basename(file);
+  return (
+    (await fileExists(file)) ||
+    (await fileExists(path.join(config.paths.assets, name))) ||
+    (await fileExists(path.join(config.paths.templates, name)))
+  );
+}
+
+/**
+ * Parse a template in the templates folder and check that orders can be
+ * generated with it: its placeholders, fonts, images, cut settings (layers),
+ * material size and side, with the problems found.
+ * @param filename - File name in the templates folder
+ * @returns The inspection, or null when the file doesn't exist
+ */
+export async function inspectTemplate(filename: string): Promise<TemplateInspection | null> {
+  const templatePath = path.join(config.paths.templates, filename);
+  let content: string;
+  try {
+    content = await fs.readFile(templatePath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+
+  const $ = cheerio.load(content, { xmlMode: true });
+  const issues: TemplateIssue[] = [];
+
+  if ($("LightBurnProject").length === 0) {
+    issues.push({ level: "error", message: "Not a LightBurn project (no LightBurnProject element)" });
+  }
+  if (!filename.toLowerCase().endsWith(".lbrn2")) {
+    issues.push({ level: "error", message: "Only .lbrn2 files are matched by template rules" });
+  }
+
+  let settings: TemplateSettings = { placeholders: {} };
+  try {
+    settings = await loadTemplateSettings(templatePath);
+  } catch (error) {
+    issues.push({ level: "error", message: error instanceof Error ? error.message : String(error) });
+  }
+
+  // Placeholders
+  const placeholders: TemplatePlaceholder[] = [];
+  $("Shape").each((_, element) => {
+    const shape = $(element);
+    const placeholder = parsePlaceholder(shape.attr("Name"));
+    if (!placeholder) {
+      return;
+    }
+    const isImage = placeholder.key === DESIGN_IMAGE_KEY;
+    placeholders.push({
+      ...placeholder,
+      type: isImage ? "image" : "text",
+      font: isImage ? undefined : shape.attr("Font")?.split(",")[0],
+      height: isImage ? undefined : toNumber(shape.attr("H")) ?? undefined
+    });
+  });
+
+  const textKeys = new Set(placeholders.filter((placeholder) => placeholder.type === "text").map((placeholder) => placeholder.key));
+  const required = settings.required ?? [];
+  if (textKeys.size === 0) {
+    issues.push({ level: "error", message: 'No text placeholder: name the text shapes to fill like "{{CUSTOMER_NAME}}"' });
+  }
+  for (const key of required) {
+    if (!textKeys.has(key)) {
+      issues.push({ level: "error", message: `Missing required placeholder {{${key}}}` });
+    }
+  }
+  // Generation works without it (e.g. a retro with only {{PHONE}}), but nothing gets the engraving text
+  if (textKeys.size > 0 && !textKeys.has(ENGRAVING_TEXT_KEY) && !required.includes(ENGRAVING_TEXT_KEY)) {
+    issues.push({
+      level: "warning",
+      message: `No {{${ENGRAVING_TEXT_KEY}}} placeholder: the engraving text and font asset rules aren't used`
+    });
+  }
+  for (const key of Object.keys(settings.placeholders)) {
+    if (!textKeys.has(key)) {
+      issues.push({ level: "warning", message: `The settings file has a box for {{${key}}}, which the template doesn't have` });
+    }
+  }
+
+  // Fonts of the text shapes
+  const families = new Map<string, string>();
+  $('Shape[Type="Text"]').each((_, element) => {
+    const font = $(element).attr("Font");
+    const family = font?.split(",")[0].trim();
+    if (font && family && !families.has(family)) {
+      families.set(family, font);
+    }
+  });
+  const fonts: TemplateInspection["fonts"] = [];
+  for (const [family, font] of families) {
+    const found = (await findFontMetrics(font)) !== null;
+    fonts.push({ family, found });
+    if (!found) {
+      issues.push({
+        level: "warning",
+        message: `Font "${family}" isn't in the assets folder: text fitting estimates its widths`
+      });
+    }
+  }
+
+  // Images
+  const images: TemplateImage[] = [];
+  for (const element of $('Shape[Type="Bitmap"]').toArray()) {
+    const shape = $(element);
+    const name = shape.attr("Name") ?? null;
+    const file = shape.attr("File") || null;
+    const embedded = Boolean(shape.attr("Data"));
+    const placeholder = parsePlaceholder(name ?? undefined)?.key === DESIGN_IMAGE_KEY;
+    const found = file ? await imageFileExists(file) : false;
+    images.push({ name, file, embedded, found, placeholder });
+
+    // An image saved in the project without a file name needs nothing else
+    if (!placeholder && !found && (file || !embedded)) {
+      const label = file ? `"${path.win32.basename(file)}"` : `"${name ?? "(unnamed)"}"`;
+      issues.push(
+        embedded
+          ? { level: "warning", message: `Image file ${label} not found; the copy saved in the project is used` }
+          : { level: "error", message: `Image file ${label} not found` }
+      );
+    }
+  }
+
+  // Cut settings (layers)
+  const shapesPerLayer = new Map<number, number>();
+  $("Shape").each((_, element) => {
+    const index = toNumber($(element).attr("CutIndex"));
+    if (index !== null) {
+      shapesPerLayer.set(index, (shapesPerLayer.get(index) ?? 0) + 1);
+    }
+  });
+  const cutSettings: TemplateCutSetting[] = $("CutSetting, CutSetting_Img")
+    .toArray()
+    .map((element) => {
+      const setting = $(element);
+      const value = (child: string) => setting.children(child).first().attr("Value");
+      const index = toNumber(value("index")) ?? 0;
+      return {
+        index,
+        name: value("name") ?? null,
+        type: setting.attr("type") ?? null,
+        speed: toNumber(value("speed")),
+        maxPower: toNumber(value("maxPower")),
+        minPower: toNumber(value("minPower")),
+        passes: toNumber(value("numPasses")),
+        shapes: shapesPerLayer.get(index) ?? 0
+      };
+    })
+    .sort((a, b) => a.index - b.index);
+  for (const index of shapesPerLayer.keys()) {
+    if (!cutSettings.some((setting) => setting.index === index)) {
+      issues.push({ level: "warning", message: `Shapes use layer ${index}, which has no cut setting` });
+    }
+  }
+
+  // Material: thickness from the project, size from the largest rectangle
+  const outline = $('Shape[Type="Rect"]')
+    .toArray()
+    .map((element) => ({ width: toNumber($(element).attr("W")) ?? 0, height: toNumber($(element).attr("H")) ?? 0 }))
+    .reduce<{ width: number; height: number } | null>(
+      (largest, rect) =>
+        rect.width * rect.height > (largest ? largest.width * largest.height : 0) ? rect : largest,
+      null
+    );
+  const material = {
+    thickness: toNumber($("LightBurnProject").attr("MaterialHeight")),
+    width: outline?.width ?? null,
+    height: outline?.height ?? null
+  };
+
+  return {
+    filename,
+    side: templateSide(filename),
+    placeholders,
+    fonts,
+    images,
+    cutSettings,
+    material,
+    required,
+    issues,
+    valid: !issues.some((issue) => issue.level === "error")
+  };
+}
@@ -0,0 +1,167 @@
+import fs from "node:fs/promises";
+import { z } from "zod";
+import type { FontMetrics } from "./fontMetrics.js";
+
+// Smallest text height, as a share of the template's, when no minHeight is set
+const DEFAULT_MIN_HEIGHT_RATIO = 0.5;
+// Without the font file: average advance of a character and cap height, in ems
+const FALLBACK_ADVANCE_EM = 0.55;
+const FALLBACK_CAP_HEIGHT_EM = 0.7;
+const FALLBACK_LINE_PITCH = 1.6;
+
+/**
+ * Box a text placeholder is fitted to, in mm. Missing limits aren't enforced.
+ */
+export type FitBox = {
+  maxWidth?: number;
+  maxHeight?: number;
+  // Text is never made smaller than this (default: half the template's height)
+  minHeight?: number;
+  // Letter spacing may be tightened down to this before the text gets smaller (default: not tightened)
+  minLetterSpacing?: number;
+};
+
+/**
+ * A text shape's size settings (H, LS and LnS attributes), in mm
+ */
+export type TextSize = {
+  height: number;
+  letterSpacing: number;
+  lineSpacing: number;
+};
+
+export type TextFit = {
+  height: number;
+  letterSpacing: number;
+  // Estimated width of the widest line
+  width: number;
+};
+
+const fitBoxSchema = z.object({
+  maxWidth: z.number().positive().optional(),
+  maxHeight: z.number().positive().optional(),
+  minHeight: z.number().positive().optional(),
+  minLetterSpacing: z.number().optional()
+});
+
+const templateSettingsSchema = z.object({
+  placeholders: z.record(z.string(), fitBoxSchema).default({}),
+  required: z.array(z.string().min(1)).optional()
+});
+
+export type TemplateSettings = {
+  // Fit boxes by (uppercase) placeholder key
+  placeholders: Record<string, FitBox>;
+  // Placeholder keys the template must have (checked by the template inspection)
+  required?: string[];
+};
+
+/**
+ * Settings file of a template: `<template>.json` next to it (e.g. `bone-fronte.json`
+ * for `bone-fronte.lbrn2`), with a fit box per placeholder key and the
+ * placeholders the template must have:
+ * `{ "placeholders": { "CUSTOMER_NAME": { "maxWidth": 40, "maxHeight": 12 } }, "required": ["PHONE"] }`
+ */
+export const templateSettingsPath = (templatePath: string) => templatePath.replace(/\.lbrn2?$/i, "") + ".json";
+
+/**
+ * Read a template's settings file
+ * @returns The settings; empty when the template has no settings file
+ * @throws TEMPLATE_SETTINGS_INVALID when the file isn't valid
+ */
+export async function loadTemplateSettings(templatePath: string): Promise<TemplateSettings> {
+  const settingsPath = templateSettingsPath(templatePath);
+  let content: string;
+  try {
+    content = await fs.readFile(settingsPath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { placeholders: {} };
+    }
+    throw error;
+  }
+
+  try {
+    const { placeholders, required } = templateSettingsSchema.parse(JSON.parse(content));
+    return {
+      placeholders: Object.fromEntries(Object.entries(placeholders).map(([key, box]) => [key.toUpperCase(), box])),
+      required: required?.map((key) => key.toUpperCase())
+    };
+  } catch (error) {
+    const message = error instanceof z.ZodError
+      ? error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")
+      : error instanceof Error ? error.message : String(error);
+    throw new Error(`TEMPLATE_SETTINGS_INVALID: ${settingsPath}: ${message}`);
+  }
+}
+
+/**
+ * Width of one line per mm of text height, and the number of letter gaps in it
+ */
+function measureLine(line: string, metrics: FontMetrics | null): { widthPerHeight: number; gaps: number } {
+  const chars = [...line];
+  const units = metrics
+    ? chars.reduce((total, char) => total + metrics.advance(char.codePointAt(0)!), 0)
+    : chars.length * FALLBACK_ADVANCE_EM;
+  const capHeight = metrics ? metrics.capHeight : FALLBACK_CAP_HEIGHT_EM;
+  return { widthPerHeight: units / capHeight, gaps: Math.max(0, chars.length - 1) };
+}
+
+const floorTo = (value: number, step: number) => Math.floor(value / step + 1e-9) * step;
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Largest text height (up to the template's) and letter spacing that fit a text
+ * in a box. Widths are estimated from the font's advance widths (kerning is
+ * ignored). Letter spacing is tightened only as far as needed to keep the text
+ * at its minimum height.
+ * @param text - The text, lines separated by "\n"
+ * @param metrics - The font, or null to estimate with average character widths
+ * @param box - The limits
+ * @param size - The template's size settings
+ * @returns The fitted size, or null when the text doesn't fit even at the minimum height
+ */
+export function fitText(text: string, metrics: FontMetrics | null, box: FitBox, size: TextSize): TextFit | null {
+  const lines = text.split("\n").map((line) => measureLine(line, metrics));
+  const extraLines = lines.length - 1;
+  // Distance between baselines per mm of text height
+  const linePitch = metrics
+    ? (metrics.ascender - metrics.descender + metrics.lineGap) / metrics.capHeight
+    : FALLBACK_LINE_PITCH;
+  const minHeight = box.minHeight ?? size.height * DEFAULT_MIN_HEIGHT_RATIO;
+
+  const heightLimit = box.maxHeight === undefined
+    ? Infinity
+    : (box.maxHeight - extraLines * size.lineSpacing) / (1 + extraLines * linePitch);
+  const widthLimit = (letterSpacing: number) =>
+    box.maxWidth === undefined
+      ? Infinity
+      : Math.min(
+          ...lines
+            .filter((line) => line.widthPerHeight > 0)
+            .map((line) => (box.maxWidth! - letterSpacing * line.gaps) / line.widthPerHeight)
+        );
+  const fittedHeight = (letterSpacing: number) => Math.min(size.height, heightLimit, widthLimit(letterSpacing));
+
+  let letterSpacing = size.letterSpacing;
+  let height = fittedHeight(letterSpacing);
+
+  if (height < minHeight && box.minLetterSpacing !== undefined && box.minLetterSpacing < letterSpacing && box.maxWidth !== undefined) {
+    // Spacing that lets the widest line fit at the minimum height
+    const needed = Math.min(
+      ...lines
+        .filter((line) => line.gaps > 0)
+        .map((line) => (box.maxWidth! - minHeight * line.widthPerHeight) / line.gaps)
+    );
+    letterSpacing = Math.max(box.minLetterSpacing, Math.min(letterSpacing, floorTo(needed, 0.01)));
+    height = fittedHeight(letterSpacing);
+  }
+
+  if (height < minHeight - 1e-6) {
+    return null;
+  }
+
+  height = floorTo(height, 0.01);
+  const width = Math.max(0, ...lines.map((line) => line.widthPerHeight * height + letterSpacing * line.gaps));
+  return { height: round2(height), letterSpacing: round2(letterSpacing), width: round2(width) };
+}
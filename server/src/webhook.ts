@@ -0,0 +1,128 @@
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+import { z } from "zod";
+import { and, eq, isNull, or, sql } from "drizzle-orm";
+import { db } from "./db.js";
+import { webhookDeliveries } from "./schema.js";
+import { logger } from "./logger.js";
+
+// Header carrying the HMAC-SHA256 of the raw body, as "sha256=<hex>" (or just the hex digest)
+export const WEBHOOK_SIGNATURE_HEADER = "x-webhook-signature";
+// Header the sender sets to the same value on every retry of a delivery
+export const IDEMPOTENCY_KEY_HEADER = "idempotency-key";
+// Deliveries are remembered this long; a retry after that is imported again (and found unchanged)
+const DELIVERY_RETENTION_DAYS = 7;
+// A claim still without a response after this long was left by an import that never
+// finished (crash, restart): it is dropped so the sender's retry is imported
+const CLAIM_TIMEOUT_MINUTES = 5;
+const MAX_ORDERS_PER_DELIVERY = 500;
+
+const webhookOrderSchema = z.record(z.string(), z.unknown());
+
+/**
+ * A delivery is a single order, an array of orders, or { orders: [...] }
+ */
+export const webhookPayloadSchema = z
+  .union([
+    z.object({ orders: z.array(webhookOrderSchema).min(1).max(MAX_ORDERS_PER_DELIVERY) }),
+    z.array(webhookOrderSchema).min(1).max(MAX_ORDERS_PER_DELIVERY),
+    webhookOrderSchema
+  ])
+  .transform((payload) =>
+    Array.isArray(payload)
+      ? payload
+      : Array.isArray(payload.orders)
+      ? (payload.orders as Record<string, unknown>[])
+      : [payload]
+  );
+
+/**
+ * Check the delivery's signature against the shared secret (constant-time)
+ * @param rawBody - The request body exactly as received
+ * @param signature - Value of the signature header
+ * @param secret - The configured webhook secret
+ */
+export function verifyWebhookSignature(rawBody: Buffer, signature: string | undefined, secret: string): boolean {
+  if (!signature) {
+    return false;
+  }
+
+  const received = Buffer.from(signature.trim().replace(/^sha256=/i, ""), "hex");
+  const expected = createHmac("sha256", secret).update(rawBody).digest();
+
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+/**
+ * The delivery's idempotency key: the sender's header, else a hash of the body
+ * so an identical retry is recognised anyway.
+ */
+export function getIdempotencyKey(header: string | string[] | undefined, rawBody: Buffer): string {
+  const key = Array.isArray(header) ? header[0] : header;
+  return key?.trim() || `body:${createHash("sha256").update(rawBody).digest("hex")}`;
+}
+
+export type DeliveryClaim =
+  | { status: "new" }
+  | { status: "replay"; response: unknown }
+  | { status: "in_progress" };
+
+/**
+ * Reserve an idempotency key before importing a delivery
+ * @returns "new" if the delivery should be imported, "replay" with the stored
+ *   response if it already was, "in_progress" if another request is importing it
+ *   (claims older than CLAIM_TIMEOUT_MINUTES without a response are taken over)
+ */
+export function claimDelivery(idempotencyKey: string): DeliveryClaim {
+  db.delete(webhookDeliveries)
+    .where(
+      or(
+        sql`${webhookDeliveries.createdAt} < datetime('now', ${`-${DELIVERY_RETENTION_DAYS} days`})`,
+        and(
+          isNull(webhookDeliveries.response),
+          sql`${webhookDeliveries.createdAt} < datetime('now', ${`-${CLAIM_TIMEOUT_MINUTES} minutes`})`
+        )
+      )
+    )
+    .run();
+
+  const claimed = db
+    .insert(webhookDeliveries)
+    .values({ idempotencyKey })
+    .onConflictDoNothing()
+    .run();
+
+  if (claimed.changes > 0) {
+    return { status: "new" };
+  }
+
+  const existing = db
+    .select()
+    .from(webhookDeliveries)
+    .where(eq(webhookDeliveries.idempotencyKey, idempotencyKey))
+    .get();
+
+  logger.info({ idempotencyKey }, "Webhook delivery already received");
+
+  return existing?.response != null
+    ? { status: "replay", response: existing.response }
+    : { status: "in_progress" };
+}
+
+/**
+ * Store the response of an imported delivery, returned again on retries
+ */
+export function completeDelivery(idempotencyKey: string, response: unknown): void {
+  db.update(webhookDeliveries)
+    .set({ response })
+    .where(eq(webhookDeliveries.idempotencyKey, idempotencyKey))
+    .run();
+}
+
+/**
+ * Forget a delivery whose import failed, so the sender's retry is imported
+ */
+export function releaseDelivery(idempotencyKey: string): void {
+  db.delete(webhookDeliveries)
+    .where(eq(webhookDeliveries.idempotencyKey, idempotencyKey))
+    .run();
+}
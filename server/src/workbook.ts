@@ -0,0 +1,361 @@
+import path from "node:path";
+import { inflateRawSync } from "node:zlib";
+import { XMLParser } from "fast-xml-parser";
+
+// Local file header signature, the first bytes of every .xlsx (a zip archive)
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+// Compound file signature: legacy .xls workbooks, and .xlsx files saved with a password
+const COMPOUND_FILE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0];
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+// End of central directory record, without its trailing comment
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+
+// Largest workbook part inflated; a sheet past this is not an order export
+const MAX_PART_BYTES = 256 * 1024 * 1024;
+
+// Built-in number formats Excel shows as dates or times (the locale-dependent ones included)
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+// Days between 1899-12-30 (day 0 of Excel's 1900 date system) and the Unix epoch
+const EXCEL_EPOCH_OFFSET_DAYS = 25569;
+// Day 0 of the 1904 date system (old Mac workbooks) is this many days later
+const DATE_1904_OFFSET_DAYS = 1462;
+const MS_PER_DAY = 86_400_000;
+
+// Elements that may repeat; always parsed as arrays so a single one reads the same way
+const REPEATED_ELEMENTS = new Set(["sheet", "Relationship", "si", "r", "row", "c", "xf", "numFmt"]);
+
+/**
+ * Which worksheet to read, and where its column headers are
+ * - `sheet`: the sheet name, or its 1-based position; the first sheet when missing.
+ * - `headerRow`: 1-based row with the column headers; 1 when missing.
+ */
+export type WorkbookOptions = {
+  sheet?: string | number;
+  headerRow?: number;
+};
+
+type XmlNode = Record<string, unknown>;
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "",
+  removeNSPrefix: true,
+  // Cell values stay text: order IDs and SKUs must not lose leading zeros
+  parseTagValue: false,
+  parseAttributeValue: false,
+  trimValues: false,
+  isArray: (name, _jPath, _isLeaf, isAttribute) => !isAttribute && REPEATED_ELEMENTS.has(name)
+});
+
+/**
+ * Parse a workbook part; its root element is read by name (e.g. `.workbook`)
+ */
+const parseXml = (xml: Buffer): XmlNode => xmlParser.parse(xml);
+
+const isNode = (value: unknown): value is XmlNode =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * A child element, or an empty one when it is missing or only text
+ */
+const nodeOf = (value: unknown): XmlNode => (isNode(value) ? value : {});
+
+/**
+ * The elements of a repeated child (see REPEATED_ELEMENTS)
+ */
+const nodesOf = (value: unknown): XmlNode[] => (Array.isArray(value) ? value.filter(isNode) : []);
+
+const startsWith = (bytes: Uint8Array, signature: number[]) =>
+  signature.every((byte, index) => bytes[index] === byte);
+
+/**
+ * Whether the bytes are a zip archive, as every .xlsx workbook is
+ */
+export const isZipArchive = (bytes: Uint8Array) => startsWith(bytes, ZIP_SIGNATURE);
+
+/**
+ * Read the entries of a zip archive, keyed by path; each is inflated when first read
+ */
+function readZipEntries(bytes: Buffer): Map<string, () => Buffer> {
+  const searchStart = Math.max(0, bytes.length - END_OF_CENTRAL_DIRECTORY_SIZE - 0xffff);
+  let end = -1;
+  for (let offset = bytes.length - END_OF_CENTRAL_DIRECTORY_SIZE; offset >= searchStart; offset -= 1) {
+    if (bytes.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error("The workbook is not a valid .xlsx file (damaged or incomplete)");
+  }
+
+  const entryCount = bytes.readUInt16LE(end + 10);
+  const directoryOffset = bytes.readUInt32LE(end + 16);
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new Error("Workbooks larger than 4 GB are not supported");
+  }
+
+  const entries = new Map<string, () => Buffer>();
+  let offset = directoryOffset;
+  for (let index = 0; index < entryCount; index += 1) {
+    if (bytes.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error("The workbook is not a valid .xlsx file (damaged zip directory)");
+    }
+
+    const method = bytes.readUInt16LE(offset + 10);
+    const compressedSize = bytes.readUInt32LE(offset + 20);
+    const nameLength = bytes.readUInt16LE(offset + 28);
+    const extraLength = bytes.readUInt16LE(offset + 30);
+    const commentLength = bytes.readUInt16LE(offset + 32);
+    const localOffset = bytes.readUInt32LE(offset + 42);
+    const name = bytes.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    entries.set(name, () => {
+      if (bytes.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+        throw new Error(`The workbook is not a valid .xlsx file (damaged entry ${name})`);
+      }
+      const dataStart = localOffset + 30 + bytes.readUInt16LE(localOffset + 26) + bytes.readUInt16LE(localOffset + 28);
+      const data = bytes.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) {
+        return data;
+      }
+      if (method === 8) {
+        return inflateRawSync(data, { maxOutputLength: MAX_PART_BYTES });
+      }
+      throw new Error(`Unsupported compression (method ${method}) in workbook entry ${name}`);
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Text of an element parsed with its attributes (e.g. `<t xml:space="preserve">`) or without
+ */
+function textOf(node: unknown): string {
+  if (node === undefined || node === null) {
+    return "";
+  }
+  if (isNode(node)) {
+    const text = node["#text"];
+    return text === undefined ? "" : String(text);
+  }
+  return String(node);
+}
+
+/**
+ * Text of a shared or inline string: plain (`<t>`) or rich text runs (`<r><t>`),
+ * without phonetic hints. Excel writes control characters as `_xHHHH_`.
+ */
+function richText(node: XmlNode): string {
+  const text = node.t !== undefined ? textOf(node.t) : nodesOf(node.r).map((run) => textOf(run.t)).join("");
+  return text.replace(/_x([0-9a-fA-F]{4})_/g, (_match: string, code: string) => String.fromCharCode(parseInt(code, 16)));
+}
+
+/**
+ * Relationships of a workbook part, by id, with their targets resolved to archive paths
+ */
+function readRelationships(entries: Map<string, () => Buffer>, partPath: string) {
+  const relsPath = path.posix.join(path.posix.dirname(partPath), "_rels", `${path.posix.basename(partPath)}.rels`);
+  const relsXml = entries.get(relsPath);
+  const relationships = relsXml ? nodesOf(nodeOf(parseXml(relsXml()).Relationships).Relationship) : [];
+
+  return relationships.map((relationship) => ({
+    id: String(relationship.Id),
+    type: String(relationship.Type ?? ""),
+    target: String(relationship.Target).startsWith("/")
+      ? String(relationship.Target).slice(1)
+      : path.posix.normalize(path.posix.join(path.posix.dirname(partPath), String(relationship.Target)))
+  }));
+}
+
+/**
+ * Whether a custom number format shows a date or time: it uses day, month,
+ * year, hour or second codes outside quoted text and [colour/locale] sections
+ */
+function isDateFormatCode(formatCode: string): boolean {
+  const codes = formatCode.replace(/"[^"]*"|\[[^\]]*\]|\\./g, "");
+  return /[dmyhs]/i.test(codes);
+}
+
+/**
+ * Indexes of the cell styles (`s` attribute) that format their number as a date
+ */
+function readDateStyles(stylesXml: Buffer | undefined): Set<number> {
+  const dateStyles = new Set<number>();
+  if (!stylesXml) {
+    return dateStyles;
+  }
+
+  const styleSheet = nodeOf(parseXml(stylesXml).styleSheet);
+  const customDateFormats = new Set(
+    nodesOf(nodeOf(styleSheet.numFmts).numFmt)
+      .filter((format) => isDateFormatCode(String(format.formatCode ?? "")))
+      .map((format) => Number(format.numFmtId))
+  );
+
+  nodesOf(nodeOf(styleSheet.cellXfs).xf).forEach((xf, index) => {
+    const formatId = Number(xf.numFmtId ?? 0);
+    if (BUILTIN_DATE_FORMATS.has(formatId) || customDateFormats.has(formatId)) {
+      dateStyles.add(index);
+    }
+  });
+
+  return dateStyles;
+}
+
+/**
+ * ISO date (or date and time, without a zone: Excel stores wall-clock time) of a date serial
+ */
+function serialToIsoDate(serial: number, date1904: boolean): string {
+  const days = serial - EXCEL_EPOCH_OFFSET_DAYS + (date1904 ? DATE_1904_OFFSET_DAYS : 0);
+  const iso = new Date(Math.round(days * MS_PER_DAY)).toISOString();
+  return Number.isInteger(serial) ? iso.slice(0, 10) : iso.slice(0, 19);
+}
+
+/**
+ * Number as Excel shows it in General format: 15 significant digits, so
+ * binary rounding artefacts (0.30000000000000004) don't reach the orders
+ */
+function formatNumber(value: string): string {
+  const number = Number(value);
+  return Number.isFinite(number) && value.trim() !== "" ? String(Number(number.toPrecision(15))) : value;
+}
+
+/**
+ * 0-based column index of a cell reference ("C12" → 2)
+ */
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? "";
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * Read the rows of one worksheet of an .xlsx workbook as records keyed by its
+ * header row, like a CSV parsed with `columns: true`: values are trimmed text,
+ * date cells become ISO dates, columns without a header and empty rows are dropped.
+ * @param bytes - The .xlsx file
+ * @param options - Sheet and header row to read
+ */
+export function readWorkbookRecords(bytes: Buffer, options: WorkbookOptions = {}): Record<string, string>[] {
+  if (startsWith(bytes, COMPOUND_FILE_SIGNATURE)) {
+    throw new Error("The workbook is password-protected or in the old .xls format: save it as .xlsx without a password");
+  }
+  if (!isZipArchive(bytes)) {
+    throw new Error("The feed is not an .xlsx workbook");
+  }
+
+  const entries = readZipEntries(bytes);
+  const workbookPath =
+    readRelationships(entries, "").find((relationship) => relationship.type.endsWith("/officeDocument"))?.target ??
+    "xl/workbook.xml";
+  const workbookXml = entries.get(workbookPath);
+  if (!workbookXml) {
+    throw new Error("The workbook is not a valid .xlsx file (no workbook part)");
+  }
+
+  const workbook = nodeOf(parseXml(workbookXml()).workbook);
+  const date1904 = ["1", "true"].includes(String(nodeOf(workbook.workbookPr).date1904 ?? "").toLowerCase());
+  const relationships = readRelationships(entries, workbookPath);
+  const partOfType = (type: string) =>
+    entries.get(relationships.find((relationship) => relationship.type.endsWith(type))?.target ?? "")?.();
+
+  // Sheets in workbook (tab) order
+  const sheets = nodesOf(nodeOf(workbook.sheets).sheet).map((sheet) => ({
+    name: String(sheet.name),
+    target: relationships.find((relationship) => relationship.id === String(sheet.id))?.target
+  }));
+  const sheetNames = sheets.map((sheet) => `"${sheet.name}"`).join(", ");
+  const { sheet: wanted, headerRow = 1 } = options;
+  const sheet =
+    typeof wanted === "number"
+      ? sheets[wanted - 1]
+      : wanted
+      ? sheets.find((candidate) => candidate.name.trim().toLowerCase() === wanted.trim().toLowerCase())
+      : sheets[0];
+  if (!sheet) {
+    throw new Error(
+      wanted === undefined
+        ? "The workbook has no worksheets"
+        : `Sheet ${typeof wanted === "number" ? `#${wanted}` : `"${wanted}"`} not found in the workbook (sheets: ${sheetNames})`
+    );
+  }
+  const sheetXml = sheet.target ? entries.get(sheet.target) : undefined;
+  if (!sheetXml) {
+    throw new Error(`Sheet "${sheet.name}" is not a worksheet (e.g. a chart sheet)`);
+  }
+
+  const sharedStringsXml = partOfType("/sharedStrings");
+  const sharedStrings = sharedStringsXml ? nodesOf(nodeOf(parseXml(sharedStringsXml).sst).si).map(richText) : [];
+  const dateStyles = readDateStyles(partOfType("/styles"));
+
+  const cellValue = (cell: XmlNode): string => {
+    const value = textOf(cell.v);
+    switch (cell.t) {
+      case "s":
+        return sharedStrings[Number(value)] ?? "";
+      case "inlineStr":
+        return richText(nodeOf(cell.is));
+      case "b":
+        return value === "1" ? "TRUE" : "FALSE";
+      // Formula errors (#N/A, #REF!) are no data
+      case "e":
+        return "";
+      case "str":
+      case "d":
+        return value;
+      default:
+        if (value !== "" && dateStyles.has(Number(cell.s ?? 0)) && Number.isFinite(Number(value))) {
+          return serialToIsoDate(Number(value), date1904);
+        }
+        return formatNumber(value);
+    }
+  };
+
+  // Cell values by row number (1-based), each row by column index
+  const rows = new Map<number, string[]>();
+  const sheetData = nodeOf(nodeOf(parseXml(sheetXml()).worksheet).sheetData);
+  let previousRow = 0;
+  for (const row of nodesOf(sheetData.row)) {
+    const rowNumber = row.r ? Number(row.r) : previousRow + 1;
+    const values: string[] = [];
+    let previousColumn = -1;
+    for (const cell of nodesOf(row.c)) {
+      const column = cell.r ? columnIndex(String(cell.r)) : previousColumn + 1;
+      values[column] = cellValue(cell).trim();
+      previousColumn = column;
+    }
+    rows.set(rowNumber, values);
+    previousRow = rowNumber;
+  }
+
+  const headers = rows.get(headerRow) ?? [];
+  const columns = headers.flatMap((header, column) => (header ? [{ header, column }] : []));
+  if (columns.length === 0) {
+    throw new Error(`Row ${headerRow} of sheet "${sheet.name}" has no column headers: set the header row in the feed's settings`);
+  }
+
+  const records: Record<string, string>[] = [];
+  for (const [rowNumber, values] of [...rows].sort(([a], [b]) => a - b)) {
+    if (rowNumber <= headerRow || !columns.some(({ column }) => values[column])) {
+      continue;
+    }
+    const record: Record<string, string> = {};
+    for (const { header, column } of columns) {
+      record[header] = values[column] ?? "";
+    }
+    records.push(record);
+  }
+
+  return records;
+}
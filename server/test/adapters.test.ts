@@ -0,0 +1,138 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { detectFeedAdapter, normalizeWithAdapter } from "../src/adapters.js";
+import { normalizeRecord, readRecordValue } from "../src/parser.js";
+
+const AMAZON_ROW = {
+  "order-id": "402-1234567-1234567",
+  "order-item-id": "12345678901234",
+  "purchase-date": "2026-03-05T10:00:00+00:00",
+  "sku": "TAG-BONE",
+  "quantity-purchased": "2",
+  "buyer-name": "",
+  "recipient-name": "Anna Rossi",
+  "customized-url": "https://example.com/custom.zip"
+};
+
+const ETSY_ROW = {
+  "Sale Date": "03/05/26",
+  "Order ID": "3001",
+  "Transaction ID": "4001",
+  "SKU": "TAG-HEART",
+  "Quantity": "1",
+  "Ship Name": "Marco Bianchi",
+  "Personalization": "Fido 333 1234567",
+  "Variations": "Color:Silver"
+};
+
+const SHOPIFY_ROW = {
+  "Name": "#1001",
+  "Created at": "2026-03-05 10:00:00 +0100",
+  "Financial Status": "paid",
+  "Lineitem name": "Medaglietta osso",
+  "Lineitem quantity": "1",
+  "Lineitem sku": "TAG-BONE",
+  "Lineitem id": "7001",
+  "Lineitem properties": "Name: Fido\n_app_id: 42\nTelefono: 333 1234567",
+  "Billing Name": "Luca Verdi"
+};
+
+describe("detectFeedAdapter", () => {
+  test("recognises each marketplace export by its headers", () => {
+    assert.equal(detectFeedAdapter([AMAZON_ROW], "csv")?.id, "amazon");
+    assert.equal(detectFeedAdapter([ETSY_ROW], "csv")?.id, "etsy");
+    assert.equal(detectFeedAdapter([SHOPIFY_ROW], "csv")?.id, "shopify");
+  });
+
+  test("recognises the Etsy order-level export", () => {
+    const row = { "Sale Date": "03/05/26", "Order ID": "3001", "Buyer User ID": "99", "Number of Items": "2" };
+
+    assert.equal(detectFeedAdapter([row], "csv")?.id, "etsy");
+  });
+
+  test("always uses the Amazon columns for Amazon order reports", () => {
+    assert.equal(detectFeedAdapter([{ foo: "1" }], "amazon")?.id, "amazon");
+  });
+
+  test("leaves other feeds to their mapping profile", () => {
+    assert.equal(detectFeedAdapter([{ "order-id": "A1", "sku": "TAG" }], "csv"), undefined);
+    assert.equal(detectFeedAdapter([ETSY_ROW], "json"), undefined);
+    assert.equal(detectFeedAdapter([], "csv"), undefined);
+  });
+});
+
+describe("normalizeWithAdapter", () => {
+  const normalize = (row: Record<string, unknown>) => {
+    const { raw: _raw, ...fields } = normalizeWithAdapter(row, detectFeedAdapter([row], "csv")!);
+    return fields;
+  };
+
+  test("maps an Amazon order report row", () => {
+    assert.deepEqual(normalize(AMAZON_ROW), {
+      orderId: "402-1234567-1234567",
+      orderItemId: "12345678901234",
+      purchaseDate: "2026-03-05T10:00:00+00:00",
+      status: undefined,
+      sku: "TAG-BONE",
+      quantity: "2",
+      buyerName: "Anna Rossi",
+      customField: "https://example.com/custom.zip",
+      customization: undefined
+    });
+  });
+
+  test("keeps both the Etsy personalization and the buyer's choices", () => {
+    const record = normalize(ETSY_ROW);
+
+    assert.equal(record.orderItemId, "4001");
+    assert.equal(record.buyerName, "Marco Bianchi");
+    assert.equal(record.customField, "Fido 333 1234567, Color:Silver");
+  });
+
+  test("joins the Shopify line item properties without the hidden ones", () => {
+    const record = normalize(SHOPIFY_ROW);
+
+    assert.equal(record.orderId, "#1001");
+    assert.equal(record.orderItemId, "7001");
+    assert.equal(record.status, "paid");
+    assert.equal(record.customField, "Name: Fido, Telefono: 333 1234567");
+  });
+
+  test("leaves the custom field empty without personalization", () => {
+    assert.equal(normalize({ ...SHOPIFY_ROW, "Lineitem properties": "_app_id: 42" }).customField, undefined);
+    assert.equal(normalize({ ...ETSY_ROW, Personalization: "", Variations: "" }).customField, undefined);
+  });
+});
+
+describe("normalizeRecord", () => {
+  test("reads the default columns by normalized header", () => {
+    const record = normalizeRecord({ "Order ID": " A1 ", "SKU": "TAG", "Qty": 3, "Custom": "Nome: Fido" });
+
+    assert.equal(record.orderId, "A1");
+    assert.equal(record.quantity, "3");
+    assert.equal(record.raw, JSON.stringify({ "Order ID": " A1 ", "SKU": "TAG", "Qty": 3, "Custom": "Nome: Fido" }));
+  });
+
+  test("tries each path in turn, then the constant, then transforms", () => {
+    const record = normalizeRecord(
+      { order: { id: "a1", lines: [{ sku: "tag" }] }, "meta.date": "2026-03-05T10:00:00Z" },
+      {
+        orderId: { paths: ["missing", "order.id"], transform: "uppercase" },
+        sku: { paths: ["order.lines.0.sku"] },
+        status: { paths: ["order.status"], constant: "paid" },
+        purchaseDate: { paths: ["meta.date"], transform: "iso_date" }
+      }
+    );
+
+    assert.equal(record.orderId, "A1");
+    assert.equal(record.sku, "tag");
+    assert.equal(record.status, "paid");
+    assert.equal(record.purchaseDate, "2026-03-05T10:00:00.000Z");
+  });
+
+  test("reads a single value the same way", () => {
+    assert.equal(readRecordValue({ "Lineitem properties": "Name: Fido" }, "lineitem_properties"), "Name: Fido");
+    assert.equal(readRecordValue({ order: { id: 7 } }, "order.id"), "7");
+    assert.equal(readRecordValue({ order: { id: 7 } }, "order"), "");
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { createFeedDecoder, detectEncoding, hasReplacementChar, isDecodeError, resolveDelimiter } from "../src/feedEncoding.js";
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+// "Città" as Excel writes it on Italian Windows
+const WINDOWS_1252 = new Uint8Array([0x43, 0x69, 0x74, 0x74, 0xe0]);
+
+describe("detectEncoding", () => {
+  test("uses the configured charset", () => {
+    assert.deepEqual(detectEncoding(utf8("Città"), true, "windows-1252"), { encoding: "windows-1252", guessed: false });
+  });
+
+  test("reads the byte order mark", () => {
+    const detect = (...bytes: number[]) => detectEncoding(new Uint8Array([...bytes, 0x41]), true, "auto").encoding;
+
+    assert.equal(detect(0xef, 0xbb, 0xbf), "utf-8");
+    assert.equal(detect(0xff, 0xfe), "utf-16le");
+    assert.equal(detect(0xfe, 0xff), "utf-16be");
+  });
+
+  test("takes the HTTP charset before guessing", () => {
+    assert.deepEqual(detectEncoding(utf8("Città"), true, undefined, "text/csv; charset=ISO-8859-1"), {
+      encoding: "windows-1252",
+      guessed: false
+    });
+    assert.equal(detectEncoding(WINDOWS_1252, true, "auto", 'text/csv; charset="utf-8"').encoding, "utf-8");
+  });
+
+  test("guesses UTF-8 for valid bytes and Windows-1252 otherwise", () => {
+    assert.deepEqual(detectEncoding(utf8("Città"), true, "auto", "text/csv"), { encoding: "utf-8", guessed: true });
+    assert.deepEqual(detectEncoding(WINDOWS_1252, true, undefined), { encoding: "windows-1252", guessed: true });
+  });
+
+  test("allows a character cut off at the end of a sample", () => {
+    const cutOff = utf8("Città").slice(0, -1);
+
+    assert.equal(detectEncoding(cutOff, false, "auto").encoding, "utf-8");
+    assert.equal(detectEncoding(cutOff, true, "auto").encoding, "windows-1252");
+  });
+});
+
+describe("createFeedDecoder", () => {
+  test("strips the byte order mark", () => {
+    assert.equal(createFeedDecoder("utf-8").decode(new Uint8Array([0xef, 0xbb, 0xbf, ...utf8("id")])), "id");
+  });
+
+  test("marks invalid bytes, or throws when fatal", () => {
+    assert.ok(hasReplacementChar(createFeedDecoder("utf-8").decode(WINDOWS_1252)));
+    assert.equal(createFeedDecoder("windows-1252").decode(WINDOWS_1252), "Città");
+
+    assert.throws(() => createFeedDecoder("utf-8", true).decode(WINDOWS_1252), (error) => isDecodeError(error));
+  });
+});
+
+describe("resolveDelimiter", () => {
+  test("uses the configured delimiter", () => {
+    assert.equal(resolveDelimiter("a,b,c\n1,2,3\n", ";"), ";");
+  });
+
+  test("finds the separator of each common export", () => {
+    assert.equal(resolveDelimiter("order-id,sku\nA1,TAG\nB1,TAG\n", "auto"), ",");
+    assert.equal(resolveDelimiter("order-id;sku;prezzo\nA1;TAG;1,50\nB1;TAG;2,00\n", "auto"), ";");
+    assert.equal(resolveDelimiter("order-id\tsku\nA1\tTAG\n", undefined), "\t");
+    assert.equal(resolveDelimiter("order-id|sku\nA1|TAG\n", "auto"), "|");
+  });
+
+  test("ignores separators inside quotes", () => {
+    const sample = 'order-id;custom\nA1;"Nome: Fido, Telefono: 333, Colore: Oro"\nB1;"Nome: Rex, Colore: Argento"\n';
+
+    assert.equal(resolveDelimiter(sample, "auto"), ";");
+  });
+
+  test("prefers consistent columns, then the most columns", () => {
+    assert.equal(resolveDelimiter("id;name, surname\n1;Rossi, Anna\n2;Bianchi\n3;Verdi, Lu, Ma\n", "auto"), ";");
+    assert.equal(resolveDelimiter("id;sku,qty,note\n1;TAG,1,x\n2;TAG,2,y\n", "auto"), ",");
+  });
+
+  test("leaves out a line the sample cut off and defaults to a comma", () => {
+    assert.equal(resolveDelimiter("id;name\n1;Fido\n2;Rex,Lu,Ma,Pi", "auto"), ";");
+    assert.equal(resolveDelimiter("order-id\n", "auto"), ",");
+  });
+});
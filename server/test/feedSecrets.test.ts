@@ -0,0 +1,75 @@
+import { beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import type { FeedAuth } from "../src/config.js";
+import { useTempAppData } from "./helpers.js";
+
+useTempAppData();
+
+const config = await import("../src/config.js");
+
+const SAVED = {
+  id: "shop",
+  name: "Shop",
+  url: "https://shop.example.com/orders.csv",
+  format: "csv" as const,
+  mappingProfileId: null,
+  enabled: true,
+  auth: { mode: "bearer" as const, secret: "s3cret" }
+};
+
+// The UI sends a saved feed back without its secret
+const MASKED_AUTH: FeedAuth = { mode: "bearer" };
+
+beforeEach(() => config.setFeedSources([SAVED]));
+
+describe("feed secrets", () => {
+  test("are stored encrypted and read back", () => {
+    assert.doesNotMatch(fs.readFileSync(path.join(config.paths.userData, "config.json"), "utf-8"), /s3cret/);
+    assert.equal(config.getFeedSources()[0].auth?.secret, "s3cret");
+    assert.deepEqual(config.maskFeedSource(config.getFeedSources()[0]).auth, { mode: "bearer", secretSet: true });
+  });
+
+  test("are kept when the feed is saved again without its secret", () => {
+    config.setFeedSources([{ ...SAVED, url: "https://shop.example.com/v2/orders.csv", auth: MASKED_AUTH }]);
+
+    assert.equal(config.getFeedSources()[0].auth?.secret, "s3cret");
+  });
+
+  test("must be entered again when the feed moves to another server", () => {
+    assert.throws(
+      () => config.setFeedSources([{ ...SAVED, url: "https://other.example.com/orders.csv", auth: MASKED_AUTH }]),
+      /token is required/
+    );
+    assert.equal(config.getFeedSources()[0].url, SAVED.url);
+  });
+
+  test("are filled in for a saved feed's own server only", () => {
+    const preview = (url: string) => config.withStoredSecret({ id: "shop", url, auth: MASKED_AUTH }).auth?.secret;
+
+    assert.equal(preview("https://shop.example.com/orders.json"), "s3cret");
+    assert.equal(preview("https://shop.example.com:8443/orders.csv"), undefined);
+    assert.equal(preview("http://shop.example.com/orders.csv"), undefined);
+    assert.equal(preview("https://attacker.example/collect"), undefined);
+    assert.equal(config.withStoredSecret({ id: "other", url: SAVED.url, auth: MASKED_AUTH }).auth?.secret, undefined);
+  });
+
+  test("sent with the request are used as they are", () => {
+    const source = { id: "shop", url: "https://other.example.com/", auth: { mode: "bearer" as const, secret: "new" } };
+
+    assert.equal(config.withStoredSecret(source), source);
+  });
+});
+
+describe("sameFeedOrigin", () => {
+  test("compares scheme, host and port", () => {
+    assert.equal(config.sameFeedOrigin(" https://Shop.example.com/a ", "https://shop.example.com:443/b"), true);
+    assert.equal(config.sameFeedOrigin("https://shop.example.com/a", "https://shop.example.com.evil/a"), false);
+  });
+
+  test("never matches a path that isn't a URL", () => {
+    assert.equal(config.sameFeedOrigin("C:\\feeds\\orders.csv", "C:\\feeds\\orders.csv"), false);
+    assert.equal(config.sameFeedOrigin("file:///C:/feeds/orders.csv", "file:///C:/feeds/orders.csv"), false);
+  });
+});
@@ -0,0 +1,162 @@
+import { before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { useTempAppData } from "./helpers.js";
+
+useTempAppData();
+
+const { config } = await import("../src/config.js");
+const { findFontMetrics, parseFontMetrics } = await import("../src/fontMetrics.js");
+
+type FontSpec = {
+  family: string;
+  subfamily: string;
+  // Leave out the OS/2 table's cap height (a version 1 table)
+  noCapHeight?: boolean;
+};
+
+// Glyphs: 0 is the missing glyph, 1-3 are "A" to "C"
+const ADVANCES = [500, 600, 700, 800];
+
+const table = (size: number, write: (view: DataView) => void) => {
+  const bytes = new Uint8Array(size);
+  write(new DataView(bytes.buffer));
+  return bytes;
+};
+
+function nameTable(family: string, subfamily: string) {
+  const strings = [family, subfamily];
+  const storage = 6 + strings.length * 12;
+  const size = storage + strings.reduce((total, text) => total + text.length * 2, 0);
+  return table(size, (view) => {
+    view.setUint16(2, strings.length);
+    view.setUint16(4, storage);
+    let offset = 0;
+    strings.forEach((text, index) => {
+      const record = 6 + index * 12;
+      view.setUint16(record, 3);
+      view.setUint16(record + 2, 1);
+      view.setUint16(record + 4, 0x409);
+      view.setUint16(record + 6, index + 1);
+      view.setUint16(record + 8, text.length * 2);
+      view.setUint16(record + 10, offset);
+      for (let char = 0; char < text.length; char++) {
+        view.setUint16(storage + offset + char * 2, text.charCodeAt(char));
+      }
+      offset += text.length * 2;
+    });
+  });
+}
+
+// Format 4 map of "A"-"C" to glyphs 1-3, plus the closing 0xFFFF segment
+const cmapTable = () =>
+  table(12 + 32, (view) => {
+    view.setUint16(2, 1);
+    view.setUint16(4, 3);
+    view.setUint16(6, 1);
+    view.setUint32(8, 12);
+    const subtable = 12;
+    const segments = [
+      { start: 0x41, end: 0x43, delta: 1 - 0x41 },
+      { start: 0xffff, end: 0xffff, delta: 1 }
+    ];
+    view.setUint16(subtable, 4);
+    view.setUint16(subtable + 2, 32);
+    view.setUint16(subtable + 6, segments.length * 2);
+    segments.forEach(({ start, end, delta }, index) => {
+      view.setUint16(subtable + 14 + index * 2, end);
+      view.setUint16(subtable + 20 + index * 2, start);
+      view.setInt16(subtable + 24 + index * 2, delta);
+    });
+  });
+
+/** A minimal TrueType file with the tables the metrics are read from */
+function buildFont({ family, subfamily, noCapHeight }: FontSpec): Uint8Array {
+  const tables: [string, Uint8Array][] = [
+    ["OS/2", table(96, (view) => {
+      view.setUint16(0, noCapHeight ? 1 : 2);
+      view.setInt16(88, 650);
+    })],
+    ["cmap", cmapTable()],
+    ["head", table(54, (view) => view.setUint16(18, 1000))],
+    ["hhea", table(36, (view) => {
+      view.setInt16(4, 900);
+      view.setInt16(6, -250);
+      view.setInt16(8, 50);
+      view.setUint16(34, ADVANCES.length);
+    })],
+    ["hmtx", table(ADVANCES.length * 4, (view) => ADVANCES.forEach((advance, glyph) => view.setUint16(glyph * 4, advance)))],
+    ["name", nameTable(family, subfamily)]
+  ];
+
+  let offset = 12 + tables.length * 16;
+  const size = tables.reduce((total, [, bytes]) => total + bytes.length, offset);
+  const font = new Uint8Array(size);
+  const view = new DataView(font.buffer);
+  view.setUint32(0, 0x00010000);
+  view.setUint16(4, tables.length);
+  tables.forEach(([tag, bytes], index) => {
+    const record = 12 + index * 16;
+    [...tag].forEach((char, position) => view.setUint8(record + position, char.charCodeAt(0)));
+    view.setUint32(record + 8, offset);
+    view.setUint32(record + 12, bytes.length);
+    font.set(bytes, offset);
+    offset += bytes.length;
+  });
+  return font;
+}
+
+describe("parseFontMetrics", () => {
+  test("reads the names and vertical metrics", () => {
+    const metrics = parseFontMetrics(buildFont({ family: "Test Sans", subfamily: "Bold" }))!;
+
+    assert.equal(metrics.family, "Test Sans");
+    assert.equal(metrics.subfamily, "Bold");
+    assert.equal(metrics.unitsPerEm, 1000);
+    assert.equal(metrics.capHeight, 650);
+    assert.deepEqual([metrics.ascender, metrics.descender, metrics.lineGap], [900, -250, 50]);
+  });
+
+  test("gives each character its glyph's advance and others the missing glyph's", () => {
+    const metrics = parseFontMetrics(buildFont({ family: "Test Sans", subfamily: "Regular" }))!;
+
+    assert.deepEqual(["A", "B", "C", "Z", "é"].map((char) => metrics.advance(char.codePointAt(0)!)), [600, 700, 800, 500, 500]);
+  });
+
+  test("estimates the cap height of older fonts", () => {
+    assert.equal(parseFontMetrics(buildFont({ family: "Old", subfamily: "Regular", noCapHeight: true }))?.capHeight, 700);
+  });
+
+  test("returns null for files that aren't fonts", () => {
+    assert.equal(parseFontMetrics(new TextEncoder().encode("not a font at all")), null);
+    assert.equal(parseFontMetrics(new Uint8Array(4)), null);
+  });
+});
+
+describe("findFontMetrics", () => {
+  before(() => {
+    const fonts = path.join(config.paths.assets, "fonts");
+    fs.mkdirSync(fonts, { recursive: true });
+    fs.writeFileSync(path.join(fonts, "TestSans-Regular.ttf"), buildFont({ family: "Test Sans", subfamily: "Regular" }));
+    fs.writeFileSync(path.join(fonts, "TestSans-BoldItalic.ttf"), buildFont({ family: "Test Sans", subfamily: "Bold Italic" }));
+    fs.writeFileSync(path.join(config.paths.assets, "Script.ttf"), buildFont({ family: "Other Family", subfamily: "Regular" }));
+  });
+
+  test("picks the face by family and the bold and italic flags", async () => {
+    const regular = await findFontMetrics("Test Sans,-1,100,5,50,0,0,0,0,0");
+    const boldItalic = await findFontMetrics("test-sans,-1,100,5,75,1,0,0,0,0");
+
+    assert.equal(regular?.subfamily, "Regular");
+    assert.equal(boldItalic?.subfamily, "Bold Italic");
+  });
+
+  test("matches a font by its file name", async () => {
+    assert.equal((await findFontMetrics("Script,-1,100,5,50,0"))?.family, "Other Family");
+  });
+
+  test("returns null when no font file matches", async () => {
+    assert.equal(await findFontMetrics("Missing Font,-1,100,5,50,0"), null);
+    assert.equal(await findFontMetrics(""), null);
+  });
+});
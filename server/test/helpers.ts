@@ -0,0 +1,32 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+/**
+ * Give one test file a fresh app data folder (database, config.json, temp files)
+ * and home (templates, assets), removed when the test process exits. Must run before
+ * anything imports ./config.js, which resolves these paths once: import the
+ * app's modules dynamically after it.
+ * @returns The temporary home
+ */
+export function useTempAppData(): string {
+  const home = fs.mkdtempSync(path.join(os.tmpdir(), "victoria-laser-test-"));
+  // The Electron variables win over the WSL mapping to the real Windows profile
+  process.env.IS_ELECTRON = "true";
+  process.env.ELECTRON_USER_DATA_PATH = path.join(home, "AppData");
+  process.env.ELECTRON_TEMP_PATH = path.join(home, "Temp");
+  process.env.HOME = home;
+  process.env.USERPROFILE = home;
+  // Set LOG_LEVEL=info to see the app's logs while debugging a test
+  process.env.LOG_LEVEL ??= "silent";
+
+  // On exit rather than after the tests: the logger's worker may still be creating its file
+  process.once("exit", () => {
+    try {
+      fs.rmSync(home, { recursive: true, force: true });
+    } catch {
+      // The database is still open on Windows; the folder is left in the temp directory
+    }
+  });
+  return home;
+}
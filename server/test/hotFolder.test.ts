@@ -0,0 +1,87 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { useTempAppData } from "./helpers.js";
+
+const home = useTempAppData();
+const folder = path.join(home, "hot");
+const feedPath = path.join(home, "feed.csv");
+
+const { runMigrations } = await import("../src/migrate.js");
+const config = await import("../src/config.js");
+const { syncOrders } = await import("../src/sync.js");
+const { startHotFolder, stopHotFolder } = await import("../src/hotFolder.js");
+const { db } = await import("../src/db.js");
+const { orders, syncRuns } = await import("../src/schema.js");
+const { getOrderItems } = await import("../src/orderItems.js");
+const { desc, eq } = await import("drizzle-orm");
+
+const HEADER = "order-id,order-item-id,sku,buyer-name,custom";
+
+/** Save a file in the hot folder as if it had been copied a while ago */
+function drop(filename: string, content: string) {
+  const filePath = path.join(folder, filename);
+  fs.writeFileSync(filePath, content);
+  const settled = new Date(Date.now() - 60_000);
+  fs.utimesSync(filePath, settled, settled);
+}
+
+async function waitFor(check: () => boolean, timeoutMs = 10_000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for the hot folder");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
+
+const getOrder = (orderId: string) => db.select().from(orders).where(eq(orders.orderId, orderId)).get();
+
+before(async () => {
+  runMigrations();
+  fs.mkdirSync(folder);
+  // A feed that already has order A1
+  fs.writeFileSync(feedPath, `${HEADER}\nA1,i1,TAG-1,Anna Rossi,Name: Fido\n`);
+  config.setFeedSources([
+    { id: "shop", name: "Shop", url: feedPath, format: "csv", mappingProfileId: null, enabled: true }
+  ]);
+  await syncOrders();
+
+  drop("ordini.csv", `${HEADER}\nA1,i1,TAG-1,Anna Rossi,Name: Rex\nB1,i2,TAG-1,Luca Verdi,Name: Max\n`);
+  drop("vuoto.csv", "foo,bar\n1,2\n");
+  drop("note.pdf", "not an order file");
+  config.setWatchFolder(folder);
+  startHotFolder();
+
+  await waitFor(() => !fs.existsSync(path.join(folder, "ordini.csv")) && !fs.existsSync(path.join(folder, "vuoto.csv")));
+});
+
+after(() => stopHotFolder());
+
+describe("hot folder", () => {
+  test("imports order files and moves them to processed/", () => {
+    assert.ok(fs.existsSync(path.join(folder, "processed", "ordini.csv")));
+    assert.equal(getOrder("B1")?.source, "hotfolder");
+
+    const runs = db.select().from(syncRuns).where(eq(syncRuns.trigger, "hotfolder")).orderBy(desc(syncRuns.id)).all();
+    assert.ok(runs.some((entry) => entry.status === "success" && entry.added === 1 && entry.updated === 1));
+  });
+
+  test("updates a feed's orders without taking them over", () => {
+    assert.equal(getOrder("A1")?.source, "shop");
+    assert.equal(getOrderItems("A1")[0].customField, "Name: Rex");
+  });
+
+  test("moves files that fail to failed/ with the error next to them", () => {
+    const sidecar = path.join(folder, "failed", "vuoto.csv.error.txt");
+
+    assert.ok(fs.existsSync(path.join(folder, "failed", "vuoto.csv")));
+    assert.match(fs.readFileSync(sidecar, "utf-8"), /vuoto\.csv\n\n.*none had an order ID/);
+  });
+
+  test("leaves other files alone", () => {
+    assert.ok(fs.existsSync(path.join(folder, "note.pdf")));
+  });
+});
@@ -0,0 +1,101 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { useTempAppData } from "./helpers.js";
+
+const home = useTempAppData();
+const feedPath = path.join(home, "feed.csv");
+
+const { runMigrations } = await import("../src/migrate.js");
+const config = await import("../src/config.js");
+const { createManualOrder, syncOrders } = await import("../src/sync.js");
+const { db } = await import("../src/db.js");
+const { orderItems, orders } = await import("../src/schema.js");
+const { getOrderItems } = await import("../src/orderItems.js");
+const { app } = await import("../src/index.js");
+const { eq } = await import("drizzle-orm");
+
+const ORDER = {
+  orderId: "MAN-1",
+  buyerName: "Anna Rossi",
+  purchaseDate: "2026-03-05T10:00:00.000Z",
+  items: [
+    { sku: "TAG-1", quantity: 2, customField: "Name: Fido" },
+    { sku: "TAG-1", quantity: 1, customField: "Name: Rex" }
+  ]
+};
+
+const getOrder = (orderId: string) => db.select().from(orders).where(eq(orders.orderId, orderId)).get()!;
+
+const patch = (orderId: string, payload: object) => app.inject({ method: "PATCH", url: `/orders/${orderId}`, payload });
+
+before(async () => {
+  runMigrations();
+  fs.writeFileSync(feedPath, "order-id,order-item-id,sku,buyer-name,custom\nA1,i1,TAG-1,Luca Verdi,Name: Max\n");
+  config.setFeedSources([
+    { id: "shop", name: "Shop", url: feedPath, format: "csv", mappingProfileId: null, enabled: true }
+  ]);
+  await createManualOrder(ORDER);
+});
+
+after(() => app.close());
+
+describe("createManualOrder", () => {
+  test("creates an order with one item per line under the manual source", () => {
+    const items = getOrderItems("MAN-1");
+
+    assert.equal(getOrder("MAN-1").source, "manual");
+    assert.equal(getOrder("MAN-1").buyerName, "Anna Rossi");
+    assert.deepEqual(
+      items.map((item) => [item.quantity, item.customField]),
+      [
+        [2, "Name: Fido"],
+        [1, "Name: Rex"]
+      ]
+    );
+    assert.equal(items[0].personalization?.fields.name, "Fido");
+  });
+
+  test("rejects an order ID that already exists", async () => {
+    await assert.rejects(createManualOrder(ORDER), /^Error: ORDER_EXISTS/);
+  });
+
+  test("keeps the order when a feed sync doesn't list it", async () => {
+    const result = await syncOrders();
+
+    assert.equal(result.sources[0].archived, 0);
+    assert.equal(getOrder("MAN-1").archivedAt, null);
+    assert.equal(getOrder("A1").source, "shop");
+  });
+});
+
+describe("PATCH /orders/:orderId", () => {
+  test("corrects an item's personalization before it is engraved", async () => {
+    const [, item] = getOrderItems("MAN-1");
+
+    const response = await patch("MAN-1", { itemId: item.id, customField: "Name: Max" });
+
+    assert.equal(response.statusCode, 200);
+    assert.equal(getOrderItems("MAN-1")[1].customField, "Name: Max");
+    assert.equal(getOrderItems("MAN-1")[1].personalization?.fields.name, "Max");
+    assert.ok(getOrder("MAN-1").editedAt);
+  });
+
+  test("needs the item of an order with several", async () => {
+    const response = await patch("MAN-1", { sku: "TAG-2" });
+
+    assert.equal(response.statusCode, 400);
+    assert.match(response.json().error, /Order has 2 items/);
+  });
+
+  test("refuses to edit an engraved item", async () => {
+    const [item] = getOrderItems("MAN-1");
+    db.update(orderItems).set({ fronteStatus: "printed" }).where(eq(orderItems.id, item.id)).run();
+
+    const response = await patch("MAN-1", { itemId: item.id, customField: "Name: Rex" });
+
+    assert.equal(response.statusCode, 409);
+    assert.equal(getOrderItems("MAN-1")[0].customField, "Name: Fido");
+  });
+});
@@ -0,0 +1,244 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { PersonalizationKeys } from "../src/config.js";
+import type { ExtractionRule } from "../src/schema.js";
+import {
+  assetRuleTarget,
+  compileExtractionPattern,
+  extractEngravingText,
+  getSurfaceForSide,
+  parseAmazonCustomization,
+  parsePersonalization,
+  parsePersonalizationText,
+  personalizationField,
+  reparsePersonalization,
+  summarizePersonalization
+} from "../src/personalization.js";
+
+const KEYS: PersonalizationKeys = {
+  name: ["Name", "Nome"],
+  color: ["Color", "Colore"],
+  image: ["Image", "Immagine"],
+  font: ["Font"],
+  phone: ["Phone", "Telefono"]
+};
+
+const amazonPayload = (surfaces: unknown[]) =>
+  JSON.stringify({ "version3.0": { customizationInfo: { surfaces } } });
+
+const FRONT_AND_BACK = amazonPayload([
+  {
+    name: "Front",
+    areas: [
+      { customizationType: "TextPrinting", label: "Name", text: "Fido", fontFamily: "Arial", colorName: "Silver" },
+      { customizationType: "ImagePrinting", label: "Design", imageName: "Heart" }
+    ]
+  },
+  {
+    name: "Back",
+    areas: [
+      { customizationType: "TextPrinting", label: "Phone", text: "333 1234567" },
+      { customizationType: "Options", label: "Size", optionValue: "Large" }
+    ]
+  }
+]);
+
+describe("parseAmazonCustomization", () => {
+  test("reads each surface's texts, font, color, image and options", () => {
+    const personalization = parseAmazonCustomization(FRONT_AND_BACK, KEYS)!;
+
+    const [front, back] = personalization.surfaces;
+    assert.equal(front.side, "front");
+    assert.deepEqual(front.texts, [{ label: "Name", text: "Fido" }]);
+    assert.equal(front.font, "Arial");
+    assert.equal(front.color, "Silver");
+    assert.equal(front.image, "Heart");
+    assert.equal(back.side, "retro");
+    assert.deepEqual(back.options, [{ label: "Size", text: "Large" }]);
+  });
+
+  test("builds fields from the labels, front surface first", () => {
+    const { fields } = parseAmazonCustomization(FRONT_AND_BACK, KEYS)!;
+
+    assert.deepEqual(fields, {
+      name: "Fido",
+      font: "Arial",
+      color: "Silver",
+      image: "Heart",
+      phone: "333 1234567",
+      size: "Large"
+    });
+  });
+
+  test("takes unnamed surfaces in order and the first text as the name", () => {
+    const personalization = parseAmazonCustomization(
+      JSON.stringify({
+        customizationInfo: {
+          surfaces: [
+            { areas: [{ customizationType: "TextPrinting", text: "Luna" }] },
+            { areas: [{ customizationType: "TextPrinting", text: "Via Roma 1" }] }
+          ]
+        }
+      }),
+      KEYS
+    )!;
+
+    assert.deepEqual(personalization.surfaces.map((surface) => surface.side), ["front", "retro"]);
+    assert.equal(personalization.fields.name, "Luna");
+    assert.equal(getSurfaceForSide(personalization, "retro")?.texts[0].text, "Via Roma 1");
+  });
+
+  test("returns null for text that isn't a payload", () => {
+    assert.equal(parseAmazonCustomization("Name: Fido", KEYS), null);
+    assert.equal(parseAmazonCustomization("{ not json", KEYS), null);
+    assert.equal(parseAmazonCustomization(JSON.stringify({ foo: 1 }), KEYS), null);
+  });
+
+  test("is preferred over free text and summarized on one line", () => {
+    const personalization = parsePersonalization("ignored", KEYS, FRONT_AND_BACK)!;
+
+    assert.equal(
+      summarizePersonalization(personalization),
+      "Name: Fido, Font: Arial, Color: Silver, Image: Heart, Phone: 333 1234567, Size: Large"
+    );
+  });
+});
+
+describe("assetRuleTarget", () => {
+  const personalization = parseAmazonCustomization(FRONT_AND_BACK, KEYS)!;
+
+  test("matches a rule against the value of its type's key", () => {
+    assert.equal(assetRuleTarget(personalization, "image"), "heart");
+    assert.equal(assetRuleTarget(personalization, "color"), "silver");
+  });
+
+  test("prefers the choice on the surface being engraved", () => {
+    const front = getSurfaceForSide(personalization, "front")!;
+
+    assert.equal(assetRuleTarget(personalization, "image", { ...front, image: "Star" }), "star");
+    assert.equal(assetRuleTarget(personalization, "font", { ...front, font: null }), "arial");
+  });
+
+  test("falls back to every value without the type's key", () => {
+    const target = assetRuleTarget({ fields: { name: "Fido", note: "Cuore rosso" }, surfaces: [] }, "image");
+
+    assert.equal(target, "fido cuore rosso");
+  });
+
+  test("is empty without personalization", () => {
+    assert.equal(assetRuleTarget(null, "image"), "");
+  });
+});
+
+describe("parsePersonalizationText", () => {
+  test("splits labelled values by their configured key", () => {
+    const personalization = parsePersonalizationText("Nome: Marco, Colore: Argento; Immagine: Cuore | Telefono: 333 1234567", KEYS);
+
+    assert.deepEqual(personalization, {
+      fields: { name: "Marco", color: "Argento", image: "Cuore", phone: "333 1234567" },
+      surfaces: []
+    });
+  });
+
+  test("keeps unknown labels under their own name and unlabelled text as a note", () => {
+    const { fields } = parsePersonalizationText("Per la nonna\nNome animale: Fido\nGift Wrap: yes", KEYS)!;
+
+    assert.deepEqual(fields, { note: "Per la nonna", nome_animale: "Fido", gift_wrap: "yes" });
+  });
+
+  test("keeps further colons in a value and the first of repeated labels", () => {
+    const { fields } = parsePersonalizationText("Name: Fido, Name: Rex", KEYS)!;
+    assert.equal(fields.name, "Fido");
+
+    const { fields: timed } = parsePersonalizationText("Nome: Ore 10:30", KEYS)!;
+    assert.equal(timed.name, "Ore 10:30");
+  });
+
+  test("returns null for empty text", () => {
+    assert.equal(parsePersonalizationText("  ", KEYS), null);
+    assert.equal(parsePersonalizationText(null, KEYS), null);
+  });
+
+  test("is parsed again with changed labels", () => {
+    const stored = parsePersonalizationText("Pet: Fido", KEYS);
+
+    const reparsed = reparsePersonalization(stored, "Pet: Fido", { ...KEYS, name: [...KEYS.name, "Pet"] });
+
+    assert.equal(reparsed?.fields.name, "Fido");
+  });
+});
+
+describe("personalizationField", () => {
+  const personalization = parsePersonalizationText("Telefono: 333 1234567, Nome animale: Fido", KEYS);
+
+  test("looks a value up by key, label or unknown label", () => {
+    assert.equal(personalizationField(personalization, "phone", KEYS), "333 1234567");
+    assert.equal(personalizationField(personalization, "TELEFONO", KEYS), "333 1234567");
+    assert.equal(personalizationField(personalization, "Nome animale", KEYS), "Fido");
+    assert.equal(personalizationField(personalization, "color", KEYS), undefined);
+  });
+});
+
+describe("extractEngravingText", () => {
+  let nextId = 1;
+  const rule = (kind: "regex" | "key", pattern: string, skuPattern = "", priority = 0): ExtractionRule => ({
+    id: nextId++,
+    kind,
+    pattern,
+    skuPattern,
+    priority
+  });
+
+  const extract = (rules: ExtractionRule[], sku: string, customField: string) =>
+    extractEngravingText(rules, sku, customField, parsePersonalizationText(customField, KEYS), KEYS);
+
+  test("falls back to the name field without a matching rule", () => {
+    const result = extract([rule("key", "phone", "OTHER")], "TAG-1", "Nome: Fido, Telefono: 333");
+
+    assert.deepEqual(result, { text: "Fido", rule: null });
+  });
+
+  test("takes a personalization key or label", () => {
+    const byLabel = rule("key", "Telefono");
+
+    assert.equal(extract([byLabel], "TAG-1", "Nome: Fido, Telefono: 333").text, "333");
+  });
+
+  test("joins the groups of every regex match, one per line", () => {
+    const lines = rule("regex", "^Riga \\d: (.+)$");
+
+    const result = extract([lines], "TAG-1", "Riga 1: Fido\nRiga 2: 333 1234567");
+
+    assert.deepEqual(result, { text: "Fido\n333 1234567", rule: lines });
+  });
+
+  test("uses the whole match when the regex has no groups", () => {
+    assert.equal(extract([rule("regex", "\\d{3} \\d+")], "TAG-1", "Chiamami al 333 1234567").text, "333 1234567");
+  });
+
+  test("tries rules by priority, then by the longest SKU pattern", () => {
+    const generic = rule("key", "name", "TAG");
+    const specific = rule("key", "phone", "TAG-1");
+    const preferred = rule("key", "color", "", 5);
+    const customField = "Nome: Fido, Telefono: 333, Colore: Oro";
+
+    assert.equal(extract([generic, specific], "tag-1-gold", customField).rule, specific);
+    assert.equal(extract([generic, specific, preferred], "TAG-1", customField).rule, preferred);
+  });
+
+  test("skips rules that find nothing", () => {
+    const missing = rule("key", "phone", "", 9);
+    const name = rule("key", "name");
+
+    assert.equal(extract([missing, name], "TAG-1", "Nome: Fido").rule, name);
+  });
+
+  test("is empty when nothing is found", () => {
+    assert.deepEqual(extract([], "TAG-1", "Colore: Oro"), { text: "", rule: null });
+  });
+
+  test("compiles patterns case-insensitively with per-line anchors", () => {
+    assert.equal(compileExtractionPattern("^nome$").test("Riga\nNOME"), true);
+    assert.throws(() => compileExtractionPattern("(unclosed"), SyntaxError);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { PersonalizationKeys } from "../src/config.js";
+import { parsePersonalizationText } from "../src/personalization.js";
+import { parsePlaceholder, placeholderValue, PlaceholderContext } from "../src/placeholders.js";
+
+const KEYS: PersonalizationKeys = {
+  name: ["Name", "Nome"],
+  phone: ["Phone", "Telefono"]
+};
+
+describe("parsePlaceholder", () => {
+  test("reads the key and whether it is optional", () => {
+    assert.deepEqual(parsePlaceholder("{{CUSTOMER_NAME}}"), {
+      name: "{{CUSTOMER_NAME}}",
+      key: "CUSTOMER_NAME",
+      optional: false,
+      maxWidth: undefined,
+      maxHeight: undefined
+    });
+    assert.equal(parsePlaceholder("{{ phone? }}")?.key, "PHONE");
+    assert.equal(parsePlaceholder("{{ phone? }}")?.optional, true);
+  });
+
+  test("turns spaces in the key into underscores", () => {
+    assert.equal(parsePlaceholder("{{Nome animale}}")?.key, "NOME_ANIMALE");
+  });
+
+  test("reads the fit box after a pipe", () => {
+    const boxed = parsePlaceholder("{{CUSTOMER_NAME?|40x12}}");
+    assert.equal(boxed?.optional, true);
+    assert.equal(boxed?.maxWidth, 40);
+    assert.equal(boxed?.maxHeight, 12);
+
+    const widthOnly = parsePlaceholder("{{PHONE | 35,5}}");
+    assert.equal(widthOnly?.maxWidth, 35.5);
+    assert.equal(widthOnly?.maxHeight, undefined);
+
+    assert.equal(parsePlaceholder("{{PHONE|30×8}}")?.maxHeight, 8);
+  });
+
+  test("ignores ordinary shape names", () => {
+    assert.equal(parsePlaceholder("Outline"), null);
+    assert.equal(parsePlaceholder("{{}}"), null);
+    assert.equal(parsePlaceholder("{{PHONE|wide}}"), null);
+    assert.equal(parsePlaceholder(undefined), null);
+  });
+});
+
+describe("placeholderValue", () => {
+  const context = (overrides: Partial<PlaceholderContext> = {}): PlaceholderContext => ({
+    order: { orderId: "A1", buyerName: "Anna Rossi", sku: "TAG-1", purchaseDate: "2026-03-05T10:00:00" },
+    item: { sku: "TAG-2", quantity: 3 },
+    personalization: parsePersonalizationText("Nome: Fido, Telefono: 333 1234567, Nome animale: Bau", KEYS),
+    keys: KEYS,
+    engravingText: () => "Fido Bau",
+    now: new Date(2026, 0, 2),
+    ...overrides
+  });
+
+  test("gives the engraving text for CUSTOMER_NAME", () => {
+    assert.equal(placeholderValue("CUSTOMER_NAME", context()), "Fido Bau");
+  });
+
+  test("looks other keys up in the personalization by key or label", () => {
+    assert.equal(placeholderValue("PHONE", context()), "333 1234567");
+    assert.equal(placeholderValue("TELEFONO", context()), "333 1234567");
+    assert.equal(placeholderValue("NOME_ANIMALE", context()), "Bau");
+  });
+
+  test("falls back to the built-in order values", () => {
+    const values = ["ORDER_ID", "BUYER_NAME", "SKU", "QUANTITY", "PURCHASE_DATE", "TODAY", "INITIALS"].map((key) =>
+      placeholderValue(key, context())
+    );
+
+    assert.deepEqual(values, ["A1", "Anna Rossi", "TAG-2", "3", "05/03/2026", "02/01/2026", "FB"]);
+  });
+
+  test("uses the order's SKU and one copy without an item", () => {
+    assert.equal(placeholderValue("SKU", context({ item: undefined })), "TAG-1");
+    assert.equal(placeholderValue("QUANTITY", context({ item: undefined })), "1");
+  });
+
+  test("is empty for unknown keys and missing values", () => {
+    assert.equal(placeholderValue("GIFT_NOTE", context()), "");
+    assert.equal(placeholderValue("PURCHASE_DATE", context({ order: { orderId: "A1", buyerName: null, sku: null } })), "");
+  });
+
+  test("only computes the engraving text when a placeholder needs it", () => {
+    const failing = context({
+      engravingText: () => {
+        throw new Error("EMPTY_ENGRAVING_TEXT: none");
+      }
+    });
+
+    assert.equal(placeholderValue("PHONE", failing), "333 1234567");
+    assert.throws(() => placeholderValue("INITIALS", failing), /EMPTY_ENGRAVING_TEXT/);
+  });
+});
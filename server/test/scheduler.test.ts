@@ -0,0 +1,59 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { useTempAppData } from "./helpers.js";
+
+useTempAppData();
+
+const { isInQuietHours, skipQuietHours } = await import("../src/scheduler.js");
+
+const NIGHT = { start: "22:00", end: "06:00" };
+const LUNCH = { start: "12:30", end: "14:00" };
+
+// Local wall-clock time, as the quiet hours are set
+const at = (day: number, hours: number, minutes = 0) => new Date(2026, 2, day, hours, minutes);
+
+describe("isInQuietHours", () => {
+  test("checks a window within the day", () => {
+    assert.equal(isInQuietHours(at(5, 12, 29), LUNCH), false);
+    assert.equal(isInQuietHours(at(5, 12, 30), LUNCH), true);
+    assert.equal(isInQuietHours(at(5, 13, 59), LUNCH), true);
+    assert.equal(isInQuietHours(at(5, 14, 0), LUNCH), false);
+  });
+
+  test("wraps a window that starts later than it ends around midnight", () => {
+    assert.equal(isInQuietHours(at(5, 21, 59), NIGHT), false);
+    assert.equal(isInQuietHours(at(5, 23, 30), NIGHT), true);
+    assert.equal(isInQuietHours(at(5, 0, 0), NIGHT), true);
+    assert.equal(isInQuietHours(at(5, 5, 59), NIGHT), true);
+    assert.equal(isInQuietHours(at(5, 6, 0), NIGHT), false);
+  });
+
+  test("is never quiet when the window starts when it ends, or without one", () => {
+    assert.equal(isInQuietHours(at(5, 22, 0), { start: "22:00", end: "22:00" }), false);
+    assert.equal(isInQuietHours(at(5, 3, 0), { start: "22:00", end: "22:00" }), false);
+    assert.equal(isInQuietHours(at(5, 3, 0), null), false);
+  });
+});
+
+describe("skipQuietHours", () => {
+  test("keeps a moment outside quiet hours", () => {
+    const date = at(5, 21, 59);
+
+    assert.equal(skipQuietHours(date, NIGHT), date);
+    assert.equal(skipQuietHours(date, null), date);
+    assert.equal(skipQuietHours(date, { start: "06:00", end: "06:00" }), date);
+  });
+
+  test("resumes at the end of the window the next day", () => {
+    assert.deepEqual(skipQuietHours(at(5, 23, 30), NIGHT), at(6, 6, 0));
+  });
+
+  test("resumes at the end of the window the same day", () => {
+    assert.deepEqual(skipQuietHours(at(6, 2, 15), NIGHT), at(6, 6, 0));
+    assert.deepEqual(skipQuietHours(at(5, 13, 0), LUNCH), at(5, 14, 0));
+  });
+
+  test("resumes on the next month's first day", () => {
+    assert.deepEqual(skipQuietHours(at(31, 22, 0), NIGHT), new Date(2026, 3, 1, 6, 0));
+  });
+});
@@ -0,0 +1,227 @@
+import { before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { useTempAppData } from "./helpers.js";
+
+const home = useTempAppData();
+const feedPath = path.join(home, "feed.csv");
+
+const { runMigrations } = await import("../src/migrate.js");
+const config = await import("../src/config.js");
+const { importUploadedFeed, syncOrders } = await import("../src/sync.js");
+const { db } = await import("../src/db.js");
+const { feedStates, orderItems, orders } = await import("../src/schema.js");
+const { getOrderItems, resolveChangedSide, rollupOrderStatus } = await import("../src/orderItems.js");
+const { eq } = await import("drizzle-orm");
+
+const HEADER = "order-id,order-item-id,sku,buyer-name,custom";
+
+/** Feed file content, one "orderId,itemId,customField" line per row */
+function feedCsv(...rows: string[]) {
+  const lines = rows.map((row) => {
+    const [orderId, itemId, custom] = row.split(",");
+    return `${orderId},${itemId},TAG-1,Anna Rossi,${custom}`;
+  });
+  return [HEADER, ...lines].join("\n") + "\n";
+}
+
+const writeFeed = (...rows: string[]) => fs.writeFileSync(feedPath, feedCsv(...rows));
+
+/** Import a file dropped without choosing a feed */
+async function upload(...rows: string[]) {
+  const source = {
+    id: config.UPLOAD_SOURCE_ID,
+    name: "Upload",
+    url: "report.csv",
+    format: "auto" as const,
+    mappingProfileId: null,
+    enabled: true
+  };
+  const result = await importUploadedFeed({ filename: "report.csv", content: Buffer.from(feedCsv(...rows)) }, source);
+  return result.sources[0];
+}
+
+async function sync() {
+  const result = await syncOrders();
+  return result.sources[0];
+}
+
+const getOrder = (orderId: string) => db.select().from(orders).where(eq(orders.orderId, orderId)).get()!;
+
+function markFrontPrinted(orderId: string, itemKey: string) {
+  db.update(orderItems)
+    .set({ fronteStatus: "printed", fronteProcessedAt: "2026-01-01 10:00:00" })
+    .where(eq(orderItems.itemKey, itemKey))
+    .run();
+  rollupOrderStatus(orderId);
+}
+
+before(() => {
+  runMigrations();
+  config.setFeedSources([
+    { id: "shop", name: "Shop", url: feedPath, format: "csv", mappingProfileId: null, enabled: true }
+  ]);
+});
+
+beforeEach(() => {
+  db.delete(orders).run();
+  db.delete(feedStates).run();
+});
+
+describe("syncOrders", () => {
+  test("adds new orders with one item per line", async () => {
+    writeFeed("A1,i1,Name: Fido", "A1,i2,Name: Rex", "B1,i3,Name: Max");
+
+    const result = await sync();
+
+    assert.equal(result.added, 2);
+    assert.deepEqual(getOrderItems("A1").map((item) => item.customField), ["Name: Fido", "Name: Rex"]);
+    assert.equal(getOrderItems("A1")[0].personalization?.fields.name, "Fido");
+    assert.equal(getOrder("A1").source, "shop");
+  });
+
+  test("skips a feed whose content hasn't changed", async () => {
+    writeFeed("A1,i1,Name: Fido");
+    await sync();
+    writeFeed("A1,i1,Name: Fido");
+
+    const result = await sync();
+
+    assert.equal(result.unchanged, true);
+  });
+
+  test("updates a changed pending order without flagging it", async () => {
+    writeFeed("A1,i1,Name: Fido");
+    await sync();
+    writeFeed("A1,i1,Name: Rex");
+
+    const result = await sync();
+
+    assert.equal(result.updated, 1);
+    assert.deepEqual(result.changedAfterPrint, []);
+    assert.equal(getOrderItems("A1")[0].customField, "Name: Rex");
+    assert.equal(getOrder("A1").changedAfterPrint, false);
+  });
+
+  test("flags an order changed after it was printed", async () => {
+    writeFeed("A1,i1,Name: Fido");
+    await sync();
+    markFrontPrinted("A1", "i1");
+    writeFeed("A1,i1,Name: Rex");
+
+    const result = await sync();
+
+    assert.deepEqual(result.changedAfterPrint, ["A1"]);
+    assert.equal(getOrder("A1").changedAfterPrint, true);
+    assert.equal(getOrderItems("A1")[0].fronteStatus, "printed");
+  });
+
+  test("keeps an order flagged until every changed item is engraved again", async () => {
+    writeFeed("A1,i1,Name: Fido", "A1,i2,Name: Rex", "A1,i3,Name: Max");
+    await sync();
+    markFrontPrinted("A1", "i1");
+    markFrontPrinted("A1", "i2");
+    markFrontPrinted("A1", "i3");
+    writeFeed("A1,i1,Name: Fido Bau", "A1,i2,Name: Rex Bau", "A1,i3,Name: Max");
+    await sync();
+
+    const changed = () => getOrderItems("A1").filter((item) => item.fronteChangedAfterPrint).map((item) => item.itemKey);
+    const [first, second] = getOrderItems("A1");
+    assert.deepEqual(changed(), ["i1", "i2"]);
+    assert.equal(getOrderItems("A1")[0].retroChangedAfterPrint, false);
+
+    resolveChangedSide("A1", first.id, "front");
+    assert.deepEqual(changed(), ["i2"]);
+    assert.equal(getOrder("A1").changedAfterPrint, true);
+
+    resolveChangedSide("A1", second.id, "front");
+    assert.deepEqual(changed(), []);
+    assert.equal(getOrder("A1").changedAfterPrint, false);
+  });
+
+  test("archives orders missing from the feed and restores them when they return", async () => {
+    writeFeed("A1,i1,Name: Fido", "B1,i2,Name: Max");
+    await sync();
+    writeFeed("A1,i1,Name: Fido");
+
+    const archived = await sync();
+    assert.equal(archived.archived, 1);
+    assert.ok(getOrder("B1").archivedAt);
+
+    writeFeed("A1,i1,Name: Fido", "B1,i2,Name: Max");
+    const restored = await sync();
+    assert.equal(restored.restored, 1);
+    assert.equal(getOrder("B1").archivedAt, null);
+  });
+
+  test("removes pending items dropped from the feed but keeps printed ones", async () => {
+    writeFeed("A1,i1,Name: Fido", "A1,i2,Name: Rex", "A1,i3,Name: Max");
+    await sync();
+    markFrontPrinted("A1", "i1");
+    writeFeed("A1,i3,Name: Max");
+
+    await sync();
+
+    assert.deepEqual(getOrderItems("A1").map((item) => item.itemKey), ["i1", "i3"]);
+    assert.equal(getOrder("A1").changedAfterPrint, true);
+  });
+
+  test("defers changes to an order being engraved until the next sync", async () => {
+    writeFeed("A1,i1,Name: Fido");
+    await sync();
+    db.update(orders).set({ status: "processing" }).where(eq(orders.orderId, "A1")).run();
+    writeFeed("A1,i1,Name: Rex");
+
+    const locked = await sync();
+    assert.equal(locked.updated, 0);
+    assert.equal(getOrderItems("A1")[0].customField, "Name: Fido");
+
+    // The feed is read again although its content is the one already seen
+    const stillLocked = await sync();
+    assert.notEqual(stillLocked.unchanged, true);
+
+    db.update(orders).set({ status: "pending" }).where(eq(orders.orderId, "A1")).run();
+    const released = await sync();
+    assert.equal(released.updated, 1);
+    assert.equal(getOrderItems("A1")[0].customField, "Name: Rex");
+  });
+
+  test("updates a feed's orders from an uploaded file without taking them over", async () => {
+    writeFeed("A1,i1,Name: Fido", "B1,i2,Name: Max");
+    await sync();
+
+    const uploaded = await upload("A1,i1,Name: Rex");
+    assert.equal(uploaded.updated, 1);
+    assert.equal(uploaded.skipped, 0);
+    assert.equal(getOrderItems("A1")[0].customField, "Name: Rex");
+    assert.equal(getOrder("A1").source, "shop");
+
+    writeFeed("B1,i2,Name: Max");
+    const synced = await sync();
+    assert.equal(synced.archived, 1);
+    assert.ok(getOrder("A1").archivedAt);
+  });
+
+  test("lets the feed take over orders an uploaded file added", async () => {
+    await upload("A1,i1,Name: Fido");
+    assert.equal(getOrder("A1").source, "upload");
+
+    writeFeed("A1,i1,Name: Rex", "B1,i2,Name: Max");
+    const synced = await sync();
+    assert.equal(synced.skipped, 0);
+    assert.equal(synced.updated, 1);
+    assert.equal(getOrder("A1").source, "shop");
+    assert.equal(getOrderItems("A1")[0].customField, "Name: Rex");
+
+    writeFeed("B1,i2,Name: Max");
+    assert.equal((await sync()).archived, 1);
+    assert.ok(getOrder("A1").archivedAt);
+  });
+
+  test("fails when no record yields an order ID", async () => {
+    fs.writeFileSync(feedPath, "foo,bar\n1,2\n3,4\n");
+
+    await assert.rejects(sync(), /none had an order ID/);
+  });
+});
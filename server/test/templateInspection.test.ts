@@ -0,0 +1,135 @@
+import { before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { useTempAppData } from "./helpers.js";
+
+useTempAppData();
+
+const { config } = await import("../src/config.js");
+const { inspectTemplate, templateSide } = await import("../src/templateInspection.js");
+
+const FONT = "Arial,-1,100,5,50,0,0,0,0,0";
+
+const textShape = (name: string, cutIndex = 0) =>
+  `<Shape Type="Text" CutIndex="${cutIndex}" Name="${name}" Font="${FONT}" H="8" Str="Testo"><XForm>1 0 0 1 0 0</XForm></Shape>`;
+
+const project = (...shapes: string[]) => `<?xml version="1.0" encoding="UTF-8"?>
+<LightBurnProject AppVersion="1.6.00" FormatVersion="1" MaterialHeight="3">
+  <CutSetting type="Scan">
+    <index Value="0"/>
+    <name Value="Testo"/>
+    <speed Value="300"/>
+    <maxPower Value="40"/>
+    <numPasses Value="2"/>
+  </CutSetting>
+  <Shape Type="Rect" CutIndex="0" W="30" H="20" Cr="0"><XForm>1 0 0 1 0 0</XForm></Shape>
+  <Shape Type="Rect" CutIndex="0" W="5" H="5" Cr="0"><XForm>1 0 0 1 0 0</XForm></Shape>
+  ${shapes.join("\n  ")}
+</LightBurnProject>
+`;
+
+function writeTemplate(filename: string, content: string, settings?: object) {
+  fs.writeFileSync(path.join(config.paths.templates, filename), content);
+  if (settings) {
+    fs.writeFileSync(path.join(config.paths.templates, filename.replace(/\.lbrn2$/, ".json")), JSON.stringify(settings));
+  }
+}
+
+const messages = (inspection: { issues: { level: string; message: string }[] } | null, level: string) =>
+  inspection!.issues.filter((issue) => issue.level === level).map((issue) => issue.message);
+
+before(() => fs.mkdirSync(config.paths.templates, { recursive: true }));
+
+describe("inspectTemplate", () => {
+  test("lists placeholders, layers and the material", async () => {
+    writeTemplate("osso-fronte.lbrn2", project(textShape("{{CUSTOMER_NAME|40x12}}"), textShape("{{PHONE?}}", 1)));
+
+    const inspection = (await inspectTemplate("osso-fronte.lbrn2"))!;
+
+    assert.equal(inspection.side, "front");
+    assert.deepEqual(
+      inspection.placeholders.map(({ key, optional, type, maxWidth, font, height }) => ({ key, optional, type, maxWidth, font, height })),
+      [
+        { key: "CUSTOMER_NAME", optional: false, type: "text", maxWidth: 40, font: "Arial", height: 8 },
+        { key: "PHONE", optional: true, type: "text", maxWidth: undefined, font: "Arial", height: 8 }
+      ]
+    );
+    assert.deepEqual(inspection.cutSettings, [
+      { index: 0, name: "Testo", type: "Scan", speed: 300, maxPower: 40, minPower: null, passes: 2, shapes: 3 }
+    ]);
+    assert.deepEqual(inspection.material, { thickness: 3, width: 30, height: 20 });
+    assert.deepEqual(messages(inspection, "warning"), [
+      'Font "Arial" isn\'t in the assets folder: text fitting estimates its widths',
+      "Shapes use layer 1, which has no cut setting"
+    ]);
+    assert.equal(inspection.valid, true);
+  });
+
+  test("accepts a template without {{CUSTOMER_NAME}} unless its settings require it", async () => {
+    writeTemplate("osso-retro.lbrn2", project(textShape("{{PHONE}}")));
+    writeTemplate("medaglia-retro.lbrn2", project(textShape("{{PHONE}}")), { required: ["customer_name", "phone"] });
+
+    const optional = await inspectTemplate("osso-retro.lbrn2");
+    const required = await inspectTemplate("medaglia-retro.lbrn2");
+
+    assert.equal(optional?.valid, true);
+    assert.deepEqual(optional?.required, []);
+    assert.match(messages(optional, "warning").join("\n"), /No \{\{CUSTOMER_NAME\}\} placeholder/);
+    assert.equal(required?.valid, false);
+    assert.deepEqual(messages(required, "error"), ["Missing required placeholder {{CUSTOMER_NAME}}"]);
+  });
+
+  test("reports a template nothing can be filled in", async () => {
+    writeTemplate("vuoto.lbrn", project());
+
+    const inspection = await inspectTemplate("vuoto.lbrn");
+
+    assert.deepEqual(messages(inspection, "error"), [
+      "Only .lbrn2 files are matched by template rules",
+      'No text placeholder: name the text shapes to fill like "{{CUSTOMER_NAME}}"'
+    ]);
+  });
+
+  test("reports an invalid settings file and boxes for missing placeholders", async () => {
+    writeTemplate("rotto.lbrn2", project(textShape("{{CUSTOMER_NAME}}")), { placeholders: { PHONE: { maxWidth: -1 } } });
+    writeTemplate("box.lbrn2", project(textShape("{{CUSTOMER_NAME}}")), { placeholders: { PHONE: { maxWidth: 30 } } });
+
+    assert.match(messages(await inspectTemplate("rotto.lbrn2"), "error")[0], /^TEMPLATE_SETTINGS_INVALID/);
+    assert.ok(
+      messages(await inspectTemplate("box.lbrn2"), "warning").includes(
+        "The settings file has a box for {{PHONE}}, which the template doesn't have"
+      )
+    );
+  });
+
+  test("reports missing images unless they are saved in the project", async () => {
+    writeTemplate(
+      "immagini.lbrn2",
+      project(
+        textShape("{{CUSTOMER_NAME}}"),
+        '<Shape Type="Bitmap" CutIndex="0" Name="Logo" File="C:\\Users\\laser\\logo.png" Data="iVBORw0KGgo="/>',
+        '<Shape Type="Bitmap" CutIndex="0" Name="Cornice" File="C:\\Users\\laser\\cornice.png"/>',
+        '<Shape Type="Bitmap" CutIndex="0" Name="{{DESIGN_IMAGE}}" File="C:\\Users\\laser\\segnaposto.png"/>'
+      )
+    );
+
+    const inspection = await inspectTemplate("immagini.lbrn2");
+
+    assert.deepEqual(messages(inspection, "error"), ['Image file "cornice.png" not found']);
+    assert.ok(messages(inspection, "warning").includes('Image file "logo.png" not found; the copy saved in the project is used'));
+    assert.equal(inspection?.images.find((image) => image.placeholder)?.name, "{{DESIGN_IMAGE}}");
+  });
+
+  test("returns null for a template that doesn't exist", async () => {
+    assert.equal(await inspectTemplate("nessuno.lbrn2"), null);
+  });
+});
+
+describe("templateSide", () => {
+  test("reads the side from the file name", () => {
+    assert.equal(templateSide("Osso-Fronte.lbrn2"), "front");
+    assert.equal(templateSide("osso-retro.lbrn2"), "retro");
+    assert.equal(templateSide("osso.lbrn2"), "generic");
+  });
+});
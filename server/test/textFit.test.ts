@@ -0,0 +1,100 @@
+import { after, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { FontMetrics } from "../src/fontMetrics.js";
+import { fitText, loadTemplateSettings, TextSize } from "../src/textFit.js";
+
+const SIZE: TextSize = { height: 10, letterSpacing: 0, lineSpacing: 0 };
+
+// Without a font a character is 0.55 / 0.7 of the text height wide
+const CHAR_WIDTH = 0.55 / 0.7;
+
+// "I" is half as wide as any other character, which is as wide as a capital is tall
+const METRICS: FontMetrics = {
+  family: "Test Sans",
+  subfamily: "Regular",
+  unitsPerEm: 1000,
+  capHeight: 700,
+  ascender: 900,
+  descender: -200,
+  lineGap: 0,
+  advance: (codePoint) => (String.fromCodePoint(codePoint) === "I" ? 350 : 700)
+};
+
+describe("fitText", () => {
+  test("keeps the template's height when the text fits", () => {
+    const fit = fitText("AB", null, { maxWidth: 100 }, SIZE);
+
+    assert.deepEqual(fit, { height: 10, letterSpacing: 0, width: Math.round(2 * CHAR_WIDTH * 1000) / 100 });
+  });
+
+  test("makes the text smaller to fit the width", () => {
+    const fit = fitText("ABCDEFGHIJ", null, { maxWidth: 40 }, SIZE);
+
+    assert.equal(fit?.height, 5.09);
+    assert.ok(fit!.width <= 40);
+  });
+
+  test("gives up below the minimum height", () => {
+    assert.equal(fitText("ABCDEFGHIJKL", null, { maxWidth: 40 }, SIZE), null);
+    assert.equal(fitText("ABCDEFGHIJKL", null, { maxWidth: 40, minHeight: 4 }, SIZE)?.height, 4.24);
+  });
+
+  test("tightens the letter spacing only as far as needed", () => {
+    const spaced = { ...SIZE, letterSpacing: 1 };
+
+    assert.equal(fitText("ABCDEFGHIJ", null, { maxWidth: 40 }, spaced), null);
+    assert.deepEqual(fitText("ABCDEFGHIJ", null, { maxWidth: 40, minLetterSpacing: 0 }, spaced), {
+      height: 5.01,
+      letterSpacing: 0.07,
+      width: 39.99
+    });
+  });
+
+  test("fits every line and the spacing between them in the height", () => {
+    assert.equal(fitText("AB\nCD", null, { maxHeight: 20 }, SIZE)?.height, 7.69);
+    assert.equal(fitText("AB\nCD", null, { maxHeight: 20 }, { ...SIZE, lineSpacing: 2.6 })?.height, 6.69);
+  });
+
+  test("measures with the font's advance widths", () => {
+    assert.equal(fitText("II", METRICS, { maxWidth: 20 }, { ...SIZE, height: 30 })?.height, 20);
+    assert.equal(fitText("MM", METRICS, { maxWidth: 20, minHeight: 5 }, { ...SIZE, height: 30 })?.height, 10);
+    // Lines are (900 + 200) / 700 text heights apart
+    assert.equal(fitText("I\nI", METRICS, { maxHeight: 27, minHeight: 5 }, { ...SIZE, height: 30 })?.height, 10.5);
+  });
+});
+
+describe("loadTemplateSettings", () => {
+  const folder = fs.mkdtempSync(path.join(os.tmpdir(), "victoria-laser-settings-"));
+  after(() => fs.rmSync(folder, { recursive: true, force: true }));
+
+  const template = (name: string, settings?: string) => {
+    const templatePath = path.join(folder, `${name}.lbrn2`);
+    if (settings !== undefined) {
+      fs.writeFileSync(path.join(folder, `${name}.json`), settings);
+    }
+    return templatePath;
+  };
+
+  test("is empty without a settings file", async () => {
+    assert.deepEqual(await loadTemplateSettings(template("plain")), { placeholders: {} });
+  });
+
+  test("reads fit boxes and required placeholders by uppercase key", async () => {
+    const settings = await loadTemplateSettings(
+      template("bone-fronte", JSON.stringify({ placeholders: { customer_name: { maxWidth: 40 } }, required: ["phone"] }))
+    );
+
+    assert.deepEqual(settings, { placeholders: { CUSTOMER_NAME: { maxWidth: 40 } }, required: ["PHONE"] });
+  });
+
+  test("rejects an invalid file", async () => {
+    await assert.rejects(loadTemplateSettings(template("broken", "{ nope")), /^Error: TEMPLATE_SETTINGS_INVALID/);
+    await assert.rejects(
+      loadTemplateSettings(template("negative", JSON.stringify({ placeholders: { PHONE: { maxWidth: -1 } } }))),
+      /TEMPLATE_SETTINGS_INVALID: .*placeholders\.PHONE\.maxWidth/
+    );
+  });
+});
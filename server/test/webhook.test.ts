@@ -0,0 +1,123 @@
+import { before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac } from "node:crypto";
+import { useTempAppData } from "./helpers.js";
+
+useTempAppData();
+
+const { runMigrations } = await import("../src/migrate.js");
+const { db } = await import("../src/db.js");
+const { webhookDeliveries } = await import("../src/schema.js");
+const {
+  claimDelivery,
+  completeDelivery,
+  getIdempotencyKey,
+  releaseDelivery,
+  verifyWebhookSignature,
+  webhookPayloadSchema
+} = await import("../src/webhook.js");
+const { eq, sql } = await import("drizzle-orm");
+
+const SECRET = "shared-secret";
+const BODY = Buffer.from(JSON.stringify({ "order-id": "A1", "sku": "TAG-1" }));
+const SIGNATURE = createHmac("sha256", SECRET).update(BODY).digest("hex");
+
+/** Make a stored delivery look as if it was received some time ago */
+function age(idempotencyKey: string, modifier: string) {
+  db.update(webhookDeliveries)
+    .set({ createdAt: sql`datetime('now', ${modifier})` })
+    .where(eq(webhookDeliveries.idempotencyKey, idempotencyKey))
+    .run();
+}
+
+describe("verifyWebhookSignature", () => {
+  test("accepts the HMAC of the raw body with or without its prefix", () => {
+    assert.equal(verifyWebhookSignature(BODY, `sha256=${SIGNATURE}`, SECRET), true);
+    assert.equal(verifyWebhookSignature(BODY, ` ${SIGNATURE.toUpperCase()} `, SECRET), true);
+  });
+
+  test("rejects a missing, malformed or wrong signature", () => {
+    assert.equal(verifyWebhookSignature(BODY, undefined, SECRET), false);
+    assert.equal(verifyWebhookSignature(BODY, "sha256=abc", SECRET), false);
+    assert.equal(verifyWebhookSignature(BODY, SIGNATURE, "other-secret"), false);
+    assert.equal(verifyWebhookSignature(Buffer.from(`${BODY} `), SIGNATURE, SECRET), false);
+  });
+});
+
+describe("getIdempotencyKey", () => {
+  test("uses the sender's key", () => {
+    assert.equal(getIdempotencyKey(" delivery-1 ", BODY), "delivery-1");
+    assert.equal(getIdempotencyKey(["delivery-1", "delivery-2"], BODY), "delivery-1");
+  });
+
+  test("hashes the body without a key", () => {
+    const key = getIdempotencyKey(undefined, BODY);
+
+    assert.match(key, /^body:[0-9a-f]{64}$/);
+    assert.equal(getIdempotencyKey("", BODY), key);
+    assert.notEqual(getIdempotencyKey(undefined, Buffer.from("{}")), key);
+  });
+});
+
+describe("webhookPayloadSchema", () => {
+  test("reads one order, an array of orders or { orders }", () => {
+    const order = { "order-id": "A1" };
+
+    assert.deepEqual(webhookPayloadSchema.parse(order), [order]);
+    assert.deepEqual(webhookPayloadSchema.parse([order, order]), [order, order]);
+    assert.deepEqual(webhookPayloadSchema.parse({ orders: [order] }), [order]);
+  });
+
+  test("rejects empty deliveries and anything that isn't an order", () => {
+    assert.equal(webhookPayloadSchema.safeParse([]).success, false);
+    assert.equal(webhookPayloadSchema.safeParse("A1").success, false);
+    assert.equal(webhookPayloadSchema.safeParse([1, 2]).success, false);
+    assert.equal(webhookPayloadSchema.safeParse(Array.from({ length: 501 }, () => ({}))).success, false);
+  });
+});
+
+describe("claimDelivery", () => {
+  before(() => runMigrations());
+  beforeEach(() => db.delete(webhookDeliveries).run());
+
+  test("claims a new delivery once", () => {
+    assert.deepEqual(claimDelivery("delivery-1"), { status: "new" });
+    assert.deepEqual(claimDelivery("delivery-1"), { status: "in_progress" });
+  });
+
+  test("replays the stored response of an imported delivery", () => {
+    claimDelivery("delivery-1");
+    completeDelivery("delivery-1", { added: 1 });
+
+    assert.deepEqual(claimDelivery("delivery-1"), { status: "replay", response: { added: 1 } });
+  });
+
+  test("lets a retry import a delivery whose import failed", () => {
+    claimDelivery("delivery-1");
+    releaseDelivery("delivery-1");
+
+    assert.deepEqual(claimDelivery("delivery-1"), { status: "new" });
+  });
+
+  test("takes over a claim left without a response", () => {
+    claimDelivery("recent");
+    claimDelivery("stale");
+    age("recent", "-4 minutes");
+    age("stale", "-6 minutes");
+
+    assert.deepEqual(claimDelivery("recent"), { status: "in_progress" });
+    assert.deepEqual(claimDelivery("stale"), { status: "new" });
+  });
+
+  test("forgets imported deliveries after a week", () => {
+    claimDelivery("recent");
+    completeDelivery("recent", { added: 1 });
+    claimDelivery("old");
+    completeDelivery("old", { added: 1 });
+    age("recent", "-6 days");
+    age("old", "-8 days");
+
+    assert.equal(claimDelivery("recent").status, "replay");
+    assert.equal(claimDelivery("old").status, "new");
+  });
+});
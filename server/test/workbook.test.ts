@@ -0,0 +1,221 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { deflateRawSync } from "node:zlib";
+import { isZipArchive, readWorkbookRecords } from "../src/workbook.js";
+
+const RELATIONSHIP = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, byte) => {
+  let crc = byte;
+  for (let bit = 0; bit < 8; bit += 1) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+const crc32 = (data: Buffer) =>
+  (data.reduce((crc, byte) => CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8), 0xffffffff) ^ 0xffffffff) >>> 0;
+
+/** A zip archive of the files, deflated unless listed in `stored`, with an archive comment */
+function zip(files: Record<string, string>, stored: string[] = []): Buffer {
+  const localParts: Buffer[] = [];
+  const directoryParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name);
+    const data = Buffer.from(content);
+    const method = stored.includes(name) ? 0 : 8;
+    const compressed = method === 0 ? data : deflateRawSync(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(crc32(data), 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(20, 4);
+    entry.writeUInt16LE(20, 6);
+    entry.writeUInt16LE(method, 10);
+    entry.writeUInt32LE(crc32(data), 16);
+    entry.writeUInt32LE(compressed.length, 20);
+    entry.writeUInt32LE(data.length, 24);
+    entry.writeUInt16LE(nameBytes.length, 28);
+    entry.writeUInt32LE(offset, 42);
+
+    localParts.push(local, nameBytes, compressed);
+    directoryParts.push(entry, nameBytes);
+    offset += local.length + nameBytes.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(directoryParts);
+  const comment = Buffer.from("Esportazione ordini");
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  end.writeUInt16LE(comment.length, 20);
+
+  return Buffer.concat([...localParts, directory, end, comment]);
+}
+
+const inline = (reference: string, text: string) => `<c r="${reference}" t="inlineStr"><is><t>${text}</t></is></c>`;
+
+const PARTS = {
+  "_rels/.rels": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="${RELATIONSHIP}/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`,
+  "xl/_rels/workbook.xml.rels": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="${RELATIONSHIP}/worksheet" Target="worksheets/sheet1.xml"/>
+  <Relationship Id="rId2" Type="${RELATIONSHIP}/worksheet" Target="/xl/worksheets/sheet2.xml"/>
+  <Relationship Id="rId3" Type="${RELATIONSHIP}/sharedStrings" Target="sharedStrings.xml"/>
+  <Relationship Id="rId4" Type="${RELATIONSHIP}/styles" Target="styles.xml"/>
+</Relationships>`,
+  "xl/sharedStrings.xml": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<sst xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" count="5" uniqueCount="5">
+  <si><t>order-id</t></si>
+  <si><t>purchase-date</t></si>
+  <si><r><rPr><b/></rPr><t xml:space="preserve">Anna </t></r><r><t>Rossi</t></r><rPh sb="0" eb="4"><t>アンナ</t></rPh></si>
+  <si><t>Nome: Fido_x000A_Telefono: 333</t></si>
+  <si><t>00123</t></si>
+</sst>`,
+  "xl/styles.xml": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+  <numFmts count="2">
+    <numFmt numFmtId="164" formatCode="dd/mm/yyyy\\ hh:mm"/>
+    <numFmt numFmtId="165" formatCode="0&quot; days&quot;"/>
+  </numFmts>
+  <cellXfs count="4">
+    <xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+    <xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+    <xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+    <xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+  </cellXfs>
+</styleSheet>`,
+  "xl/worksheets/sheet1.xml": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+  <sheetData>
+    <row r="1">
+      <c r="A1" t="s"><v>0</v></c>${inline("B1", "sku")}<c r="C1" t="s"><v>1</v></c>${inline("D1", "buyer-name")}${inline("E1", "custom")}${inline("F1", "quantity")}
+    </row>
+    <row r="2">
+      <c r="A2" t="s"><v>4</v></c><c r="B2" t="str"><f>"TAG-"&amp;1</f><v>TAG-1</v></c><c r="C2" s="1"><v>46086</v></c><c r="D2" t="s"><v>2</v></c><c r="E2" t="s"><v>3</v></c><c r="F2" s="3"><v>2</v></c><c r="G2"><v>99</v></c>
+    </row>
+    <row r="4">
+      <c r="G4"><v>1</v></c>
+    </row>
+    <row r="5">
+      ${inline("A5", " A2 ")}<c r="C5" s="2"><v>46086.5</v></c><c r="D5" t="inlineStr"><is><r><t>Luca</t></r><r><t xml:space="preserve"> Verdi</t></r></is></c>${inline("E5", "Nome:_x0009_Rex")}<c r="F5"><v>0.30000000000000004</v></c>
+    </row>
+    <row r="6">
+      ${inline("A6", "A3")}<c r="B6" t="e"><v>#N/A</v></c>
+    </row>
+  </sheetData>
+</worksheet>`,
+  "xl/worksheets/sheet2.xml": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+  <sheetData>
+    <row r="1">${inline("A1", "Esportazione ordini")}</row>
+    <row r="3">${inline("A3", "order-id")}${inline("B3", "sku")}</row>
+    <row r="4">${inline("A4", "B1")}${inline("B4", "TAG-2")}</row>
+  </sheetData>
+</worksheet>`
+};
+
+/** The fixture workbook: sheets "Ordini" and "Note" */
+function workbook({ date1904 = false, stored = [] as string[] } = {}) {
+  const workbookXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="${RELATIONSHIP}">
+  <workbookPr${date1904 ? ' date1904="1"' : ""}/>
+  <sheets>
+    <sheet name="Ordini" sheetId="1" r:id="rId1"/>
+    <sheet name="Note" sheetId="2" r:id="rId2"/>
+  </sheets>
+</workbook>`;
+  return zip({ ...PARTS, "xl/workbook.xml": workbookXml }, stored);
+}
+
+const ORDERS = [
+  {
+    "order-id": "00123",
+    "sku": "TAG-1",
+    "purchase-date": "2026-03-05",
+    "buyer-name": "Anna Rossi",
+    "custom": "Nome: Fido\nTelefono: 333",
+    "quantity": "2"
+  },
+  {
+    "order-id": "A2",
+    "sku": "",
+    "purchase-date": "2026-03-05T12:00:00",
+    "buyer-name": "Luca Verdi",
+    "custom": "Nome:\tRex",
+    "quantity": "0.3"
+  },
+  { "order-id": "A3", "sku": "", "purchase-date": "", "buyer-name": "", "custom": "", "quantity": "" }
+];
+
+describe("readWorkbookRecords", () => {
+  test("reads the first sheet as records keyed by its header row", () => {
+    assert.equal(isZipArchive(workbook()), true);
+    assert.deepEqual(readWorkbookRecords(workbook()), ORDERS);
+  });
+
+  test("reads stored and deflated entries alike", () => {
+    const stored = Object.keys(PARTS).concat("xl/workbook.xml");
+
+    assert.deepEqual(readWorkbookRecords(workbook({ stored })), ORDERS);
+    assert.deepEqual(readWorkbookRecords(workbook({ stored: ["xl/sharedStrings.xml", "xl/styles.xml"] })), ORDERS);
+  });
+
+  test("reads dates of the 1904 date system", () => {
+    const bytes = workbook({ date1904: true });
+
+    assert.deepEqual(
+      readWorkbookRecords(bytes).map((record) => record["purchase-date"]),
+      ["2030-03-06", "2030-03-06T12:00:00", ""]
+    );
+  });
+
+  test("finds a sheet by name or position, with headers on another row", () => {
+    const expected = [{ "order-id": "B1", "sku": "TAG-2" }];
+
+    assert.deepEqual(readWorkbookRecords(workbook(), { sheet: " note ", headerRow: 3 }), expected);
+    assert.deepEqual(readWorkbookRecords(workbook(), { sheet: 2, headerRow: 3 }), expected);
+  });
+
+  test("rejects a sheet that isn't there or a header row without headers", () => {
+    assert.throws(
+      () => readWorkbookRecords(workbook(), { sheet: "Resi" }),
+      /^Error: Sheet "Resi" not found in the workbook \(sheets: "Ordini", "Note"\)$/
+    );
+    assert.throws(() => readWorkbookRecords(workbook(), { sheet: 3 }), /Sheet #3 not found/);
+    assert.throws(
+      () => readWorkbookRecords(workbook(), { sheet: "Note", headerRow: 2 }),
+      /Row 2 of sheet "Note" has no column headers/
+    );
+  });
+
+  test("rejects password-protected or .xls workbooks and other files", () => {
+    const compoundFile = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1, 0, 0, 0, 0]);
+
+    assert.throws(() => readWorkbookRecords(compoundFile), /password-protected or in the old \.xls format/);
+    assert.throws(() => readWorkbookRecords(Buffer.from("order-id,sku\nA1,TAG-1\n")), /not an \.xlsx workbook/);
+    assert.equal(isZipArchive(compoundFile), false);
+  });
+
+  test("rejects a truncated archive", () => {
+    const bytes = workbook();
+
+    assert.throws(() => readWorkbookRecords(bytes.subarray(0, bytes.length - 100)), /damaged or incomplete/);
+  });
+});
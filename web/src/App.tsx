@@ -1,12 +1,16 @@
 import { useEffect, useRef, useState } from "react";
 import { useDebouncedValue } from "./useDebouncedValue";
 import Settings from "./Settings";
-import OrderRow from "./OrderRow";
+import OrderRow, { processingKey } from "./OrderRow";
 import ReworkSection from "./ReworkSection";
-import type { Order } from "./types";
+import OrderFormModal from "./OrderFormModal";
+import ImportResultPanel from "./ImportResultPanel";
+import type { Order, OrderItem, SyncResult, SyncStatus } from "./types";
 
 type View = "orders" | "settings";
 
+type FilterMode = 'pending' | 'all' | 'archived';
+
 type ViewState = {
   view: View;
   suggestedSku?: string | null;
@@ -17,6 +21,20 @@ type ViewState = {
 const API_URL = import.meta.env.VITE_API_URL || 
   (import.meta.env.PROD ? "" : "http://localhost:3001");
 
+// How often the header re-checks the background sync status
+const SYNC_STATUS_POLL_MS = 60_000;
+
+// Relative time for the "last synced" label, e.g. "5 minuti fa"
+function formatTimeAgo(isoDate: string): string {
+  const minutes = Math.floor((Date.now() - new Date(isoDate).getTime()) / 60_000);
+  if (minutes < 1) return "adesso";
+  if (minutes === 1) return "1 minuto fa";
+  if (minutes < 60) return `${minutes} minuti fa`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return hours === 1 ? "1 ora fa" : `${hours} ore fa`;
+  return new Date(isoDate).toLocaleString();
+}
+
 // Side-specific Status Badge Component
 function SideStatusBadge({ 
   status,
@@ -266,17 +284,29 @@ export default function App() {
   const [loading, setLoading] = useState(false);
   const [searching, setSearching] = useState(false);
   const [syncing, setSyncing] = useState(false);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+  // undefined until the first status fetch, so the initial load doesn't trigger a refresh
+  const lastKnownSyncRef = useRef<string | null | undefined>(undefined);
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
-  const [filterMode, setFilterMode] = useState<'pending' | 'all'>('pending');
+  const [filterMode, setFilterMode] = useState<FilterMode>('pending');
   const [processingOrders, setProcessingOrders] = useState<Set<string>>(new Set());
   const [retryingOrders, setRetryingOrders] = useState<Set<string>>(new Set());
   const [processingFronteOrders, setProcessingFronteOrders] = useState<Set<string>>(new Set());
   const [processingRetroOrders, setProcessingRetroOrders] = useState<Set<string>>(new Set());
   const [errorModalOrder, setErrorModalOrder] = useState<Order | null>(null);
   const [errorModalSide, setErrorModalSide] = useState<'front' | 'retro' | null>(null);
+  const [errorModalItemId, setErrorModalItemId] = useState<number | undefined>(undefined);
   const [isConfigListOpen, setIsConfigListOpen] = useState(false);
   const [discardConfirmOrder, setDiscardConfirmOrder] = useState<Order | null>(null);
+  const [changedOrders, setChangedOrders] = useState<Order[]>([]);
+  const [isChangedListOpen, setIsChangedListOpen] = useState(false);
+  // Open "Nuovo ordine" form; `editing` is set when correcting an existing order
+  const [orderForm, setOrderForm] = useState<{ editing?: { order: Order; item?: OrderItem } } | null>(null);
+  // Feed file dropped on the page: upload in progress, and outcome of the last one
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [importingFile, setImportingFile] = useState(false);
+  const [importResult, setImportResult] = useState<{ filename: string; result: SyncResult } | null>(null);
   const searchInputRef = useRef<HTMLInputElement>(null);
   const debouncedSearchTerm = useDebouncedValue(searchTerm, 300);
 
@@ -289,7 +319,7 @@ export default function App() {
   // Show banner if there are config errors
   const showConfigBanner = configErrorOrders.length > 0;
 
-  const fetchOrders = async (term: string, mode: 'pending' | 'all') => {
+  const fetchOrders = async (term: string, mode: FilterMode) => {
     console.log('Refetching orders...', { term, mode });
     const trimmedTerm = term.trim();
     setLoading(true);
@@ -303,8 +333,10 @@ export default function App() {
       const statusParam = trimmedTerm ? "" : (mode === 'pending' ? '&excludeStatus=printed' : '');
       // Only show orders with customizations in "To Do" mode
       const customFieldParam = (!trimmedTerm && mode === 'pending') ? '&hasCustomField=true' : '';
+      // Archived orders only show up in the "Archiviati" tab, or when searching history
+      const archivedParam = trimmedTerm ? '&archived=include' : (mode === 'archived' ? '&archived=only' : '');
       const response = await fetch(
-        `${API_URL}/orders?limit=50&offset=0${searchParam}${statusParam}${customFieldParam}`
+        `${API_URL}/orders?limit=50&offset=0${searchParam}${statusParam}${customFieldParam}${archivedParam}`
       );
       const data = await response.json();
       console.log('Orders refreshed:', data.items?.length || 0, 'orders');
@@ -315,6 +347,34 @@ export default function App() {
     }
   };
 
+  // Orders whose feed data changed after engraving, regardless of the current filter
+  const fetchChangedOrders = async () => {
+    try {
+      const response = await fetch(`${API_URL}/orders?limit=100&offset=0&changedAfterPrint=true`);
+      const data = await response.json();
+      setChangedOrders(data.items ?? []);
+    } catch (error) {
+      console.error('Failed to fetch changed orders:', error);
+    }
+  };
+
+  // Background scheduler status; refreshes the list when a scheduled sync has run
+  const fetchSyncStatus = async (refreshOnChange = true) => {
+    try {
+      const response = await fetch(`${API_URL}/sync/status`);
+      const status: SyncStatus = await response.json();
+      const previousRunAt = lastKnownSyncRef.current;
+      lastKnownSyncRef.current = status.lastRunAt;
+      setSyncStatus(status);
+      if (refreshOnChange && previousRunAt !== undefined && status.lastRunAt !== previousRunAt) {
+        await fetchOrders(searchTerm, filterMode);
+        await fetchChangedOrders();
+      }
+    } catch (error) {
+      console.error('Failed to fetch sync status:', error);
+    }
+  };
+
   const handleSync = async () => {
     setSyncing(true);
     try {
@@ -327,13 +387,28 @@ export default function App() {
             : `Sync failed (${response.status})`;
         throw new Error(message);
       }
+      const result: SyncResult = await response.json();
       await fetchOrders(searchTerm, filterMode);
-      setToast({ message: "Sincronizzazione completata.", type: 'success' });
-      setTimeout(() => setToast(null), 4000);
+      await fetchChangedOrders();
+      await fetchSyncStatus(false);
+      const changedCount = result.changedAfterPrint?.length ?? 0;
+      const warnings = result.warnings ?? [];
+      const summary = result.unchanged
+        ? "Sincronizzazione completata. Nessuna modifica nei feed."
+        : changedCount > 0
+        ? `Sincronizzazione completata. ${changedCount} ordin${changedCount === 1 ? 'e modificato' : 'i modificati'} dopo la stampa.`
+        : "Sincronizzazione completata.";
+      setToast({
+        message: warnings.length > 0 ? `${summary} Attenzione: ${warnings.join(' ')}` : summary,
+        type: 'success'
+      });
+      // Warnings need time to be read
+      setTimeout(() => setToast(null), warnings.length > 0 ? 10000 : 4000);
     } catch (error) {
       const message =
         error instanceof Error ? error.message : "Sync failed. Check console.";
       console.error(error);
+      fetchSyncStatus(false);
       setToast({ message, type: 'error' });
       setTimeout(() => setToast(null), 6000);
     } finally {
@@ -341,29 +416,89 @@ export default function App() {
     }
   };
 
-  const handleSideProcessing = async (orderId: string, side: 'front' | 'retro') => {
+  const handleFileDrop = async (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDraggingFile(false);
+    const file = event.dataTransfer.files[0];
+    if (!file || importingFile) {
+      return;
+    }
+
+    setImportingFile(true);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      const response = await fetch(`${API_URL}/sync/upload`, { method: "POST", body: formData });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(typeof data?.error === "string" ? data.error : `Importazione non riuscita (${response.status})`);
+      }
+      setImportResult({ filename: file.name, result: data });
+      await fetchOrders(searchTerm, filterMode);
+      await fetchChangedOrders();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Importazione non riuscita";
+      console.error(error);
+      setToast({ message: `${file.name}: ${message}`, type: 'error' });
+      setTimeout(() => setToast(null), 6000);
+    } finally {
+      setImportingFile(false);
+    }
+  };
+
+  const handleOrderSaved = async (order: Order, created: boolean) => {
+    setOrderForm(null);
+    await fetchOrders(searchTerm, filterMode);
+    setToast({
+      message: created ? `Ordine ${order.orderId} creato.` : `Ordine ${order.orderId} aggiornato.`,
+      type: 'success'
+    });
+    setTimeout(() => setToast(null), 4000);
+  };
+
+  const handleSideProcessing = async (orderId: string, side: 'front' | 'retro', itemId?: number) => {
     const sideLabel = side === 'front' ? 'fronte' : 'retro';
     const statusField = side === 'front' ? 'fronteStatus' : 'retroStatus';
     const errorField = side === 'front' ? 'fronteErrorMessage' : 'retroErrorMessage';
     const attemptField = side === 'front' ? 'fronteAttemptCount' : 'retroAttemptCount';
     const setProcessingSide = side === 'front' ? setProcessingFronteOrders : setProcessingRetroOrders;
+
+    // Single-item orders are processed through their item, so the quantity is honoured
+    const knownItems = orders.find(order => order.orderId === orderId)?.items;
+    const targetItemId = itemId ?? (knownItems?.length === 1 ? knownItems[0].id : undefined);
+    const key = processingKey(orderId, targetItemId);
+    const endpoint = targetItemId === undefined
+      ? `${API_URL}/orders/${orderId}/lightburn/${side}`
+      : `${API_URL}/orders/${orderId}/items/${targetItemId}/lightburn/${side}`;
+
+    // Apply a status change to the order, or to the targeted item of the order
+    const updateTarget = (changes: Partial<Order & OrderItem>) => {
+      setOrders(prevOrders => 
+        prevOrders.map(order => {
+          if (order.orderId !== orderId) {
+            return order;
+          }
+          if (targetItemId === undefined) {
+            return { ...order, ...changes };
+          }
+          return {
+            ...order,
+            items: order.items?.map(item => item.id === targetItemId ? { ...item, ...changes } : item)
+          };
+        })
+      );
+    };
     
-    console.log(`handle${side}Processing called for order:`, orderId);
+    console.log(`handle${side}Processing called for order:`, orderId, targetItemId);
     
     // Mark order side as processing in local state for UI feedback
-    setProcessingSide(prev => new Set(prev).add(orderId));
+    setProcessingSide(prev => new Set(prev).add(key));
     
     // Optimistically update status to 'processing'
-    setOrders(prevOrders => 
-      prevOrders.map(order => 
-        order.orderId === orderId 
-          ? { ...order, [statusField]: 'processing' as const }
-          : order
-      )
-    );
+    updateTarget({ [statusField]: 'processing' as const });
     
     try {
-      const response = await fetch(`${API_URL}/orders/${orderId}/lightburn/${side}`, {
+      const response = await fetch(endpoint, {
         method: "POST"
       });
       const data = await response.json();
@@ -372,17 +507,12 @@ export default function App() {
       
       if (response.ok) {
         // Update to 'printed' status on success
-        setOrders(prevOrders => 
-          prevOrders.map(order => 
-            order.orderId === orderId 
-              ? { ...order, [statusField]: 'printed' as const, [errorField]: null }
-              : order
-          )
-        );
+        updateTarget({ [statusField]: 'printed' as const, [errorField]: null });
         
         const warningMsg = data.warning ? ` (${data.warning})` : '';
+        const copiesMsg = data.copies > 1 ? ` - ${data.copies} copie` : '';
         setToast({ 
-          message: `${side === 'front' ? 'Front' : 'Retro'} side processed successfully${warningMsg}`,
+          message: `${side === 'front' ? 'Front' : 'Retro'} side processed successfully${copiesMsg}${warningMsg}`,
           type: 'success'
         });
         setTimeout(() => setToast(null), 4000);
@@ -394,18 +524,11 @@ export default function App() {
         }, 100);
       } else {
         // Update to 'error' status on failure
-        setOrders(prevOrders => 
-          prevOrders.map(order => 
-            order.orderId === orderId 
-              ? { 
-                  ...order, 
-                  [statusField]: data.status || 'error' as const,
-                  [errorField]: data.error || 'Failed to generate file',
-                  [attemptField]: data.attemptCount
-                }
-              : order
-          )
-        );
+        updateTarget({ 
+          [statusField]: data.status || 'error' as const,
+          [errorField]: data.error || 'Failed to generate file',
+          [attemptField]: data.attemptCount
+        });
         
         setToast({ 
           message: `${side === 'front' ? 'Front' : 'Retro'}: ${data.error || 'Failed to generate file'}`,
@@ -417,13 +540,7 @@ export default function App() {
       console.error(`${sideLabel} processing request failed:`, error);
       
       // Update to 'error' status on network failure
-      setOrders(prevOrders => 
-        prevOrders.map(order => 
-          order.orderId === orderId 
-            ? { ...order, [statusField]: 'error' as const, [errorField]: 'Network error: Failed to send to LightBurn' }
-            : order
-        )
-      );
+      updateTarget({ [statusField]: 'error' as const, [errorField]: 'Network error: Failed to send to LightBurn' });
       
       setToast({ 
         message: `Network error: Failed to send ${side} side to LightBurn`,
@@ -434,110 +551,14 @@ export default function App() {
       // Remove processing state
       setProcessingSide(prev => {
         const next = new Set(prev);
-        next.delete(orderId);
+        next.delete(key);
         return next;
       });
       
       // ALWAYS refresh orders after request completes to ensure UI shows server state
       console.log(`Refreshing orders after ${sideLabel} operation...`);
       await fetchOrders(searchTerm, filterMode);
-    }
-  };
-
-  const handleLightburn = async (orderId: string) => {
-    console.log('handleLightburn called for order:', orderId);
-    
-    // Mark order as processing in local state for UI feedback
-    setProcessingOrders(prev => new Set(prev).add(orderId));
-    
-    // Optimistically update status to 'processing'
-    setOrders(prevOrders => 
-      prevOrders.map(order => 
-        order.orderId === orderId 
-          ? { ...order, status: 'processing' as const }
-          : order
-      )
-    );
-    
-    try {
-      const response = await fetch(`${API_URL}/orders/${orderId}/lightburn`, {
-        method: "POST"
-      });
-      const data = await response.json();
-      
-      console.log('LightBurn response:', { ok: response.ok, status: response.status, data });
-      
-      if (response.ok) {
-        // Update to 'printed' status on success
-        setOrders(prevOrders => 
-          prevOrders.map(order => 
-            order.orderId === orderId 
-              ? { ...order, status: 'printed' as const, errorMessage: null }
-              : order
-          )
-        );
-        
-        const warningMsg = data.warning ? ` (${data.warning})` : '';
-        setToast({ 
-          message: `LightBurn file created successfully${warningMsg}`,
-          type: 'success'
-        });
-        setTimeout(() => setToast(null), 4000);
-        
-        // Clear search and refocus input for next scan
-        setSearchTerm("");
-        setTimeout(() => {
-          searchInputRef.current?.focus();
-        }, 100);
-      } else {
-        // Update to 'error' status on failure
-        setOrders(prevOrders => 
-          prevOrders.map(order => 
-            order.orderId === orderId 
-              ? { 
-                  ...order, 
-                  status: data.status || 'error' as const,
-                  errorMessage: data.error || 'Failed to generate file',
-                  attemptCount: data.attemptCount
-                }
-              : order
-          )
-        );
-        
-        setToast({ 
-          message: data.error || 'Failed to generate file',
-          type: 'error'
-        });
-        setTimeout(() => setToast(null), 6000);
-      }
-    } catch (error) {
-      console.error('LightBurn request failed:', error);
-      
-      // Update to 'error' status on network failure
-      setOrders(prevOrders => 
-        prevOrders.map(order => 
-          order.orderId === orderId 
-            ? { ...order, status: 'error' as const, errorMessage: 'Network error: Failed to send to LightBurn' }
-            : order
-        )
-      );
-      
-      setToast({ 
-        message: "Network error: Failed to send to LightBurn",
-        type: 'error'
-      });
-      setTimeout(() => setToast(null), 6000);
-    } finally {
-      // Remove processing state
-      setProcessingOrders(prev => {
-        const next = new Set(prev);
-        next.delete(orderId);
-        return next;
-      });
-      
-      // ALWAYS refresh orders after request completes to ensure UI shows server state
-      console.log('Refreshing orders after LightBurn operation...');
-      await fetchOrders(searchTerm, filterMode);
+      await fetchChangedOrders();
     }
   };
 
@@ -680,10 +701,41 @@ export default function App() {
     }
   };
 
+  const handleAcknowledgeChange = async (orderId: string) => {
+    try {
+      const response = await fetch(`${API_URL}/orders/${orderId}/acknowledge-change`, {
+        method: "POST"
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        setToast({ message: data.error || 'Failed to acknowledge change', type: 'error' });
+        setTimeout(() => setToast(null), 6000);
+        return;
+      }
+
+      setChangedOrders(prev => prev.filter(order => order.orderId !== orderId));
+    } catch (error) {
+      console.error('Acknowledge change request failed:', error);
+      setToast({ message: "Network error: Failed to acknowledge change", type: 'error' });
+      setTimeout(() => setToast(null), 6000);
+    }
+  };
+
   useEffect(() => {
     fetchOrders(debouncedSearchTerm, filterMode);
   }, [debouncedSearchTerm, filterMode]);
 
+  useEffect(() => {
+    fetchChangedOrders();
+  }, []);
+
+  useEffect(() => {
+    fetchSyncStatus();
+    const interval = setInterval(() => fetchSyncStatus(), SYNC_STATUS_POLL_MS);
+    return () => clearInterval(interval);
+  }, [debouncedSearchTerm, filterMode]);
+
   const activeSearchTerm = debouncedSearchTerm.trim();
   const exactMatchOrder = activeSearchTerm
     ? orders.find((order) => order.orderId === activeSearchTerm)
@@ -712,9 +764,21 @@ export default function App() {
     : [];
 
   // Handler for error clicks from OrderRow
-  const handleErrorClick = (order: Order, side: 'front' | 'retro') => {
-    setErrorModalOrder(order);
+  const handleErrorClick = (order: Order, side: 'front' | 'retro', item?: OrderItem) => {
+    // Item errors are shown with the item's SKU, customization and side fields
+    setErrorModalOrder(item ? {
+      ...order,
+      sku: item.sku,
+      customField: item.customField,
+      fronteStatus: item.fronteStatus,
+      fronteErrorMessage: item.fronteErrorMessage,
+      fronteAttemptCount: item.fronteAttemptCount,
+      retroStatus: item.retroStatus,
+      retroErrorMessage: item.retroErrorMessage,
+      retroAttemptCount: item.retroAttemptCount
+    } : order);
     setErrorModalSide(side);
+    setErrorModalItemId(item?.id);
   };
 
   // Reusable table header with optional discard column
@@ -751,7 +815,29 @@ export default function App() {
 
   // Otherwise render the Orders view
   return (
-    <div className="min-h-screen px-6 py-10">
+    <div
+      className="min-h-screen px-6 py-10"
+      onDragOver={(e) => {
+        if (e.dataTransfer.types.includes("Files")) {
+          e.preventDefault();
+          setIsDraggingFile(true);
+        }
+      }}
+      onDragLeave={(e) => {
+        // Only when leaving the page, not when moving between its children
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+          setIsDraggingFile(false);
+        }
+      }}
+      onDrop={handleFileDrop}
+    >
+      {isDraggingFile && (
+        <div className="pointer-events-none fixed inset-0 z-40 flex items-center justify-center border-4 border-dashed border-indigo-400 bg-indigo-50 bg-opacity-80">
+          <p className="text-lg font-semibold text-indigo-700">
+            Rilascia il file per importarlo (CSV, XML, JSON, TXT, XLSX)
+          </p>
+        </div>
+      )}
       <div className="mx-auto max-w-5xl space-y-6">
         <header className="flex items-center justify-between">
           <div>
@@ -759,6 +845,24 @@ export default function App() {
             <p className="text-sm text-slate-600">
               Sincronizza ordini e invia campi personalizzati a LightBurn.
             </p>
+            {syncStatus && (
+              <p
+                className={`text-xs ${syncStatus.lastError ? 'text-red-600' : 'text-slate-500'}`}
+                title={[
+                  syncStatus.lastError ? `Ultimo errore: ${syncStatus.lastError}` : null,
+                  syncStatus.nextRunAt
+                    ? `Prossima sincronizzazione: ${new Date(syncStatus.nextRunAt).toLocaleTimeString()}`
+                    : 'Sincronizzazione automatica disattivata'
+                ].filter(Boolean).join('\n')}
+              >
+                {syncStatus.running
+                  ? 'Sincronizzazione in corso...'
+                  : syncStatus.lastSuccessAt
+                  ? `Ultima sincronizzazione ${formatTimeAgo(syncStatus.lastSuccessAt)}`
+                  : 'Mai sincronizzato'}
+                {syncStatus.lastError && ' · ultimo tentativo fallito'}
+              </p>
+            )}
           </div>
           <div className="flex items-center gap-2">
             <button
@@ -779,6 +883,12 @@ export default function App() {
                 />
               </svg>
             </button>
+            <button
+              className="rounded border border-indigo-600 px-4 py-2 text-sm font-medium text-indigo-600 hover:bg-indigo-50"
+              onClick={() => setOrderForm({})}
+            >
+              Nuovo ordine
+            </button>
             <button
               className="rounded bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-60"
               onClick={handleSync}
@@ -799,6 +909,20 @@ export default function App() {
           </div>
         )}
 
+        {importingFile && (
+          <div className="rounded border border-indigo-200 bg-indigo-50 px-4 py-3 text-sm text-indigo-700">
+            Importazione del file in corso...
+          </div>
+        )}
+
+        {importResult && (
+          <ImportResultPanel
+            filename={importResult.filename}
+            result={importResult.result}
+            onClose={() => setImportResult(null)}
+          />
+        )}
+
         {/* Configuration Error Banner - Collapsible */}
         {showConfigBanner && (
           <div className="rounded-lg border border-orange-200 bg-orange-50 overflow-hidden animate-fadeIn">
@@ -856,6 +980,60 @@ export default function App() {
           </div>
         )}
 
+        {/* Changed After Print Banner - Collapsible */}
+        {changedOrders.length > 0 && (
+          <div className="rounded-lg border border-amber-200 bg-amber-50 overflow-hidden animate-fadeIn">
+            <button
+              onClick={() => setIsChangedListOpen(!isChangedListOpen)}
+              className="w-full flex items-center gap-3 px-4 py-2.5 hover:bg-amber-100 transition-colors"
+            >
+              <svg className="h-5 w-5 text-amber-600 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+                <path fillRule="evenodd" d="M4 2a1 1 0 011 1v2.101a7.002 7.002 0 0111.601 2.566 1 1 0 11-1.885.666A5.002 5.002 0 005.999 7H9a1 1 0 010 2H4a1 1 0 01-1-1V3a1 1 0 011-1zm.008 9.057a1 1 0 011.276.61A5.002 5.002 0 0014.001 13H11a1 1 0 110-2h5a1 1 0 011 1v5a1 1 0 11-2 0v-2.101a7.002 7.002 0 01-11.601-2.566 1 1 0 01.61-1.276z" clipRule="evenodd" />
+              </svg>
+              <span className="flex-1 text-left text-sm font-semibold text-amber-900">
+                <strong>{changedOrders.length}</strong> {changedOrders.length === 1 ? 'ordine modificato' : 'ordini modificati'} nel feed dopo la stampa
+              </span>
+              <svg 
+                className={`h-5 w-5 text-amber-600 flex-shrink-0 transition-transform ${isChangedListOpen ? 'rotate-180' : ''}`} 
+                fill="currentColor" 
+                viewBox="0 0 20 20"
+              >
+                <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
+              </svg>
+            </button>
+
+            {isChangedListOpen && (
+              <div className="border-t border-amber-200 px-4 py-3 space-y-3">
+                {changedOrders.map((order) => (
+                  <div key={order.id} className="flex flex-wrap items-center gap-2 text-sm text-amber-800">
+                    <span className="flex-1">
+                      <strong>Order {order.orderId}</strong>
+                      {order.sku && <span className="font-mono"> ({order.sku})</span>}:{' '}
+                      {order.customField || 'Standard Order'}
+                    </span>
+                    {(order.items?.length ?? 0) <= 1 && (
+                      <button
+                        onClick={() => handleSideProcessing(order.orderId, 'front', order.items?.[0]?.id)}
+                        disabled={processingFronteOrders.has(processingKey(order.orderId, order.items?.[0]?.id))}
+                        className="rounded bg-amber-500 px-3 py-1 text-xs font-medium text-white hover:bg-amber-600 disabled:opacity-60 transition-colors"
+                      >
+                        Ristampa
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleAcknowledgeChange(order.orderId)}
+                      className="rounded bg-slate-200 px-3 py-1 text-xs font-medium text-slate-700 hover:bg-slate-300 transition-colors"
+                      title="Mantieni la stampa attuale"
+                    >
+                      Ignora
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         <section className="rounded-lg border border-slate-200 bg-white shadow-sm">
           <div className="flex flex-wrap items-center justify-between gap-3 border-b border-slate-200 px-4 py-3 text-sm font-medium text-slate-700">
             <div className="flex items-center gap-2">
@@ -879,6 +1057,17 @@ export default function App() {
               >
                 Tutti gli Ordini (Completati e Da Stampare)
               </button>
+              <button
+                className={`rounded px-3 py-1.5 text-sm font-medium transition-colors ${
+                  filterMode === 'archived'
+                    ? 'bg-indigo-100 text-indigo-700'
+                    : 'text-slate-600 hover:bg-slate-100'
+                }`}
+                onClick={() => setFilterMode('archived')}
+                title="Ordini non più presenti nel feed"
+              >
+                Archiviati
+              </button>
             </div>
             <div className="flex items-center gap-3">
               <input
@@ -924,6 +1113,7 @@ export default function App() {
                             processingRetroOrders={processingRetroOrders}
                             onProcessSide={handleSideProcessing}
                             onErrorClick={handleErrorClick}
+                            onEditClick={(editOrder, item) => setOrderForm({ editing: { order: editOrder, item } })}
                           />
                         ))}
                       </tbody>
@@ -968,6 +1158,7 @@ export default function App() {
                         processingRetroOrders={processingRetroOrders}
                         onProcessSide={handleSideProcessing}
                         onErrorClick={handleErrorClick}
+                        onEditClick={(editOrder, item) => setOrderForm({ editing: { order: editOrder, item } })}
                       />
                     ))
                   )}
@@ -978,6 +1169,15 @@ export default function App() {
         </section>
       </div>
 
+      {/* New / Edit Order Modal */}
+      {orderForm && (
+        <OrderFormModal
+          editing={orderForm.editing}
+          onClose={() => setOrderForm(null)}
+          onSaved={handleOrderSaved}
+        />
+      )}
+
       {/* Error Details Modal */}
       {errorModalOrder && errorModalSide && (
         <ErrorDetailsModal
@@ -995,7 +1195,7 @@ export default function App() {
             setErrorModalSide(null);
           }}
           onRetry={() => {
-            handleSideProcessing(errorModalOrder.orderId, errorModalSide);
+            handleSideProcessing(errorModalOrder.orderId, errorModalSide, errorModalItemId);
             setErrorModalOrder(null);
             setErrorModalSide(null);
           }}
@@ -0,0 +1,305 @@
+import { useEffect, useState } from "react";
+
+// In production, use relative URLs (served from same origin)
+// In development, use explicit localhost URL
+const API_URL = import.meta.env.VITE_API_URL ||
+  (import.meta.env.PROD ? "" : "http://localhost:3001");
+
+const inputClassName = "w-full rounded border border-slate-300 px-3 py-2 text-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500";
+
+type ExtractionRule = {
+  id: number;
+  skuPattern: string;
+  kind: 'regex' | 'key';
+  pattern: string;
+  priority: number;
+};
+
+type TestResult = {
+  text: string;
+  ruleId: number | null;
+  fields: Record<string, string>;
+};
+
+interface EngravingTextTabProps {
+  showToast: (message: string, type?: 'success' | 'error', duration?: number) => void;
+}
+
+export default function EngravingTextTab({ showToast }: EngravingTextTabProps) {
+  const [rules, setRules] = useState<ExtractionRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [skuPattern, setSkuPattern] = useState("");
+  const [kind, setKind] = useState<ExtractionRule['kind']>('key');
+  const [pattern, setPattern] = useState("");
+  const [priority, setPriority] = useState(0);
+  const [testSku, setTestSku] = useState("");
+  const [testText, setTestText] = useState("");
+  const [testResult, setTestResult] = useState<TestResult | null>(null);
+
+  const fetchRules = async () => {
+    try {
+      const response = await fetch(`${API_URL}/settings/extraction-rules`);
+      const data = await response.json();
+      setRules(data.rules ?? []);
+    } catch (error) {
+      console.error("Failed to fetch extraction rules:", error);
+      showToast("Failed to load extraction rules", 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const handleAddRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pattern.trim()) {
+      showToast(kind === 'regex' ? "The regular expression is required" : "The key is required", 'error');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch(`${API_URL}/settings/extraction-rules`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ skuPattern: skuPattern.trim(), kind, pattern: pattern.trim(), priority })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create extraction rule");
+      }
+
+      showToast("Extraction rule added", 'success');
+      setSkuPattern("");
+      setPattern("");
+      setPriority(0);
+      await fetchRules();
+    } catch (error) {
+      console.error("Failed to add extraction rule:", error);
+      showToast(error instanceof Error ? error.message : "Failed to create extraction rule", 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteRule = async (id: number) => {
+    if (!confirm("Are you sure you want to delete this rule?")) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`${API_URL}/settings/extraction-rules/${id}`, {
+        method: "DELETE"
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to delete extraction rule");
+      }
+
+      showToast("Extraction rule deleted", 'success');
+      await fetchRules();
+    } catch (error) {
+      console.error("Failed to delete extraction rule:", error);
+      showToast("Failed to delete extraction rule", 'error');
+    }
+  };
+
+  const handleTest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await fetch(`${API_URL}/settings/extraction-rules/test`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sku: testSku, customField: testText })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Test failed");
+      }
+
+      setTestResult(data);
+    } catch (error) {
+      console.error("Failed to test extraction rules:", error);
+      showToast(error instanceof Error ? error.message : "Test failed", 'error');
+    }
+  };
+
+  return (
+    <>
+      <section className="rounded-lg border border-slate-200 bg-white p-6 shadow-sm">
+        <h2 className="mb-1 text-lg font-semibold text-slate-800">Add Extraction Rule</h2>
+        <p className="mb-4 text-sm text-slate-600">
+          How the engraving text is taken from the personalization. Rules matching the SKU are tried by priority;
+          the first one finding text wins. Without one, the "name" personalization key is used. Jobs with no
+          text fail with EMPTY_ENGRAVING_TEXT instead of engraving a blank tag.
+        </p>
+        <form onSubmit={handleAddRule} className="space-y-4">
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+            <div>
+              <label className="mb-1 block text-sm font-medium text-slate-700">SKU Pattern</label>
+              <input
+                type="text"
+                className={inputClassName}
+                placeholder="e.g., TAG- (empty = all SKUs)"
+                value={skuPattern}
+                onChange={(e) => setSkuPattern(e.target.value)}
+                disabled={saving}
+              />
+              <p className="mt-1 text-xs text-slate-500">Matches if SKU contains this text</p>
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-slate-700">Type</label>
+              <select
+                className={inputClassName}
+                value={kind}
+                onChange={(e) => setKind(e.target.value as ExtractionRule['kind'])}
+                disabled={saving}
+              >
+                <option value="key">Personalization key</option>
+                <option value="regex">Regular expression</option>
+              </select>
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-slate-700">
+                {kind === 'regex' ? 'Regular Expression' : 'Key or Label'}
+              </label>
+              <input
+                type="text"
+                className={`${inputClassName} font-mono`}
+                placeholder={kind === 'regex' ? 'e.g., Riga \\d:\\s*(.+)' : 'e.g., Testo or nome_animale'}
+                value={pattern}
+                onChange={(e) => setPattern(e.target.value)}
+                disabled={saving}
+              />
+              <p className="mt-1 text-xs text-slate-500">
+                {kind === 'regex'
+                  ? 'Case-insensitive. Each capture group (of every match) becomes a line.'
+                  : 'The value after this label in the personalization text.'}
+              </p>
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-slate-700">Priority</label>
+              <input
+                type="number"
+                className={inputClassName}
+                placeholder="0"
+                value={priority}
+                onChange={(e) => setPriority(parseInt(e.target.value) || 0)}
+                disabled={saving}
+              />
+              <p className="mt-1 text-xs text-slate-500">Higher = higher priority</p>
+            </div>
+          </div>
+          <button
+            type="submit"
+            className="rounded bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-60"
+            disabled={saving}
+          >
+            {saving ? "Adding..." : "Add Rule"}
+          </button>
+        </form>
+      </section>
+
+      <section className="rounded-lg border border-slate-200 bg-white shadow-sm">
+        <div className="border-b border-slate-200 px-4 py-3">
+          <h2 className="text-sm font-medium text-slate-700">Existing Rules</h2>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-slate-200 text-sm">
+            <thead className="bg-slate-100 text-left text-xs uppercase tracking-wide text-slate-500">
+              <tr>
+                <th className="px-4 py-3">SKU Pattern</th>
+                <th className="px-4 py-3">Type</th>
+                <th className="px-4 py-3">Pattern</th>
+                <th className="px-4 py-3">Priority</th>
+                <th className="px-4 py-3">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {loading ? (
+                <tr>
+                  <td className="px-4 py-4 text-center text-slate-500" colSpan={5}>
+                    Loading...
+                  </td>
+                </tr>
+              ) : rules.length === 0 ? (
+                <tr>
+                  <td className="px-4 py-4 text-center text-slate-500" colSpan={5}>
+                    No extraction rules. The "name" personalization key is used for every SKU.
+                  </td>
+                </tr>
+              ) : (
+                rules.map((rule) => (
+                  <tr key={rule.id} className={testResult?.ruleId === rule.id ? 'bg-green-50' : undefined}>
+                    <td className="px-4 py-3 font-medium text-slate-700">
+                      {rule.skuPattern || <span className="text-slate-400">All SKUs</span>}
+                    </td>
+                    <td className="px-4 py-3 text-slate-600">{rule.kind === 'regex' ? 'Regex' : 'Key'}</td>
+                    <td className="px-4 py-3 font-mono text-slate-600">{rule.pattern}</td>
+                    <td className="px-4 py-3 text-slate-600">{rule.priority}</td>
+                    <td className="px-4 py-3">
+                      <button
+                        className="rounded bg-red-600 px-3 py-1 text-xs font-medium text-white hover:bg-red-700"
+                        onClick={() => handleDeleteRule(rule.id)}
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <section className="rounded-lg border border-slate-200 bg-white p-6 shadow-sm">
+        <h2 className="mb-4 text-sm font-medium text-slate-700">Test</h2>
+        <form onSubmit={handleTest} className="space-y-4">
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+            <input
+              type="text"
+              className={inputClassName}
+              placeholder="SKU"
+              value={testSku}
+              onChange={(e) => setTestSku(e.target.value)}
+            />
+            <textarea
+              className={`${inputClassName} md:col-span-2`}
+              rows={3}
+              placeholder="e.g., Nome animale: Fido, Telefono: 333 1234567"
+              value={testText}
+              onChange={(e) => setTestText(e.target.value)}
+            />
+          </div>
+          <button
+            type="submit"
+            className="rounded border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+          >
+            Test Rules
+          </button>
+        </form>
+        {testResult && (
+          <div className="mt-4 space-y-2 text-sm">
+            {testResult.text ? (
+              <pre className="whitespace-pre-wrap rounded bg-slate-50 px-3 py-2 font-mono text-slate-800">{testResult.text}</pre>
+            ) : (
+              <p className="text-red-600">No engraving text found: the job would fail with EMPTY_ENGRAVING_TEXT.</p>
+            )}
+            <p className="text-xs text-slate-500">
+              {testResult.ruleId !== null ? `From rule #${testResult.ruleId}.` : 'From the "name" key (no rule matched).'}
+              {Object.keys(testResult.fields).length > 0 &&
+                ` Parsed keys: ${Object.entries(testResult.fields).map(([key, value]) => `${key} = ${value}`).join(', ')}`}
+            </p>
+          </div>
+        )}
+      </section>
+    </>
+  );
+}
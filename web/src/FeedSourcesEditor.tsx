@@ -0,0 +1,427 @@
+import SyncPreviewPanel from "./SyncPreviewPanel";
+import type { FeedAuth, FeedAuthMode, FeedDelimiter, FeedEncoding, FeedFormat, FeedHeader, FeedSource, MappingProfile, SyncPreview } from "./types";
+
+type FeedSourcesEditorProps = {
+  sources: FeedSource[];
+  mappingProfiles: MappingProfile[];
+  onChange: (sources: FeedSource[]) => void;
+  onTestConnection: (source: FeedSource) => void;
+  testingUrl: string | null;
+  onPreview: (index: number) => void;
+  previewingIndex: number | null;
+  preview: { index: number; result: SyncPreview } | null;
+  onClosePreview: () => void;
+  disabled?: boolean;
+};
+
+const inputClassName = "w-full rounded border border-slate-300 px-3 py-2 text-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500";
+
+const SECRET_LABELS: Record<Exclude<FeedAuthMode, 'none'>, string> = {
+  basic: "Password",
+  bearer: "Token",
+  header: "Header Value"
+};
+
+// Auth and headers only apply to feeds fetched over HTTP
+const isHttpUrl = (url: string) => /^https?:\/\//.test(url.trim());
+
+// Sheet and header row only apply to Excel workbooks
+const isWorkbook = (source: FeedSource) =>
+  source.format === 'xlsx' || (source.format === 'auto' && /\.xlsx$/i.test(source.url.trim().split(/[?#]/)[0]));
+
+// A number picks the sheet by position, anything else by name
+const parseSheet = (value: string): FeedSource['sheet'] =>
+  value.trim() === '' ? undefined : /^\d+$/.test(value.trim()) ? Math.max(1, Number(value.trim())) : value;
+
+// Source ids are stamped on every order, so keep them short and URL-safe
+const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+export default function FeedSourcesEditor({
+  sources,
+  mappingProfiles,
+  onChange,
+  onTestConnection,
+  testingUrl,
+  onPreview,
+  previewingIndex,
+  preview,
+  onClosePreview,
+  disabled = false
+}: FeedSourcesEditorProps) {
+  const updateSource = (index: number, changes: Partial<FeedSource>) => {
+    onChange(sources.map((source, i) => (i === index ? { ...source, ...changes } : source)));
+  };
+
+  const updateAuth = (index: number, changes: Partial<FeedAuth>) => {
+    const auth = sources[index].auth ?? { mode: 'none' };
+    updateSource(index, { auth: { ...auth, ...changes } });
+  };
+
+  const updateHeaders = (index: number, headers: FeedHeader[]) => {
+    updateSource(index, { headers });
+  };
+
+  const handleAdd = () => {
+    onChange([
+      ...sources,
+      { id: '', name: '', url: '', format: 'auto', mappingProfileId: null, customizationPath: null, enabled: true }
+    ]);
+  };
+
+  const handleRemove = (index: number) => {
+    const source = sources[index];
+    if (source.id && !confirm(`Remove feed "${source.name || source.id}"? Its orders are kept but will no longer sync.`)) {
+      return;
+    }
+    onClosePreview();
+    onChange(sources.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      {sources.length === 0 && (
+        <p className="rounded border border-dashed border-slate-300 px-4 py-3 text-sm text-slate-500">
+          No feeds configured. Add one for each sales channel (Amazon, Etsy, website...).
+        </p>
+      )}
+
+      {sources.map((source, index) => (
+        <div key={index} className="rounded border border-slate-200 p-4 space-y-3">
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-4">
+            <div>
+              <label className="mb-1 block text-sm font-medium text-slate-700">Name</label>
+              <input
+                type="text"
+                className={inputClassName}
+                placeholder="e.g., Amazon"
+                value={source.name}
+                onChange={(e) => {
+                  // Derive the id from the name until the user edits it
+                  const derivedId = source.id === slugify(source.name) ? slugify(e.target.value) : source.id;
+                  updateSource(index, { name: e.target.value, id: derivedId });
+                }}
+                disabled={disabled}
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-slate-700">Channel ID</label>
+              <input
+                type="text"
+                className={`${inputClassName} font-mono`}
+                placeholder="e.g., amazon"
+                value={source.id}
+                onChange={(e) => updateSource(index, { id: slugify(e.target.value) })}
+                disabled={disabled}
+              />
+              <p className="mt-1 text-xs text-slate-500">
+                Stamped on every order from this feed
+              </p>
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-slate-700">Format</label>
+              <select
+                className={inputClassName}
+                value={source.format}
+                onChange={(e) => updateSource(index, { format: e.target.value as FeedFormat })}
+                disabled={disabled}
+              >
+                <option value="auto">Auto-detect</option>
+                <option value="csv">CSV</option>
+                <option value="json">JSON</option>
+                <option value="xml">XML</option>
+                <option value="amazon">Amazon order report (tab-separated)</option>
+                <option value="xlsx">Excel workbook (.xlsx)</option>
+              </select>
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-slate-700">Mapping Profile</label>
+              <select
+                className={inputClassName}
+                value={source.mappingProfileId ?? ''}
+                onChange={(e) => updateSource(index, { mappingProfileId: e.target.value ? Number(e.target.value) : null })}
+                disabled={disabled}
+              >
+                <option value="">Default</option>
+                {mappingProfiles.filter(profile => !profile.isDefault).map(profile => (
+                  <option key={profile.id} value={profile.id}>{profile.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="mb-1 block text-sm font-medium text-slate-700">
+              Feed URL / File Path
+            </label>
+            <input
+              type="text"
+              className={inputClassName}
+              placeholder="http://example.com/feed.xml or C:\Users\Name\feed.xml"
+              value={source.url}
+              onChange={(e) => updateSource(index, { url: e.target.value })}
+              disabled={disabled}
+            />
+          </div>
+
+          {isWorkbook(source) && (
+            <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+              <div>
+                <label className="mb-1 block text-sm font-medium text-slate-700">Sheet</label>
+                <input
+                  type="text"
+                  className={inputClassName}
+                  placeholder="First sheet"
+                  value={source.sheet ?? ''}
+                  onChange={(e) => updateSource(index, { sheet: parseSheet(e.target.value) })}
+                  disabled={disabled}
+                />
+                <p className="mt-1 text-xs text-slate-500">
+                  Sheet name (e.g. Ordini) or position (e.g. 2)
+                </p>
+              </div>
+              <div>
+                <label className="mb-1 block text-sm font-medium text-slate-700">Header Row</label>
+                <input
+                  type="number"
+                  min={1}
+                  className={inputClassName}
+                  value={source.headerRow ?? 1}
+                  onChange={(e) => updateSource(index, { headerRow: Math.max(1, parseInt(e.target.value) || 1) })}
+                  disabled={disabled}
+                />
+                <p className="mt-1 text-xs text-slate-500">
+                  Row with the column names, when the sheet starts with a title
+                </p>
+              </div>
+            </div>
+          )}
+
+          {(source.format === 'auto' || source.format === 'csv') && !isWorkbook(source) && (
+            <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+              <div>
+                <label className="mb-1 block text-sm font-medium text-slate-700">CSV Delimiter</label>
+                <select
+                  className={inputClassName}
+                  value={source.delimiter ?? 'auto'}
+                  onChange={(e) => updateSource(index, { delimiter: e.target.value as FeedDelimiter })}
+                  disabled={disabled}
+                >
+                  <option value="auto">Auto-detect</option>
+                  <option value=",">Comma (,)</option>
+                  <option value=";">Semicolon (;)</option>
+                  <option value={'\t'}>Tab</option>
+                  <option value="|">Pipe (|)</option>
+                </select>
+              </div>
+              <div>
+                <label className="mb-1 block text-sm font-medium text-slate-700">Encoding</label>
+                <select
+                  className={inputClassName}
+                  value={source.encoding ?? 'auto'}
+                  onChange={(e) => updateSource(index, { encoding: e.target.value as FeedEncoding })}
+                  disabled={disabled}
+                >
+                  <option value="auto">Auto-detect</option>
+                  <option value="utf-8">UTF-8</option>
+                  <option value="windows-1252">Windows-1252 (Excel)</option>
+                </select>
+                <p className="mt-1 text-xs text-slate-500">
+                  Set it if accented letters show up as "Ã¨" or "�" in imported orders
+                </p>
+              </div>
+            </div>
+          )}
+
+          {isHttpUrl(source.url) && (
+            <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+              <div>
+                <label className="mb-1 block text-sm font-medium text-slate-700">Authentication</label>
+                <select
+                  className={inputClassName}
+                  value={source.auth?.mode ?? 'none'}
+                  onChange={(e) => updateAuth(index, { mode: e.target.value as FeedAuthMode })}
+                  disabled={disabled}
+                >
+                  <option value="none">None</option>
+                  <option value="basic">Basic (username + password)</option>
+                  <option value="bearer">Bearer token</option>
+                  <option value="header">API key header</option>
+                </select>
+              </div>
+              {source.auth?.mode === 'basic' && (
+                <div>
+                  <label className="mb-1 block text-sm font-medium text-slate-700">Username</label>
+                  <input
+                    type="text"
+                    className={inputClassName}
+                    value={source.auth.username ?? ''}
+                    onChange={(e) => updateAuth(index, { username: e.target.value })}
+                    disabled={disabled}
+                  />
+                </div>
+              )}
+              {source.auth?.mode === 'header' && (
+                <div>
+                  <label className="mb-1 block text-sm font-medium text-slate-700">Header Name</label>
+                  <input
+                    type="text"
+                    className={`${inputClassName} font-mono`}
+                    placeholder="e.g., X-Api-Key"
+                    value={source.auth.headerName ?? ''}
+                    onChange={(e) => updateAuth(index, { headerName: e.target.value })}
+                    disabled={disabled}
+                  />
+                </div>
+              )}
+              {source.auth && source.auth.mode !== 'none' && (
+                <div>
+                  <label className="mb-1 block text-sm font-medium text-slate-700">{SECRET_LABELS[source.auth.mode]}</label>
+                  <input
+                    type="password"
+                    autoComplete="new-password"
+                    className={inputClassName}
+                    placeholder={source.auth.secretSet ? "•••••••• (saved, type to replace)" : ""}
+                    value={source.auth.secret ?? ''}
+                    onChange={(e) => updateAuth(index, { secret: e.target.value })}
+                    disabled={disabled}
+                  />
+                  <p className="mt-1 text-xs text-slate-500">Stored encrypted, never shown again.</p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {isHttpUrl(source.url) && (
+            <div>
+              <label className="mb-1 block text-sm font-medium text-slate-700">
+                Request Headers (optional)
+              </label>
+              <div className="space-y-2">
+                {(source.headers ?? []).map((header, headerIndex) => (
+                  <div key={headerIndex} className="flex gap-2">
+                    <input
+                      type="text"
+                      className={`${inputClassName} font-mono`}
+                      placeholder="Header name"
+                      value={header.name}
+                      onChange={(e) => updateHeaders(index, (source.headers ?? []).map((h, i) => (i === headerIndex ? { ...h, name: e.target.value } : h)))}
+                      disabled={disabled}
+                    />
+                    <input
+                      type="text"
+                      className={inputClassName}
+                      placeholder="Value"
+                      value={header.value}
+                      onChange={(e) => updateHeaders(index, (source.headers ?? []).map((h, i) => (i === headerIndex ? { ...h, value: e.target.value } : h)))}
+                      disabled={disabled}
+                    />
+                    <button
+                      type="button"
+                      className="rounded border border-slate-300 px-3 text-sm text-slate-600 hover:bg-slate-50 disabled:opacity-50"
+                      onClick={() => updateHeaders(index, (source.headers ?? []).filter((_, i) => i !== headerIndex))}
+                      disabled={disabled}
+                      title="Remove header"
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  className="text-sm font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                  onClick={() => updateHeaders(index, [...(source.headers ?? []), { name: '', value: '' }])}
+                  disabled={disabled}
+                >
+                  + Add Header
+                </button>
+              </div>
+              <p className="mt-1 text-xs text-slate-500">
+                Sent with every request, stored in plain text. Put API keys in the authentication settings instead.
+              </p>
+            </div>
+          )}
+
+          <div>
+            <label className="mb-1 block text-sm font-medium text-slate-700">
+              Amazon Custom Folder (optional)
+            </label>
+            <input
+              type="text"
+              className={inputClassName}
+              placeholder="C:\Users\Name\Downloads\customizations"
+              value={source.customizationPath ?? ''}
+              onChange={(e) => updateSource(index, { customizationPath: e.target.value || null })}
+              disabled={disabled}
+            />
+            <p className="mt-1 text-xs text-slate-500">
+              Extracted Amazon Custom files, named by order item ID or order ID (e.g. 12345678901234.json).
+            </p>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={source.enabled}
+                onChange={(e) => updateSource(index, { enabled: e.target.checked })}
+                disabled={disabled}
+              />
+              Enabled
+            </label>
+            <div className="flex-1" />
+            <button
+              type="button"
+              className="rounded border border-slate-300 bg-white px-3 py-1.5 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+              onClick={() => onTestConnection(source)}
+              disabled={source.url.trim() === '' || testingUrl !== null || disabled}
+            >
+              {testingUrl === source.url.trim() && (
+                <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                </svg>
+              )}
+              {testingUrl === source.url.trim() ? "Testing..." : "Test Connection"}
+            </button>
+            <button
+              type="button"
+              className="rounded border border-indigo-300 bg-white px-3 py-1.5 text-sm font-medium text-indigo-700 hover:bg-indigo-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              onClick={() => onPreview(index)}
+              disabled={source.url.trim() === '' || previewingIndex !== null || disabled}
+              title="Show what a sync would change, without saving anything"
+            >
+              {previewingIndex === index ? "Loading..." : "Preview Sync"}
+            </button>
+            <button
+              type="button"
+              className="rounded bg-red-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-red-700 disabled:opacity-50"
+              onClick={() => handleRemove(index)}
+              disabled={disabled}
+            >
+              Remove
+            </button>
+          </div>
+
+          {preview && preview.index === index && (
+            <SyncPreviewPanel preview={preview.result} onClose={onClosePreview} />
+          )}
+        </div>
+      ))}
+
+      <button
+        type="button"
+        className="rounded border border-dashed border-slate-300 px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-50 disabled:opacity-50"
+        onClick={handleAdd}
+        disabled={disabled}
+      >
+        + Add Feed
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useEffect, useState } from "react";
+import type { SkippedRecord, SyncResult } from "./types";
+
+// In production, use relative URLs (served from same origin)
+// In development, use explicit localhost URL
+const API_URL = import.meta.env.VITE_API_URL ||
+  (import.meta.env.PROD ? "" : "http://localhost:3001");
+
+type ImportResultPanelProps = {
+  filename: string;
+  result: SyncResult;
+  onClose: () => void;
+};
+
+/**
+ * Outcome of a dropped feed file import (POST /sync/upload)
+ */
+export default function ImportResultPanel({ filename, result, onClose }: ImportResultPanelProps) {
+  const [skippedRecords, setSkippedRecords] = useState<SkippedRecord[]>([]);
+  const adapter = result.sources.find(source => source.adapter)?.adapter;
+
+  // Skipped rows are only kept on the recorded run
+  useEffect(() => {
+    if (result.skipped === 0) {
+      return;
+    }
+
+    fetch(`${API_URL}/sync/history/${result.runId}`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(run => setSkippedRecords(run?.skippedRecords ?? []))
+      .catch(() => setSkippedRecords([]));
+  }, [result.runId, result.skipped]);
+
+  return (
+    <div className="rounded border border-indigo-200 bg-indigo-50 p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-indigo-900">
+          Importato {filename}: {result.totalParsed} righe lette
+          {adapter && <span className="font-normal"> (formato {adapter})</span>}
+        </h3>
+        <button
+          type="button"
+          className="text-xs text-indigo-700 hover:text-indigo-900"
+          onClick={onClose}
+        >
+          Chiudi
+        </button>
+      </div>
+
+      <p className="text-xs text-indigo-800">
+        {result.added} nuovi · {result.updated} aggiornati · {result.duplicates} invariati · {result.skipped} scartati.
+        Solo importazione: nessun ordine è stato archiviato.
+      </p>
+
+      {result.changedAfterPrint.length > 0 && (
+        <p className="text-xs text-amber-700">
+          Modificati dopo la stampa: {result.changedAfterPrint.join(", ")}
+        </p>
+      )}
+
+      {result.warnings?.map(warning => (
+        <p key={warning} className="text-xs text-amber-700">
+          Attenzione: {warning}
+        </p>
+      ))}
+
+      {result.skipped > 0 && (
+        <details className="rounded border border-slate-200 bg-white">
+          <summary className="cursor-pointer px-3 py-2 text-sm font-medium text-amber-700">
+            Righe scartate ({result.skipped})
+          </summary>
+          <ul className="max-h-48 overflow-y-auto divide-y divide-slate-100 text-xs">
+            {skippedRecords.map(record => (
+              <li key={`${record.source}-${record.row}`} className="px-3 py-1.5 text-slate-600">
+                Riga {record.row}
+                {record.orderId && <span className="font-mono"> ({record.orderId})</span>}: {record.reason}
+              </li>
+            ))}
+            {skippedRecords.length === 0 && (
+              <li className="px-3 py-1.5 text-slate-400">Caricamento dettagli...</li>
+            )}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,393 @@
+import { useEffect, useState } from "react";
+import { useDebouncedValue } from "./useDebouncedValue";
+import type {
+  FeedSource,
+  FieldRule,
+  FieldTransform,
+  MappableField,
+  MappingPreview,
+  MappingProfile
+} from "./types";
+
+// In production, use relative URLs (served from same origin)
+// In development, use explicit localhost URL
+const API_URL = import.meta.env.VITE_API_URL ||
+  (import.meta.env.PROD ? "" : "http://localhost:3001");
+
+const FIELDS: { key: MappableField; label: string }[] = [
+  { key: 'orderId', label: 'Order ID' },
+  { key: 'sku', label: 'SKU' },
+  { key: 'customField', label: 'Custom Field' },
+  { key: 'buyerName', label: 'Buyer Name' },
+  { key: 'purchaseDate', label: 'Purchase Date' },
+  { key: 'status', label: 'Status' },
+  { key: 'orderItemId', label: 'Order Item ID' },
+  { key: 'quantity', label: 'Quantity' },
+  { key: 'customization', label: 'Personalization JSON' }
+];
+
+const TRANSFORMS: { value: FieldTransform; label: string }[] = [
+  { value: 'uppercase', label: 'UPPERCASE' },
+  { value: 'lowercase', label: 'lowercase' },
+  { value: 'collapse_whitespace', label: 'Collapse spaces' },
+  { value: 'iso_date', label: 'ISO date' }
+];
+
+const inputClassName = "w-full rounded border border-slate-300 px-3 py-2 text-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500";
+
+type Draft = {
+  id: number | null;
+  name: string;
+  recordPath: string;
+  fields: Partial<Record<MappableField, FieldRule>>;
+  isDefault: boolean;
+};
+
+const emptyDraft = (): Draft => ({ id: null, name: '', recordPath: '', fields: {}, isDefault: false });
+
+const toDraft = (profile: MappingProfile): Draft => ({
+  id: profile.id,
+  name: profile.name,
+  recordPath: profile.recordPath ?? '',
+  fields: profile.fields,
+  isDefault: profile.isDefault
+});
+
+// Paths are edited as one comma-separated string
+const parsePaths = (value: string) =>
+  value.split(',').map(path => path.trim()).filter(Boolean);
+
+interface MappingProfilesTabProps {
+  profiles: MappingProfile[];
+  feedSources: FeedSource[];
+  onProfilesChanged: () => Promise<void>;
+  showToast: (message: string, type?: 'success' | 'error', duration?: number) => void;
+}
+
+export default function MappingProfilesTab({
+  profiles,
+  feedSources,
+  onProfilesChanged,
+  showToast
+}: MappingProfilesTabProps) {
+  const [draft, setDraft] = useState<Draft>(() => (profiles[0] ? toDraft(profiles[0]) : emptyDraft()));
+  const [pathInputs, setPathInputs] = useState<Partial<Record<MappableField, string>>>({});
+  const [saving, setSaving] = useState(false);
+  const [previewFeedId, setPreviewFeedId] = useState(feedSources[0]?.id ?? '');
+  const [preview, setPreview] = useState<MappingPreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+
+  const previewFeed = feedSources.find(source => source.id === previewFeedId);
+  // Re-run the preview shortly after the user stops typing
+  const debouncedDraft = useDebouncedValue(draft, 600);
+
+  const selectProfile = (profile: MappingProfile | null) => {
+    setDraft(profile ? toDraft(profile) : emptyDraft());
+    setPathInputs({});
+  };
+
+  const updateField = (field: MappableField, changes: Partial<FieldRule>) => {
+    setDraft(prev => ({
+      ...prev,
+      fields: {
+        ...prev.fields,
+        [field]: { paths: [], ...prev.fields[field], ...changes }
+      }
+    }));
+  };
+
+  const runPreview = async () => {
+    if (!previewFeed) {
+      setPreview(null);
+      setPreviewError(null);
+      return;
+    }
+
+    setPreviewLoading(true);
+    try {
+      const response = await fetch(`${API_URL}/settings/mapping-profiles/preview`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          url: previewFeed.url,
+          format: previewFeed.format,
+          sourceId: previewFeed.id,
+          profile: { recordPath: debouncedDraft.recordPath, fields: debouncedDraft.fields }
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setPreview(null);
+        setPreviewError(data.error || "Preview failed");
+        return;
+      }
+
+      setPreview(data);
+      setPreviewError(null);
+    } catch (error) {
+      console.error("Failed to preview mapping:", error);
+      setPreviewError("Network error");
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    runPreview();
+  }, [debouncedDraft, previewFeedId]);
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) {
+      showToast("Profile name is required", 'error');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch(
+        draft.id === null
+          ? `${API_URL}/settings/mapping-profiles`
+          : `${API_URL}/settings/mapping-profiles/${draft.id}`,
+        {
+          method: draft.id === null ? "POST" : "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: draft.name.trim(),
+            recordPath: draft.recordPath.trim(),
+            fields: draft.fields
+          })
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save mapping profile");
+      }
+
+      showToast("Mapping profile saved", 'success');
+      setDraft(toDraft(data.profile));
+      await onProfilesChanged();
+    } catch (error) {
+      console.error("Failed to save mapping profile:", error);
+      showToast(error instanceof Error ? error.message : "Failed to save mapping profile", 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (draft.id === null || !confirm(`Delete mapping profile "${draft.name}"?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`${API_URL}/settings/mapping-profiles/${draft.id}`, {
+        method: "DELETE"
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to delete mapping profile");
+      }
+
+      showToast("Mapping profile deleted", 'success');
+      selectProfile(null);
+      await onProfilesChanged();
+    } catch (error) {
+      console.error("Failed to delete mapping profile:", error);
+      showToast(error instanceof Error ? error.message : "Failed to delete mapping profile", 'error');
+    }
+  };
+
+  return (
+    <>
+      <section className="rounded-lg border border-slate-200 bg-white p-6 shadow-sm space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          {profiles.map(profile => (
+            <button
+              key={profile.id}
+              type="button"
+              className={`rounded px-3 py-1.5 text-sm font-medium ${
+                draft.id === profile.id
+                  ? 'bg-indigo-600 text-white'
+                  : 'border border-slate-300 bg-white text-slate-700 hover:bg-slate-50'
+              }`}
+              onClick={() => selectProfile(profile)}
+            >
+              {profile.name}{profile.isDefault && ' ★'}
+            </button>
+          ))}
+          <button
+            type="button"
+            className="rounded border border-dashed border-slate-300 px-3 py-1.5 text-sm font-medium text-slate-600 hover:bg-slate-50"
+            onClick={() => selectProfile(null)}
+          >
+            + New Profile
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <div>
+            <label className="mb-1 block text-sm font-medium text-slate-700">Name</label>
+            <input
+              type="text"
+              className={inputClassName}
+              placeholder="e.g., Etsy export"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              disabled={saving}
+            />
+          </div>
+          <div>
+            <label className="mb-1 block text-sm font-medium text-slate-700">Record Path</label>
+            <input
+              type="text"
+              className={inputClassName}
+              placeholder="e.g., Orders.Order (XML) or data.orders (JSON)"
+              value={draft.recordPath}
+              onChange={(e) => setDraft({ ...draft, recordPath: e.target.value })}
+              disabled={saving}
+            />
+            <p className="mt-1 text-xs text-slate-500">
+              Where the list of orders is in JSON/XML feeds. Leave empty for CSV.
+            </p>
+          </div>
+        </div>
+
+        <table className="min-w-full divide-y divide-slate-200 text-sm">
+          <thead className="bg-slate-100 text-left text-xs uppercase tracking-wide text-slate-500">
+            <tr>
+              <th className="px-3 py-2">Field</th>
+              <th className="px-3 py-2">Headers / Paths</th>
+              <th className="px-3 py-2">Constant</th>
+              <th className="px-3 py-2">Transform</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {FIELDS.map(field => {
+              const rule = draft.fields[field.key];
+              return (
+                <tr key={field.key}>
+                  <td className="px-3 py-2 font-medium text-slate-700">{field.label}</td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="text"
+                      className={inputClassName}
+                      placeholder="e.g., order-id, amazon-order-id"
+                      value={pathInputs[field.key] ?? (rule?.paths ?? []).join(', ')}
+                      onChange={(e) => {
+                        setPathInputs(prev => ({ ...prev, [field.key]: e.target.value }));
+                        updateField(field.key, { paths: parsePaths(e.target.value) });
+                      }}
+                      disabled={saving}
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="text"
+                      className={inputClassName}
+                      value={rule?.constant ?? ''}
+                      onChange={(e) => updateField(field.key, { constant: e.target.value || undefined })}
+                      disabled={saving}
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <select
+                      className={inputClassName}
+                      value={rule?.transform ?? ''}
+                      onChange={(e) => updateField(field.key, { transform: (e.target.value || undefined) as FieldTransform | undefined })}
+                      disabled={saving}
+                    >
+                      <option value="">None</option>
+                      {TRANSFORMS.map(transform => (
+                        <option key={transform.value} value={transform.value}>{transform.label}</option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <p className="text-xs text-slate-500">
+          Headers and paths are tried in order; the first non-empty value wins. Header names ignore case, spaces, "-" and "_". The constant is used when nothing matches.
+        </p>
+
+        <div className="flex gap-3">
+          <button
+            type="button"
+            className="rounded bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-60"
+            onClick={handleSave}
+            disabled={saving}
+          >
+            {saving ? "Saving..." : draft.id === null ? "Create Profile" : "Save Profile"}
+          </button>
+          {draft.id !== null && !draft.isDefault && (
+            <button
+              type="button"
+              className="rounded bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700"
+              onClick={handleDelete}
+            >
+              Delete
+            </button>
+          )}
+        </div>
+      </section>
+
+      {/* Live Preview */}
+      <section className="rounded-lg border border-slate-200 bg-white shadow-sm">
+        <div className="flex items-center justify-between border-b border-slate-200 px-4 py-3">
+          <h2 className="text-sm font-medium text-slate-700">
+            Live Preview {previewLoading && <span className="text-slate-400">(loading...)</span>}
+          </h2>
+          <select
+            className="rounded border border-slate-300 px-2 py-1 text-sm"
+            value={previewFeedId}
+            onChange={(e) => setPreviewFeedId(e.target.value)}
+          >
+            <option value="">Select a feed...</option>
+            {feedSources.map(source => (
+              <option key={source.id} value={source.id}>{source.name}</option>
+            ))}
+          </select>
+        </div>
+        {previewError ? (
+          <div className="px-4 py-4 text-sm text-red-600">{previewError}</div>
+        ) : !preview || !previewFeed ? (
+          <div className="px-4 py-4 text-center text-sm text-slate-500">
+            Select a saved feed to see how its first rows are mapped.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <p className="px-4 pt-3 text-xs text-slate-500">
+              Showing {preview.rows.length} of {preview.totalRecords} record(s).
+              {preview.rows[0] && ` Available fields: ${Object.keys(preview.rows[0].raw).join(', ')}`}
+            </p>
+            <table className="min-w-full divide-y divide-slate-200 text-xs">
+              <thead className="bg-slate-100 text-left uppercase tracking-wide text-slate-500">
+                <tr>
+                  {FIELDS.map(field => (
+                    <th key={field.key} className="px-3 py-2">{field.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {preview.rows.map((row, index) => (
+                  <tr key={index} title={JSON.stringify(row.raw)}>
+                    {FIELDS.map(field => (
+                      <td key={field.key} className="px-3 py-2 max-w-xs truncate text-slate-600">
+                        {row.normalized[field.key] ?? <span className="text-slate-300">—</span>}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </>
+  );
+}
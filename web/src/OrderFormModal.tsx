@@ -0,0 +1,210 @@
+import { useState } from "react";
+import type { Order, OrderItem } from "./types";
+
+// In production, use relative URLs (served from same origin)
+// In development, use explicit localhost URL
+const API_URL = import.meta.env.VITE_API_URL ||
+  (import.meta.env.PROD ? "" : "http://localhost:3001");
+
+type OrderFormModalProps = {
+  // Order (and item, for multi-item orders) being edited; omitted to create a new order
+  editing?: { order: Order; item?: OrderItem };
+  onClose: () => void;
+  onSaved: (order: Order, created: boolean) => void;
+};
+
+type ItemDraft = {
+  sku: string;
+  quantity: number;
+  customField: string;
+};
+
+const inputClassName =
+  "w-full rounded border border-slate-300 px-3 py-2 text-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500";
+
+/**
+ * "Nuovo ordine" form for phone, in-store and replacement orders, also used
+ * to correct SKU, buyer and personalization of an order not yet engraved.
+ */
+export default function OrderFormModal({ editing, onClose, onSaved }: OrderFormModalProps) {
+  const editedItem = editing?.item ?? (editing?.order.items?.length === 1 ? editing.order.items[0] : undefined);
+  const [orderId, setOrderId] = useState("");
+  const [buyerName, setBuyerName] = useState(editing?.order.buyerName ?? "");
+  const [items, setItems] = useState<ItemDraft[]>([
+    {
+      sku: editedItem?.sku ?? "",
+      quantity: editedItem?.quantity ?? 1,
+      customField: editedItem?.customField ?? ""
+    }
+  ]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateItem = (index: number, changes: Partial<ItemDraft>) =>
+    setItems(current => current.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = editing
+        ? await fetch(`${API_URL}/orders/${encodeURIComponent(editing.order.orderId)}`, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              buyerName,
+              // Multi-item orders without a selected item only edit the buyer
+              ...(editedItem ? { itemId: editedItem.id, sku: items[0].sku, customField: items[0].customField } : {})
+            })
+          })
+        : await fetch(`${API_URL}/orders`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ orderId: orderId.trim() || undefined, buyerName, items })
+          });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(typeof data?.error === "string" ? data.error : `Salvataggio non riuscito (${response.status})`);
+      }
+
+      onSaved(data.order, !editing);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : "Salvataggio non riuscito");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 px-4" onClick={onClose}>
+      <form
+        className="w-full max-w-lg rounded-lg bg-white p-6 shadow-xl space-y-4"
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={handleSubmit}
+      >
+        <div>
+          <h3 className="text-lg font-semibold text-slate-900">
+            {editing ? `Modifica ordine ${editing.order.orderId}` : "Nuovo ordine"}
+          </h3>
+          <p className="text-xs text-slate-500">
+            {editing
+              ? "I dati originali del feed restano salvati. Modificabile solo prima dell'incisione."
+              : "Per ordini telefonici, in negozio o sostituzioni. Non viene mai archiviato dalla sincronizzazione."}
+          </p>
+        </div>
+
+        {!editing && (
+          <div>
+            <label className="mb-1 block text-sm font-medium text-slate-700">ID Ordine</label>
+            <input
+              className={inputClassName}
+              placeholder="Lascia vuoto per generarlo"
+              value={orderId}
+              onChange={(e) => setOrderId(e.target.value)}
+              disabled={saving}
+            />
+          </div>
+        )}
+
+        <div>
+          <label className="mb-1 block text-sm font-medium text-slate-700">Cliente</label>
+          <input
+            className={inputClassName}
+            value={buyerName}
+            onChange={(e) => setBuyerName(e.target.value)}
+            disabled={saving}
+          />
+        </div>
+
+        {(!editing || editedItem) && items.map((item, index) => (
+          <div key={index} className="rounded border border-slate-200 p-3 space-y-3">
+            {items.length > 1 && (
+              <div className="flex items-center justify-between text-xs text-slate-500">
+                <span>Articolo {index + 1}</span>
+                <button
+                  type="button"
+                  className="text-red-600 hover:text-red-800"
+                  onClick={() => setItems(current => current.filter((_, i) => i !== index))}
+                  disabled={saving}
+                >
+                  Rimuovi
+                </button>
+              </div>
+            )}
+            <div className="flex gap-3">
+              <div className="flex-1">
+                <label className="mb-1 block text-sm font-medium text-slate-700">SKU</label>
+                <input
+                  className={inputClassName}
+                  value={item.sku}
+                  onChange={(e) => updateItem(index, { sku: e.target.value })}
+                  disabled={saving}
+                />
+              </div>
+              {!editing && (
+                <div className="w-24">
+                  <label className="mb-1 block text-sm font-medium text-slate-700">Quantità</label>
+                  <input
+                    type="number"
+                    min={1}
+                    className={inputClassName}
+                    value={item.quantity}
+                    onChange={(e) => updateItem(index, { quantity: Math.max(1, parseInt(e.target.value) || 1) })}
+                    disabled={saving}
+                  />
+                </div>
+              )}
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-slate-700">Personalizzazione</label>
+              <textarea
+                className={inputClassName}
+                rows={2}
+                placeholder="Nome: Marco, Colore: Argento"
+                value={item.customField}
+                onChange={(e) => updateItem(index, { customField: e.target.value })}
+                disabled={saving}
+              />
+            </div>
+          </div>
+        ))}
+
+        {!editing && (
+          <button
+            type="button"
+            className="text-sm font-medium text-indigo-600 hover:text-indigo-800"
+            onClick={() => setItems(current => [...current, { sku: "", quantity: 1, customField: "" }])}
+            disabled={saving}
+          >
+            + Aggiungi articolo
+          </button>
+        )}
+
+        {error && (
+          <p className="rounded border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">{error}</p>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            type="submit"
+            className="flex-1 rounded bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-60"
+            disabled={saving}
+          >
+            {saving ? "Salvataggio..." : editing ? "Salva modifiche" : "Crea ordine"}
+          </button>
+          <button
+            type="button"
+            className="rounded bg-slate-200 px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-300"
+            onClick={onClose}
+            disabled={saving}
+          >
+            Annulla
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
-import type { Order } from "./types";
+import { Fragment } from "react";
+import type { Order, OrderItem, Personalization } from "./types";
 
 type OrderRowProps = {
   order: Order;
@@ -6,11 +7,36 @@ type OrderRowProps = {
   activeSearchTerm?: string;
   processingFronteOrders: Set<string>;
   processingRetroOrders: Set<string>;
-  onProcessSide: (orderId: string, side: 'front' | 'retro') => void;
-  onErrorClick: (order: Order, side: 'front' | 'retro') => void;
+  onProcessSide: (orderId: string, side: 'front' | 'retro', itemId?: number) => void;
+  onErrorClick: (order: Order, side: 'front' | 'retro', item?: OrderItem) => void;
   onDiscardClick?: (order: Order) => void;
+  onEditClick?: (order: Order, item?: OrderItem) => void;
 };
 
+// The row whose side buttons are rendered: the order itself, or one of its items
+type SideTarget = Pick<
+  OrderItem,
+  'customField' | 'fronteStatus' | 'fronteErrorMessage' | 'fronteAttemptCount' | 'retroStatus' | 'retroErrorMessage' | 'retroAttemptCount'
+> & { item?: OrderItem };
+
+// Labels of the default personalization keys; other keys are shown by name
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Nome',
+  color: 'Colore',
+  image: 'Immagine',
+  font: 'Font',
+  phone: 'Telefono'
+};
+
+const fieldLabel = (key: string) =>
+  FIELD_LABELS[key] ?? key.charAt(0).toUpperCase() + key.slice(1).replace(/_/g, ' ');
+
+/**
+ * Key used in the processing sets: the order ID, or "orderId:itemId" for a single item
+ */
+export const processingKey = (orderId: string, itemId?: number) =>
+  itemId === undefined ? orderId : `${orderId}:${itemId}`;
+
 export default function OrderRow({
   order,
   showDiscardColumn = false,
@@ -19,12 +45,16 @@ export default function OrderRow({
   processingRetroOrders,
   onProcessSide,
   onErrorClick,
-  onDiscardClick
+  onDiscardClick,
+  onEditClick
 }: OrderRowProps) {
   const isExactMatch =
     activeSearchTerm.length > 0 &&
     order.orderId === activeSearchTerm;
-  const hasCustomField = Boolean(order.customField && order.customField.trim());
+  const items = order.items ?? [];
+  // Orders with several line items get one nested row per item, each with its own buttons
+  const hasMultipleItems = items.length > 1;
+  const singleItem = items.length === 1 ? items[0] : undefined;
   
   // Row background: amber for exact match, dim for both sides printed, white for pending
   const bothSidesPrinted = order.fronteStatus === 'printed' && 
@@ -35,22 +65,22 @@ export default function OrderRow({
     ? "bg-slate-50 opacity-50 transition-opacity duration-200"
     : "transition-colors duration-200";
 
-  // Calculate single overall status for the order (priority-based)
-  const getOverallStatus = () => {
+  // Calculate single overall status for the order or item (priority-based)
+  const getOverallStatus = (target: SideTarget) => {
     // Priority 1: Check for errors (any side)
-    const fronteHasError = order.fronteStatus === 'error';
-    const retroHasError = order.retroStatus === 'error';
+    const fronteHasError = target.fronteStatus === 'error';
+    const retroHasError = target.retroStatus === 'error';
     
     if (fronteHasError || retroHasError) {
       // Check if it's a config error
       const isConfigError = 
-        (fronteHasError && order.fronteErrorMessage?.startsWith('CONFIG_ERROR:')) ||
-        (retroHasError && order.retroErrorMessage?.startsWith('CONFIG_ERROR:'));
+        (fronteHasError && target.fronteErrorMessage?.startsWith('CONFIG_ERROR:')) ||
+        (retroHasError && target.retroErrorMessage?.startsWith('CONFIG_ERROR:'));
       
       if (isConfigError) {
         return (
           <button
-            onClick={() => onErrorClick(order, fronteHasError ? 'front' : 'retro')}
+            onClick={() => onErrorClick(order, fronteHasError ? 'front' : 'retro', target.item)}
             className="inline-flex items-center gap-1.5 rounded-full bg-orange-100 px-2.5 py-1 text-xs font-medium text-orange-700 transition-colors hover:bg-orange-200"
             title="Configuration error - click for details"
           >
@@ -64,7 +94,7 @@ export default function OrderRow({
       
       return (
         <button
-          onClick={() => onErrorClick(order, fronteHasError ? 'front' : 'retro')}
+          onClick={() => onErrorClick(order, fronteHasError ? 'front' : 'retro', target.item)}
           className="inline-flex items-center gap-1.5 rounded-full bg-red-100 px-2.5 py-1 text-xs font-medium text-red-700 transition-colors hover:bg-red-200"
           title="Error - click for details"
         >
@@ -77,7 +107,7 @@ export default function OrderRow({
     }
 
     // Priority 2: Check for processing (any side)
-    if (order.fronteStatus === 'processing' || order.retroStatus === 'processing') {
+    if (target.fronteStatus === 'processing' || target.retroStatus === 'processing') {
       return (
         <span className="inline-flex items-center gap-1.5 rounded-full bg-amber-100 px-2.5 py-1 text-xs font-medium text-amber-700">
           <span className="h-2 w-2 rounded-full bg-amber-500 animate-pulse"></span>
@@ -87,8 +117,8 @@ export default function OrderRow({
     }
 
     // Priority 3: Check for partial completion (at least one side printed, but not both)
-    const frontePrinted = order.fronteStatus === 'printed';
-    const retroPrintedOrNotRequired = order.retroStatus === 'printed' || order.retroStatus === 'not_required';
+    const frontePrinted = target.fronteStatus === 'printed';
+    const retroPrintedOrNotRequired = target.retroStatus === 'printed' || target.retroStatus === 'not_required';
     
     if (frontePrinted && retroPrintedOrNotRequired) {
       // Both sides complete
@@ -100,7 +130,7 @@ export default function OrderRow({
           Completo
         </span>
       );
-    } else if (frontePrinted || (order.retroStatus === 'printed')) {
+    } else if (frontePrinted || (target.retroStatus === 'printed')) {
       // Partial completion
       return (
         <span className="inline-flex items-center gap-1.5 rounded-full bg-emerald-100 px-2.5 py-1 text-xs font-medium text-emerald-700">
@@ -122,12 +152,12 @@ export default function OrderRow({
   };
   
   // Determine button appearance based on side status
-  const getSideActionButton = (
-    side: 'front' | 'retro',
-    sideStatus: 'pending' | 'processing' | 'printed' | 'error' | 'not_required',
-    sideErrorMessage: string | null | undefined,
-    sideAttemptCount: number | undefined
-  ) => {
+  const getSideActionButton = (side: 'front' | 'retro', target: SideTarget) => {
+    const sideStatus = side === 'front' ? target.fronteStatus : target.retroStatus;
+    const sideErrorMessage = side === 'front' ? target.fronteErrorMessage : target.retroErrorMessage;
+    const hasCustomField = Boolean(target.customField && target.customField.trim());
+    const itemId = target.item?.id;
+
     // Retro not required - show N/A
     if (side === 'retro' && sideStatus === 'not_required') {
       return <span className="text-slate-400">N/A</span>;
@@ -138,7 +168,7 @@ export default function OrderRow({
     }
 
     const processingSet = side === 'front' ? processingFronteOrders : processingRetroOrders;
-    const isProcessingSide = processingSet.has(order.orderId);
+    const isProcessingSide = processingSet.has(processingKey(order.orderId, itemId));
 
     // Disable button when processing this side
     if (sideStatus === 'processing' || isProcessingSide) {
@@ -161,7 +191,7 @@ export default function OrderRow({
         return (
           <button
             className="rounded bg-orange-600 px-3 py-1 text-xs font-medium text-white hover:bg-orange-700 transition-colors"
-            onClick={() => onErrorClick(order, side)}
+            onClick={() => onErrorClick(order, side, target.item)}
             title="Configuration error - click for details"
           >
             Fix Config
@@ -172,7 +202,7 @@ export default function OrderRow({
       return (
         <button
           className="rounded bg-red-600 px-3 py-1 text-xs font-medium text-white hover:bg-red-700 transition-colors"
-          onClick={() => onErrorClick(order, side)}
+          onClick={() => onErrorClick(order, side, target.item)}
           title="Error - click to retry"
         >
           Retry
@@ -185,7 +215,7 @@ export default function OrderRow({
       return (
         <button
           className="rounded bg-amber-500 px-3 py-1 text-xs font-medium text-white hover:bg-amber-600 transition-colors"
-          onClick={() => onProcessSide(order.orderId, side)}
+          onClick={() => onProcessSide(order.orderId, side, itemId)}
           title={`${side === 'front' ? 'Front' : 'Retro'} already printed - resend if needed`}
         >
           Ristampa
@@ -197,7 +227,7 @@ export default function OrderRow({
     return (
       <button
         className="rounded bg-indigo-600 px-3 py-1 text-xs font-medium text-white hover:bg-indigo-700 transition-colors"
-        onClick={() => onProcessSide(order.orderId, side)}
+        onClick={() => onProcessSide(order.orderId, side, itemId)}
         title={`Process ${side === 'front' ? 'front' : 'retro'} side`}
       >
         Invia a LightBurn
@@ -205,52 +235,145 @@ export default function OrderRow({
     );
   };
   
+  const quantityBadge = (quantity: number | undefined) =>
+    quantity && quantity > 1 ? (
+      <span
+        className="ml-1 inline-flex items-center rounded-md bg-indigo-50 px-1.5 py-0.5 text-xs font-medium text-indigo-700"
+        title={`Quantità: ${quantity}, una copia per ogni pezzo`}
+      >
+        ×{quantity}
+      </span>
+    ) : null;
+
+  // Parsed fields when the text had labels ("Nome: Marco"), else the text itself
+  const renderCustomField = (customField: string | null, personalization?: Personalization | null) => {
+    const fields = Object.entries(personalization?.fields ?? {});
+    if (fields.some(([key]) => key !== 'note')) {
+      return (
+        <dl className="space-y-0.5 text-sm" title={customField ?? undefined}>
+          {fields.map(([key, value]) => (
+            <div key={key}>
+              {key !== 'note' && <dt className="inline text-xs text-slate-400">{fieldLabel(key)}: </dt>}
+              <dd className="inline">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      );
+    }
+
+    return customField && customField.trim() ? (
+      customField
+    ) : (
+      <span className="inline-flex items-center rounded-md bg-slate-100 px-2 py-1 text-xs font-medium text-slate-600 ring-1 ring-inset ring-slate-500/10">
+        Standard Order
+      </span>
+    );
+  };
+
+  // SKU and personalization can be corrected until a side is engraved or being engraved
+  const isEditable = (target: SideTarget) =>
+    !['printed', 'processing'].includes(target.fronteStatus) &&
+    !['printed', 'processing'].includes(target.retroStatus);
+
+  const renderEditButton = (target: SideTarget) =>
+    onEditClick && isEditable(target) ? (
+      <button
+        className="ml-2 text-xs text-indigo-600 hover:text-indigo-800"
+        onClick={() => onEditClick(order, target.item)}
+        title="Correggi SKU, cliente e personalizzazione"
+      >
+        Modifica
+      </button>
+    ) : null;
+
+  const renderColor = (color: string | null | undefined) =>
+    color ? (
+      <div 
+        className="h-6 w-6 rounded-full border-2 border-slate-300"
+        style={{ backgroundColor: color }}
+        title={color}
+      />
+    ) : (
+      <span className="text-slate-400">-</span>
+    );
+
+  // Side buttons act on the single item when there is one, so the quantity is honoured
+  const orderTarget: SideTarget = { ...order, item: singleItem };
+
   return (
+    <Fragment>
     <tr
       key={order.id}
       className={rowClassName}
     >
       <td className="px-4 py-3 font-medium text-slate-700 w-32 text-left align-middle">
         {order.orderId}
+        {order.archivedAt && (
+          <span
+            className="ml-1 inline-flex items-center rounded-md bg-slate-100 px-1.5 py-0.5 text-xs font-medium text-slate-500"
+            title={`Archiviato il ${order.archivedAt}`}
+          >
+            Archiviato
+          </span>
+        )}
+        {order.changedAfterPrint && (
+          <span
+            className="ml-1 inline-flex items-center rounded-md bg-amber-100 px-1.5 py-0.5 text-xs font-medium text-amber-700"
+            title="Il feed è cambiato dopo la stampa"
+          >
+            Modificato
+          </span>
+        )}
+        {order.editedAt && (
+          <span
+            className="ml-1 inline-flex items-center rounded-md bg-indigo-50 px-1.5 py-0.5 text-xs font-medium text-indigo-700"
+            title={`Corretto a mano il ${order.editedAt}; i dati originali restano nel feed`}
+          >
+            Corretto
+          </span>
+        )}
+        {order.source && order.source !== 'default' && (
+          <div className="text-xs font-normal text-slate-400">{order.source}</div>
+        )}
       </td>
       <td className="px-4 py-3 text-slate-600 w-32 text-left align-middle">
-        {order.sku ?? "-"}
+        {hasMultipleItems ? (
+          <span className="text-slate-500">{items.length} articoli</span>
+        ) : (
+          <>
+            {order.sku ?? "-"}
+            {quantityBadge(singleItem?.quantity)}
+          </>
+        )}
       </td>
       <td className="px-4 py-3 text-slate-600 w-48 text-left align-middle">
-        {hasCustomField ? (
-          order.customField
+        {hasMultipleItems ? (
+          <span className="text-xs text-slate-400">Vedi articoli</span>
         ) : (
-          <span className="inline-flex items-center rounded-md bg-slate-100 px-2 py-1 text-xs font-medium text-slate-600 ring-1 ring-inset ring-slate-500/10">
-            Standard Order
-          </span>
+          <>
+            {renderCustomField(order.customField, singleItem?.personalization)}
+            {renderEditButton(orderTarget)}
+          </>
         )}
       </td>
       <td className="px-4 py-3 w-20 text-center align-middle">
         <div className="flex items-center justify-center">
-          {order.detectedColor ? (
-            <div 
-              className="h-6 w-6 rounded-full border-2 border-slate-300"
-              style={{ backgroundColor: order.detectedColor }}
-              title={order.detectedColor}
-            />
-          ) : (
-            <span className="text-slate-400">-</span>
-          )}
+          {renderColor(hasMultipleItems ? null : order.detectedColor)}
         </div>
       </td>
       <td className="px-4 py-3 whitespace-nowrap w-32 text-center align-middle">
         <div className="flex items-center justify-center">
-          {getOverallStatus()}
+          {getOverallStatus(orderTarget)}
         </div>
       </td>
       <td className="px-4 py-3 whitespace-nowrap w-44 text-center align-middle">
         <div className="flex items-center justify-center">
-          {getSideActionButton('front', order.fronteStatus, order.fronteErrorMessage, order.fronteAttemptCount)}
+          {hasMultipleItems ? <span className="text-xs text-slate-400">Per articolo</span> : getSideActionButton('front', orderTarget)}
         </div>
       </td>
       <td className="px-4 py-3 whitespace-nowrap w-44 text-center align-middle">
         <div className="flex items-center justify-center">
-          {getSideActionButton('retro', order.retroStatus, order.retroErrorMessage, order.retroAttemptCount)}
+          {hasMultipleItems ? <span className="text-xs text-slate-400">Per articolo</span> : getSideActionButton('retro', orderTarget)}
         </div>
       </td>
       {showDiscardColumn && (
@@ -274,5 +397,56 @@ export default function OrderRow({
         </td>
       )}
     </tr>
+    {hasMultipleItems && items.map(item => {
+      const itemTarget: SideTarget = { ...item, item };
+      return (
+        <tr key={`item-${item.id}`} className="bg-slate-50/60">
+          <td className="py-2 pl-8 pr-4 text-xs text-slate-500 w-32 text-left align-middle">
+            Articolo {item.position}
+            {(item.fronteChangedAfterPrint || item.retroChangedAfterPrint) && (
+              <span
+                className="ml-1 inline-flex items-center rounded-md bg-amber-100 px-1.5 py-0.5 text-xs font-medium text-amber-700"
+                title={`Da incidere di nuovo: ${[
+                  item.fronteChangedAfterPrint ? 'fronte' : null,
+                  item.retroChangedAfterPrint ? 'retro' : null
+                ].filter(Boolean).join(' e ')}`}
+              >
+                Modificato
+              </span>
+            )}
+          </td>
+          <td className="px-4 py-2 text-slate-600 w-32 text-left align-middle">
+            {item.sku ?? "-"}
+            {quantityBadge(item.quantity)}
+          </td>
+          <td className="px-4 py-2 text-slate-600 w-48 text-left align-middle">
+            {renderCustomField(item.customField, item.personalization)}
+            {renderEditButton(itemTarget)}
+          </td>
+          <td className="px-4 py-2 w-20 text-center align-middle">
+            <div className="flex items-center justify-center">
+              {renderColor(item.detectedColor)}
+            </div>
+          </td>
+          <td className="px-4 py-2 whitespace-nowrap w-32 text-center align-middle">
+            <div className="flex items-center justify-center">
+              {getOverallStatus(itemTarget)}
+            </div>
+          </td>
+          <td className="px-4 py-2 whitespace-nowrap w-44 text-center align-middle">
+            <div className="flex items-center justify-center">
+              {getSideActionButton('front', itemTarget)}
+            </div>
+          </td>
+          <td className="px-4 py-2 whitespace-nowrap w-44 text-center align-middle">
+            <div className="flex items-center justify-center">
+              {getSideActionButton('retro', itemTarget)}
+            </div>
+          </td>
+          {showDiscardColumn && <td className="w-32" />}
+        </tr>
+      );
+    })}
+    </Fragment>
   );
 }
@@ -0,0 +1,162 @@
+import { useEffect, useState } from "react";
+import type { PersonalizationKeys } from "./types";
+
+// In production, use relative URLs (served from same origin)
+// In development, use explicit localhost URL
+const API_URL = import.meta.env.VITE_API_URL ||
+  (import.meta.env.PROD ? "" : "http://localhost:3001");
+
+const inputClassName = "w-full rounded border border-slate-300 px-3 py-2 text-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500";
+
+// Labels are edited as one comma-separated string per key
+type Row = { key: string; labels: string };
+
+const toRows = (keys: PersonalizationKeys): Row[] =>
+  Object.entries(keys).map(([key, labels]) => ({ key, labels: labels.join(', ') }));
+
+const toKeys = (rows: Row[]): PersonalizationKeys =>
+  Object.fromEntries(
+    rows
+      .filter(row => row.key.trim())
+      .map(row => [
+        row.key.trim().toLowerCase(),
+        row.labels.split(',').map(label => label.trim()).filter(Boolean)
+      ])
+  );
+
+interface PersonalizationTabProps {
+  showToast: (message: string, type?: 'success' | 'error', duration?: number) => void;
+}
+
+export default function PersonalizationTab({ showToast }: PersonalizationTabProps) {
+  const [rows, setRows] = useState<Row[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchKeys = async () => {
+      try {
+        const response = await fetch(`${API_URL}/config`);
+        const data = await response.json();
+        setRows(toRows(data.personalizationKeys ?? {}));
+      } catch (error) {
+        console.error("Failed to load personalization keys:", error);
+        showToast("Failed to load personalization keys", 'error');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchKeys();
+  }, []);
+
+  const updateRow = (index: number, changes: Partial<Row>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch(`${API_URL}/config`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ personalizationKeys: toKeys(rows) })
+      });
+      const data = await response.json();
+
+      if (!response.ok || data.success === false) {
+        throw new Error(data.message || data.error || "Failed to save personalization keys");
+      }
+
+      setRows(toRows(data.personalizationKeys ?? toKeys(rows)));
+      showToast("Personalization keys saved, orders re-parsed", 'success');
+    } catch (error) {
+      console.error("Failed to save personalization keys:", error);
+      showToast(error instanceof Error ? error.message : "Failed to save personalization keys", 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="py-8 text-center text-sm text-slate-500">Loading...</div>;
+  }
+
+  return (
+    <section className="rounded-lg border border-slate-200 bg-white p-6 shadow-sm space-y-4">
+      <p className="text-sm text-slate-600">
+        Labels that introduce a value in the order's personalization text, e.g. "Nome: Marco, Colore: Argento".
+        Values are stored under their key when orders are imported; labels ignore case. Text without a
+        known label is kept as a note.
+      </p>
+
+      <table className="min-w-full divide-y divide-slate-200 text-sm">
+        <thead className="bg-slate-100 text-left text-xs uppercase tracking-wide text-slate-500">
+          <tr>
+            <th className="px-3 py-2 w-48">Key</th>
+            <th className="px-3 py-2">Labels</th>
+            <th className="px-3 py-2 w-24"></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {rows.map((row, index) => (
+            <tr key={index}>
+              <td className="px-3 py-2">
+                <input
+                  type="text"
+                  className={inputClassName}
+                  placeholder="e.g., name"
+                  value={row.key}
+                  onChange={(e) => updateRow(index, { key: e.target.value })}
+                  disabled={saving}
+                />
+              </td>
+              <td className="px-3 py-2">
+                <input
+                  type="text"
+                  className={inputClassName}
+                  placeholder="e.g., Name, Nome, Engraving"
+                  value={row.labels}
+                  onChange={(e) => updateRow(index, { labels: e.target.value })}
+                  disabled={saving}
+                />
+              </td>
+              <td className="px-3 py-2 text-right">
+                <button
+                  type="button"
+                  className="text-sm text-red-600 hover:text-red-800"
+                  onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+                  disabled={saving}
+                >
+                  Remove
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-xs text-slate-500">
+        Keys are lowercase (letters, digits, "_"). "name", "color", "image" and "font" are used for the
+        engraving text and for matching design assets. A label can belong to one key only.
+      </p>
+
+      <div className="flex gap-3">
+        <button
+          type="button"
+          className="rounded border border-dashed border-slate-300 px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-50"
+          onClick={() => setRows(prev => [...prev, { key: '', labels: '' }])}
+          disabled={saving}
+        >
+          + Add Key
+        </button>
+        <button
+          type="button"
+          className="rounded bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-60"
+          onClick={handleSave}
+          disabled={saving}
+        >
+          {saving ? "Saving..." : "Save Keys"}
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -1,14 +1,14 @@
 import { useState } from "react";
 import OrderRow from "./OrderRow";
-import type { Order } from "./types";
+import type { Order, OrderItem } from "./types";
 
 type ReworkSectionProps = {
   orders: Order[];
   activeSearchTerm?: string;
   processingFronteOrders: Set<string>;
   processingRetroOrders: Set<string>;
-  onProcessSide: (orderId: string, side: 'front' | 'retro') => void;
-  onErrorClick: (order: Order, side: 'front' | 'retro') => void;
+  onProcessSide: (orderId: string, side: 'front' | 'retro', itemId?: number) => void;
+  onErrorClick: (order: Order, side: 'front' | 'retro', item?: OrderItem) => void;
   onDiscardClick: (order: Order) => void;
 };
 
@@ -1,4 +1,10 @@
 import { useEffect, useState } from "react";
+import FeedSourcesEditor from "./FeedSourcesEditor";
+import MappingProfilesTab from "./MappingProfilesTab";
+import PersonalizationTab from "./PersonalizationTab";
+import EngravingTextTab from "./EngravingTextTab";
+import TemplateInspectionPanel from "./TemplateInspectionPanel";
+import type { FeedSource, MappingProfile, QuietHours, SyncPreview, TemplateInspection } from "./types";
 
 type TemplateRule = {
   id: number;
@@ -14,7 +20,7 @@ type AssetRule = {
   value: string;
 };
 
-type Tab = 'templates' | 'assets';
+type Tab = 'templates' | 'assets' | 'mappings' | 'personalization' | 'engraving';
 
 // In production, use relative URLs (served from same origin)
 // In development, use explicit localhost URL
@@ -30,6 +36,7 @@ export default function Settings({ onBack, suggestedSku }: SettingsProps) {
   const [activeTab, setActiveTab] = useState<Tab>('templates');
   const [rules, setRules] = useState<TemplateRule[]>([]);
   const [assetRules, setAssetRules] = useState<AssetRule[]>([]);
+  const [mappingProfiles, setMappingProfiles] = useState<MappingProfile[]>([]);
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [toast, setToast] = useState<string | null>(null);
@@ -37,6 +44,7 @@ export default function Settings({ onBack, suggestedSku }: SettingsProps) {
   const [skuPattern, setSkuPattern] = useState(suggestedSku || "");
   const [templateFilename, setTemplateFilename] = useState("");
   const [priority, setPriority] = useState(0);
+  const [inspection, setInspection] = useState<TemplateInspection | null>(null);
   
   // Asset rule form state
   const [triggerKeyword, setTriggerKeyword] = useState("");
@@ -44,13 +52,27 @@ export default function Settings({ onBack, suggestedSku }: SettingsProps) {
   const [assetValue, setAssetValue] = useState("");
 
   // General config state
-  const [feedUrl, setFeedUrl] = useState("");
-  const [initialFeedUrl, setInitialFeedUrl] = useState("");
+  const [feedSources, setFeedSources] = useState<FeedSource[]>([]);
+  const [initialFeedSources, setInitialFeedSources] = useState<FeedSource[]>([]);
   const [templatesPath, setTemplatesPath] = useState("");
   const [initialTemplatesPath, setInitialTemplatesPath] = useState("");
+  const [watchFolder, setWatchFolder] = useState("");
+  const [initialWatchFolder, setInitialWatchFolder] = useState("");
+  const [archiveRetentionDays, setArchiveRetentionDays] = useState(90);
+  const [initialArchiveRetentionDays, setInitialArchiveRetentionDays] = useState(90);
+  const [syncIntervalMinutes, setSyncIntervalMinutes] = useState(15);
+  const [initialSyncIntervalMinutes, setInitialSyncIntervalMinutes] = useState(15);
+  const [quietHours, setQuietHours] = useState<QuietHours | null>(null);
+  const [initialQuietHours, setInitialQuietHours] = useState<QuietHours | null>(null);
+  const [webhookSecretSet, setWebhookSecretSet] = useState(false);
+  // New webhook secret to save: undefined leaves it unchanged, null disables the webhook
+  const [webhookSecret, setWebhookSecret] = useState<string | null | undefined>(undefined);
   const [isLoadingConfig, setIsLoadingConfig] = useState(false);
   const [isSavingConfig, setIsSavingConfig] = useState(false);
-  const [isTestingConnection, setIsTestingConnection] = useState(false);
+  const [testingUrl, setTestingUrl] = useState<string | null>(null);
+  const isTestingConnection = testingUrl !== null;
+  const [previewingIndex, setPreviewingIndex] = useState<number | null>(null);
+  const [preview, setPreview] = useState<{ index: number; result: SyncPreview } | null>(null);
 
   // Helper to show toast with type
   const showToast = (message: string, type: 'success' | 'error' = 'success', duration = 4000) => {
@@ -65,11 +87,21 @@ export default function Settings({ onBack, suggestedSku }: SettingsProps) {
     try {
       const response = await fetch(`${API_URL}/config`);
       const data = await response.json();
-      setFeedUrl(data.feedUrl || "");
-      setInitialFeedUrl(data.feedUrl || "");
+      setFeedSources(data.feedSources ?? []);
+      setInitialFeedSources(data.feedSources ?? []);
       // Null safety: if templatesPath is null/undefined, use empty string
       setTemplatesPath(data.templatesPath || "");
       setInitialTemplatesPath(data.templatesPath || "");
+      setWatchFolder(data.watchFolder || "");
+      setInitialWatchFolder(data.watchFolder || "");
+      setArchiveRetentionDays(data.archiveRetentionDays ?? 90);
+      setInitialArchiveRetentionDays(data.archiveRetentionDays ?? 90);
+      setSyncIntervalMinutes(data.syncIntervalMinutes ?? 15);
+      setInitialSyncIntervalMinutes(data.syncIntervalMinutes ?? 15);
+      setQuietHours(data.quietHours ?? null);
+      setInitialQuietHours(data.quietHours ?? null);
+      setWebhookSecretSet(Boolean(data.webhookSecretSet));
+      setWebhookSecret(undefined);
     } catch (error) {
       console.error("Failed to fetch config:", error);
       showToast("Failed to load configuration", 'error');
@@ -78,12 +110,17 @@ export default function Settings({ onBack, suggestedSku }: SettingsProps) {
     }
   };
 
-  // Save feed URL and templates path configuration
+  // Save feed sources and templates path configuration
   const handleSave = async () => {
-    const trimmedUrl = feedUrl.trim();
-    
-    if (!trimmedUrl) {
-      showToast("Feed URL cannot be empty", 'error');
+    const trimmedSources = feedSources.map(source => ({
+      ...source,
+      name: source.name.trim(),
+      url: source.url.trim()
+    }));
+
+    const incomplete = trimmedSources.find(source => !source.id || !source.name || !source.url);
+    if (incomplete) {
+      showToast("Every feed needs a name, a channel ID and a URL", 'error');
       return;
     }
 
@@ -93,8 +130,13 @@ export default function Settings({ onBack, suggestedSku }: SettingsProps) {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ 
-          feedUrl: trimmedUrl,
-          templatesPath: templatesPath  // Send as-is (can be empty string)
+          feedSources: trimmedSources,
+          templatesPath: templatesPath,  // Send as-is (can be empty string)
+          watchFolder,  // Empty string disables the hot folder
+          archiveRetentionDays,
+          syncIntervalMinutes,
+          quietHours,
+          webhookSecret
         })
       });
 
@@ -114,8 +156,16 @@ export default function Settings({ onBack, suggestedSku }: SettingsProps) {
       const data = await response.json();
 
       // Success path
-      setInitialFeedUrl(trimmedUrl);
+      setFeedSources(data.feedSources ?? trimmedSources);
+      setInitialFeedSources(data.feedSources ?? trimmedSources);
       setInitialTemplatesPath(templatesPath);
+      setWatchFolder(data.watchFolder || "");
+      setInitialWatchFolder(data.watchFolder || "");
+      setInitialArchiveRetentionDays(archiveRetentionDays);
+      setInitialSyncIntervalMinutes(syncIntervalMinutes);
+      setInitialQuietHours(quietHours);
+      setWebhookSecretSet(Boolean(data.webhookSecretSet));
+      setWebhookSecret(undefined);
       showToast("Configuration saved successfully", 'success');
     } catch (error) {
       console.error("Failed to save config:", error);
@@ -125,21 +175,26 @@ export default function Settings({ onBack, suggestedSku }: SettingsProps) {
     }
   };
 
-  // Test feed connection without saving
-  const handleTestConnection = async () => {
-    const trimmedUrl = feedUrl.trim();
-    
+  // Test feed connection without saving (with the feed's auth and headers)
+  const handleTestConnection = async (source: FeedSource) => {
+    const trimmedUrl = source.url.trim();
     if (!trimmedUrl) {
       showToast("Feed URL cannot be empty", 'error');
       return;
     }
 
-    setIsTestingConnection(true);
+    setTestingUrl(trimmedUrl);
     try {
       const response = await fetch(`${API_URL}/config/test`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ feedUrl: trimmedUrl })
+        body: JSON.stringify({
+          feedUrl: trimmedUrl,
+          // A saved feed without a newly entered secret is tested with the stored one
+          sourceId: source.id,
+          auth: source.auth,
+          headers: source.headers
+        })
       });
 
       const data = await response.json();
@@ -153,7 +208,40 @@ export default function Settings({ onBack, suggestedSku }: SettingsProps) {
       console.error("Failed to test connection:", error);
       showToast("✗ Connection test failed: Network error", 'error');
     } finally {
-      setIsTestingConnection(false);
+      setTestingUrl(null);
+    }
+  };
+
+  // Dry-run a sync for one (possibly unsaved) feed source
+  const handlePreview = async (index: number) => {
+    const source = feedSources[index];
+    setPreviewingIndex(index);
+    setPreview(null);
+    try {
+      const response = await fetch(`${API_URL}/sync/preview`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...source,
+          // Unsaved feeds may not have an id yet; any unused id previews as a new channel
+          id: source.id || "preview",
+          name: source.name.trim() || "Preview",
+          url: source.url.trim()
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        showToast(`✗ Preview failed: ${data.error || response.status}`, 'error', 10000);
+        return;
+      }
+
+      setPreview({ index, result: data });
+    } catch (error) {
+      console.error("Failed to preview sync:", error);
+      showToast("✗ Preview failed: Network error", 'error');
+    } finally {
+      setPreviewingIndex(null);
     }
   };
 
@@ -171,6 +259,17 @@ export default function Settings({ onBack, suggestedSku }: SettingsProps) {
     }
   };
 
+  const fetchMappingProfiles = async () => {
+    try {
+      const response = await fetch(`${API_URL}/settings/mapping-profiles`);
+      const data = await response.json();
+      setMappingProfiles(data.profiles ?? []);
+    } catch (error) {
+      console.error("Failed to fetch mapping profiles:", error);
+      showToast("Failed to load mapping profiles", 'error');
+    }
+  };
+
   const fetchAssetRules = async () => {
     setLoading(true);
     try {
@@ -204,12 +303,19 @@ export default function Settings({ onBack, suggestedSku }: SettingsProps) {
         })
       });
 
+      const data = await response.json();
+      // The template is checked before the rule is saved; show what was found either way
+      setInspection(data.inspection ?? null);
+
       if (!response.ok) {
-        const data = await response.json();
         throw new Error(data.error || "Failed to create rule");
       }
 
-      showToast("Rule added successfully", 'success');
+      const warnings = data.inspection?.issues.length ?? 0;
+      showToast(
+        warnings > 0 ? `Rule added, with ${warnings} template warning(s)` : "Rule added successfully",
+        'success'
+      );
       setSkuPattern("");
       setTemplateFilename("");
       setPriority(0);
@@ -222,6 +328,22 @@ export default function Settings({ onBack, suggestedSku }: SettingsProps) {
     }
   };
 
+  const handleInspectTemplate = async (filename: string) => {
+    try {
+      const response = await fetch(`${API_URL}/templates/${encodeURIComponent(filename)}/inspect`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to inspect template");
+      }
+
+      setInspection(data);
+    } catch (error) {
+      console.error("Failed to inspect template:", error);
+      showToast(error instanceof Error ? error.message : "Failed to inspect template", 'error');
+    }
+  };
+
   const handleDeleteRule = async (id: number) => {
     if (!confirm("Are you sure you want to delete this rule?")) {
       return;
@@ -303,14 +425,15 @@ export default function Settings({ onBack, suggestedSku }: SettingsProps) {
   };
 
   useEffect(() => {
-    // Fetch general config on initial mount
+    // Fetch general config on initial mount (profiles are needed by the feed editor too)
     fetchConfig();
+    fetchMappingProfiles();
   }, []);
 
   useEffect(() => {
     if (activeTab === 'templates') {
       fetchRules();
-    } else {
+    } else if (activeTab === 'assets') {
       fetchAssetRules();
     }
   }, [activeTab]);
@@ -372,19 +495,23 @@ export default function Settings({ onBack, suggestedSku }: SettingsProps) {
             <div className="space-y-4">
               <div>
                 <label className="mb-1 block text-sm font-medium text-slate-700">
-                  Amazon Orders Feed URL / File Path
+                  Order Feeds
                 </label>
-                <input
-                  type="text"
-                  className="w-full rounded border border-slate-300 px-3 py-2 text-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
-                  placeholder="http://example.com/feed.xml or C:\Users\Name\feed.xml"
-                  value={feedUrl}
-                  onChange={(e) => setFeedUrl(e.target.value)}
-                  disabled={isSavingConfig || isTestingConnection}
-                />
-                <p className="mt-1 text-xs text-slate-500">
-                  Enter a web URL (http://...) or a local file path (C:\Users\...)
+                <p className="mb-2 text-xs text-slate-500">
+                  One feed per sales channel. Enter a web URL (http://...) or a local file path (C:\Users\...)
                 </p>
+                <FeedSourcesEditor
+                  sources={feedSources}
+                  mappingProfiles={mappingProfiles}
+                  onChange={setFeedSources}
+                  onTestConnection={handleTestConnection}
+                  testingUrl={testingUrl}
+                  onPreview={handlePreview}
+                  previewingIndex={previewingIndex}
+                  preview={preview}
+                  onClosePreview={() => setPreview(null)}
+                  disabled={isSavingConfig}
+                />
               </div>
 
               <div>
@@ -415,27 +542,130 @@ export default function Settings({ onBack, suggestedSku }: SettingsProps) {
                 </p>
               </div>
 
-              <div className="flex gap-3">
-                <button
-                  type="button"
-                  className="rounded border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
-                  onClick={handleTestConnection}
-                  disabled={feedUrl.trim() === '' || isTestingConnection || isSavingConfig}
-                >
-                  {isTestingConnection && (
-                    <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
-                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                    </svg>
+              <div>
+                <label className="mb-1 block text-sm font-medium text-slate-700">
+                  Hot Folder (optional)
+                </label>
+                <input
+                  type="text"
+                  className="w-full rounded border border-slate-300 px-3 py-2 text-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                  placeholder="e.g., \\PACKING-PC\Exports\orders"
+                  value={watchFolder}
+                  onChange={(e) => setWatchFolder(e.target.value)}
+                  disabled={isSavingConfig || isTestingConnection}
+                />
+                <p className="mt-1 text-xs text-slate-500">
+                  CSV, XML, JSON, TXT and XLSX order files saved here are imported automatically (new and changed orders only, nothing is archived).
+                  Imported files are moved to <code>processed</code>; files that fail go to <code>failed</code> with a <code>.error.txt</code> note. Leave empty to disable.
+                </p>
+              </div>
+
+              <div>
+                <label className="mb-1 block text-sm font-medium text-slate-700">
+                  Archive Retention (days)
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  className="w-32 rounded border border-slate-300 px-3 py-2 text-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                  value={archiveRetentionDays}
+                  onChange={(e) => setArchiveRetentionDays(Math.max(0, parseInt(e.target.value) || 0))}
+                  disabled={isSavingConfig || isTestingConnection}
+                />
+                <p className="mt-1 text-xs text-slate-500">
+                  Orders that drop out of the feed are archived, then permanently deleted after this many days. Use 0 to keep them forever.
+                </p>
+              </div>
+
+              <div>
+                <label className="mb-1 block text-sm font-medium text-slate-700">
+                  Automatic Sync
+                </label>
+                <div className="flex flex-wrap items-center gap-3 text-sm text-slate-700">
+                  <span>Every</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={1440}
+                    className="w-24 rounded border border-slate-300 px-3 py-2 text-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                    value={syncIntervalMinutes}
+                    onChange={(e) => setSyncIntervalMinutes(Math.min(1440, Math.max(0, parseInt(e.target.value) || 0)))}
+                    disabled={isSavingConfig || isTestingConnection}
+                  />
+                  <span>minutes</span>
+                  <label className="ml-4 flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={quietHours !== null}
+                      onChange={(e) => setQuietHours(e.target.checked ? { start: "22:00", end: "07:00" } : null)}
+                      disabled={isSavingConfig || isTestingConnection || syncIntervalMinutes === 0}
+                    />
+                    Quiet hours
+                  </label>
+                  {quietHours && (
+                    <>
+                      <input
+                        type="time"
+                        className="rounded border border-slate-300 px-2 py-1.5 text-sm"
+                        value={quietHours.start}
+                        onChange={(e) => setQuietHours({ ...quietHours, start: e.target.value })}
+                        disabled={isSavingConfig || isTestingConnection || syncIntervalMinutes === 0}
+                      />
+                      <span>to</span>
+                      <input
+                        type="time"
+                        className="rounded border border-slate-300 px-2 py-1.5 text-sm"
+                        value={quietHours.end}
+                        onChange={(e) => setQuietHours({ ...quietHours, end: e.target.value })}
+                        disabled={isSavingConfig || isTestingConnection || syncIntervalMinutes === 0}
+                      />
+                    </>
                   )}
-                  {isTestingConnection ? "Testing..." : "Test Connection"}
-                </button>
-                
+                </div>
+                <p className="mt-1 text-xs text-slate-500">
+                  Syncs all enabled feeds in the background. Use 0 to only sync with the "Aggiorna Ora" button. No automatic syncs run during quiet hours.
+                </p>
+              </div>
+
+              <div>
+                <label className="mb-1 block text-sm font-medium text-slate-700">
+                  Order Webhook Secret
+                </label>
+                <div className="flex flex-wrap items-center gap-3 text-sm text-slate-700">
+                  <input
+                    type="password"
+                    autoComplete="new-password"
+                    className="w-80 rounded border border-slate-300 px-3 py-2 text-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                    placeholder={webhookSecretSet && webhookSecret !== null ? "Secret set (type to replace)" : "At least 16 characters"}
+                    value={webhookSecret ?? ""}
+                    onChange={(e) => setWebhookSecret(e.target.value || undefined)}
+                    disabled={isSavingConfig || isTestingConnection}
+                  />
+                  {webhookSecretSet && webhookSecret !== null && (
+                    <button
+                      type="button"
+                      className="text-xs text-red-600 hover:text-red-800"
+                      onClick={() => setWebhookSecret(null)}
+                      disabled={isSavingConfig || isTestingConnection}
+                    >
+                      Disable webhook
+                    </button>
+                  )}
+                  {webhookSecret === null && (
+                    <span className="text-xs text-red-600">Webhook will be disabled on save</span>
+                  )}
+                </div>
+                <p className="mt-1 text-xs text-slate-500">
+                  Orders can be pushed to <code>POST /webhooks/orders</code>, signed with an HMAC-SHA256 of the body in the <code>X-Webhook-Signature</code> header. Webhook orders are never archived by a feed sync.
+                </p>
+              </div>
+
+              <div className="flex gap-3">
                 <button
                   type="button"
                   className="rounded bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
                   onClick={handleSave}
-                  disabled={(feedUrl.trim() === initialFeedUrl && templatesPath === initialTemplatesPath) || isSavingConfig || isTestingConnection}
+                  disabled={(JSON.stringify(feedSources) === JSON.stringify(initialFeedSources) && templatesPath === initialTemplatesPath && watchFolder === initialWatchFolder && archiveRetentionDays === initialArchiveRetentionDays && syncIntervalMinutes === initialSyncIntervalMinutes && JSON.stringify(quietHours) === JSON.stringify(initialQuietHours) && webhookSecret === undefined) || isSavingConfig || isTestingConnection}
                 >
                   {isSavingConfig && (
                     <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
@@ -472,8 +702,58 @@ export default function Settings({ onBack, suggestedSku }: SettingsProps) {
           >
             Design Assets
           </button>
+          <button
+            className={`px-4 py-2 text-sm font-medium transition-colors ${
+              activeTab === 'mappings'
+                ? 'border-b-2 border-indigo-600 text-indigo-600'
+                : 'text-slate-600 hover:text-slate-900'
+            }`}
+            onClick={() => setActiveTab('mappings')}
+          >
+            Field Mapping
+          </button>
+          <button
+            className={`px-4 py-2 text-sm font-medium transition-colors ${
+              activeTab === 'personalization'
+                ? 'border-b-2 border-indigo-600 text-indigo-600'
+                : 'text-slate-600 hover:text-slate-900'
+            }`}
+            onClick={() => setActiveTab('personalization')}
+          >
+            Personalization
+          </button>
+          <button
+            className={`px-4 py-2 text-sm font-medium transition-colors ${
+              activeTab === 'engraving'
+                ? 'border-b-2 border-indigo-600 text-indigo-600'
+                : 'text-slate-600 hover:text-slate-900'
+            }`}
+            onClick={() => setActiveTab('engraving')}
+          >
+            Engraving Text
+          </button>
         </div>
 
+        {/* Field Mapping Tab */}
+        {activeTab === 'mappings' && (
+          <MappingProfilesTab
+            profiles={mappingProfiles}
+            feedSources={feedSources}
+            onProfilesChanged={fetchMappingProfiles}
+            showToast={showToast}
+          />
+        )}
+
+        {/* Personalization Tab */}
+        {activeTab === 'personalization' && (
+          <PersonalizationTab showToast={showToast} />
+        )}
+
+        {/* Engraving Text Tab */}
+        {activeTab === 'engraving' && (
+          <EngravingTextTab showToast={showToast} />
+        )}
+
         {/* Template Rules Tab */}
         {activeTab === 'templates' && (
           <>
@@ -579,7 +859,13 @@ export default function Settings({ onBack, suggestedSku }: SettingsProps) {
                         {rule.templateFilename}
                       </td>
                       <td className="px-4 py-3 text-slate-600">{rule.priority}</td>
-                      <td className="px-4 py-3">
+                      <td className="px-4 py-3 space-x-2">
+                        <button
+                          className="rounded border border-slate-300 bg-white px-3 py-1 text-xs font-medium text-slate-700 hover:bg-slate-50"
+                          onClick={() => handleInspectTemplate(rule.templateFilename)}
+                        >
+                          Inspect
+                        </button>
                         <button
                           className="rounded bg-red-600 px-3 py-1 text-xs font-medium text-white hover:bg-red-700"
                           onClick={() => handleDeleteRule(rule.id)}
@@ -594,6 +880,10 @@ export default function Settings({ onBack, suggestedSku }: SettingsProps) {
             </table>
           </div>
         </section>
+
+        {inspection && (
+          <TemplateInspectionPanel inspection={inspection} onClose={() => setInspection(null)} />
+        )}
           </>
         )}
 
@@ -0,0 +1,131 @@
+import type { FeedAdapter, PreviewOrder, SyncPreview } from "./types";
+
+const ADAPTER_LABELS: Record<FeedAdapter, string> = {
+  amazon: "Amazon order report",
+  etsy: "Etsy order export",
+  shopify: "Shopify orders export"
+};
+
+type SyncPreviewPanelProps = {
+  preview: SyncPreview;
+  onClose: () => void;
+};
+
+function OrderList({ title, total, orders, className }: {
+  title: string;
+  total: number;
+  orders: PreviewOrder[];
+  className: string;
+}) {
+  if (total === 0) {
+    return null;
+  }
+
+  return (
+    <details className="rounded border border-slate-200 bg-white">
+      <summary className={`cursor-pointer px-3 py-2 text-sm font-medium ${className}`}>
+        {title} ({total})
+      </summary>
+      <ul className="max-h-48 overflow-y-auto divide-y divide-slate-100 text-xs">
+        {orders.map(order => (
+          <li key={order.orderId} className="flex gap-3 px-3 py-1.5 text-slate-600">
+            <span className="font-mono text-slate-800">{order.orderId}</span>
+            <span>{order.sku ?? "-"}</span>
+            <span className="truncate">{order.buyerName ?? ""}</span>
+          </li>
+        ))}
+        {total > orders.length && (
+          <li className="px-3 py-1.5 text-slate-400">...and {total - orders.length} more</li>
+        )}
+      </ul>
+    </details>
+  );
+}
+
+export default function SyncPreviewPanel({ preview, onClose }: SyncPreviewPanelProps) {
+  return (
+    <div className="rounded border border-indigo-200 bg-indigo-50 p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-indigo-900">
+          Preview: {preview.totalParsed} record(s) in feed, nothing saved
+        </h3>
+        <button
+          type="button"
+          className="text-xs text-indigo-700 hover:text-indigo-900"
+          onClick={onClose}
+        >
+          Close
+        </button>
+      </div>
+
+      {preview.adapter && (
+        <p className="text-xs text-indigo-800">
+          Recognised as {ADAPTER_LABELS[preview.adapter]}, mapped with its built-in columns.
+        </p>
+      )}
+
+      <p className="text-xs text-indigo-800">
+        {preview.added} new · {preview.updated} updated · {preview.archived} archived · {preview.restored} restored · {preview.duplicates} unchanged · {preview.skipped} skipped
+      </p>
+
+      {preview.warnings.map(warning => (
+        <p key={warning} className="rounded border border-amber-200 bg-amber-50 px-2 py-1 text-xs text-amber-800">
+          {warning}
+        </p>
+      ))}
+
+      <OrderList title="Would be added" total={preview.added} orders={preview.toAdd} className="text-emerald-700" />
+      <OrderList title="Would be updated" total={preview.updated} orders={preview.toUpdate} className="text-indigo-700" />
+      <OrderList title="Would be archived" total={preview.archived} orders={preview.toArchive} className="text-red-700" />
+
+      {preview.skipped > 0 && (
+        <details className="rounded border border-slate-200 bg-white" open={preview.added + preview.updated === 0}>
+          <summary className="cursor-pointer px-3 py-2 text-sm font-medium text-amber-700">
+            Skipped rows ({preview.skipped})
+          </summary>
+          <ul className="max-h-48 overflow-y-auto divide-y divide-slate-100 text-xs">
+            {preview.skippedRecords.map(record => (
+              <li key={record.row} className="px-3 py-1.5 text-slate-600">
+                <span className="font-medium text-slate-800">Row {record.row}</span>
+                {record.orderId && <span className="ml-2 font-mono">{record.orderId}</span>}
+                <span className="ml-2">{record.reason}</span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      {preview.samples.length > 0 && (
+        <details className="rounded border border-slate-200 bg-white">
+          <summary className="cursor-pointer px-3 py-2 text-sm font-medium text-slate-700">
+            Sample records
+          </summary>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-xs">
+              <thead className="bg-slate-100 text-left text-slate-500">
+                <tr>
+                  <th className="px-3 py-1.5">Order ID</th>
+                  <th className="px-3 py-1.5">SKU</th>
+                  <th className="px-3 py-1.5">Buyer</th>
+                  <th className="px-3 py-1.5">Custom Field</th>
+                  <th className="px-3 py-1.5">Purchase Date</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 text-slate-600">
+                {preview.samples.map((sample, index) => (
+                  <tr key={index}>
+                    <td className="px-3 py-1.5 font-mono">{sample.orderId ?? <span className="text-red-600">missing</span>}</td>
+                    <td className="px-3 py-1.5">{sample.sku ?? "-"}</td>
+                    <td className="px-3 py-1.5">{sample.buyerName ?? "-"}</td>
+                    <td className="px-3 py-1.5 max-w-xs truncate" title={sample.customField}>{sample.customField ?? "-"}</td>
+                    <td className="px-3 py-1.5">{sample.purchaseDate ?? "-"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </details>
+      )}
+    </div>
+  );
+}
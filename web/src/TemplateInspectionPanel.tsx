@@ -0,0 +1,172 @@
+import type { TemplateInspection } from "./types";
+
+const SIDE_LABELS: Record<TemplateInspection['side'], string> = {
+  front: 'Front',
+  retro: 'Retro',
+  generic: 'Generic (front)'
+};
+
+const formatNumber = (value: number | null | undefined, unit = '') =>
+  value === null || value === undefined ? '—' : `${value}${unit}`;
+
+interface TemplateInspectionPanelProps {
+  inspection: TemplateInspection;
+  onClose: () => void;
+}
+
+export default function TemplateInspectionPanel({ inspection, onClose }: TemplateInspectionPanelProps) {
+  const { material } = inspection;
+
+  return (
+    <section className="rounded-lg border border-slate-200 bg-white shadow-sm">
+      <div className="flex items-center justify-between border-b border-slate-200 px-4 py-3">
+        <h2 className="text-sm font-medium text-slate-700">
+          {inspection.filename}{' '}
+          <span className="ml-2 rounded-full bg-slate-100 px-2 py-0.5 text-xs text-slate-600">
+            {SIDE_LABELS[inspection.side]}
+          </span>
+          <span
+            className={`ml-2 rounded-full px-2 py-0.5 text-xs ${
+              inspection.valid ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+            }`}
+          >
+            {inspection.valid ? 'Valid' : 'Invalid'}
+          </span>
+        </h2>
+        <button type="button" className="text-sm text-slate-500 hover:text-slate-800" onClick={onClose}>
+          Close
+        </button>
+      </div>
+
+      <div className="space-y-4 px-4 py-4 text-sm">
+        {inspection.issues.length > 0 && (
+          <ul className="space-y-1">
+            {inspection.issues.map((issue, index) => (
+              <li key={index} className={issue.level === 'error' ? 'text-red-600' : 'text-amber-600'}>
+                {issue.level === 'error' ? 'Error' : 'Warning'}: {issue.message}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div>
+          <h3 className="mb-1 text-xs font-semibold uppercase tracking-wide text-slate-500">Placeholders</h3>
+          {inspection.placeholders.length === 0 ? (
+            <p className="text-slate-500">None</p>
+          ) : (
+            <table className="min-w-full divide-y divide-slate-200 text-xs">
+              <thead className="bg-slate-100 text-left uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="px-3 py-2">Shape Name</th>
+                  <th className="px-3 py-2">Type</th>
+                  <th className="px-3 py-2">Font</th>
+                  <th className="px-3 py-2">Height</th>
+                  <th className="px-3 py-2">Fit Box</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {inspection.placeholders.map((placeholder, index) => (
+                  <tr key={index}>
+                    <td className="px-3 py-2 font-mono text-slate-700">
+                      {placeholder.name}
+                      {inspection.required.includes(placeholder.key) && (
+                        <span className="ml-1 text-slate-400">(required)</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-slate-600">{placeholder.type}</td>
+                    <td className="px-3 py-2 text-slate-600">{placeholder.font ?? '—'}</td>
+                    <td className="px-3 py-2 text-slate-600">{formatNumber(placeholder.height, ' mm')}</td>
+                    <td className="px-3 py-2 text-slate-600">
+                      {placeholder.maxWidth
+                        ? `${placeholder.maxWidth}${placeholder.maxHeight ? ` × ${placeholder.maxHeight}` : ''} mm`
+                        : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <div>
+            <h3 className="mb-1 text-xs font-semibold uppercase tracking-wide text-slate-500">Fonts</h3>
+            {inspection.fonts.length === 0 ? (
+              <p className="text-slate-500">None</p>
+            ) : (
+              <ul>
+                {inspection.fonts.map(font => (
+                  <li key={font.family} className={font.found ? 'text-slate-700' : 'text-amber-600'}>
+                    {font.family} {font.found ? '' : '(not in assets)'}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <div>
+            <h3 className="mb-1 text-xs font-semibold uppercase tracking-wide text-slate-500">Images</h3>
+            {inspection.images.length === 0 ? (
+              <p className="text-slate-500">None</p>
+            ) : (
+              <ul>
+                {inspection.images.map((image, index) => (
+                  <li
+                    key={index}
+                    className={image.found || image.placeholder || image.embedded ? 'text-slate-700' : 'text-red-600'}
+                    title={image.file ?? undefined}
+                  >
+                    {image.name || image.file?.split(/[\\/]/).pop() || '(unnamed)'}
+                    {image.placeholder ? ' (design image)' : image.found ? '' : image.embedded ? ' (embedded)' : ' (missing)'}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <div>
+            <h3 className="mb-1 text-xs font-semibold uppercase tracking-wide text-slate-500">Material</h3>
+            <p className="text-slate-700">
+              Size: {material.width && material.height ? `${material.width} × ${material.height} mm` : '—'}
+            </p>
+            <p className="text-slate-700">Thickness: {formatNumber(material.thickness, ' mm')}</p>
+          </div>
+        </div>
+
+        <div>
+          <h3 className="mb-1 text-xs font-semibold uppercase tracking-wide text-slate-500">Cut Settings</h3>
+          {inspection.cutSettings.length === 0 ? (
+            <p className="text-slate-500">None</p>
+          ) : (
+            <table className="min-w-full divide-y divide-slate-200 text-xs">
+              <thead className="bg-slate-100 text-left uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="px-3 py-2">Layer</th>
+                  <th className="px-3 py-2">Mode</th>
+                  <th className="px-3 py-2">Speed</th>
+                  <th className="px-3 py-2">Power</th>
+                  <th className="px-3 py-2">Passes</th>
+                  <th className="px-3 py-2">Shapes</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {inspection.cutSettings.map(setting => (
+                  <tr key={setting.index}>
+                    <td className="px-3 py-2 text-slate-700">{setting.name ?? setting.index}</td>
+                    <td className="px-3 py-2 text-slate-600">{setting.type ?? '—'}</td>
+                    <td className="px-3 py-2 text-slate-600">{formatNumber(setting.speed)}</td>
+                    <td className="px-3 py-2 text-slate-600">
+                      {setting.minPower !== null && setting.minPower !== setting.maxPower
+                        ? `${setting.minPower}–${formatNumber(setting.maxPower)}%`
+                        : formatNumber(setting.maxPower, '%')}
+                    </td>
+                    <td className="px-3 py-2 text-slate-600">{formatNumber(setting.passes)}</td>
+                    <td className="px-3 py-2 text-slate-600">{setting.shapes}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -2,9 +2,66 @@
  * Core type definitions for the Victoria Laser App
  */
 
+export type SideStatus = 'pending' | 'processing' | 'printed' | 'error';
+
+export type RetroStatus = SideStatus | 'not_required';
+
+export type PersonalizationText = {
+  label: string;
+  text: string;
+};
+
+// One printable surface of an Amazon Custom product with the buyer's choices
+export type PersonalizationSurface = {
+  name: string;
+  side: 'front' | 'retro' | null;
+  texts: PersonalizationText[];
+  font: string | null;
+  color: string | null;
+  image: string | null;
+  options: PersonalizationText[];
+};
+
+// Parsed at import: values by key (name, color, image, ...; 'note' for unlabelled text)
+// and, for Amazon Custom items, the surfaces
+export type Personalization = {
+  fields: Record<string, string>;
+  surfaces: PersonalizationSurface[];
+};
+
+// Personalization keys with the labels that introduce them ("Nome:", "Colore:")
+export type PersonalizationKeys = Record<string, string[]>;
+
+// One line item of an order, with its own quantity and print status
+export type OrderItem = {
+  id: number;
+  orderId: string;
+  // Feed order item ID, or the row position within the order
+  itemKey: string;
+  position: number;
+  sku: string | null;
+  quantity: number;
+  customField: string | null;
+  personalization?: Personalization | null;
+  detectedColor?: string | null;
+  fronteStatus: SideStatus;
+  fronteErrorMessage?: string | null;
+  fronteAttemptCount?: number;
+  fronteProcessedAt?: string | null;
+  // Set when the feed changed this line after the side was engraved, until it is engraved again
+  fronteChangedAfterPrint?: boolean;
+  retroStatus: RetroStatus;
+  retroErrorMessage?: string | null;
+  retroAttemptCount?: number;
+  retroProcessedAt?: string | null;
+  retroChangedAfterPrint?: boolean;
+};
+
 export type Order = {
   id: number;
   orderId: string;
+  // Feed source id (sales channel) the order was imported from, or 'webhook'/'manual'
+  source: string;
   purchaseDate: string | null;
   sku: string | null;
   buyerName: string | null;
@@ -24,4 +81,212 @@ export type Order = {
   retroErrorMessage?: string | null;
   retroAttemptCount?: number;
   retroProcessedAt?: string | null;
+  // Set when the order dropped out of the feed (soft-deleted)
+  archivedAt?: string | null;
+  // Set when the feed record changed after a side was already engraved
+  changedAfterPrint?: boolean;
+  // Set when SKU, buyer or personalization were corrected by hand (raw keeps the original)
+  editedAt?: string | null;
+  // Line items; the side statuses above are rolled up from these
+  items?: OrderItem[];
+};
+
+export type FeedFormat = 'auto' | 'csv' | 'json' | 'xml' | 'amazon' | 'xlsx';
+
+export type FeedDelimiter = 'auto' | ',' | ';' | '\t' | '|';
+
+export type FeedEncoding = 'auto' | 'utf-8' | 'windows-1252';
+
+export type FeedAuthMode = 'none' | 'basic' | 'bearer' | 'header';
+
+export type FeedAuth = {
+  mode: FeedAuthMode;
+  username?: string;
+  headerName?: string;
+  // Only sent when entered; GET /config never returns it
+  secret?: string;
+  // Whether a secret is stored for the saved feed
+  secretSet?: boolean;
+};
+
+export type FeedHeader = {
+  name: string;
+  value: string;
+};
+
+export type FeedSource = {
+  id: string;
+  name: string;
+  url: string;
+  format: FeedFormat;
+  // CSV separator and charset; 'auto' (or unset) sniffs them from the file
+  delimiter?: FeedDelimiter;
+  encoding?: FeedEncoding;
+  // Worksheet of an Excel feed (name, or 1-based position; first sheet when unset) and its header row (1-based)
+  sheet?: string | number;
+  headerRow?: number;
+  // null = default mapping profile
+  mappingProfileId: number | null;
+  // Folder with extracted Amazon Custom files (<order-item-id>.json or <order-id>.json)
+  customizationPath?: string | null;
+  auth?: FeedAuth;
+  headers?: FeedHeader[];
+  enabled: boolean;
+};
+
+export type MappableField = 'orderId' | 'purchaseDate' | 'status' | 'customField' | 'sku' | 'buyerName' | 'orderItemId' | 'quantity' | 'customization';
+
+export type FieldTransform = 'uppercase' | 'lowercase' | 'collapse_whitespace' | 'iso_date';
+
+export type FieldRule = {
+  paths: string[];
+  constant?: string;
+  transform?: FieldTransform;
+};
+
+export type MappingProfile = {
+  id: number;
+  name: string;
+  recordPath: string | null;
+  fields: Partial<Record<MappableField, FieldRule>>;
+  isDefault: boolean;
+};
+
+export type MappingPreview = {
+  totalRecords: number;
+  rows: {
+    raw: Record<string, unknown>;
+    normalized: Partial<Record<MappableField, string>> & { raw: string };
+  }[];
+};
+
+export type QuietHours = {
+  start: string;
+  end: string;
+};
+
+export type SyncStatus = {
+  running: boolean;
+  lastRunAt: string | null;
+  lastSuccessAt: string | null;
+  lastTrigger: 'manual' | 'scheduled' | null;
+  nextRunAt: string | null;
+  lastError: string | null;
+  intervalMinutes: number;
+  quietHours: QuietHours | null;
+};
+
+export type PreviewOrder = {
+  orderId: string;
+  sku: string | null;
+  buyerName: string | null;
+  customField: string | null;
+};
+
+export type SkippedRecord = {
+  source: string;
+  row: number;
+  orderId?: string;
+  reason: string;
+};
+
+export type FeedAdapter = 'amazon' | 'etsy' | 'shopify';
+
+export type SourceSyncResult = {
+  source: string;
+  name: string;
+  added: number;
+  duplicates: number;
+  updated: number;
+  changedAfterPrint: string[];
+  archived: number;
+  restored: number;
+  skipped: number;
+  totalParsed: number;
+  adapter?: FeedAdapter | null;
+  // Feed identical to the last successful sync; nothing was imported
+  unchanged?: boolean;
+  // e.g. text with replacement characters from a wrongly decoded feed
+  warnings?: string[];
+  error?: string;
+};
+
+export type SyncResult = {
+  added: number;
+  duplicates: number;
+  updated: number;
+  changedAfterPrint: string[];
+  archived: number;
+  restored: number;
+  deleted: number;
+  skipped: number;
+  totalParsed: number;
+  sources: SourceSyncResult[];
+  unchanged?: boolean;
+  // Source warnings, prefixed with the source name
+  warnings: string[];
+  runId: number;
+};
+
+export type SyncPreview = {
+  source: string;
+  adapter: FeedAdapter | null;
+  totalParsed: number;
+  added: number;
+  updated: number;
+  archived: number;
+  restored: number;
+  duplicates: number;
+  skipped: number;
+  warnings: string[];
+  toAdd: PreviewOrder[];
+  toUpdate: (PreviewOrder & { changedAfterPrint: boolean })[];
+  toArchive: PreviewOrder[];
+  toRestore: string[];
+  skippedRecords: SkippedRecord[];
+  samples: {
+    orderId?: string;
+    purchaseDate?: string;
+    customField?: string;
+    sku?: string;
+    buyerName?: string;
+    raw: string;
+  }[];
+};
+
+// GET /templates/:filename/inspect
+export type TemplateIssue = {
+  level: 'error' | 'warning';
+  message: string;
+};
+
+export type TemplateInspection = {
+  filename: string;
+  side: 'front' | 'retro' | 'generic';
+  placeholders: {
+    name: string;
+    key: string;
+    optional: boolean;
+    type: 'text' | 'image';
+    maxWidth?: number;
+    maxHeight?: number;
+    font?: string;
+    height?: number;
+  }[];
+  fonts: { family: string; found: boolean }[];
+  images: { name: string | null; file: string | null; embedded: boolean; found: boolean; placeholder: boolean }[];
+  cutSettings: {
+    index: number;
+    name: string | null;
+    type: string | null;
+    speed: number | null;
+    maxPower: number | null;
+    minPower: number | null;
+    passes: number | null;
+    shapes: number;
+  }[];
+  material: { thickness: number | null; width: number | null; height: number | null };
+  required: string[];
+  issues: TemplateIssue[];
+  valid: boolean;
 };